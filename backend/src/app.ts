@@ -7,10 +7,16 @@ import { ZodError } from "zod";
 import { backendEnv } from "./config/env";
 import { registerEnsIdentitySyncJob } from "./jobs/ens-identity-sync";
 import { registerEnsReconciliationJob } from "./jobs/ens-reconciliation";
+import { registerEnsExpiryReminderJob } from "./jobs/ens-expiry-reminders";
+import { registerEnsLogIndexerJob } from "./jobs/ens-log-indexer";
+import { registerEnsRecordsSyncJob } from "./jobs/ens-records-sync";
 import { registerEnsWebhookRetryJob } from "./jobs/ens-webhook-retry";
 import { registerEnsTxWatcherJob } from "./jobs/ens-tx-watcher";
+import { registerForumPollCloseJob } from "./jobs/forum-poll-close";
 import { registerForumSearchSyncJob } from "./jobs/forum-search-sync";
+import { registerForumTrendScoreJob } from "./jobs/forum-trend-score";
 import { registerOpsRetentionJob } from "./jobs/ops-retention";
+import { registerOutboundWebhookDeliveryJob } from "./jobs/outbound-webhooks";
 import { HttpError } from "./lib/http-error";
 import { apiKeyRoutes } from "./routes/api-keys";
 import { authBridgeRoutes } from "./routes/auth-bridge";
@@ -18,11 +24,14 @@ import { emailVerificationRoutes } from "./routes/email-verification";
 import { ensRoutes } from "./routes/ens";
 import { forumRoutes } from "./routes/forum";
 import { healthRoutes } from "./routes/health";
+import { integrationRoutes } from "./routes/integrations";
 import { internalEnsOpsRoutes } from "./routes/internal-ens-ops";
 import { internalWorkersRoutes } from "./routes/internal-workers";
 import { meRoutes } from "./routes/me";
 import { metricsRoutes } from "./routes/metrics";
 import { networkRoutes } from "./routes/network";
+import { organizationRoutes } from "./routes/organizations";
+import { outboundWebhookRoutes } from "./routes/outbound-webhooks";
 import { passwordRoutes } from "./routes/password";
 import { reconciliationRoutes } from "./routes/reconciliation";
 import { siweRoutes } from "./routes/siwe";
@@ -61,6 +70,9 @@ export const buildApp = () => {
   app.register(siweRoutes);
   app.register(meRoutes);
   app.register(apiKeyRoutes);
+  app.register(integrationRoutes);
+  app.register(outboundWebhookRoutes);
+  app.register(organizationRoutes);
   app.register(ensRoutes);
   app.register(forumRoutes);
   app.register(metricsRoutes);
@@ -92,8 +104,14 @@ export const buildApp = () => {
   registerEnsWebhookRetryJob(app);
   registerEnsTxWatcherJob(app);
   registerEnsIdentitySyncJob(app);
+  registerEnsRecordsSyncJob(app);
+  registerEnsExpiryReminderJob(app);
+  registerEnsLogIndexerJob(app);
   registerForumSearchSyncJob(app);
+  registerForumPollCloseJob(app);
+  registerForumTrendScoreJob(app);
   registerOpsRetentionJob(app);
+  registerOutboundWebhookDeliveryJob(app);
 
   app.setErrorHandler((error, request, reply) => {
     request.log.error({ err: error }, "Request failed");
@@ -68,6 +68,26 @@ const envSchema = z.object({
   ENS_IDENTITY_SYNC_INTERVAL_MS: z.coerce.number().int().min(0).default(0),
   ENS_IDENTITY_SYNC_LIMIT: z.coerce.number().int().positive().default(100),
   ENS_IDENTITY_SYNC_STALE_MINUTES: z.coerce.number().int().positive().default(60),
+  ENS_RECORDS_SYNC_INTERVAL_MS: z.coerce.number().int().min(0).default(0),
+  ENS_RECORDS_SYNC_LIMIT: z.coerce.number().int().positive().default(100),
+  ENS_RECORDS_SYNC_STALE_MINUTES: z.coerce.number().int().positive().default(360),
+  ENS_EXPIRY_REMINDER_INTERVAL_MS: z.coerce.number().int().min(0).default(0),
+  ENS_EXPIRY_REMINDER_LIMIT: z.coerce.number().int().positive().default(200),
+  ENS_EXPIRY_GRACE_PERIOD_DAYS: z.coerce.number().int().positive().default(90),
+  ENS_RENEWAL_URL: z.string().min(1).default("http://localhost:3000/ens/renew"),
+  ENS_LOG_INDEXER_INTERVAL_MS: z.coerce.number().int().min(0).default(0),
+  ENS_LOG_INDEXER_BLOCK_BATCH: z.coerce.number().int().positive().default(2000),
+  ENS_LOG_INDEXER_REORG_DEPTH: z.coerce.number().int().min(0).default(12),
+  ENS_LOG_INDEXER_START_BLOCK: z.coerce.number().int().min(0).optional(),
+  OUTBOUND_WEBHOOK_INTERVAL_MS: z.coerce.number().int().min(0).default(0),
+  OUTBOUND_WEBHOOK_BATCH_LIMIT: z.coerce.number().int().positive().default(50),
+  OUTBOUND_WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().positive().default(8),
+  OUTBOUND_WEBHOOK_BASE_DELAY_MS: z.coerce.number().int().positive().default(10000),
+  OUTBOUND_WEBHOOK_MAX_DELAY_MS: z.coerce.number().int().positive().default(3600000),
+  OUTBOUND_WEBHOOK_TIMEOUT_MS: z.coerce.number().int().positive().default(10000),
+  OUTBOUND_WEBHOOK_MAX_SUBSCRIPTIONS: z.coerce.number().int().positive().default(10),
+  OUTBOUND_WEBHOOK_ALLOW_HTTP: z.string().optional(),
+  OUTBOUND_WEBHOOK_ALLOW_PRIVATE_NETWORKS: z.string().optional(),
   OPS_RETENTION_INTERVAL_MS: z.coerce.number().int().min(0).default(0),
   OPS_RETENTION_BATCH_LIMIT: z.coerce.number().int().positive().default(500),
   OPS_WEBHOOK_PROCESSED_RETENTION_DAYS: z.coerce.number().int().positive().default(7),
@@ -78,6 +98,11 @@ const envSchema = z.object({
   FORUM_SEARCH_SYNC_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),
   FORUM_SEARCH_SYNC_BASE_DELAY_MS: z.coerce.number().int().positive().default(5000),
   FORUM_SEARCH_SYNC_MAX_DELAY_MS: z.coerce.number().int().positive().default(300000),
+  FORUM_POLL_CLOSE_INTERVAL_MS: z.coerce.number().int().min(0).default(0),
+  FORUM_POLL_CLOSE_BATCH_LIMIT: z.coerce.number().int().positive().default(100),
+  FORUM_TREND_INTERVAL_MS: z.coerce.number().int().min(0).default(0),
+  FORUM_TREND_WINDOW_HOURS: z.coerce.number().int().positive().default(168),
+  FORUM_TREND_HALF_LIFE_HOURS: z.coerce.number().positive().default(24),
   MEILI_URL: z.string().optional(),
   MEILI_API_KEY: z.string().optional(),
   MEILI_FORUM_INDEX_UID: z.string().min(1).default("forum_content"),
@@ -102,6 +127,7 @@ const envSchema = z.object({
   API_KEY_RATE_LIMIT_REDIS_PREFIX: z.string().min(1).default("evergreen:api-key"),
   API_KEY_RATE_LIMIT_REDIS_CONNECT_TIMEOUT_MS: z.coerce.number().int().positive().default(2000),
   API_KEY_CONCURRENCY_SLOT_TTL_SECONDS: z.coerce.number().int().positive().default(120),
+  WALLET_SESSION_FRESH_SECONDS: z.coerce.number().int().positive().default(300),
   AUTH_ENDPOINT_SIGN_IN_EMAIL: z.string().regex(/^\/.+/).default("/api/auth/sign-in/email"),
   AUTH_ENDPOINT_SIGN_UP_EMAIL: z.string().regex(/^\/.+/).default("/api/auth/sign-up/email"),
   AUTH_ENDPOINT_SEND_VERIFICATION_EMAIL: z.string().regex(/^\/.+/).default("/api/auth/send-verification-email"),
@@ -169,6 +195,28 @@ export type BackendEnv = {
   ensIdentitySyncIntervalMs: number;
   ensIdentitySyncLimit: number;
   ensIdentitySyncStaleMinutes: number;
+  ensRecordsSyncIntervalMs: number;
+  ensRecordsSyncLimit: number;
+  ensRecordsSyncStaleMinutes: number;
+  ensExpiryReminderIntervalMs: number;
+  ensExpiryReminderLimit: number;
+  ensExpiryGracePeriodDays: number;
+  ensRenewalUrl: string;
+  ensLogIndexerIntervalMs: number;
+  ensLogIndexerBlockBatch: number;
+  ensLogIndexerReorgDepth: number;
+  ensLogIndexerStartBlock: number | null;
+  outboundWebhook: {
+    intervalMs: number;
+    batchLimit: number;
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    timeoutMs: number;
+    maxSubscriptions: number;
+    allowHttp: boolean;
+    allowPrivateNetworks: boolean;
+  };
   opsRetentionIntervalMs: number;
   opsRetentionBatchLimit: number;
   opsWebhookProcessedRetentionDays: number;
@@ -179,6 +227,11 @@ export type BackendEnv = {
   forumSearchSyncMaxAttempts: number;
   forumSearchSyncBaseDelayMs: number;
   forumSearchSyncMaxDelayMs: number;
+  forumPollCloseIntervalMs: number;
+  forumPollCloseBatchLimit: number;
+  forumTrendIntervalMs: number;
+  forumTrendWindowHours: number;
+  forumTrendHalfLifeHours: number;
   meiliUrl: string | null;
   meiliApiKey: string | null;
   meiliForumIndexUid: string;
@@ -207,6 +260,7 @@ export type BackendEnv = {
       concurrencySlotTtlSeconds: number;
     };
   };
+  walletSessionFreshSeconds: number;
   authEndpoints: {
     signInEmail: string;
     signUpEmail: string;
@@ -245,6 +299,28 @@ export const backendEnv: BackendEnv = {
   ensIdentitySyncIntervalMs: parsed.data.ENS_IDENTITY_SYNC_INTERVAL_MS,
   ensIdentitySyncLimit: parsed.data.ENS_IDENTITY_SYNC_LIMIT,
   ensIdentitySyncStaleMinutes: parsed.data.ENS_IDENTITY_SYNC_STALE_MINUTES,
+  ensRecordsSyncIntervalMs: parsed.data.ENS_RECORDS_SYNC_INTERVAL_MS,
+  ensRecordsSyncLimit: parsed.data.ENS_RECORDS_SYNC_LIMIT,
+  ensRecordsSyncStaleMinutes: parsed.data.ENS_RECORDS_SYNC_STALE_MINUTES,
+  ensExpiryReminderIntervalMs: parsed.data.ENS_EXPIRY_REMINDER_INTERVAL_MS,
+  ensExpiryReminderLimit: parsed.data.ENS_EXPIRY_REMINDER_LIMIT,
+  ensExpiryGracePeriodDays: parsed.data.ENS_EXPIRY_GRACE_PERIOD_DAYS,
+  ensRenewalUrl: parsed.data.ENS_RENEWAL_URL,
+  ensLogIndexerIntervalMs: parsed.data.ENS_LOG_INDEXER_INTERVAL_MS,
+  ensLogIndexerBlockBatch: parsed.data.ENS_LOG_INDEXER_BLOCK_BATCH,
+  ensLogIndexerReorgDepth: parsed.data.ENS_LOG_INDEXER_REORG_DEPTH,
+  ensLogIndexerStartBlock: parsed.data.ENS_LOG_INDEXER_START_BLOCK ?? null,
+  outboundWebhook: {
+    intervalMs: parsed.data.OUTBOUND_WEBHOOK_INTERVAL_MS,
+    batchLimit: parsed.data.OUTBOUND_WEBHOOK_BATCH_LIMIT,
+    maxAttempts: parsed.data.OUTBOUND_WEBHOOK_MAX_ATTEMPTS,
+    baseDelayMs: parsed.data.OUTBOUND_WEBHOOK_BASE_DELAY_MS,
+    maxDelayMs: parsed.data.OUTBOUND_WEBHOOK_MAX_DELAY_MS,
+    timeoutMs: parsed.data.OUTBOUND_WEBHOOK_TIMEOUT_MS,
+    maxSubscriptions: parsed.data.OUTBOUND_WEBHOOK_MAX_SUBSCRIPTIONS,
+    allowHttp: parseBoolean(parsed.data.OUTBOUND_WEBHOOK_ALLOW_HTTP, false),
+    allowPrivateNetworks: parseBoolean(parsed.data.OUTBOUND_WEBHOOK_ALLOW_PRIVATE_NETWORKS, false),
+  },
   opsRetentionIntervalMs: parsed.data.OPS_RETENTION_INTERVAL_MS,
   opsRetentionBatchLimit: parsed.data.OPS_RETENTION_BATCH_LIMIT,
   opsWebhookProcessedRetentionDays: parsed.data.OPS_WEBHOOK_PROCESSED_RETENTION_DAYS,
@@ -255,6 +331,11 @@ export const backendEnv: BackendEnv = {
   forumSearchSyncMaxAttempts: parsed.data.FORUM_SEARCH_SYNC_MAX_ATTEMPTS,
   forumSearchSyncBaseDelayMs: parsed.data.FORUM_SEARCH_SYNC_BASE_DELAY_MS,
   forumSearchSyncMaxDelayMs: parsed.data.FORUM_SEARCH_SYNC_MAX_DELAY_MS,
+  forumPollCloseIntervalMs: parsed.data.FORUM_POLL_CLOSE_INTERVAL_MS,
+  forumPollCloseBatchLimit: parsed.data.FORUM_POLL_CLOSE_BATCH_LIMIT,
+  forumTrendIntervalMs: parsed.data.FORUM_TREND_INTERVAL_MS,
+  forumTrendWindowHours: parsed.data.FORUM_TREND_WINDOW_HOURS,
+  forumTrendHalfLifeHours: parsed.data.FORUM_TREND_HALF_LIFE_HOURS,
   meiliUrl: parsed.data.MEILI_URL?.trim() || null,
   meiliApiKey: parsed.data.MEILI_API_KEY?.trim() || null,
   meiliForumIndexUid: parsed.data.MEILI_FORUM_INDEX_UID,
@@ -283,6 +364,7 @@ export const backendEnv: BackendEnv = {
       concurrencySlotTtlSeconds: parsed.data.API_KEY_CONCURRENCY_SLOT_TTL_SECONDS,
     },
   },
+  walletSessionFreshSeconds: parsed.data.WALLET_SESSION_FRESH_SECONDS,
   authEndpoints: {
     signInEmail: parsed.data.AUTH_ENDPOINT_SIGN_IN_EMAIL,
     signUpEmail: parsed.data.AUTH_ENDPOINT_SIGN_UP_EMAIL,
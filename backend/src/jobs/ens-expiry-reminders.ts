@@ -0,0 +1,118 @@
+import { randomUUID } from "node:crypto";
+
+import type { FastifyInstance } from "fastify";
+
+import { backendEnv } from "../config/env";
+import { sendEnsExpiryReminders } from "../services/ens-expiry-reminders";
+import { runWithEnsAdvisoryLock } from "../services/ens-reconciliation-lock";
+import { recordWorkerRunMetric } from "../services/ops-metrics";
+
+const ENS_EXPIRY_REMINDER_LOCK_RESOURCE = 20260229;
+
+type RunEnsExpiryReminderOnceInput = {
+  limit?: number;
+};
+
+export const runEnsExpiryReminderOnce = async (app: FastifyInstance, input: RunEnsExpiryReminderOnceInput = {}) => {
+  const reminderRunId = randomUUID();
+
+  try {
+    const lockResult = await runWithEnsAdvisoryLock({
+      resource: ENS_EXPIRY_REMINDER_LOCK_RESOURCE,
+      task: async () => {
+        app.log.info({ reminderRunId }, "ENS expiry reminder run started");
+
+        return sendEnsExpiryReminders({
+          limit: input.limit ?? backendEnv.ensExpiryReminderLimit,
+        });
+      },
+    });
+
+    if (!lockResult.acquired) {
+      app.log.info({ reminderRunId }, "ENS expiry reminder run skipped: advisory lock held by another instance");
+      recordWorkerRunMetric({
+        worker: "ens-expiry-reminders",
+        outcome: "skipped",
+        runId: reminderRunId,
+      });
+
+      return {
+        reminderRunId,
+        skipped: true,
+      } as const;
+    }
+
+    const result = lockResult.result;
+    app.log.info(
+      {
+        reminderRunId,
+        scanned: result.scanned,
+        notified: result.notified,
+        emailed: result.emailed,
+        emailFailed: result.emailFailed,
+        errors: result.errors,
+      },
+      "ENS expiry reminder run completed"
+    );
+
+    recordWorkerRunMetric({
+      worker: "ens-expiry-reminders",
+      outcome: "completed",
+      runId: reminderRunId,
+    });
+
+    return {
+      reminderRunId,
+      skipped: false,
+      result,
+    } as const;
+  } catch (error) {
+    recordWorkerRunMetric({
+      worker: "ens-expiry-reminders",
+      outcome: "failed",
+      runId: reminderRunId,
+    });
+    throw error;
+  }
+};
+
+export const registerEnsExpiryReminderJob = (app: FastifyInstance): void => {
+  const intervalMs = backendEnv.ensExpiryReminderIntervalMs;
+
+  if (intervalMs <= 0) {
+    app.log.info({ intervalMs }, "ENS expiry reminder job disabled");
+    return;
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+
+  app.addHook("onReady", async () => {
+    timer = setInterval(() => {
+      void runEnsExpiryReminderOnce(app).catch((error) => {
+        app.log.error({ err: error }, "ENS expiry reminder run failed");
+      });
+    }, intervalMs);
+
+    app.log.info(
+      {
+        intervalMs,
+        limit: backendEnv.ensExpiryReminderLimit,
+        gracePeriodDays: backendEnv.ensExpiryGracePeriodDays,
+      },
+      "ENS expiry reminder job started"
+    );
+
+    void runEnsExpiryReminderOnce(app).catch((error) => {
+      app.log.error({ err: error }, "Initial ENS expiry reminder run failed");
+    });
+  });
+
+  app.addHook("onClose", async () => {
+    if (!timer) {
+      return;
+    }
+
+    clearInterval(timer);
+    timer = null;
+  });
+};
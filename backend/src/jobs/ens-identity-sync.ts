@@ -48,6 +48,7 @@ export const runEnsIdentitySyncOnce = async (app: FastifyInstance, input: RunEns
         updated: result.updated,
         activated: result.activated,
         revoked: result.revoked,
+        primaryReconciled: result.primaryReconciled,
         unchanged: result.unchanged,
         failed: result.failed,
         errors: result.errors,
@@ -0,0 +1,130 @@
+import { randomUUID } from "node:crypto";
+
+import type { FastifyInstance } from "fastify";
+
+import { backendEnv } from "../config/env";
+import { listSupportedChainIds } from "../services/chain-clients";
+import { indexEnsChainLogs, type IndexEnsChainLogsResult } from "../services/ens-log-indexer";
+import { runWithEnsAdvisoryLock } from "../services/ens-reconciliation-lock";
+import { recordWorkerRunMetric } from "../services/ops-metrics";
+
+const ENS_LOG_INDEXER_LOCK_RESOURCE = 20260230;
+
+export const runEnsLogIndexerOnce = async (app: FastifyInstance) => {
+  const indexerRunId = randomUUID();
+
+  try {
+    const lockResult = await runWithEnsAdvisoryLock({
+      resource: ENS_LOG_INDEXER_LOCK_RESOURCE,
+      task: async () => {
+        app.log.info({ indexerRunId }, "ENS log indexer run started");
+
+        const results: IndexEnsChainLogsResult[] = [];
+        for (const chainId of listSupportedChainIds()) {
+          results.push(await indexEnsChainLogs({ chainId }));
+        }
+
+        return results;
+      },
+    });
+
+    if (!lockResult.acquired) {
+      app.log.info({ indexerRunId }, "ENS log indexer run skipped: advisory lock held by another instance");
+      recordWorkerRunMetric({
+        worker: "ens-log-indexer",
+        outcome: "skipped",
+        runId: indexerRunId,
+      });
+
+      return {
+        indexerRunId,
+        skipped: true,
+      } as const;
+    }
+
+    const results = lockResult.result;
+    for (const result of results) {
+      app.log.info(
+        {
+          indexerRunId,
+          chainId: result.chainId,
+          headBlock: result.headBlock,
+          fromBlock: result.fromBlock,
+          toBlock: result.toBlock,
+          logs: result.logs,
+          applied: result.applied,
+          duplicates: result.duplicates,
+          failed: result.failed,
+          reorgDetected: result.reorgDetected,
+          rewoundTo: result.rewoundTo,
+          droppedEvents: result.droppedEvents,
+          expired: result.expired,
+          errors: result.errors,
+        },
+        "ENS log indexer run completed"
+      );
+    }
+
+    recordWorkerRunMetric({
+      worker: "ens-log-indexer",
+      outcome: "completed",
+      runId: indexerRunId,
+    });
+
+    return {
+      indexerRunId,
+      skipped: false,
+      results,
+    } as const;
+  } catch (error) {
+    recordWorkerRunMetric({
+      worker: "ens-log-indexer",
+      outcome: "failed",
+      runId: indexerRunId,
+    });
+    throw error;
+  }
+};
+
+export const registerEnsLogIndexerJob = (app: FastifyInstance): void => {
+  const intervalMs = backendEnv.ensLogIndexerIntervalMs;
+
+  if (intervalMs <= 0) {
+    app.log.info({ intervalMs }, "ENS log indexer job disabled");
+    return;
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+
+  app.addHook("onReady", async () => {
+    timer = setInterval(() => {
+      void runEnsLogIndexerOnce(app).catch((error) => {
+        app.log.error({ err: error }, "ENS log indexer run failed");
+      });
+    }, intervalMs);
+
+    app.log.info(
+      {
+        intervalMs,
+        blockBatch: backendEnv.ensLogIndexerBlockBatch,
+        reorgDepth: backendEnv.ensLogIndexerReorgDepth,
+        startBlock: backendEnv.ensLogIndexerStartBlock,
+        chainIds: listSupportedChainIds(),
+      },
+      "ENS log indexer job started"
+    );
+
+    void runEnsLogIndexerOnce(app).catch((error) => {
+      app.log.error({ err: error }, "Initial ENS log indexer run failed");
+    });
+  });
+
+  app.addHook("onClose", async () => {
+    if (!timer) {
+      return;
+    }
+
+    clearInterval(timer);
+    timer = null;
+  });
+};
@@ -0,0 +1,120 @@
+import { randomUUID } from "node:crypto";
+
+import type { FastifyInstance } from "fastify";
+
+import { backendEnv } from "../config/env";
+import { runWithEnsAdvisoryLock } from "../services/ens-reconciliation-lock";
+import { syncEnsRecordsFromChain } from "../services/ens-records";
+import { recordWorkerRunMetric } from "../services/ops-metrics";
+
+const ENS_RECORDS_SYNC_LOCK_RESOURCE = 20260228;
+
+type RunEnsRecordsSyncOnceInput = {
+  limit?: number;
+  staleMinutes?: number;
+};
+
+export const runEnsRecordsSyncOnce = async (app: FastifyInstance, input: RunEnsRecordsSyncOnceInput = {}) => {
+  const syncRunId = randomUUID();
+
+  try {
+    const lockResult = await runWithEnsAdvisoryLock({
+      resource: ENS_RECORDS_SYNC_LOCK_RESOURCE,
+      task: async () => {
+        app.log.info({ syncRunId }, "ENS records sync run started");
+
+        return syncEnsRecordsFromChain({
+          limit: input.limit ?? backendEnv.ensRecordsSyncLimit,
+          staleMinutes: input.staleMinutes ?? backendEnv.ensRecordsSyncStaleMinutes,
+        });
+      },
+    });
+
+    if (!lockResult.acquired) {
+      app.log.info({ syncRunId }, "ENS records sync run skipped: advisory lock held by another instance");
+      recordWorkerRunMetric({
+        worker: "ens-records-sync",
+        outcome: "skipped",
+        runId: syncRunId,
+      });
+
+      return {
+        syncRunId,
+        skipped: true,
+      } as const;
+    }
+
+    const result = lockResult.result;
+    app.log.info(
+      {
+        syncRunId,
+        scanned: result.scanned,
+        updated: result.updated,
+        unchanged: result.unchanged,
+        failed: result.failed,
+        errors: result.errors,
+      },
+      "ENS records sync run completed"
+    );
+
+    recordWorkerRunMetric({
+      worker: "ens-records-sync",
+      outcome: "completed",
+      runId: syncRunId,
+    });
+
+    return {
+      syncRunId,
+      skipped: false,
+      result,
+    } as const;
+  } catch (error) {
+    recordWorkerRunMetric({
+      worker: "ens-records-sync",
+      outcome: "failed",
+      runId: syncRunId,
+    });
+    throw error;
+  }
+};
+
+export const registerEnsRecordsSyncJob = (app: FastifyInstance): void => {
+  const intervalMs = backendEnv.ensRecordsSyncIntervalMs;
+
+  if (intervalMs <= 0) {
+    app.log.info({ intervalMs }, "ENS records sync job disabled");
+    return;
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+
+  app.addHook("onReady", async () => {
+    timer = setInterval(() => {
+      void runEnsRecordsSyncOnce(app).catch((error) => {
+        app.log.error({ err: error }, "ENS records sync run failed");
+      });
+    }, intervalMs);
+
+    app.log.info(
+      {
+        intervalMs,
+        limit: backendEnv.ensRecordsSyncLimit,
+        staleMinutes: backendEnv.ensRecordsSyncStaleMinutes,
+      },
+      "ENS records sync job started"
+    );
+
+    void runEnsRecordsSyncOnce(app).catch((error) => {
+      app.log.error({ err: error }, "Initial ENS records sync run failed");
+    });
+  });
+
+  app.addHook("onClose", async () => {
+    if (!timer) {
+      return;
+    }
+
+    clearInterval(timer);
+    timer = null;
+  });
+};
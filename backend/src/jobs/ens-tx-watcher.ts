@@ -46,6 +46,12 @@ export const runEnsTxWatcherOnce = async (app: FastifyInstance, input: RunEnsTxW
         checkedRegisterTx: result.checkedRegisterTx,
         syncedCommitments: result.syncedCommitments,
         syncedRegistrations: result.syncedRegistrations,
+        checkedTransfers: result.checkedTransfers,
+        completedTransfers: result.completedTransfers,
+        failedTransfers: result.failedTransfers,
+        checkedRenewals: result.checkedRenewals,
+        syncedRenewals: result.syncedRenewals,
+        failedRenewals: result.failedRenewals,
         expired: result.expired,
         unchanged: result.unchanged,
         failed: result.failed,
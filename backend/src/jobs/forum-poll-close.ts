@@ -0,0 +1,114 @@
+import { randomUUID } from "node:crypto";
+
+import type { FastifyInstance } from "fastify";
+
+import { backendEnv } from "../config/env";
+import { runWithEnsAdvisoryLock } from "../services/ens-reconciliation-lock";
+import { closeDueForumPolls } from "../services/forum-core.polls";
+import { recordWorkerRunMetric } from "../services/ops-metrics";
+
+const FORUM_POLL_CLOSE_LOCK_RESOURCE = 20260232;
+
+type RunForumPollCloseOnceInput = {
+  limit?: number;
+};
+
+export const runForumPollCloseOnce = async (app: FastifyInstance, input: RunForumPollCloseOnceInput = {}) => {
+  const closeRunId = randomUUID();
+
+  try {
+    const lockResult = await runWithEnsAdvisoryLock({
+      resource: FORUM_POLL_CLOSE_LOCK_RESOURCE,
+      task: async () => {
+        app.log.info({ closeRunId }, "Forum poll close run started");
+
+        return closeDueForumPolls({
+          limit: input.limit ?? backendEnv.forumPollCloseBatchLimit,
+        });
+      },
+    });
+
+    if (!lockResult.acquired) {
+      app.log.info({ closeRunId }, "Forum poll close run skipped: advisory lock held by another instance");
+      recordWorkerRunMetric({
+        worker: "forum-poll-close",
+        outcome: "skipped",
+        runId: closeRunId,
+      });
+
+      return {
+        closeRunId,
+        skipped: true,
+      } as const;
+    }
+
+    const result = lockResult.result;
+    app.log.info(
+      {
+        closeRunId,
+        scanned: result.scanned,
+        closed: result.closed,
+      },
+      "Forum poll close run completed"
+    );
+
+    recordWorkerRunMetric({
+      worker: "forum-poll-close",
+      outcome: "completed",
+      runId: closeRunId,
+    });
+
+    return {
+      closeRunId,
+      skipped: false,
+      result,
+    } as const;
+  } catch (error) {
+    recordWorkerRunMetric({
+      worker: "forum-poll-close",
+      outcome: "failed",
+      runId: closeRunId,
+    });
+    throw error;
+  }
+};
+
+export const registerForumPollCloseJob = (app: FastifyInstance): void => {
+  const intervalMs = backendEnv.forumPollCloseIntervalMs;
+
+  if (intervalMs <= 0) {
+    app.log.info({ intervalMs }, "Forum poll close job disabled");
+    return;
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+
+  app.addHook("onReady", async () => {
+    timer = setInterval(() => {
+      void runForumPollCloseOnce(app).catch((error) => {
+        app.log.error({ err: error }, "Forum poll close run failed");
+      });
+    }, intervalMs);
+
+    app.log.info(
+      {
+        intervalMs,
+        limit: backendEnv.forumPollCloseBatchLimit,
+      },
+      "Forum poll close job started"
+    );
+
+    void runForumPollCloseOnce(app).catch((error) => {
+      app.log.error({ err: error }, "Initial forum poll close run failed");
+    });
+  });
+
+  app.addHook("onClose", async () => {
+    if (!timer) {
+      return;
+    }
+
+    clearInterval(timer);
+    timer = null;
+  });
+};
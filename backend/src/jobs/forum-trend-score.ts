@@ -0,0 +1,117 @@
+import { randomUUID } from "node:crypto";
+
+import type { FastifyInstance } from "fastify";
+
+import { backendEnv } from "../config/env";
+import { runWithEnsAdvisoryLock } from "../services/ens-reconciliation-lock";
+import { recomputeForumTrendScores } from "../services/forum-trend-score";
+import { recordWorkerRunMetric } from "../services/ops-metrics";
+
+const FORUM_TREND_SCORE_LOCK_RESOURCE = 20260227;
+
+type RunForumTrendScoreOnceInput = {
+  windowHours?: number;
+  halfLifeHours?: number;
+};
+
+export const runForumTrendScoreOnce = async (app: FastifyInstance, input: RunForumTrendScoreOnceInput = {}) => {
+  const trendRunId = randomUUID();
+
+  try {
+    const lockResult = await runWithEnsAdvisoryLock({
+      resource: FORUM_TREND_SCORE_LOCK_RESOURCE,
+      task: async () => {
+        app.log.info({ trendRunId }, "Forum trend score run started");
+
+        return recomputeForumTrendScores({
+          windowHours: input.windowHours ?? backendEnv.forumTrendWindowHours,
+          halfLifeHours: input.halfLifeHours ?? backendEnv.forumTrendHalfLifeHours,
+        });
+      },
+    });
+
+    if (!lockResult.acquired) {
+      app.log.info({ trendRunId }, "Forum trend score run skipped: advisory lock held by another instance");
+      recordWorkerRunMetric({
+        worker: "forum-trend-score",
+        outcome: "skipped",
+        runId: trendRunId,
+      });
+
+      return {
+        trendRunId,
+        skipped: true,
+      } as const;
+    }
+
+    const result = lockResult.result;
+    app.log.info(
+      {
+        trendRunId,
+        updatedPosts: result.updatedPosts,
+        updatedTags: result.updatedTags,
+      },
+      "Forum trend score run completed"
+    );
+
+    recordWorkerRunMetric({
+      worker: "forum-trend-score",
+      outcome: "completed",
+      runId: trendRunId,
+    });
+
+    return {
+      trendRunId,
+      skipped: false,
+      result,
+    } as const;
+  } catch (error) {
+    recordWorkerRunMetric({
+      worker: "forum-trend-score",
+      outcome: "failed",
+      runId: trendRunId,
+    });
+    throw error;
+  }
+};
+
+export const registerForumTrendScoreJob = (app: FastifyInstance): void => {
+  const intervalMs = backendEnv.forumTrendIntervalMs;
+
+  if (intervalMs <= 0) {
+    app.log.info({ intervalMs }, "Forum trend score job disabled");
+    return;
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+
+  app.addHook("onReady", async () => {
+    timer = setInterval(() => {
+      void runForumTrendScoreOnce(app).catch((error) => {
+        app.log.error({ err: error }, "Forum trend score run failed");
+      });
+    }, intervalMs);
+
+    app.log.info(
+      {
+        intervalMs,
+        windowHours: backendEnv.forumTrendWindowHours,
+        halfLifeHours: backendEnv.forumTrendHalfLifeHours,
+      },
+      "Forum trend score job started"
+    );
+
+    void runForumTrendScoreOnce(app).catch((error) => {
+      app.log.error({ err: error }, "Initial forum trend score run failed");
+    });
+  });
+
+  app.addHook("onClose", async () => {
+    if (!timer) {
+      return;
+    }
+
+    clearInterval(timer);
+    timer = null;
+  });
+};
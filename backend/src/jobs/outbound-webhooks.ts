@@ -0,0 +1,113 @@
+import { randomUUID } from "node:crypto";
+
+import type { FastifyInstance } from "fastify";
+
+import { backendEnv } from "../config/env";
+import { runWithEnsAdvisoryLock } from "../services/ens-reconciliation-lock";
+import { recordWorkerRunMetric } from "../services/ops-metrics";
+import { deliverDueOutboundWebhooks } from "../services/outbound-webhooks";
+
+const OUTBOUND_WEBHOOK_LOCK_RESOURCE = 20260231;
+
+export const runOutboundWebhookDeliveryOnce = async (app: FastifyInstance) => {
+  const deliveryRunId = randomUUID();
+
+  try {
+    const lockResult = await runWithEnsAdvisoryLock({
+      resource: OUTBOUND_WEBHOOK_LOCK_RESOURCE,
+      task: async () => {
+        app.log.info({ deliveryRunId }, "Outbound webhook delivery run started");
+
+        return deliverDueOutboundWebhooks({
+          limit: backendEnv.outboundWebhook.batchLimit,
+        });
+      },
+    });
+
+    if (!lockResult.acquired) {
+      app.log.info({ deliveryRunId }, "Outbound webhook delivery run skipped: advisory lock held by another instance");
+      recordWorkerRunMetric({
+        worker: "outbound-webhooks",
+        outcome: "skipped",
+        runId: deliveryRunId,
+      });
+
+      return {
+        deliveryRunId,
+        skipped: true,
+      } as const;
+    }
+
+    const result = lockResult.result;
+    app.log.info(
+      {
+        deliveryRunId,
+        scanned: result.scanned,
+        delivered: result.delivered,
+        failed: result.failed,
+        deadLettered: result.deadLettered,
+        errors: result.errors,
+      },
+      "Outbound webhook delivery run completed"
+    );
+    recordWorkerRunMetric({
+      worker: "outbound-webhooks",
+      outcome: "completed",
+      runId: deliveryRunId,
+    });
+
+    return {
+      deliveryRunId,
+      skipped: false,
+      result,
+    } as const;
+  } catch (error) {
+    recordWorkerRunMetric({
+      worker: "outbound-webhooks",
+      outcome: "failed",
+      runId: deliveryRunId,
+    });
+    throw error;
+  }
+};
+
+export const registerOutboundWebhookDeliveryJob = (app: FastifyInstance): void => {
+  const intervalMs = backendEnv.outboundWebhook.intervalMs;
+
+  if (intervalMs <= 0) {
+    app.log.info({ intervalMs }, "Outbound webhook delivery job disabled");
+    return;
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+
+  app.addHook("onReady", async () => {
+    timer = setInterval(() => {
+      void runOutboundWebhookDeliveryOnce(app).catch((error) => {
+        app.log.error({ err: error }, "Outbound webhook delivery run failed");
+      });
+    }, intervalMs);
+
+    app.log.info(
+      {
+        intervalMs,
+        limit: backendEnv.outboundWebhook.batchLimit,
+        maxAttempts: backendEnv.outboundWebhook.maxAttempts,
+      },
+      "Outbound webhook delivery job started"
+    );
+
+    void runOutboundWebhookDeliveryOnce(app).catch((error) => {
+      app.log.error({ err: error }, "Initial outbound webhook delivery run failed");
+    });
+  });
+
+  app.addHook("onClose", async () => {
+    if (!timer) {
+      return;
+    }
+
+    clearInterval(timer);
+    timer = null;
+  });
+};
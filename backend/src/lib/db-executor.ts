@@ -0,0 +1,4 @@
+import type { authDb } from "@evergreen-devparty/auth";
+
+// Accepts either the shared client or a transaction handle, so callers can fold a write into their own transaction.
+export type DbExecutor = Pick<typeof authDb, "select" | "insert" | "update" | "delete" | "transaction">;
@@ -0,0 +1,89 @@
+import { lookup } from "node:dns";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+
+const privateRanges = new BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  privateRanges.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  privateRanges.addSubnet(address, prefix, "ipv6");
+}
+
+export class PrivateNetworkAddressError extends Error {
+  readonly code = "PRIVATE_NETWORK_ADDRESS";
+
+  constructor(readonly hostname: string) {
+    super(`${hostname} resolves to a private or reserved network address`);
+    this.name = "PrivateNetworkAddressError";
+  }
+}
+
+// Loopback, RFC1918, link-local, CGNAT, unique-local, multicast and reserved ranges, including IPv4-mapped IPv6.
+export const isPrivateNetworkAddress = (address: string): boolean => {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  const candidate = mapped?.[1] ?? address;
+  const version = isIP(candidate);
+  if (version === 0) {
+    return true;
+  }
+
+  return privateRanges.check(candidate, version === 4 ? "ipv4" : "ipv6");
+};
+
+const stripBrackets = (hostname: string): string => hostname.replace(/^\[(.*)\]$/, "$1");
+
+export const assertPublicHostname = async (hostname: string): Promise<void> => {
+  const host = stripBrackets(hostname);
+  const addresses = isIP(host)
+    ? [host]
+    : await new Promise<string[]>((resolve, reject) =>
+        lookup(host, { all: true }, (error, entries) =>
+          error ? reject(error) : resolve(entries.map((entry) => entry.address))
+        )
+      );
+
+  if (addresses.length === 0 || addresses.some(isPrivateNetworkAddress)) {
+    throw new PrivateNetworkAddressError(host);
+  }
+};
+
+// Socket-level lookup so a hostname re-resolving to a private address between validation and connect is refused.
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, entries) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+
+    if (entries.length === 0 || entries.some((entry) => isPrivateNetworkAddress(entry.address))) {
+      callback(new PrivateNetworkAddressError(hostname), "", 0);
+      return;
+    }
+
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: typeof entries) => void)(null, entries);
+      return;
+    }
+
+    callback(null, entries[0]!.address, entries[0]!.family);
+  });
+};
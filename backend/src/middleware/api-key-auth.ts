@@ -2,6 +2,7 @@ import type { FastifyRequest, preHandlerHookHandler } from "fastify";
 
 import { backendEnv } from "../config/env";
 import { HttpError } from "../lib/http-error";
+import { recordApiKeyAuditEventStatus } from "../services/api-keys/audit";
 import { authenticateApiKeyRequest, type ApiKeyPrincipal } from "../services/api-keys/core";
 
 type RequestApiKeyContext = {
@@ -48,6 +49,14 @@ export const requireApiKeyAuth = (options?: {
 
     reply.raw.once("finish", releaseOnce);
     reply.raw.once("close", releaseOnce);
+
+    // Usage analytics classify authenticated requests by the status the route actually answered with.
+    const { auditEventId } = authenticated;
+    if (auditEventId) {
+      reply.raw.once("finish", () => {
+        void recordApiKeyAuditEventStatus(auditEventId, reply.statusCode).catch(() => undefined);
+      });
+    }
   };
 };
 
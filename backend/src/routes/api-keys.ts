@@ -15,9 +15,29 @@ import {
   listApiKeysForUser,
   revokeApiKeyForUser,
   rotateApiKeyForUser,
+  updateApiKeyRestrictionsForUser,
 } from "../services/api-keys/core";
+import { getApiKeyUsageForUser, listApiKeyEventsForUser } from "../services/api-keys/usage";
 
-const createApiKeyBodySchema = z.object({
+const apiKeyRestrictionsSchema = z.object({
+  allowedCidrs: z.array(z.string().trim().min(1).max(64)).max(32).optional(),
+  allowedMethods: z.array(z.string().trim().min(1).max(16)).max(16).optional(),
+  allowedPathPrefixes: z.array(z.string().trim().min(1).max(255)).max(32).optional(),
+  allowedOrigins: z.array(z.string().trim().min(1).max(255)).max(32).optional(),
+  timeWindows: z
+    .array(
+      z.object({
+        days: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+        start: z.string().trim().min(4).max(5),
+        end: z.string().trim().min(4).max(5),
+        timezone: z.string().trim().min(1).max(64).optional(),
+      })
+    )
+    .max(32)
+    .optional(),
+});
+
+export const createApiKeyBodySchema = z.object({
   name: z.string().trim().min(1).max(120),
   scopes: z.array(z.string().trim().min(1).max(80)).min(1).max(32),
   environment: z.enum(["live", "test"]).optional(),
@@ -25,19 +45,49 @@ const createApiKeyBodySchema = z.object({
   rateLimitPerMinute: z.number().int().positive().optional(),
   rateLimitPerIpMinute: z.number().int().positive().optional(),
   concurrencyLimit: z.number().int().positive().optional(),
+  restrictions: apiKeyRestrictionsSchema.optional(),
   metadata: z.record(z.string(), z.unknown()).optional(),
 });
 
-const rotateApiKeyBodySchema = z.object({
+const updateApiKeyRestrictionsBodySchema = z.object({
+  currentPassword: z.string().min(8).max(256).optional(),
+  restrictions: apiKeyRestrictionsSchema,
+});
+
+export const rotateApiKeyBodySchema = z.object({
   currentPassword: z.string().min(8).max(256).optional(),
   gracePeriodMinutes: z.number().int().min(0).max(30).optional(),
 });
 
-const revokeApiKeyBodySchema = z.object({
+export const revokeApiKeyBodySchema = z.object({
   currentPassword: z.string().min(8).max(256).optional(),
   reason: z.string().trim().max(255).optional(),
 });
 
+const apiKeyParamsSchema = z.object({
+  keyId: z.string().min(8).max(200),
+});
+
+const apiKeyUsageQuerySchema = z.object({
+  bucket: z.enum(["hour", "day"]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const apiKeyEventsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  cursor: z.string().uuid().optional(),
+  eventType: z.enum(schema.apiKeyAuditEventTypeEnum.enumValues).optional(),
+  outcome: z.enum(schema.apiKeyAuditOutcomeEnum.enumValues).optional(),
+  policyAction: z.enum(schema.apiKeyPolicyActionEnum.enumValues).optional(),
+  statusCode: z.coerce.number().int().min(100).max(599).optional(),
+  statusClass: z.enum(["2xx", "3xx", "4xx", "5xx", "unknown"]).optional(),
+  ipAddress: z.string().trim().min(1).max(64).optional(),
+  path: z.string().trim().min(1).max(255).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
 export const apiKeyRoutes: FastifyPluginAsync = async (app) => {
   app.get(
     "/api/me/api-keys",
@@ -72,6 +122,7 @@ export const apiKeyRoutes: FastifyPluginAsync = async (app) => {
         rateLimitPerMinute: body.rateLimitPerMinute,
         rateLimitPerIpMinute: body.rateLimitPerIpMinute,
         concurrencyLimit: body.concurrencyLimit,
+        restrictions: body.restrictions,
         metadata: body.metadata,
         createdByUserId: authSession.user.id,
         createdFromIp: request.ip,
@@ -85,6 +136,70 @@ export const apiKeyRoutes: FastifyPluginAsync = async (app) => {
     }
   );
 
+  app.put(
+    "/api/me/api-keys/:keyId/restrictions",
+    {
+      preHandler: [requireSecureTransportMiddleware, requireAuthSessionMiddleware, requireTrustedOriginMiddleware],
+    },
+    async (request) => {
+      const { keyId } = apiKeyParamsSchema.parse(request.params);
+      const body = updateApiKeyRestrictionsBodySchema.parse(request.body);
+      const authSession = await requireAuthSession(request);
+
+      const updated = await updateApiKeyRestrictionsForUser({
+        userId: authSession.user.id,
+        keyId,
+        restrictions: body.restrictions,
+        sessionUpdatedAt: authSession.session.updatedAt,
+        currentPassword: body.currentPassword,
+        requestIp: request.ip,
+        requestUserAgent: request.headers["user-agent"],
+      });
+
+      return {
+        updated,
+      };
+    }
+  );
+
+  app.get(
+    "/api/me/api-keys/:keyId/usage",
+    {
+      preHandler: [requireSecureTransportMiddleware, requireAuthSessionMiddleware],
+    },
+    async (request) => {
+      const { keyId } = apiKeyParamsSchema.parse(request.params);
+      const query = apiKeyUsageQuerySchema.parse(request.query);
+      const authSession = await requireAuthSession(request);
+
+      return getApiKeyUsageForUser({
+        userId: authSession.user.id,
+        keyId,
+        bucket: query.bucket,
+        from: query.from,
+        to: query.to,
+      });
+    }
+  );
+
+  app.get(
+    "/api/me/api-keys/:keyId/events",
+    {
+      preHandler: [requireSecureTransportMiddleware, requireAuthSessionMiddleware],
+    },
+    async (request) => {
+      const { keyId } = apiKeyParamsSchema.parse(request.params);
+      const query = apiKeyEventsQuerySchema.parse(request.query);
+      const authSession = await requireAuthSession(request);
+
+      return listApiKeyEventsForUser({
+        userId: authSession.user.id,
+        keyId,
+        ...query,
+      });
+    }
+  );
+
   app.post(
     "/api/me/api-keys/:keyId/rotate",
     {
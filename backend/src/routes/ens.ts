@@ -5,23 +5,68 @@ import { requireAuthSession } from "../lib/auth-session";
 import { serializeBigInt } from "../lib/serialize";
 import { requireAuthSessionMiddleware } from "../middleware/auth-session";
 import { createDebounceMiddleware, hashDebouncePayload } from "../middleware/debounce-limit";
+import { getDefaultChainId, listSupportedChainIds, resolveNetwork } from "../services/chain-clients";
 import {
   checkDomainAvailability,
+  checkDomainAvailabilityBatch,
   confirmCommitmentIntent,
+  confirmPrimaryName,
+  confirmRenewalIntent,
   confirmRegisterTransaction,
   createCommitmentIntent,
   listEnsTlds,
   listUserDomains,
   listUserPurchaseIntents,
+  listUserRenewalIntents,
+  preparePrimaryName,
   prepareRegisterTransaction,
+  prepareRecordsMulticall,
   prepareRenewal,
   prepareSetAddressRecord,
+  prepareSetTextRecord,
+  suggestDomainNames,
 } from "../services/ens-marketplace";
+import { ENS_TEXT_RECORD_KEYS } from "../services/ens-records";
+import {
+  confirmSubnameIssue,
+  confirmSubnameRevoke,
+  listDomainSubnames,
+  listReceivedSubnames,
+  prepareSubnameIssue,
+  prepareSubnameRevoke,
+} from "../services/ens-subnames";
+import { confirmEnsTransfer, listEnsTransfers, prepareEnsTransfer } from "../services/ens-transfers";
+
+const chainIdSchema = z.number().int().positive();
+
+const tldListQuerySchema = z.object({
+  chainId: z.coerce.number().int().positive().optional(),
+});
 
 const domainCheckBodySchema = z.object({
   label: z.string().min(3).max(63),
   tld: z.string().min(2).max(64),
   durationSeconds: z.number().int().positive().optional(),
+  chainId: chainIdSchema.optional(),
+});
+
+const domainBatchCheckBodySchema = z.object({
+  labels: z.array(z.string().min(1).max(63)).min(1).max(20),
+  tlds: z.array(z.string().min(2).max(64)).max(10).optional(),
+  durationSeconds: z.number().int().positive().optional(),
+  chainId: chainIdSchema.optional(),
+});
+
+const suggestionQuerySchema = z.object({
+  label: z.string().min(1).max(63),
+  tlds: z
+    .string()
+    .max(256)
+    .optional()
+    .transform((value) => (value ? value.split(",").map((entry) => entry.trim()).filter(Boolean) : undefined)),
+  durationSeconds: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+  chainId: z.coerce.number().int().positive().optional(),
 });
 
 const commitmentCreateBodySchema = z.object({
@@ -30,6 +75,7 @@ const commitmentCreateBodySchema = z.object({
   tld: z.string().min(2).max(64),
   durationSeconds: z.number().int().positive(),
   referrer: z.string().optional(),
+  chainId: chainIdSchema.optional(),
 });
 
 const txHashBodySchema = z.object({
@@ -54,6 +100,60 @@ const prepareAddrBodySchema = z.object({
   address: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
 });
 
+const textRecordValueSchema = z.string().max(2048);
+
+const textRecordsSchema = z
+  .object({
+    avatar: textRecordValueSchema,
+    url: textRecordValueSchema,
+    "com.github": textRecordValueSchema,
+    "com.twitter": textRecordValueSchema,
+    description: textRecordValueSchema,
+    email: textRecordValueSchema,
+  })
+  .partial();
+
+const prepareTextBodySchema = z.object({
+  domainName: z.string().min(3).max(255),
+  key: z.enum(ENS_TEXT_RECORD_KEYS),
+  value: textRecordValueSchema,
+});
+
+const prepareMulticallBodySchema = z.object({
+  domainName: z.string().min(3).max(255),
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/).optional(),
+  texts: textRecordsSchema.optional(),
+});
+
+const primaryNameBodySchema = z.object({
+  domainName: z.string().min(3).max(255),
+});
+
+const confirmPrimaryNameBodySchema = z.object({
+  domainName: z.string().min(3).max(255),
+  txHash: z.string().min(66).max(66),
+});
+
+const domainNameParamsSchema = z.object({
+  domainName: z.string().min(3).max(255),
+});
+
+const subnameParamsSchema = z.object({
+  subnameId: z.string().uuid(),
+});
+
+const prepareSubnameBodySchema = z.object({
+  label: z.string().min(1).max(63),
+  ownerAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/).optional(),
+  recipientUserId: z.string().min(1).optional(),
+});
+
+const prepareTransferBodySchema = z.object({
+  domainName: z.string().min(3).max(255),
+  toAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/).optional(),
+  recipientUsername: z.string().min(1).max(32).optional(),
+});
+
 const prepareRenewalBodySchema = z.object({
   domainName: z.string().min(3).max(255),
   durationSeconds: z.number().int().positive(),
@@ -73,6 +173,11 @@ export const ensRoutes: FastifyPluginAsync = async (app) => {
     },
   });
 
+  const debounceEnsBatchCheck = createDebounceMiddleware({
+    namespace: "ens.check.batch",
+    key: (request) => `${request.ip}:${hashDebouncePayload(request.body)}`,
+  });
+
   const debounceEnsProtected = createDebounceMiddleware({
     namespace: "ens.protected",
     key: async (request) => {
@@ -81,9 +186,20 @@ export const ensRoutes: FastifyPluginAsync = async (app) => {
     },
   });
 
-  app.get("/api/ens/tlds", async () => ({
-    tlds: listEnsTlds().map((item) => item.tld),
-  }));
+  app.get("/api/ens/tlds", async (request) => {
+    const query = tldListQuerySchema.parse(request.query);
+    const chainIds = query.chainId === undefined ? listSupportedChainIds() : [resolveNetwork(query.chainId).chainId];
+    const defaultChainId = getDefaultChainId();
+
+    return {
+      tlds: listEnsTlds(query.chainId ?? defaultChainId).map((item) => item.tld),
+      chains: chainIds.map((chainId) => ({
+        chainId,
+        isDefault: chainId === defaultChainId,
+        tlds: listEnsTlds(chainId).map((item) => item.tld),
+      })),
+    };
+  });
 
   app.post(
     "/api/ens/check",
@@ -96,6 +212,46 @@ export const ensRoutes: FastifyPluginAsync = async (app) => {
       label: body.label,
       tld: body.tld,
       durationSeconds: body.durationSeconds,
+      chainId: body.chainId,
+    });
+
+    return serializeBigInt(result);
+    }
+  );
+
+  app.post(
+    "/api/ens/check/batch",
+    {
+      preHandler: debounceEnsBatchCheck,
+    },
+    async (request) => {
+    const body = domainBatchCheckBodySchema.parse(request.body);
+    const result = await checkDomainAvailabilityBatch({
+      labels: body.labels,
+      tlds: body.tlds,
+      durationSeconds: body.durationSeconds,
+      chainId: body.chainId,
+    });
+
+    return serializeBigInt(result);
+    }
+  );
+
+  app.get(
+    "/api/ens/suggestions",
+    {
+      preHandler: requireAuthSessionMiddleware,
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const query = suggestionQuerySchema.parse(request.query);
+    const result = await suggestDomainNames({
+      userId: authSession.user.id,
+      label: query.label,
+      tlds: query.tlds,
+      durationSeconds: query.durationSeconds,
+      limit: query.limit,
+      chainId: query.chainId,
     });
 
     return serializeBigInt(result);
@@ -143,6 +299,7 @@ export const ensRoutes: FastifyPluginAsync = async (app) => {
       tld: body.tld,
       durationSeconds: body.durationSeconds,
       referrer: body.referrer,
+      chainId: body.chainId,
     });
 
     return serializeBigInt(result);
@@ -229,6 +386,276 @@ export const ensRoutes: FastifyPluginAsync = async (app) => {
     }
   );
 
+  app.post(
+    "/api/ens/records/text/prepare",
+    {
+      preHandler: [requireAuthSessionMiddleware, debounceEnsProtected],
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const body = prepareTextBodySchema.parse(request.body);
+
+    const result = await prepareSetTextRecord({
+      userId: authSession.user.id,
+      domainName: body.domainName,
+      key: body.key,
+      value: body.value,
+    });
+
+    return result;
+    }
+  );
+
+  app.post(
+    "/api/ens/records/multicall/prepare",
+    {
+      preHandler: [requireAuthSessionMiddleware, debounceEnsProtected],
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const body = prepareMulticallBodySchema.parse(request.body);
+
+    const result = await prepareRecordsMulticall({
+      userId: authSession.user.id,
+      domainName: body.domainName,
+      address: body.address,
+      texts: body.texts,
+    });
+
+    return result;
+    }
+  );
+
+  app.post(
+    "/api/ens/primary-name/prepare",
+    {
+      preHandler: [requireAuthSessionMiddleware, debounceEnsProtected],
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const body = primaryNameBodySchema.parse(request.body);
+
+    const result = await preparePrimaryName({
+      userId: authSession.user.id,
+      domainName: body.domainName,
+    });
+
+    return result;
+    }
+  );
+
+  app.post(
+    "/api/ens/primary-name/confirm",
+    {
+      preHandler: [requireAuthSessionMiddleware, debounceEnsProtected],
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const body = confirmPrimaryNameBodySchema.parse(request.body);
+
+    const result = await confirmPrimaryName({
+      userId: authSession.user.id,
+      domainName: body.domainName,
+      txHash: body.txHash,
+    });
+
+    return result;
+    }
+  );
+
+  app.get(
+    "/api/ens/subnames",
+    {
+      preHandler: requireAuthSessionMiddleware,
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const subnames = await listReceivedSubnames(authSession.user.id);
+    return { subnames };
+    }
+  );
+
+  app.get(
+    "/api/ens/domains/:domainName/subnames",
+    {
+      preHandler: requireAuthSessionMiddleware,
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const params = domainNameParamsSchema.parse(request.params);
+
+    return listDomainSubnames({
+      userId: authSession.user.id,
+      domainName: params.domainName,
+    });
+    }
+  );
+
+  app.post(
+    "/api/ens/domains/:domainName/subnames/prepare",
+    {
+      preHandler: [requireAuthSessionMiddleware, debounceEnsProtected],
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const params = domainNameParamsSchema.parse(request.params);
+    const body = prepareSubnameBodySchema.parse(request.body);
+
+    const result = await prepareSubnameIssue({
+      userId: authSession.user.id,
+      domainName: params.domainName,
+      label: body.label,
+      ownerAddress: body.ownerAddress,
+      recipientUserId: body.recipientUserId,
+    });
+
+    return serializeBigInt(result);
+    }
+  );
+
+  app.post(
+    "/api/ens/subnames/:subnameId/confirm",
+    {
+      preHandler: [requireAuthSessionMiddleware, debounceEnsProtected],
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const params = subnameParamsSchema.parse(request.params);
+    const body = txHashBodySchema.parse(request.body);
+
+    const result = await confirmSubnameIssue({
+      userId: authSession.user.id,
+      subnameId: params.subnameId,
+      txHash: body.txHash,
+    });
+
+    return result;
+    }
+  );
+
+  app.post(
+    "/api/ens/subnames/:subnameId/revoke/prepare",
+    {
+      preHandler: [requireAuthSessionMiddleware, debounceEnsProtected],
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const params = subnameParamsSchema.parse(request.params);
+
+    const result = await prepareSubnameRevoke({
+      userId: authSession.user.id,
+      subnameId: params.subnameId,
+    });
+
+    return serializeBigInt(result);
+    }
+  );
+
+  app.post(
+    "/api/ens/subnames/:subnameId/revoke/confirm",
+    {
+      preHandler: [requireAuthSessionMiddleware, debounceEnsProtected],
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const params = subnameParamsSchema.parse(request.params);
+    const body = txHashBodySchema.parse(request.body);
+
+    const result = await confirmSubnameRevoke({
+      userId: authSession.user.id,
+      subnameId: params.subnameId,
+      txHash: body.txHash,
+    });
+
+    return result;
+    }
+  );
+
+  app.get(
+    "/api/ens/transfers",
+    {
+      preHandler: requireAuthSessionMiddleware,
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const transfers = await listEnsTransfers(authSession.user.id);
+    return { transfers };
+    }
+  );
+
+  app.post(
+    "/api/ens/transfers/prepare",
+    {
+      preHandler: [requireAuthSessionMiddleware, debounceEnsProtected],
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const body = prepareTransferBodySchema.parse(request.body);
+
+    const result = await prepareEnsTransfer({
+      userId: authSession.user.id,
+      domainName: body.domainName,
+      toAddress: body.toAddress,
+      recipientUsername: body.recipientUsername,
+    });
+
+    return serializeBigInt(result);
+    }
+  );
+
+  app.post(
+    "/api/ens/transfers/:transferId/confirm",
+    {
+      preHandler: [requireAuthSessionMiddleware, debounceEnsProtected],
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const params = z.object({ transferId: z.string().uuid() }).parse(request.params);
+    const body = txHashBodySchema.parse(request.body);
+
+    const result = await confirmEnsTransfer({
+      userId: authSession.user.id,
+      transferId: params.transferId,
+      txHash: body.txHash,
+    });
+
+    return result;
+    }
+  );
+
+  app.get(
+    "/api/ens/renewals",
+    {
+      preHandler: requireAuthSessionMiddleware,
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const query = intentListQuerySchema.parse(request.query);
+    const intents = await listUserRenewalIntents(authSession.user.id, query.limit);
+    return { intents };
+    }
+  );
+
+  app.post(
+    "/api/ens/renewals/:intentId/confirm",
+    {
+      preHandler: [requireAuthSessionMiddleware, debounceEnsProtected],
+    },
+    async (request) => {
+    const authSession = await requireAuthSession(request);
+    const params = z.object({ intentId: z.string().uuid() }).parse(request.params);
+    const body = txHashBodySchema.parse(request.body);
+
+    const result = await confirmRenewalIntent({
+      userId: authSession.user.id,
+      intentId: params.intentId,
+      txHash: body.txHash,
+    });
+
+    return result;
+    }
+  );
+
   app.post(
     "/api/ens/renew/prepare",
     {
@@ -2,6 +2,7 @@ import type { FastifyPluginAsync } from "fastify";
 
 import { createDebounceMiddleware, hashDebouncePayload } from "../middleware/debounce-limit";
 import { recordForumEndpointMetric } from "../services/forum-metrics";
+import { registerForumCategoryRoutes } from "./forum/category-routes";
 import { registerForumContentRoutes } from "./forum/content-routes";
 import { defaultForumRouteDeps, type ForumRouteDependencies, type ForumRoutesOptions } from "./forum/deps";
 import { registerForumDiscoveryRoutes } from "./forum/discovery-routes";
@@ -52,6 +53,7 @@ export const forumRoutes: FastifyPluginAsync<ForumRoutesOptions> = async (app, o
   registerForumContentRoutes(app, context);
   registerForumSocialRoutes(app, context);
   registerForumDiscoveryRoutes(app, context);
+  registerForumCategoryRoutes(app, context);
   registerForumModerationRoutes(app, context);
   registerForumNotificationRoutes(app, context);
   registerForumProfileRoutes(app, context);
@@ -0,0 +1,166 @@
+import type { FastifyInstance } from "fastify";
+
+import type { ForumRouteContext } from "./deps";
+import {
+  categoryFeedQuerySchema,
+  categoryModeratorParamsSchema,
+  categoryParamsSchema,
+  categorySlugParamsSchema,
+  createCategoryBodySchema,
+  limitQuerySchema,
+  searchQuerySchema,
+  updateCategoryBodySchema,
+} from "./schemas";
+
+export const registerForumCategoryRoutes = (app: FastifyInstance, context: ForumRouteContext): void => {
+  const { deps, forumWritePreHandler } = context;
+
+  app.get("/api/forum/categories", async () => deps.listForumCategories());
+
+  app.get("/api/forum/categories/:slug", async (request) => {
+    const params = categorySlugParamsSchema.parse(request.params);
+    return deps.getForumCategory({
+      slug: params.slug,
+    });
+  });
+
+  app.get("/api/forum/categories/:slug/feed", async (request) => {
+    const params = categorySlugParamsSchema.parse(request.params);
+    const query = categoryFeedQuerySchema.parse(request.query);
+    const authSession = await deps.getAuthSession(request);
+
+    return deps.getForumFeed({
+      limit: query.limit,
+      cursor: query.cursor,
+      userId: authSession?.user.id,
+      categorySlug: params.slug,
+      questionStatus: query.questionStatus,
+      sort: query.sort,
+      window: query.window,
+      tag: query.tag,
+      authorId: query.authorId,
+      hasCode: query.hasCode,
+      noComments: query.noComments,
+    });
+  });
+
+  app.get("/api/forum/categories/:slug/search", async (request) => {
+    const params = categorySlugParamsSchema.parse(request.params);
+    const query = searchQuerySchema.parse(request.query);
+    const authSession = await deps.getAuthSession(request);
+
+    return deps.searchForumContent({
+      query: query.query,
+      limit: query.limit,
+      categorySlug: params.slug,
+      questionStatus: query.questionStatus,
+      viewerUserId: authSession?.user.id,
+    });
+  });
+
+  app.get("/api/forum/categories/:slug/trending", async (request) => {
+    const params = categorySlugParamsSchema.parse(request.params);
+    const query = limitQuerySchema.parse(request.query);
+
+    return deps.listForumCategoryTrending({
+      slug: params.slug,
+      limit: query.limit,
+    });
+  });
+
+  app.post(
+    "/api/forum/mod/categories",
+    {
+      preHandler: forumWritePreHandler,
+    },
+    async (request) => {
+      const authSession = await deps.requireAuthSession(request);
+      const body = createCategoryBodySchema.parse(request.body);
+
+      return deps.createForumCategory({
+        actorUserId: authSession.user.id,
+        slug: body.slug,
+        name: body.name,
+        description: body.description,
+        parentId: body.parentId,
+        sortOrder: body.sortOrder,
+        postPolicy: body.postPolicy,
+      });
+    }
+  );
+
+  app.patch(
+    "/api/forum/mod/categories/:categoryId",
+    {
+      preHandler: forumWritePreHandler,
+    },
+    async (request) => {
+      const authSession = await deps.requireAuthSession(request);
+      const params = categoryParamsSchema.parse(request.params);
+      const body = updateCategoryBodySchema.parse(request.body);
+
+      return deps.updateForumCategory({
+        actorUserId: authSession.user.id,
+        categoryId: params.categoryId,
+        slug: body.slug,
+        name: body.name,
+        description: body.description,
+        parentId: body.parentId,
+        sortOrder: body.sortOrder,
+        postPolicy: body.postPolicy,
+      });
+    }
+  );
+
+  app.delete(
+    "/api/forum/mod/categories/:categoryId",
+    {
+      preHandler: forumWritePreHandler,
+    },
+    async (request) => {
+      const authSession = await deps.requireAuthSession(request);
+      const params = categoryParamsSchema.parse(request.params);
+
+      return deps.deleteForumCategory({
+        actorUserId: authSession.user.id,
+        categoryId: params.categoryId,
+      });
+    }
+  );
+
+  app.put(
+    "/api/forum/mod/categories/:categoryId/moderators/:userId",
+    {
+      preHandler: forumWritePreHandler,
+    },
+    async (request) => {
+      const authSession = await deps.requireAuthSession(request);
+      const params = categoryModeratorParamsSchema.parse(request.params);
+
+      return deps.setForumCategoryModerator({
+        actorUserId: authSession.user.id,
+        categoryId: params.categoryId,
+        userId: params.userId,
+        assigned: true,
+      });
+    }
+  );
+
+  app.delete(
+    "/api/forum/mod/categories/:categoryId/moderators/:userId",
+    {
+      preHandler: forumWritePreHandler,
+    },
+    async (request) => {
+      const authSession = await deps.requireAuthSession(request);
+      const params = categoryModeratorParamsSchema.parse(request.params);
+
+      return deps.setForumCategoryModerator({
+        actorUserId: authSession.user.id,
+        categoryId: params.categoryId,
+        userId: params.userId,
+        assigned: false,
+      });
+    }
+  );
+};
@@ -3,6 +3,7 @@ import type { FastifyInstance } from "fastify";
 import type { ForumRouteContext } from "./deps";
 import {
   commentParamsSchema,
+  commentTreeQuerySchema,
   createCommentBodySchema,
   createPostBodySchema,
   draftQuerySchema,
@@ -10,6 +11,7 @@ import {
   markdownBodySchema,
   postDetailQuerySchema,
   postParamsSchema,
+  revisionQuerySchema,
   updatePostBodySchema,
 } from "./schemas";
 
@@ -43,6 +45,9 @@ export const registerForumContentRoutes = (app: FastifyInstance, context: ForumR
         title: body.title,
         markdown: body.markdown,
         tags: body.tags,
+        categoryId: body.categoryId,
+        postType: body.postType,
+        poll: body.poll,
       });
     }
   );
@@ -53,17 +58,46 @@ export const registerForumContentRoutes = (app: FastifyInstance, context: ForumR
       limit: query.limit,
       cursor: query.cursor,
       authorId: query.authorId,
+      language: query.language,
     });
   });
 
   app.get("/api/forum/posts/:postId", async (request) => {
     const params = postParamsSchema.parse(request.params);
     const query = postDetailQuerySchema.parse(request.query);
+    const authSession = await deps.getAuthSession(request);
 
     return deps.getForumPostDetail({
       postId: params.postId,
       commentsLimit: query.commentsLimit,
       commentsCursor: query.commentsCursor,
+      viewerUserId: authSession?.user.id,
+    });
+  });
+
+  app.get("/api/forum/posts/:postId/comments", async (request) => {
+    const params = postParamsSchema.parse(request.params);
+    const query = commentTreeQuerySchema.parse(request.query);
+
+    return deps.getForumCommentTree({
+      postId: params.postId,
+      sort: query.sort,
+      parentId: query.parentId,
+      limit: query.limit,
+      cursor: query.cursor,
+      replyLimit: query.replyLimit,
+      depth: query.depth,
+    });
+  });
+
+  app.get("/api/forum/posts/:postId/revisions", async (request) => {
+    const params = postParamsSchema.parse(request.params);
+    const query = revisionQuerySchema.parse(request.query);
+
+    return deps.listForumPostRevisions({
+      postId: params.postId,
+      fromRevision: query.from,
+      toRevision: query.to,
     });
   });
 
@@ -121,6 +155,17 @@ export const registerForumContentRoutes = (app: FastifyInstance, context: ForumR
     }
   );
 
+  app.get("/api/forum/comments/:commentId/revisions", async (request) => {
+    const params = commentParamsSchema.parse(request.params);
+    const query = revisionQuerySchema.parse(request.query);
+
+    return deps.listForumCommentRevisions({
+      commentId: params.commentId,
+      fromRevision: query.from,
+      toRevision: query.to,
+    });
+  });
+
   app.patch(
     "/api/forum/comments/:commentId",
     {
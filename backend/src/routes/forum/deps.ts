@@ -1,6 +1,6 @@
 import type { FastifyRequest, preHandlerHookHandler } from "fastify";
 
-import { requireAuthSession as requireAuthSessionDefault } from "../../lib/auth-session";
+import { getAuthSession as getAuthSessionDefault, requireAuthSession as requireAuthSessionDefault } from "../../lib/auth-session";
 import { requireAuthSessionMiddleware as requireAuthSessionMiddlewareDefault } from "../../middleware/auth-session";
 import * as forumCore from "../../services/forum-core";
 
@@ -8,6 +8,7 @@ type AuthSession = Awaited<ReturnType<typeof requireAuthSessionDefault>>;
 
 export type ForumRouteDependencies = typeof forumCore & {
   requireAuthSession: (request: FastifyRequest) => Promise<AuthSession>;
+  getAuthSession: (request: FastifyRequest) => Promise<AuthSession | null>;
   requireAuthSessionMiddleware: preHandlerHookHandler;
 };
 
@@ -24,5 +25,6 @@ export type ForumRouteContext = {
 export const defaultForumRouteDeps: ForumRouteDependencies = {
   ...forumCore,
   requireAuthSession: requireAuthSessionDefault,
+  getAuthSession: getAuthSessionDefault,
   requireAuthSessionMiddleware: requireAuthSessionMiddlewareDefault,
 };
@@ -13,6 +13,8 @@ export const registerForumDiscoveryRoutes = (app: FastifyInstance, context: Foru
     if (query.followingOnly) {
       const authSession = await deps.requireAuthSession(request);
       userId = authSession.user.id;
+    } else {
+      userId = (await deps.getAuthSession(request))?.user.id;
     }
 
     return deps.getForumFeed({
@@ -20,14 +22,26 @@ export const registerForumDiscoveryRoutes = (app: FastifyInstance, context: Foru
       cursor: query.cursor,
       followingOnly: query.followingOnly,
       userId,
+      categorySlug: query.category,
+      questionStatus: query.questionStatus,
+      sort: query.sort,
+      window: query.window,
+      tag: query.tag,
+      authorId: query.authorId,
+      hasCode: query.hasCode,
+      noComments: query.noComments,
     });
   });
 
   app.get("/api/forum/search", async (request) => {
     const query = searchQuerySchema.parse(request.query);
+    const authSession = await deps.getAuthSession(request);
+
     return deps.searchForumContent({
       query: query.query,
       limit: query.limit,
+      questionStatus: query.questionStatus,
+      viewerUserId: authSession?.user.id,
     });
   });
 
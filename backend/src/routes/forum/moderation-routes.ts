@@ -2,12 +2,14 @@ import type { FastifyInstance } from "fastify";
 
 import type { ForumRouteContext } from "./deps";
 import {
+  commentParamsSchema,
   lockBodySchema,
   moderationReportListQuerySchema,
   moderationReportParamsSchema,
   moderationResolveBodySchema,
   postParamsSchema,
   reportBodySchema,
+  revisionQuerySchema,
 } from "./schemas";
 
 export const registerForumModerationRoutes = (app: FastifyInstance, context: ForumRouteContext): void => {
@@ -67,6 +69,22 @@ export const registerForumModerationRoutes = (app: FastifyInstance, context: For
     }
   );
 
+  app.post(
+    "/api/forum/mod/comments/:commentId/hide",
+    {
+      preHandler: forumWritePreHandler,
+    },
+    async (request) => {
+      const authSession = await deps.requireAuthSession(request);
+      const params = commentParamsSchema.parse(request.params);
+
+      return deps.hideForumCommentAsModerator({
+        moderatorUserId: authSession.user.id,
+        commentId: params.commentId,
+      });
+    }
+  );
+
   app.patch(
     "/api/forum/mod/reports/:reportId",
     {
@@ -84,4 +102,42 @@ export const registerForumModerationRoutes = (app: FastifyInstance, context: For
       });
     }
   );
+
+  app.get(
+    "/api/forum/mod/posts/:postId/revisions",
+    {
+      preHandler: deps.requireAuthSessionMiddleware,
+    },
+    async (request) => {
+      const authSession = await deps.requireAuthSession(request);
+      const params = postParamsSchema.parse(request.params);
+      const query = revisionQuerySchema.parse(request.query);
+
+      return deps.listForumPostRevisions({
+        postId: params.postId,
+        moderatorUserId: authSession.user.id,
+        fromRevision: query.from,
+        toRevision: query.to,
+      });
+    }
+  );
+
+  app.get(
+    "/api/forum/mod/comments/:commentId/revisions",
+    {
+      preHandler: deps.requireAuthSessionMiddleware,
+    },
+    async (request) => {
+      const authSession = await deps.requireAuthSession(request);
+      const params = commentParamsSchema.parse(request.params);
+      const query = revisionQuerySchema.parse(request.query);
+
+      return deps.listForumCommentRevisions({
+        commentId: params.commentId,
+        moderatorUserId: authSession.user.id,
+        fromRevision: query.from,
+        toRevision: query.to,
+      });
+    }
+  );
 };
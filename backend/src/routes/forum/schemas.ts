@@ -8,6 +8,17 @@ export const createPostBodySchema = z.object({
   title: z.string().min(3).max(280),
   markdown: z.string().min(1).max(20000),
   tags: z.array(z.string().min(1).max(40)).max(12).optional(),
+  categoryId: z.string().uuid().optional(),
+  postType: z.enum(["discussion", "question"]).optional(),
+  poll: z
+    .object({
+      question: z.string().max(280).optional(),
+      options: z.array(z.string().min(1).max(120)).min(2).max(10),
+      allowMultiple: z.boolean().optional(),
+      ensGated: z.boolean().optional(),
+      closesAt: z.coerce.date().optional(),
+    })
+    .optional(),
 });
 
 export const updatePostBodySchema = z
@@ -28,6 +39,20 @@ export const postDetailQuerySchema = z.object({
   commentsCursor: z.string().uuid().optional(),
 });
 
+export const commentTreeQuerySchema = z.object({
+  sort: z.enum(["oldest", "newest", "top"]).optional(),
+  parentId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+  cursor: z.string().uuid().optional(),
+  replyLimit: z.coerce.number().int().positive().max(50).optional(),
+  depth: z.coerce.number().int().min(0).max(3).optional(),
+});
+
+export const revisionQuerySchema = z.object({
+  from: z.coerce.number().int().positive().optional(),
+  to: z.coerce.number().int().positive().optional(),
+});
+
 export const createCommentBodySchema = z.object({
   markdown: z.string().min(1).max(12000),
   parentId: z.string().uuid().optional(),
@@ -41,6 +66,7 @@ export const listPostsQuerySchema = z.object({
   limit: z.coerce.number().int().positive().max(100).optional(),
   cursor: z.string().uuid().optional(),
   authorId: z.string().uuid().optional(),
+  language: z.string().min(1).max(32).optional(),
 });
 
 export const draftQuerySchema = z.object({
@@ -67,19 +93,44 @@ export const followToggleBodySchema = z.object({
   followeeUserId: z.string().uuid(),
 });
 
+export const userToggleBodySchema = z.object({
+  userId: z.string().uuid(),
+});
+
+export const tagMuteToggleBodySchema = z.object({
+  tag: z.string().min(1).max(40),
+});
+
 export const pinBodySchema = z.object({
   pinned: z.boolean(),
 });
 
+export const pollVoteBodySchema = z.object({
+  optionIds: z.array(z.string().uuid()).min(1).max(10),
+});
+
+export const acceptedAnswerBodySchema = z.object({
+  commentId: z.string().uuid().nullable(),
+});
+
 export const feedQuerySchema = z.object({
   limit: z.coerce.number().int().positive().max(100).optional(),
-  cursor: z.string().uuid().optional(),
+  cursor: z.string().min(1).max(512).optional(),
   followingOnly: z.coerce.boolean().optional(),
+  category: z.string().min(1).max(120).optional(),
+  questionStatus: z.enum(["unanswered", "solved"]).optional(),
+  sort: z.enum(["new", "active", "top", "hot"]).optional(),
+  window: z.enum(["day", "week", "month", "all"]).optional(),
+  tag: z.string().min(1).max(40).optional(),
+  authorId: z.string().uuid().optional(),
+  hasCode: z.stringbool().optional(),
+  noComments: z.stringbool().optional(),
 });
 
 export const searchQuerySchema = z.object({
   query: z.string().min(1).max(200),
   limit: z.coerce.number().int().positive().max(100).optional(),
+  questionStatus: z.enum(["unanswered", "solved"]).optional(),
 });
 
 export const limitQuerySchema = z.object({
@@ -136,3 +187,45 @@ export const profileUpdateBodySchema = z.object({
   displayWalletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/).optional(),
   displayEnsName: z.string().max(255).optional(),
 });
+
+const categoryPostPolicySchema = z.enum(["everyone", "verified_ens", "moderators", "admins"]);
+
+export const categorySlugParamsSchema = z.object({
+  slug: z.string().min(1).max(120),
+});
+
+export const categoryParamsSchema = z.object({
+  categoryId: z.string().uuid(),
+});
+
+export const categoryModeratorParamsSchema = z.object({
+  categoryId: z.string().uuid(),
+  userId: z.string().uuid(),
+});
+
+export const categoryFeedQuerySchema = feedQuerySchema.omit({
+  followingOnly: true,
+  category: true,
+});
+
+export const createCategoryBodySchema = z.object({
+  slug: z.string().min(1).max(120),
+  name: z.string().min(1).max(120),
+  description: z.string().max(2000).optional(),
+  parentId: z.string().uuid().optional(),
+  sortOrder: z.number().int().min(0).max(10000).optional(),
+  postPolicy: categoryPostPolicySchema.optional(),
+});
+
+export const updateCategoryBodySchema = z
+  .object({
+    slug: z.string().min(1).max(120).optional(),
+    name: z.string().min(1).max(120).optional(),
+    description: z.string().max(2000).optional(),
+    parentId: z.string().uuid().nullable().optional(),
+    sortOrder: z.number().int().min(0).max(10000).optional(),
+    postPolicy: categoryPostPolicySchema.optional(),
+  })
+  .refine((value) => Object.values(value).some((entry) => entry !== undefined), {
+    message: "Provide at least one field to update",
+  });
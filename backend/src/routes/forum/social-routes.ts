@@ -2,12 +2,16 @@ import type { FastifyInstance } from "fastify";
 
 import type { ForumRouteContext } from "./deps";
 import {
+  acceptedAnswerBodySchema,
   bookmarkToggleBodySchema,
   followToggleBodySchema,
   pinBodySchema,
+  pollVoteBodySchema,
   postParamsSchema,
   reactionToggleBodySchema,
   shareBodySchema,
+  tagMuteToggleBodySchema,
+  userToggleBodySchema,
 } from "./schemas";
 
 export const registerForumSocialRoutes = (app: FastifyInstance, context: ForumRouteContext): void => {
@@ -81,6 +85,67 @@ export const registerForumSocialRoutes = (app: FastifyInstance, context: ForumRo
     }
   );
 
+  app.post(
+    "/api/forum/blocks/toggle",
+    {
+      preHandler: forumWritePreHandler,
+    },
+    async (request) => {
+      const authSession = await deps.requireAuthSession(request);
+      const body = userToggleBodySchema.parse(request.body);
+
+      return deps.toggleForumBlock({
+        userId: authSession.user.id,
+        targetUserId: body.userId,
+      });
+    }
+  );
+
+  app.post(
+    "/api/forum/mutes/toggle",
+    {
+      preHandler: forumWritePreHandler,
+    },
+    async (request) => {
+      const authSession = await deps.requireAuthSession(request);
+      const body = userToggleBodySchema.parse(request.body);
+
+      return deps.toggleForumMute({
+        userId: authSession.user.id,
+        targetUserId: body.userId,
+      });
+    }
+  );
+
+  app.post(
+    "/api/forum/tag-mutes/toggle",
+    {
+      preHandler: forumWritePreHandler,
+    },
+    async (request) => {
+      const authSession = await deps.requireAuthSession(request);
+      const body = tagMuteToggleBodySchema.parse(request.body);
+
+      return deps.toggleForumTagMute({
+        userId: authSession.user.id,
+        tag: body.tag,
+      });
+    }
+  );
+
+  app.get(
+    "/api/forum/blocks-and-mutes",
+    {
+      preHandler: deps.requireAuthSessionMiddleware,
+    },
+    async (request) => {
+      const authSession = await deps.requireAuthSession(request);
+      return deps.listForumBlocksAndMutes({
+        userId: authSession.user.id,
+      });
+    }
+  );
+
   app.post(
     "/api/forum/posts/:postId/pin",
     {
@@ -98,4 +163,40 @@ export const registerForumSocialRoutes = (app: FastifyInstance, context: ForumRo
       });
     }
   );
+
+  app.post(
+    "/api/forum/posts/:postId/poll/votes",
+    {
+      preHandler: forumWritePreHandler,
+    },
+    async (request) => {
+      const authSession = await deps.requireAuthSession(request);
+      const params = postParamsSchema.parse(request.params);
+      const body = pollVoteBodySchema.parse(request.body);
+
+      return deps.voteForumPoll({
+        userId: authSession.user.id,
+        postId: params.postId,
+        optionIds: body.optionIds,
+      });
+    }
+  );
+
+  app.post(
+    "/api/forum/posts/:postId/accepted-answer",
+    {
+      preHandler: forumWritePreHandler,
+    },
+    async (request) => {
+      const authSession = await deps.requireAuthSession(request);
+      const params = postParamsSchema.parse(request.params);
+      const body = acceptedAnswerBodySchema.parse(request.body);
+
+      return deps.setForumAcceptedAnswer({
+        userId: authSession.user.id,
+        postId: params.postId,
+        commentId: body.commentId,
+      });
+    }
+  );
 };
@@ -0,0 +1,376 @@
+import type { FastifyPluginAsync, FastifyRequest } from "fastify";
+
+import { HttpError } from "../lib/http-error";
+import { requireApiKeyAuth, requireApiKeyPrincipal } from "../middleware/api-key-auth";
+import { requireSecureTransportMiddleware } from "../middleware/require-secure-transport";
+import { recordApiKeyAuditEvent } from "../services/api-keys/audit";
+import {
+  createForumComment,
+  createForumPost,
+  getForumCommentTree,
+  getForumFeed,
+  getForumPostDetail,
+  listForumNotifications,
+  listForumPosts,
+} from "../services/forum-core";
+import {
+  createOutboundWebhookSubscription,
+  deleteOutboundWebhookSubscription,
+  listOutboundWebhookDeliveries,
+  listOutboundWebhookSubscriptions,
+  redeliverOutboundWebhookDelivery,
+  updateOutboundWebhookSubscription,
+} from "../services/outbound-webhooks";
+import {
+  commentTreeQuerySchema,
+  createCommentBodySchema,
+  createPostBodySchema,
+  feedQuerySchema,
+  listPostsQuerySchema,
+  notificationListQuerySchema,
+  postDetailQuerySchema,
+  postParamsSchema,
+} from "./forum/schemas";
+import {
+  createWebhookSubscriptionBodySchema,
+  updateWebhookSubscriptionBodySchema,
+  webhookDeliveryListQuerySchema,
+  webhookDeliveryParamsSchema,
+  webhookSubscriptionParamsSchema,
+} from "./outbound-webhooks";
+
+const forumReadPreHandler = [requireSecureTransportMiddleware, requireApiKeyAuth({ requiredScopes: ["forum:read"] })];
+
+const forumWritePreHandler = [
+  requireSecureTransportMiddleware,
+  requireApiKeyAuth({ requiredScopes: ["forum:write"], requireSignature: true }),
+];
+
+const notificationsReadPreHandler = [
+  requireSecureTransportMiddleware,
+  requireApiKeyAuth({ requiredScopes: ["notifications:read"] }),
+];
+
+const webhooksReadPreHandler = [
+  requireSecureTransportMiddleware,
+  requireApiKeyAuth({ requiredScopes: ["webhooks:read"] }),
+];
+
+const webhooksWritePreHandler = [
+  requireSecureTransportMiddleware,
+  requireApiKeyAuth({ requiredScopes: ["webhooks:write"], requireSignature: true }),
+];
+
+const getRequestPath = (request: FastifyRequest): string => (request.raw.url ?? request.url).split("?")[0] ?? request.url;
+
+const withIntegrationWriteAudit = async <T>(
+  request: FastifyRequest,
+  audit: { action: string; scope: string },
+  task: (userId: string) => Promise<T>,
+  describe: (result: T) => Record<string, unknown>
+): Promise<T> => {
+  const principal = requireApiKeyPrincipal(request);
+  const auditBase = {
+    keyId: principal.keyId,
+    userId: principal.userId,
+    eventType: "integration_write" as const,
+    policyAction: principal.policyAction,
+    scope: audit.scope,
+    riskLevel: principal.riskLevel,
+    riskScore: principal.riskScore,
+    ipAddress: request.ip,
+    userAgent: request.headers["user-agent"],
+    requestMethod: request.method,
+    requestPath: getRequestPath(request),
+  };
+
+  let result: T;
+  try {
+    result = await task(principal.userId);
+  } catch (error) {
+    await recordApiKeyAuditEvent({
+      ...auditBase,
+      outcome: "failure",
+      statusCode: error instanceof HttpError ? error.statusCode : 500,
+      reasonCode: error instanceof HttpError ? error.code : "INTEGRATION_WRITE_FAILED",
+      reason: error instanceof Error ? error.message : null,
+      metadata: { action: audit.action },
+    }).catch(() => undefined);
+
+    throw error;
+  }
+
+  await recordApiKeyAuditEvent({
+    ...auditBase,
+    outcome: "success",
+    statusCode: 200,
+    metadata: { action: audit.action, ...describe(result) },
+  }).catch(() => undefined);
+
+  return result;
+};
+
+export const integrationRoutes: FastifyPluginAsync = async (app) => {
+  app.get(
+    "/api/integrations/v1/forum/feed",
+    {
+      preHandler: forumReadPreHandler,
+    },
+    async (request) => {
+      const query = feedQuerySchema.parse(request.query);
+      const principal = requireApiKeyPrincipal(request);
+
+      return getForumFeed({
+        limit: query.limit,
+        cursor: query.cursor,
+        followingOnly: query.followingOnly,
+        userId: principal.userId,
+        categorySlug: query.category,
+        questionStatus: query.questionStatus,
+        sort: query.sort,
+        window: query.window,
+        tag: query.tag,
+        authorId: query.authorId,
+        hasCode: query.hasCode,
+        noComments: query.noComments,
+      });
+    }
+  );
+
+  app.get(
+    "/api/integrations/v1/forum/posts",
+    {
+      preHandler: forumReadPreHandler,
+    },
+    async (request) => {
+      const query = listPostsQuerySchema.parse(request.query);
+
+      return listForumPosts({
+        limit: query.limit,
+        cursor: query.cursor,
+        authorId: query.authorId,
+        language: query.language,
+      });
+    }
+  );
+
+  app.get(
+    "/api/integrations/v1/forum/posts/:postId",
+    {
+      preHandler: forumReadPreHandler,
+    },
+    async (request) => {
+      const params = postParamsSchema.parse(request.params);
+      const query = postDetailQuerySchema.parse(request.query);
+      const principal = requireApiKeyPrincipal(request);
+
+      return getForumPostDetail({
+        postId: params.postId,
+        commentsLimit: query.commentsLimit,
+        commentsCursor: query.commentsCursor,
+        viewerUserId: principal.userId,
+      });
+    }
+  );
+
+  app.get(
+    "/api/integrations/v1/forum/posts/:postId/comments",
+    {
+      preHandler: forumReadPreHandler,
+    },
+    async (request) => {
+      const params = postParamsSchema.parse(request.params);
+      const query = commentTreeQuerySchema.parse(request.query);
+
+      return getForumCommentTree({
+        postId: params.postId,
+        sort: query.sort,
+        parentId: query.parentId,
+        limit: query.limit,
+        cursor: query.cursor,
+        replyLimit: query.replyLimit,
+        depth: query.depth,
+      });
+    }
+  );
+
+  app.post(
+    "/api/integrations/v1/forum/posts",
+    {
+      preHandler: forumWritePreHandler,
+    },
+    async (request) => {
+      const body = createPostBodySchema.parse(request.body);
+
+      return withIntegrationWriteAudit(
+        request,
+        { action: "forum.post.create", scope: "forum:write" },
+        (userId) =>
+          createForumPost({
+            userId,
+            title: body.title,
+            markdown: body.markdown,
+            tags: body.tags,
+            categoryId: body.categoryId,
+            postType: body.postType,
+            poll: body.poll,
+          }),
+        (result) => ({ postId: result.post.id })
+      );
+    }
+  );
+
+  app.post(
+    "/api/integrations/v1/forum/posts/:postId/comments",
+    {
+      preHandler: forumWritePreHandler,
+    },
+    async (request) => {
+      const params = postParamsSchema.parse(request.params);
+      const body = createCommentBodySchema.parse(request.body);
+
+      return withIntegrationWriteAudit(
+        request,
+        { action: "forum.comment.create", scope: "forum:write" },
+        (userId) =>
+          createForumComment({
+            userId,
+            postId: params.postId,
+            markdown: body.markdown,
+            parentId: body.parentId,
+          }),
+        (result) => ({ postId: params.postId, commentId: result.comment.id })
+      );
+    }
+  );
+
+  app.get(
+    "/api/integrations/v1/forum/notifications",
+    {
+      preHandler: notificationsReadPreHandler,
+    },
+    async (request) => {
+      const query = notificationListQuerySchema.parse(request.query);
+      const principal = requireApiKeyPrincipal(request);
+
+      return listForumNotifications({
+        userId: principal.userId,
+        limit: query.limit,
+        cursor: query.cursor,
+        unreadOnly: query.unreadOnly,
+      });
+    }
+  );
+
+  app.get(
+    "/api/integrations/v1/webhooks",
+    {
+      preHandler: webhooksReadPreHandler,
+    },
+    async (request) => {
+      const principal = requireApiKeyPrincipal(request);
+      return listOutboundWebhookSubscriptions(principal.userId);
+    }
+  );
+
+  app.post(
+    "/api/integrations/v1/webhooks",
+    {
+      preHandler: webhooksWritePreHandler,
+    },
+    async (request) => {
+      const body = createWebhookSubscriptionBodySchema.parse(request.body);
+      const principal = requireApiKeyPrincipal(request);
+
+      return withIntegrationWriteAudit(
+        request,
+        { action: "webhooks.subscription.create", scope: "webhooks:write" },
+        (userId) =>
+          createOutboundWebhookSubscription({
+            userId,
+            apiKeyId: principal.keyId,
+            url: body.url,
+            description: body.description,
+            eventTypes: body.eventTypes,
+          }),
+        (result) => ({ subscriptionId: result.subscription.id })
+      );
+    }
+  );
+
+  app.patch(
+    "/api/integrations/v1/webhooks/:subscriptionId",
+    {
+      preHandler: webhooksWritePreHandler,
+    },
+    async (request) => {
+      const params = webhookSubscriptionParamsSchema.parse(request.params);
+      const body = updateWebhookSubscriptionBodySchema.parse(request.body);
+
+      return withIntegrationWriteAudit(
+        request,
+        { action: "webhooks.subscription.update", scope: "webhooks:write" },
+        (userId) => updateOutboundWebhookSubscription({ userId, subscriptionId: params.subscriptionId, ...body }),
+        () => ({ subscriptionId: params.subscriptionId })
+      );
+    }
+  );
+
+  app.delete(
+    "/api/integrations/v1/webhooks/:subscriptionId",
+    {
+      preHandler: webhooksWritePreHandler,
+    },
+    async (request) => {
+      const params = webhookSubscriptionParamsSchema.parse(request.params);
+
+      return withIntegrationWriteAudit(
+        request,
+        { action: "webhooks.subscription.delete", scope: "webhooks:write" },
+        (userId) => deleteOutboundWebhookSubscription({ userId, subscriptionId: params.subscriptionId }),
+        () => ({ subscriptionId: params.subscriptionId })
+      );
+    }
+  );
+
+  app.get(
+    "/api/integrations/v1/webhooks/:subscriptionId/deliveries",
+    {
+      preHandler: webhooksReadPreHandler,
+    },
+    async (request) => {
+      const params = webhookSubscriptionParamsSchema.parse(request.params);
+      const query = webhookDeliveryListQuerySchema.parse(request.query);
+      const principal = requireApiKeyPrincipal(request);
+
+      return listOutboundWebhookDeliveries({
+        userId: principal.userId,
+        subscriptionId: params.subscriptionId,
+        status: query.status,
+        limit: query.limit,
+      });
+    }
+  );
+
+  app.post(
+    "/api/integrations/v1/webhooks/:subscriptionId/deliveries/:deliveryId/redeliver",
+    {
+      preHandler: webhooksWritePreHandler,
+    },
+    async (request) => {
+      const params = webhookDeliveryParamsSchema.parse(request.params);
+
+      return withIntegrationWriteAudit(
+        request,
+        { action: "webhooks.delivery.redeliver", scope: "webhooks:write" },
+        (userId) =>
+          redeliverOutboundWebhookDelivery({
+            userId,
+            subscriptionId: params.subscriptionId,
+            deliveryId: params.deliveryId,
+          }),
+        () => ({ subscriptionId: params.subscriptionId, deliveryId: params.deliveryId })
+      );
+    }
+  );
+};
@@ -6,9 +6,16 @@ import { authDb, linkSiweIdentity, verifySiweChallenge } from "@evergreen-devpar
 import { schema } from "@evergreen-devparty/db";
 
 import { requireAuthSession } from "../lib/auth-session";
-import { HttpError } from "../lib/http-error";
 import { createDebounceMiddleware, hashDebouncePayload } from "../middleware/debounce-limit";
 import { requireAuthSessionMiddleware } from "../middleware/auth-session";
+import {
+  listUserWallets,
+  listWalletAuditEvents,
+  mapSiweErrorToHttpError,
+  recordWalletAuditEvent,
+  setPrimaryWalletForUser,
+  unlinkWalletForUser,
+} from "../services/wallet-management";
 
 const linkWalletBodySchema = z.object({
   message: z.string().min(1),
@@ -16,18 +23,25 @@ const linkWalletBodySchema = z.object({
   setAsPrimary: z.boolean().optional(),
 });
 
-const mapSiweErrorToHttpError = (error: unknown): HttpError | null => {
-  if (!(error instanceof Error)) {
-    return null;
-  }
+const walletParamsSchema = z.object({
+  walletId: z.string().min(1).max(200),
+});
 
-  const message = error.message.toLowerCase();
-  if (message.includes("signature") || message.includes("nonce") || message.includes("siwe")) {
-    return new HttpError(400, "SIWE_VERIFICATION_FAILED", "SIWE verification failed");
-  }
+const walletStepUpBodySchema = z
+  .object({
+    currentPassword: z.string().min(1).max(512).optional(),
+    message: z.string().min(1).optional(),
+    signature: z.string().min(1).optional(),
+  })
+  .default({});
 
-  return null;
-};
+const listWalletsQuerySchema = z.object({
+  chainId: z.coerce.number().int().positive().optional(),
+});
+
+const walletAuditQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
 
 export const meRoutes: FastifyPluginAsync = async (app) => {
   app.addHook("preHandler", requireAuthSessionMiddleware);
@@ -40,6 +54,14 @@ export const meRoutes: FastifyPluginAsync = async (app) => {
     },
   });
 
+  const debounceWalletChange = createDebounceMiddleware({
+    namespace: "me.wallet.change",
+    key: async (request) => {
+      const authSession = await requireAuthSession(request);
+      return `${authSession.user.id}:${request.method}:${request.url}`;
+    },
+  });
+
   app.get("/api/me", async (request) => {
     const authSession = await requireAuthSession(request);
 
@@ -90,16 +112,25 @@ export const meRoutes: FastifyPluginAsync = async (app) => {
 
   app.get("/api/me/wallets", async (request) => {
     const authSession = await requireAuthSession(request);
+    const query = listWalletsQuerySchema.parse(request.query);
 
-    const wallets = await authDb
-      .select()
-      .from(schema.wallets)
-      .where(eq(schema.wallets.userId, authSession.user.id))
-      .orderBy(desc(schema.wallets.isPrimary), desc(schema.wallets.updatedAt));
+    const wallets = await listUserWallets(authSession.user.id, query.chainId);
 
     return { wallets };
   });
 
+  app.get("/api/me/wallets/audit", async (request) => {
+    const authSession = await requireAuthSession(request);
+    const query = walletAuditQuerySchema.parse(request.query);
+
+    const events = await listWalletAuditEvents({
+      userId: authSession.user.id,
+      limit: query.limit,
+    });
+
+    return { events };
+  });
+
   app.post(
     "/api/me/wallets/link",
     {
@@ -130,15 +161,89 @@ export const meRoutes: FastifyPluginAsync = async (app) => {
         userId: authSession.user.id,
         address: verification.address,
         chainId: verification.chainId,
+        walletType: verification.walletType,
         setAsPrimary: body.setAsPrimary,
       });
 
+      const [linkedWallet] = await authDb
+        .select()
+        .from(schema.wallets)
+        .where(
+          and(
+            eq(schema.wallets.userId, authSession.user.id),
+            eq(schema.wallets.chainId, verification.chainId),
+            eq(schema.wallets.address, verification.address)
+          )
+        )
+        .limit(1);
+
+      await recordWalletAuditEvent({
+        userId: authSession.user.id,
+        action: "linked",
+        outcome: "success",
+        wallet: linkedWallet ?? null,
+        stepUpMethod: "siwe",
+        requestIp: request.ip,
+        requestUserAgent: request.headers["user-agent"],
+        metadata: {
+          setAsPrimary: linkedWallet?.isPrimary ?? false,
+          walletType: verification.walletType,
+        },
+      });
+
       return {
         linked: true,
         userId: authSession.user.id,
         walletAddress: verification.address,
         chainId: verification.chainId,
+        walletType: verification.walletType,
       };
     }
   );
+
+  app.delete(
+    "/api/me/wallets/:walletId",
+    {
+      preHandler: debounceWalletChange,
+    },
+    async (request) => {
+      const authSession = await requireAuthSession(request);
+      const { walletId } = walletParamsSchema.parse(request.params);
+      const body = walletStepUpBodySchema.parse(request.body ?? undefined);
+
+      return unlinkWalletForUser({
+        userId: authSession.user.id,
+        walletId,
+        sessionUpdatedAt: authSession.session.updatedAt,
+        currentPassword: body.currentPassword,
+        message: body.message,
+        signature: body.signature,
+        requestIp: request.ip,
+        requestUserAgent: request.headers["user-agent"],
+      });
+    }
+  );
+
+  app.post(
+    "/api/me/wallets/:walletId/primary",
+    {
+      preHandler: debounceWalletChange,
+    },
+    async (request) => {
+      const authSession = await requireAuthSession(request);
+      const { walletId } = walletParamsSchema.parse(request.params);
+      const body = walletStepUpBodySchema.parse(request.body ?? undefined);
+
+      return setPrimaryWalletForUser({
+        userId: authSession.user.id,
+        walletId,
+        sessionUpdatedAt: authSession.session.updatedAt,
+        currentPassword: body.currentPassword,
+        message: body.message,
+        signature: body.signature,
+        requestIp: request.ip,
+        requestUserAgent: request.headers["user-agent"],
+      });
+    }
+  );
 };
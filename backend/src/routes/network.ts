@@ -1,13 +1,31 @@
 import type { FastifyPluginAsync } from "fastify";
 
-import { ensCoreContracts, oorthNexusNetwork } from "@evergreen-devparty/auth";
+import { getDefaultNetwork, listNetworks } from "@evergreen-devparty/auth";
 
 import { listEnsTlds } from "../services/ens-marketplace";
 
 export const networkRoutes: FastifyPluginAsync = async (app) => {
-  app.get("/api/network", async () => ({
-    network: oorthNexusNetwork,
-    contracts: ensCoreContracts,
-    tlds: listEnsTlds(),
-  }));
+  app.get("/api/network", async () => {
+    const defaultNetwork = getDefaultNetwork();
+
+    return {
+      network: {
+        rpcUrl: defaultNetwork.rpcUrl,
+        chainId: defaultNetwork.chainId,
+        explorerUrl: defaultNetwork.explorerUrl,
+      },
+      contracts: defaultNetwork.contracts,
+      tlds: listEnsTlds(defaultNetwork.chainId),
+      networks: listNetworks().map((network) => ({
+        chainId: network.chainId,
+        name: network.name,
+        rpcUrl: network.rpcUrl,
+        explorerUrl: network.explorerUrl,
+        nativeCurrency: network.nativeCurrency,
+        isDefault: network.chainId === defaultNetwork.chainId,
+        contracts: network.contracts,
+        tlds: listEnsTlds(network.chainId),
+      })),
+    };
+  });
 };
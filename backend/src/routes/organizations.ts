@@ -0,0 +1,288 @@
+import type { FastifyPluginAsync } from "fastify";
+import { z } from "zod";
+
+import { schema } from "@evergreen-devparty/db";
+
+import { requireAuthSession } from "../lib/auth-session";
+import { requireAuthSessionMiddleware } from "../middleware/auth-session";
+import { requireSecureTransportMiddleware } from "../middleware/require-secure-transport";
+import { requireTrustedOriginMiddleware } from "../middleware/trusted-origin";
+import {
+  addOrganizationMember,
+  createOrganization,
+  createOrganizationApiKey,
+  getOrganizationForMember,
+  listOrganizationApiKeys,
+  listOrganizationsForUser,
+  removeOrganizationMember,
+  revokeOrganizationApiKey,
+  rotateOrganizationApiKey,
+  updateOrganizationMemberRole,
+} from "../services/organizations";
+import { createApiKeyBodySchema, revokeApiKeyBodySchema, rotateApiKeyBodySchema } from "./api-keys";
+
+const organizationRoleSchema = z.enum(schema.organizationMemberRoleEnum.enumValues);
+
+const createOrganizationBodySchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  slug: z.string().trim().min(3).max(64).optional(),
+});
+
+const addOrganizationMemberBodySchema = z
+  .object({
+    userId: z.string().trim().min(1).max(200).optional(),
+    email: z.string().trim().email().max(320).optional(),
+    role: organizationRoleSchema.optional(),
+  })
+  .refine((body) => Boolean(body.userId) !== Boolean(body.email), {
+    message: "Provide exactly one of userId or email",
+  });
+
+const updateOrganizationMemberBodySchema = z.object({
+  role: organizationRoleSchema,
+});
+
+const organizationParamsSchema = z.object({
+  orgId: z.string().uuid(),
+});
+
+const organizationMemberParamsSchema = organizationParamsSchema.extend({
+  userId: z.string().min(1).max(200),
+});
+
+const organizationKeyParamsSchema = organizationParamsSchema.extend({
+  keyId: z.string().min(8).max(200),
+});
+
+const readPreHandler = [requireSecureTransportMiddleware, requireAuthSessionMiddleware];
+const writePreHandler = [requireSecureTransportMiddleware, requireAuthSessionMiddleware, requireTrustedOriginMiddleware];
+
+export const organizationRoutes: FastifyPluginAsync = async (app) => {
+  app.get(
+    "/api/orgs",
+    {
+      preHandler: readPreHandler,
+    },
+    async (request) => {
+      const authSession = await requireAuthSession(request);
+      const organizations = await listOrganizationsForUser(authSession.user.id);
+
+      return {
+        organizations,
+      };
+    }
+  );
+
+  app.post(
+    "/api/orgs",
+    {
+      preHandler: writePreHandler,
+    },
+    async (request) => {
+      const body = createOrganizationBodySchema.parse(request.body);
+      const authSession = await requireAuthSession(request);
+
+      const organization = await createOrganization({
+        userId: authSession.user.id,
+        name: body.name,
+        slug: body.slug,
+      });
+
+      return {
+        organization,
+      };
+    }
+  );
+
+  app.get(
+    "/api/orgs/:orgId",
+    {
+      preHandler: readPreHandler,
+    },
+    async (request) => {
+      const { orgId } = organizationParamsSchema.parse(request.params);
+      const authSession = await requireAuthSession(request);
+
+      const organization = await getOrganizationForMember({
+        userId: authSession.user.id,
+        organizationId: orgId,
+      });
+
+      return {
+        organization,
+      };
+    }
+  );
+
+  app.post(
+    "/api/orgs/:orgId/members",
+    {
+      preHandler: writePreHandler,
+    },
+    async (request) => {
+      const { orgId } = organizationParamsSchema.parse(request.params);
+      const body = addOrganizationMemberBodySchema.parse(request.body);
+      const authSession = await requireAuthSession(request);
+
+      const member = await addOrganizationMember({
+        actorUserId: authSession.user.id,
+        organizationId: orgId,
+        userId: body.userId,
+        email: body.email,
+        role: body.role,
+      });
+
+      return {
+        member,
+      };
+    }
+  );
+
+  app.patch(
+    "/api/orgs/:orgId/members/:userId",
+    {
+      preHandler: writePreHandler,
+    },
+    async (request) => {
+      const { orgId, userId } = organizationMemberParamsSchema.parse(request.params);
+      const body = updateOrganizationMemberBodySchema.parse(request.body);
+      const authSession = await requireAuthSession(request);
+
+      const member = await updateOrganizationMemberRole({
+        actorUserId: authSession.user.id,
+        organizationId: orgId,
+        userId,
+        role: body.role,
+      });
+
+      return {
+        member,
+      };
+    }
+  );
+
+  app.delete(
+    "/api/orgs/:orgId/members/:userId",
+    {
+      preHandler: writePreHandler,
+    },
+    async (request) => {
+      const { orgId, userId } = organizationMemberParamsSchema.parse(request.params);
+      const authSession = await requireAuthSession(request);
+
+      return removeOrganizationMember({
+        actorUserId: authSession.user.id,
+        organizationId: orgId,
+        userId,
+      });
+    }
+  );
+
+  app.get(
+    "/api/orgs/:orgId/api-keys",
+    {
+      preHandler: readPreHandler,
+    },
+    async (request) => {
+      const { orgId } = organizationParamsSchema.parse(request.params);
+      const authSession = await requireAuthSession(request);
+
+      const keys = await listOrganizationApiKeys({
+        userId: authSession.user.id,
+        organizationId: orgId,
+      });
+
+      return {
+        keys,
+      };
+    }
+  );
+
+  app.post(
+    "/api/orgs/:orgId/api-keys",
+    {
+      preHandler: writePreHandler,
+    },
+    async (request) => {
+      const { orgId } = organizationParamsSchema.parse(request.params);
+      const body = createApiKeyBodySchema.parse(request.body);
+      const authSession = await requireAuthSession(request);
+
+      const created = await createOrganizationApiKey({
+        actorUserId: authSession.user.id,
+        organizationId: orgId,
+        name: body.name,
+        scopes: body.scopes,
+        environment: body.environment,
+        expiresInDays: body.expiresInDays,
+        rateLimitPerMinute: body.rateLimitPerMinute,
+        rateLimitPerIpMinute: body.rateLimitPerIpMinute,
+        concurrencyLimit: body.concurrencyLimit,
+        restrictions: body.restrictions,
+        metadata: body.metadata,
+        createdFromIp: request.ip,
+        createdFromUa: request.headers["user-agent"],
+      });
+
+      return {
+        created,
+        warning: "Store this key now. It will not be shown again.",
+      };
+    }
+  );
+
+  app.post(
+    "/api/orgs/:orgId/api-keys/:keyId/rotate",
+    {
+      preHandler: writePreHandler,
+    },
+    async (request) => {
+      const { orgId, keyId } = organizationKeyParamsSchema.parse(request.params);
+      const body = rotateApiKeyBodySchema.parse(request.body);
+      const authSession = await requireAuthSession(request);
+
+      const rotated = await rotateOrganizationApiKey({
+        actorUserId: authSession.user.id,
+        organizationId: orgId,
+        keyId,
+        sessionUpdatedAt: authSession.session.updatedAt,
+        currentPassword: body.currentPassword,
+        gracePeriodMinutes: body.gracePeriodMinutes,
+        requestIp: request.ip,
+        requestUserAgent: request.headers["user-agent"],
+      });
+
+      return {
+        rotated,
+        warning: "Store this new key now. It will not be shown again.",
+      };
+    }
+  );
+
+  app.post(
+    "/api/orgs/:orgId/api-keys/:keyId/revoke",
+    {
+      preHandler: writePreHandler,
+    },
+    async (request) => {
+      const { orgId, keyId } = organizationKeyParamsSchema.parse(request.params);
+      const body = revokeApiKeyBodySchema.parse(request.body);
+      const authSession = await requireAuthSession(request);
+
+      const revoked = await revokeOrganizationApiKey({
+        actorUserId: authSession.user.id,
+        organizationId: orgId,
+        keyId,
+        sessionUpdatedAt: authSession.session.updatedAt,
+        currentPassword: body.currentPassword,
+        reason: body.reason,
+        requestIp: request.ip,
+        requestUserAgent: request.headers["user-agent"],
+      });
+
+      return {
+        revoked,
+      };
+    }
+  );
+};
@@ -0,0 +1,154 @@
+import type { FastifyPluginAsync } from "fastify";
+import { z } from "zod";
+
+import { requireAuthSession } from "../lib/auth-session";
+import { requireAuthSessionMiddleware } from "../middleware/auth-session";
+import { requireSecureTransportMiddleware } from "../middleware/require-secure-transport";
+import { requireTrustedOriginMiddleware } from "../middleware/trusted-origin";
+import {
+  createOutboundWebhookSubscription,
+  deleteOutboundWebhookSubscription,
+  listOutboundWebhookDeliveries,
+  listOutboundWebhookSubscriptions,
+  redeliverOutboundWebhookDelivery,
+  updateOutboundWebhookSubscription,
+} from "../services/outbound-webhooks";
+
+export const createWebhookSubscriptionBodySchema = z.object({
+  url: z.string().trim().min(1).max(2048),
+  description: z.string().trim().max(255).optional(),
+  eventTypes: z.array(z.string().trim().min(1).max(64)).min(1).max(16),
+});
+
+export const updateWebhookSubscriptionBodySchema = z
+  .object({
+    url: z.string().trim().min(1).max(2048).optional(),
+    description: z.string().trim().max(255).nullable().optional(),
+    eventTypes: z.array(z.string().trim().min(1).max(64)).min(1).max(16).optional(),
+    status: z.enum(["active", "paused"]).optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: "At least one field is required",
+  });
+
+export const webhookSubscriptionParamsSchema = z.object({
+  subscriptionId: z.string().uuid(),
+});
+
+export const webhookDeliveryParamsSchema = webhookSubscriptionParamsSchema.extend({
+  deliveryId: z.string().uuid(),
+});
+
+export const webhookDeliveryListQuerySchema = z.object({
+  status: z.enum(["pending", "processing", "delivered", "failed", "dead_letter"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const readPreHandler = [requireSecureTransportMiddleware, requireAuthSessionMiddleware];
+const writePreHandler = [requireSecureTransportMiddleware, requireAuthSessionMiddleware, requireTrustedOriginMiddleware];
+
+export const outboundWebhookRoutes: FastifyPluginAsync = async (app) => {
+  app.get(
+    "/api/me/webhooks",
+    {
+      preHandler: readPreHandler,
+    },
+    async (request) => {
+      const authSession = await requireAuthSession(request);
+      return listOutboundWebhookSubscriptions(authSession.user.id);
+    }
+  );
+
+  app.post(
+    "/api/me/webhooks",
+    {
+      preHandler: writePreHandler,
+    },
+    async (request) => {
+      const body = createWebhookSubscriptionBodySchema.parse(request.body);
+      const authSession = await requireAuthSession(request);
+
+      const created = await createOutboundWebhookSubscription({
+        userId: authSession.user.id,
+        url: body.url,
+        description: body.description,
+        eventTypes: body.eventTypes,
+      });
+
+      return {
+        ...created,
+        warning: "Store this signing secret now. It will not be shown again.",
+      };
+    }
+  );
+
+  app.patch(
+    "/api/me/webhooks/:subscriptionId",
+    {
+      preHandler: writePreHandler,
+    },
+    async (request) => {
+      const params = webhookSubscriptionParamsSchema.parse(request.params);
+      const body = updateWebhookSubscriptionBodySchema.parse(request.body);
+      const authSession = await requireAuthSession(request);
+
+      return updateOutboundWebhookSubscription({
+        userId: authSession.user.id,
+        subscriptionId: params.subscriptionId,
+        ...body,
+      });
+    }
+  );
+
+  app.delete(
+    "/api/me/webhooks/:subscriptionId",
+    {
+      preHandler: writePreHandler,
+    },
+    async (request) => {
+      const params = webhookSubscriptionParamsSchema.parse(request.params);
+      const authSession = await requireAuthSession(request);
+
+      return deleteOutboundWebhookSubscription({
+        userId: authSession.user.id,
+        subscriptionId: params.subscriptionId,
+      });
+    }
+  );
+
+  app.get(
+    "/api/me/webhooks/:subscriptionId/deliveries",
+    {
+      preHandler: readPreHandler,
+    },
+    async (request) => {
+      const params = webhookSubscriptionParamsSchema.parse(request.params);
+      const query = webhookDeliveryListQuerySchema.parse(request.query);
+      const authSession = await requireAuthSession(request);
+
+      return listOutboundWebhookDeliveries({
+        userId: authSession.user.id,
+        subscriptionId: params.subscriptionId,
+        status: query.status,
+        limit: query.limit,
+      });
+    }
+  );
+
+  app.post(
+    "/api/me/webhooks/:subscriptionId/deliveries/:deliveryId/redeliver",
+    {
+      preHandler: writePreHandler,
+    },
+    async (request) => {
+      const params = webhookDeliveryParamsSchema.parse(request.params);
+      const authSession = await requireAuthSession(request);
+
+      return redeliverOutboundWebhookDelivery({
+        userId: authSession.user.id,
+        subscriptionId: params.subscriptionId,
+        deliveryId: params.deliveryId,
+      });
+    }
+  );
+};
@@ -1,17 +1,12 @@
 import type { FastifyPluginAsync } from "fastify";
 import { z } from "zod";
 
-import {
-  authDb,
-  createSiweChallenge,
-  linkSiweIdentity,
-  oorthNexusNetwork,
-  verifySiweChallenge,
-} from "@evergreen-devparty/auth";
+import { authDb, createSiweChallenge, linkSiweIdentity, verifySiweChallenge } from "@evergreen-devparty/auth";
 
 import { getAuthSession } from "../lib/auth-session";
 import { HttpError } from "../lib/http-error";
 import { createDebounceMiddleware, hashDebouncePayload } from "../middleware/debounce-limit";
+import { getDefaultChainId } from "../services/chain-clients";
 
 const challengeBodySchema = z.object({
   walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
@@ -65,7 +60,7 @@ export const siweRoutes: FastifyPluginAsync = async (app) => {
         return `${request.ip}:invalid`;
       }
 
-      return `${request.ip}:${parsed.data.walletAddress.toLowerCase()}:${parsed.data.chainId ?? oorthNexusNetwork.chainId}`;
+      return `${request.ip}:${parsed.data.walletAddress.toLowerCase()}:${parsed.data.chainId ?? getDefaultChainId()}`;
     },
   });
 
@@ -86,7 +81,7 @@ export const siweRoutes: FastifyPluginAsync = async (app) => {
         challenge = await createSiweChallenge({
           db: authDb,
           walletAddress: body.walletAddress,
-          chainId: body.chainId ?? oorthNexusNetwork.chainId,
+          chainId: body.chainId ?? getDefaultChainId(),
           statement: body.statement,
         });
       } catch (error) {
@@ -138,6 +133,7 @@ export const siweRoutes: FastifyPluginAsync = async (app) => {
           userId: authSession.user.id,
           address: verification.address,
           chainId: verification.chainId,
+          walletType: verification.walletType,
           setAsPrimary: body.setAsPrimary,
         });
       }
@@ -34,6 +34,8 @@ const sanitize = (value: string | null | undefined): string | null => {
   return next ? next : null;
 };
 
+const clampStatusCode = (statusCode: number): number => Math.max(100, Math.min(599, Math.floor(statusCode)));
+
 export const recordApiKeyAuditEvent = async (input: RecordApiKeyAuditEventInput): Promise<string> => {
   const id = randomUUID();
   await authDb.insert(schema.apiKeyAuditEvents).values({
@@ -50,8 +52,7 @@ export const recordApiKeyAuditEvent = async (input: RecordApiKeyAuditEventInput)
     userAgent: sanitize(input.userAgent),
     requestMethod: sanitize(input.requestMethod),
     requestPath: sanitize(input.requestPath),
-    statusCode:
-      input.statusCode === null || input.statusCode === undefined ? null : Math.max(100, Math.min(599, Math.floor(input.statusCode))),
+    statusCode: input.statusCode === null || input.statusCode === undefined ? null : clampStatusCode(input.statusCode),
     reasonCode: sanitize(input.reasonCode),
     reason: sanitize(input.reason),
     metadata: input.metadata ?? {},
@@ -61,6 +62,13 @@ export const recordApiKeyAuditEvent = async (input: RecordApiKeyAuditEventInput)
   return id;
 };
 
+export const recordApiKeyAuditEventStatus = async (eventId: string, statusCode: number): Promise<void> => {
+  await authDb
+    .update(schema.apiKeyAuditEvents)
+    .set({ statusCode: clampStatusCode(statusCode) })
+    .where(eq(schema.apiKeyAuditEvents.id, eventId));
+};
+
 export const countSuccessfulAuthenticationsForIp = async (input: {
   keyId: string;
   ipAddress: string;
@@ -100,3 +108,21 @@ export const countRecentSuccessfulAuthentications = async (input: {
 
   return row?.total ?? 0;
 };
+
+export const countRecentRestrictionViolations = async (input: {
+  keyId: string;
+  since: Date;
+}): Promise<number> => {
+  const [row] = await authDb
+    .select({ total: count() })
+    .from(schema.apiKeyAuditEvents)
+    .where(
+      and(
+        eq(schema.apiKeyAuditEvents.keyId, input.keyId),
+        eq(schema.apiKeyAuditEvents.reasonCode, "API_KEY_RESTRICTION_VIOLATION"),
+        gte(schema.apiKeyAuditEvents.createdAt, input.since)
+      )
+    );
+
+  return row?.total ?? 0;
+};
@@ -8,6 +8,7 @@ import { schema } from "@evergreen-devparty/db";
 
 import { backendEnv } from "../../config/env";
 import { HttpError } from "../../lib/http-error";
+import { isSessionFresh, verifyCurrentPassword } from "../step-up-auth";
 import {
   type ApiKeyPolicyAction,
   recordApiKeyAuditEvent,
@@ -25,6 +26,11 @@ import {
   type ApiKeyEnvironment,
 } from "./format";
 import { acquireInFlightSlot, consumeToken } from "./rate-limit";
+import {
+  findApiKeyRestrictionViolation,
+  normalizeApiKeyRestrictions,
+  type ApiKeyRestrictions,
+} from "./restrictions";
 import { evaluateApiKeyRisk } from "./risk";
 import { verifyApiKeyRequestSignature } from "./signature";
 
@@ -105,8 +111,6 @@ const normalizeRequiredScopes = (scopes: string[]): string[] => {
   return normalized;
 };
 
-const getStepUpAllowedAgeMs = (): number => backendEnv.apiKey.sessionFreshSeconds * 1000;
-
 const assertUserEmailVerified = async (userId: string): Promise<void> => {
   const [user] = await authDb
     .select({ emailVerified: schema.users.emailVerified })
@@ -128,10 +132,7 @@ const assertStepUpAuthentication = async (input: {
   sessionUpdatedAt?: string | Date | null;
   currentPassword?: string;
 }): Promise<void> => {
-  const now = Date.now();
-  const sessionUpdatedAt = toDate(input.sessionUpdatedAt) ?? new Date(0);
-  const isFresh = now - sessionUpdatedAt.getTime() <= getStepUpAllowedAgeMs();
-  if (isFresh) {
+  if (isSessionFresh(input.sessionUpdatedAt, backendEnv.apiKey.sessionFreshSeconds)) {
     return;
   }
 
@@ -140,24 +141,7 @@ const assertStepUpAuthentication = async (input: {
     throw new HttpError(403, "SESSION_REAUTH_REQUIRED", "Please re-authenticate by providing currentPassword");
   }
 
-  const [credentialAccount] = await authDb
-    .select({ passwordHash: schema.authAccounts.password })
-    .from(schema.authAccounts)
-    .where(and(eq(schema.authAccounts.userId, input.userId), eq(schema.authAccounts.providerId, "credential")))
-    .limit(1);
-
-  if (!credentialAccount?.passwordHash) {
-    throw new HttpError(403, "SESSION_REAUTH_REQUIRED", "Password-based re-authentication is unavailable for this account");
-  }
-
-  const verified = await verifySecretValue({
-    hash: credentialAccount.passwordHash,
-    value: password,
-  });
-
-  if (!verified) {
-    throw new HttpError(403, "SESSION_REAUTH_REQUIRED", "Current password is invalid");
-  }
+  await verifyCurrentPassword(input.userId, password);
 };
 
 const calculateExpiryDate = (expiresInDays: number | undefined): Date | null => {
@@ -175,11 +159,12 @@ const calculateExpiryDate = (expiresInDays: number | undefined): Date | null =>
   return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
 };
 
-const safeRecordAudit = async (input: Parameters<typeof recordApiKeyAuditEvent>[0]): Promise<void> => {
+const safeRecordAudit = async (input: Parameters<typeof recordApiKeyAuditEvent>[0]): Promise<string | null> => {
   try {
-    await recordApiKeyAuditEvent(input);
+    return await recordApiKeyAuditEvent(input);
   } catch {
     // Ignore audit write failures to avoid masking the request result.
+    return null;
   }
 };
 
@@ -233,7 +218,9 @@ export type CreateApiKeyInput = {
   rateLimitPerMinute?: number;
   rateLimitPerIpMinute?: number;
   concurrencyLimit?: number;
+  restrictions?: ApiKeyRestrictions;
   metadata?: Record<string, unknown>;
+  organizationId?: string;
   createdByUserId?: string;
   createdFromIp?: string;
   createdFromUa?: string;
@@ -245,12 +232,13 @@ export type CreateApiKeyResult = {
   name: string;
   environment: ApiKeyEnvironment;
   scopes: string[];
+  restrictions: ApiKeyRestrictions;
   expiresAt: Date | null;
   createdAt: Date;
 };
 
 export const createApiKeyForUser = async (input: CreateApiKeyInput): Promise<CreateApiKeyResult> => {
-  await assertUserEmailVerified(input.userId);
+  await assertUserEmailVerified(sanitize(input.createdByUserId) ?? input.userId);
 
   const name = sanitize(input.name);
   if (!name) {
@@ -258,6 +246,7 @@ export const createApiKeyForUser = async (input: CreateApiKeyInput): Promise<Cre
   }
 
   const scopes = validateStoredScopesOrThrow(input.scopes);
+  const restrictions = normalizeApiKeyRestrictions(input.restrictions);
   const environment = input.environment ?? "live";
   const keyId = generateApiKeyId();
   const secret = generateApiKeySecret();
@@ -269,12 +258,14 @@ export const createApiKeyForUser = async (input: CreateApiKeyInput): Promise<Cre
   await authDb.insert(schema.apiKeys).values({
     id: keyId,
     userId: input.userId,
+    organizationId: input.organizationId ?? null,
     environment,
     name,
     prefix: getApiKeyPrefix(environment),
     secretHash,
     secretHint,
     scopes,
+    restrictions,
     status: "active",
     riskLevel: "low",
     riskScore: 0,
@@ -302,8 +293,11 @@ export const createApiKeyForUser = async (input: CreateApiKeyInput): Promise<Cre
     userAgent: input.createdFromUa,
     metadata: {
       scopes,
+      restrictions,
       environment,
       expiresAt: expiresAt?.toISOString() ?? null,
+      organizationId: input.organizationId ?? null,
+      createdByUserId: sanitize(input.createdByUserId),
     },
   });
 
@@ -313,11 +307,38 @@ export const createApiKeyForUser = async (input: CreateApiKeyInput): Promise<Cre
     name,
     environment,
     scopes,
+    restrictions,
     expiresAt,
     createdAt: now,
   };
 };
 
+const readStoredRestrictions = (value: unknown): ApiKeyRestrictions =>
+  typeof value === "object" && value !== null && !Array.isArray(value) ? (value as ApiKeyRestrictions) : {};
+
+const toApiKeySummary = (row: typeof schema.apiKeys.$inferSelect) => ({
+  id: row.id,
+  name: row.name,
+  environment: row.environment,
+  status: row.status,
+  scopes: Array.isArray(row.scopes) ? (row.scopes as string[]) : [],
+  restrictions: readStoredRestrictions(row.restrictions),
+  keyDisplay: maskApiKeyDisplay({
+    environment: row.environment,
+    keyId: row.id,
+    secretHint: row.secretHint,
+  }),
+  expiresAt: row.expiresAt,
+  graceExpiresAt: row.graceExpiresAt,
+  lastUsedAt: row.lastUsedAt,
+  usageCount: row.usageCount,
+  riskLevel: row.riskLevel,
+  riskScore: row.riskScore,
+  createdByUserId: row.createdByUserId,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
 export const listApiKeysForUser = async (userId: string) => {
   const rows = await authDb
     .select()
@@ -325,29 +346,20 @@ export const listApiKeysForUser = async (userId: string) => {
     .where(eq(schema.apiKeys.userId, userId))
     .orderBy(desc(schema.apiKeys.createdAt));
 
-  return rows.map((row) => ({
-    id: row.id,
-    name: row.name,
-    environment: row.environment,
-    status: row.status,
-    scopes: Array.isArray(row.scopes) ? (row.scopes as string[]) : [],
-    keyDisplay: maskApiKeyDisplay({
-      environment: row.environment,
-      keyId: row.id,
-      secretHint: row.secretHint,
-    }),
-    expiresAt: row.expiresAt,
-    graceExpiresAt: row.graceExpiresAt,
-    lastUsedAt: row.lastUsedAt,
-    usageCount: row.usageCount,
-    riskLevel: row.riskLevel,
-    riskScore: row.riskScore,
-    createdAt: row.createdAt,
-    updatedAt: row.updatedAt,
-  }));
+  return rows.map(toApiKeySummary);
 };
 
-const assertKeyOwnedByUser = async (input: { userId: string; keyId: string }) => {
+export const listApiKeysForOrganization = async (organizationId: string) => {
+  const rows = await authDb
+    .select()
+    .from(schema.apiKeys)
+    .where(eq(schema.apiKeys.organizationId, organizationId))
+    .orderBy(desc(schema.apiKeys.createdAt));
+
+  return rows.map(toApiKeySummary);
+};
+
+export const assertKeyOwnedByUser = async (input: { userId: string; keyId: string }) => {
   const [row] = await authDb
     .select()
     .from(schema.apiKeys)
@@ -364,15 +376,17 @@ const assertKeyOwnedByUser = async (input: { userId: string; keyId: string }) =>
 export const rotateApiKeyForUser = async (input: {
   userId: string;
   keyId: string;
+  actorUserId?: string;
   sessionUpdatedAt?: string | Date | null;
   currentPassword?: string;
   gracePeriodMinutes?: number;
   requestIp?: string;
   requestUserAgent?: string;
 }) => {
-  await assertUserEmailVerified(input.userId);
+  const actorUserId = input.actorUserId ?? input.userId;
+  await assertUserEmailVerified(actorUserId);
   await assertStepUpAuthentication({
-    userId: input.userId,
+    userId: actorUserId,
     sessionUpdatedAt: input.sessionUpdatedAt,
     currentPassword: input.currentPassword,
   });
@@ -401,11 +415,13 @@ export const rotateApiKeyForUser = async (input: {
     rateLimitPerMinute: currentKey.rateLimitPerMinute,
     rateLimitPerIpMinute: currentKey.rateLimitPerIpMinute,
     concurrencyLimit: currentKey.concurrencyLimit,
+    restrictions: readStoredRestrictions(currentKey.restrictions),
     metadata: {
       ...(typeof currentKey.metadata === "object" && currentKey.metadata ? (currentKey.metadata as Record<string, unknown>) : {}),
       rotatedFromKeyId: currentKey.id,
     },
-    createdByUserId: input.userId,
+    organizationId: currentKey.organizationId ?? undefined,
+    createdByUserId: actorUserId,
     createdFromIp: input.requestIp,
     createdFromUa: input.requestUserAgent,
   });
@@ -441,6 +457,7 @@ export const rotateApiKeyForUser = async (input: {
       rotatedToKeyId: rotatedKey.id,
       gracePeriodMinutes,
       graceExpiresAt: graceExpiresAt.toISOString(),
+      actorUserId,
     },
   });
 
@@ -455,15 +472,17 @@ export const rotateApiKeyForUser = async (input: {
 export const revokeApiKeyForUser = async (input: {
   userId: string;
   keyId: string;
+  actorUserId?: string;
   sessionUpdatedAt?: string | Date | null;
   currentPassword?: string;
   reason?: string;
   requestIp?: string;
   requestUserAgent?: string;
 }) => {
-  await assertUserEmailVerified(input.userId);
+  const actorUserId = input.actorUserId ?? input.userId;
+  await assertUserEmailVerified(actorUserId);
   await assertStepUpAuthentication({
-    userId: input.userId,
+    userId: actorUserId,
     sessionUpdatedAt: input.sessionUpdatedAt,
     currentPassword: input.currentPassword,
   });
@@ -504,6 +523,9 @@ export const revokeApiKeyForUser = async (input: {
     userAgent: input.requestUserAgent,
     reasonCode: "MANUAL_REVOKE",
     reason: sanitize(input.reason) ?? "manual_revoke",
+    metadata: {
+      actorUserId,
+    },
   });
 
   return {
@@ -513,9 +535,72 @@ export const revokeApiKeyForUser = async (input: {
   };
 };
 
+export const updateApiKeyRestrictionsForUser = async (input: {
+  userId: string;
+  keyId: string;
+  actorUserId?: string;
+  restrictions: ApiKeyRestrictions;
+  sessionUpdatedAt?: string | Date | null;
+  currentPassword?: string;
+  requestIp?: string;
+  requestUserAgent?: string;
+}) => {
+  const actorUserId = input.actorUserId ?? input.userId;
+  await assertUserEmailVerified(actorUserId);
+  await assertStepUpAuthentication({
+    userId: actorUserId,
+    sessionUpdatedAt: input.sessionUpdatedAt,
+    currentPassword: input.currentPassword,
+  });
+
+  const key = await assertKeyOwnedByUser({
+    userId: input.userId,
+    keyId: input.keyId,
+  });
+
+  if (key.status === "revoked") {
+    throw new HttpError(409, "API_KEY_ALREADY_REVOKED", "API key is already revoked");
+  }
+
+  const restrictions = normalizeApiKeyRestrictions(input.restrictions);
+  const now = new Date();
+  await authDb
+    .update(schema.apiKeys)
+    .set({
+      restrictions,
+      updatedAt: now,
+    })
+    .where(eq(schema.apiKeys.id, key.id));
+
+  await safeRecordAudit({
+    keyId: key.id,
+    userId: input.userId,
+    eventType: "restrictions_updated",
+    outcome: "success",
+    policyAction: "allow",
+    ipAddress: input.requestIp,
+    userAgent: input.requestUserAgent,
+    metadata: {
+      previous: readStoredRestrictions(key.restrictions),
+      restrictions,
+      actorUserId,
+    },
+  });
+
+  return {
+    id: key.id,
+    restrictions,
+  };
+};
+
+export type ApiKeyActorType = "user" | "service_account";
+
 export type ApiKeyPrincipal = {
   keyId: string;
   userId: string;
+  // Organization keys authenticate as the organization's service account user, never as a member.
+  organizationId: string | null;
+  actorType: ApiKeyActorType;
   environment: ApiKeyEnvironment;
   scopes: string[];
   riskLevel: ApiKeyRiskLevel;
@@ -526,6 +611,7 @@ export type ApiKeyPrincipal = {
 export type AuthenticatedApiKey = {
   principal: ApiKeyPrincipal;
   releaseConcurrency: () => void;
+  auditEventId: string | null;
 };
 
 const assertKeyStatusAllowsUse = async (key: typeof schema.apiKeys.$inferSelect, now: Date): Promise<void> => {
@@ -667,6 +753,42 @@ export const authenticateApiKeyRequest = async (input: {
     });
   }
 
+  const violation = findApiKeyRestrictionViolation({
+    restrictions: readStoredRestrictions(key.restrictions),
+    ipAddress,
+    method: input.request.method,
+    path: requestPath,
+    origin: input.request.headers.origin,
+    now,
+  });
+  if (violation) {
+    await safeRecordAudit({
+      keyId: key.id,
+      userId: key.userId,
+      eventType: "auth_failed",
+      outcome: "failure",
+      policyAction: "block",
+      scope: requiredScopes.join(","),
+      riskLevel: key.riskLevel,
+      riskScore: key.riskScore,
+      ipAddress,
+      userAgent,
+      requestMethod: input.request.method,
+      requestPath,
+      statusCode: 403,
+      reasonCode: "API_KEY_RESTRICTION_VIOLATION",
+      reason: violation.reason,
+      metadata: {
+        restriction: violation.restriction,
+        origin: sanitize(input.request.headers.origin),
+      },
+    });
+
+    throw new HttpError(403, "API_KEY_RESTRICTION_VIOLATION", violation.reason, {
+      restriction: violation.restriction,
+    });
+  }
+
   const risk = await evaluateApiKeyRisk({
     keyId: key.id,
     ipAddress,
@@ -851,7 +973,8 @@ export const authenticateApiKeyRequest = async (input: {
     now,
   });
 
-  await safeRecordAudit({
+  // The status code stays null until the response finishes and the middleware records the final status.
+  const auditEventId = await safeRecordAudit({
     keyId: key.id,
     userId: key.userId,
     eventType: "authenticated",
@@ -864,7 +987,7 @@ export const authenticateApiKeyRequest = async (input: {
     userAgent,
     requestMethod: input.request.method,
     requestPath,
-    statusCode: 200,
+    statusCode: null,
     metadata: {
       remainingGlobalPerMinute: keyRate.remaining,
       remainingIpPerMinute: ipRate.remaining,
@@ -875,6 +998,8 @@ export const authenticateApiKeyRequest = async (input: {
     principal: {
       keyId: key.id,
       userId: key.userId,
+      organizationId: key.organizationId,
+      actorType: key.organizationId ? "service_account" : "user",
       environment: key.environment,
       scopes: grantedScopes,
       riskLevel: risk.level,
@@ -882,5 +1007,6 @@ export const authenticateApiKeyRequest = async (input: {
       policyAction: risk.policyAction,
     },
     releaseConcurrency,
+    auditEventId,
   };
 };
@@ -0,0 +1,245 @@
+import { BlockList, isIP } from "node:net";
+
+import { HttpError } from "../../lib/http-error";
+
+export type ApiKeyTimeWindow = {
+  days?: number[];
+  start: string;
+  end: string;
+  timezone?: string;
+};
+
+export type ApiKeyRestrictions = {
+  allowedCidrs?: string[];
+  allowedMethods?: string[];
+  allowedPathPrefixes?: string[];
+  allowedOrigins?: string[];
+  timeWindows?: ApiKeyTimeWindow[];
+};
+
+export type ApiKeyRestrictionKind = "ip" | "method" | "path" | "origin" | "time_window";
+
+export type ApiKeyRestrictionViolation = {
+  restriction: ApiKeyRestrictionKind;
+  reason: string;
+};
+
+const HTTP_METHODS = new Set(["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"]);
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MAX_ENTRIES = 32;
+
+const invalid = (message: string): HttpError => new HttpError(400, "API_KEY_RESTRICTIONS_INVALID", message);
+
+const uniqueList = (values: string[] | undefined, label: string): string[] | undefined => {
+  if (!values || values.length === 0) {
+    return undefined;
+  }
+
+  if (values.length > MAX_ENTRIES) {
+    throw invalid(`At most ${MAX_ENTRIES} ${label} entries are allowed`);
+  }
+
+  return [...new Set(values.map((value) => value.trim()).filter(Boolean))];
+};
+
+const parseCidr = (value: string): { address: string; prefix: number; family: "ipv4" | "ipv6" } | null => {
+  const [address = "", prefixText] = value.split("/");
+  const version = isIP(address);
+  if (version === 0) {
+    return null;
+  }
+
+  const maxPrefix = version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) {
+    return null;
+  }
+
+  return { address, prefix, family: version === 4 ? "ipv4" : "ipv6" };
+};
+
+const normalizeOrigin = (value: string): string | null => {
+  try {
+    const url = new URL(value);
+    return url.origin === "null" ? null : url.origin;
+  } catch {
+    return null;
+  }
+};
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const toMinutes = (value: string): number => {
+  const [hours = "0", minutes = "0"] = value.split(":");
+  return Number(hours) * 60 + Number(minutes);
+};
+
+export const normalizeApiKeyRestrictions = (input: ApiKeyRestrictions | null | undefined): ApiKeyRestrictions => {
+  if (!input) {
+    return {};
+  }
+
+  const allowedCidrs = uniqueList(input.allowedCidrs, "CIDR")?.map((value) => {
+    const parsed = parseCidr(value);
+    if (!parsed) {
+      throw invalid(`Invalid CIDR range: ${value}`);
+    }
+
+    return `${parsed.address}/${parsed.prefix}`;
+  });
+
+  const allowedMethods = uniqueList(input.allowedMethods, "method")?.map((value) => {
+    const method = value.toUpperCase();
+    if (!HTTP_METHODS.has(method)) {
+      throw invalid(`Invalid HTTP method: ${value}`);
+    }
+
+    return method;
+  });
+
+  const allowedPathPrefixes = uniqueList(input.allowedPathPrefixes, "path prefix")?.map((value) => {
+    if (!value.startsWith("/") || value.includes("?")) {
+      throw invalid(`Path prefixes must start with "/" and must not include a query: ${value}`);
+    }
+
+    return value.length > 1 ? value.replace(/\/+$/, "") : value;
+  });
+
+  const allowedOrigins = uniqueList(input.allowedOrigins, "origin")?.map((value) => {
+    const origin = normalizeOrigin(value);
+    if (!origin) {
+      throw invalid(`Invalid origin: ${value}`);
+    }
+
+    return origin;
+  });
+
+  if ((input.timeWindows?.length ?? 0) > MAX_ENTRIES) {
+    throw invalid(`At most ${MAX_ENTRIES} time window entries are allowed`);
+  }
+
+  const timeWindows = input.timeWindows?.length
+    ? input.timeWindows.map((window) => {
+        if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end) || window.start === window.end) {
+          throw invalid("Time windows need distinct start and end times in HH:MM format");
+        }
+
+        const days = window.days?.length ? [...new Set(window.days)].sort((left, right) => left - right) : undefined;
+        if (days?.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+          throw invalid("Time window days must be 0 (Sunday) to 6 (Saturday)");
+        }
+
+        const timezone = window.timezone?.trim() || "UTC";
+        if (!isValidTimezone(timezone)) {
+          throw invalid(`Unknown time zone: ${timezone}`);
+        }
+
+        return { ...(days ? { days } : {}), start: window.start, end: window.end, timezone };
+      })
+    : undefined;
+
+  return {
+    ...(allowedCidrs ? { allowedCidrs } : {}),
+    ...(allowedMethods ? { allowedMethods } : {}),
+    ...(allowedPathPrefixes ? { allowedPathPrefixes } : {}),
+    ...(allowedOrigins ? { allowedOrigins } : {}),
+    ...(timeWindows ? { timeWindows } : {}),
+  };
+};
+
+// Unwraps IPv4-mapped IPv6 addresses so "::ffff:10.0.0.1" matches IPv4 ranges.
+const normalizeClientIp = (ipAddress: string): string =>
+  ipAddress.toLowerCase().startsWith("::ffff:") && isIP(ipAddress.slice(7)) === 4 ? ipAddress.slice(7) : ipAddress;
+
+const isIpAllowed = (cidrs: string[], ipAddress: string): boolean => {
+  const address = normalizeClientIp(ipAddress);
+  const version = isIP(address);
+  if (version === 0) {
+    return false;
+  }
+
+  const blockList = new BlockList();
+  for (const cidr of cidrs) {
+    const parsed = parseCidr(cidr);
+    if (parsed) {
+      blockList.addSubnet(parsed.address, parsed.prefix, parsed.family);
+    }
+  }
+
+  return blockList.check(address, version === 4 ? "ipv4" : "ipv6");
+};
+
+const isPathAllowed = (prefixes: string[], path: string): boolean =>
+  prefixes.some((prefix) => prefix === "/" || path === prefix || path.startsWith(`${prefix}/`));
+
+const isWithinTimeWindow = (window: ApiKeyTimeWindow, now: Date): boolean => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: window.timezone ?? "UTC",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((entry) => entry.type === type)?.value ?? "";
+
+  const day = WEEKDAYS.indexOf(part("weekday"));
+  const minutes = Number(part("hour")) * 60 + Number(part("minute"));
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+
+  if (start < end) {
+    return (!window.days || window.days.includes(day)) && minutes >= start && minutes < end;
+  }
+
+  // Overnight windows belong to the day they start on.
+  if (minutes >= start) {
+    return !window.days || window.days.includes(day);
+  }
+
+  return minutes < end && (!window.days || window.days.includes((day + 6) % 7));
+};
+
+export const findApiKeyRestrictionViolation = (input: {
+  restrictions: ApiKeyRestrictions;
+  ipAddress: string;
+  method: string;
+  path: string;
+  origin?: string | null;
+  now: Date;
+}): ApiKeyRestrictionViolation | null => {
+  const { restrictions } = input;
+
+  if (restrictions.allowedCidrs?.length && !isIpAllowed(restrictions.allowedCidrs, input.ipAddress)) {
+    return { restriction: "ip", reason: "Request IP is outside the key's allowed ranges" };
+  }
+
+  if (restrictions.allowedMethods?.length && !restrictions.allowedMethods.includes(input.method.toUpperCase())) {
+    return { restriction: "method", reason: `HTTP method ${input.method.toUpperCase()} is not allowed for this key` };
+  }
+
+  if (restrictions.allowedPathPrefixes?.length && !isPathAllowed(restrictions.allowedPathPrefixes, input.path)) {
+    return { restriction: "path", reason: "Request path is outside the key's allowed prefixes" };
+  }
+
+  if (restrictions.allowedOrigins?.length) {
+    const origin = input.origin ? normalizeOrigin(input.origin) : null;
+    if (!origin || !restrictions.allowedOrigins.includes(origin)) {
+      return { restriction: "origin", reason: "Request origin is not allowed for this key" };
+    }
+  }
+
+  const timeWindows = restrictions.timeWindows ?? [];
+  if (timeWindows.length > 0 && !timeWindows.some((window) => isWithinTimeWindow(window, input.now))) {
+    return { restriction: "time_window", reason: "Request is outside the key's allowed time windows" };
+  }
+
+  return null;
+};
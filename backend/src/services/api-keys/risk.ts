@@ -1,6 +1,10 @@
 import { backendEnv } from "../../config/env";
 
-import { countRecentSuccessfulAuthentications, countSuccessfulAuthenticationsForIp } from "./audit";
+import {
+  countRecentRestrictionViolations,
+  countRecentSuccessfulAuthentications,
+  countSuccessfulAuthenticationsForIp,
+} from "./audit";
 
 const hasSensitiveScope = (scopes: string[]): boolean =>
   scopes.some((scope) => {
@@ -53,6 +57,16 @@ export const evaluateApiKeyRisk = async (input: {
     reasons.push("burst_traffic");
   }
 
+  const restrictionViolations = await countRecentRestrictionViolations({
+    keyId: input.keyId,
+    since: new Date(now - 60 * 60 * 1000),
+  });
+
+  if (restrictionViolations > 0) {
+    score += Math.min(40, restrictionViolations * 10);
+    reasons.push("restriction_violations");
+  }
+
   if (hasSensitiveScope(input.requiredScopes)) {
     score += 20;
     reasons.push("sensitive_scope");
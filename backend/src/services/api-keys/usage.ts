@@ -0,0 +1,233 @@
+import { and, count, desc, eq, gte, inArray, lt, lte, or, sql, type SQL } from "drizzle-orm";
+
+import { authDb } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import { HttpError } from "../../lib/http-error";
+import type { ApiKeyAuditEventType, ApiKeyAuditOutcome, ApiKeyPolicyAction } from "./audit";
+import { assertKeyOwnedByUser } from "./core";
+
+export type ApiKeyUsageBucket = "hour" | "day";
+export type ApiKeyStatusClass = "2xx" | "3xx" | "4xx" | "5xx" | "unknown";
+
+// Management events (created/rotated/revoked) and integration_write rows are not separate requests.
+const REQUEST_EVENT_TYPES: ApiKeyAuditEventType[] = [
+  "authenticated",
+  "auth_failed",
+  "signature_failed",
+  "throttled",
+  "blocked",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_MS: Record<ApiKeyUsageBucket, number> = {
+  hour: 7 * DAY_MS,
+  day: 90 * DAY_MS,
+};
+const TOP_BREAKDOWN_LIMIT = 20;
+
+const statusClassSql = sql<ApiKeyStatusClass>`case
+  when ${schema.apiKeyAuditEvents.statusCode} is null then 'unknown'
+  else (${schema.apiKeyAuditEvents.statusCode} / 100)::text || 'xx'
+end`;
+
+const statusClassFilter = (statusClass: ApiKeyStatusClass): SQL =>
+  statusClass === "unknown"
+    ? sql`${schema.apiKeyAuditEvents.statusCode} is null`
+    : sql`${schema.apiKeyAuditEvents.statusCode} / 100 = ${Number(statusClass[0])}`;
+
+const resolveUsageRange = (input: { from?: Date; to?: Date; bucket: ApiKeyUsageBucket }) => {
+  const to = input.to ?? new Date();
+  const from = input.from ?? new Date(to.getTime() - (input.bucket === "hour" ? DAY_MS : 30 * DAY_MS));
+
+  if (from.getTime() >= to.getTime()) {
+    throw new HttpError(400, "USAGE_RANGE_INVALID", "Usage range start must be before its end");
+  }
+
+  if (to.getTime() - from.getTime() > MAX_RANGE_MS[input.bucket]) {
+    throw new HttpError(
+      400,
+      "USAGE_RANGE_TOO_LARGE",
+      `Usage range is limited to ${MAX_RANGE_MS[input.bucket] / DAY_MS} days for ${input.bucket} buckets`
+    );
+  }
+
+  return { from, to };
+};
+
+const emptyPolicyActionCounts = (): Record<ApiKeyPolicyAction, number> => ({ allow: 0, throttle: 0, block: 0 });
+
+export const getApiKeyUsageForUser = async (input: {
+  userId: string;
+  keyId: string;
+  bucket?: ApiKeyUsageBucket;
+  from?: Date;
+  to?: Date;
+}) => {
+  await assertKeyOwnedByUser({ userId: input.userId, keyId: input.keyId });
+
+  const bucket = input.bucket ?? "hour";
+  const { from, to } = resolveUsageRange({ from: input.from, to: input.to, bucket });
+  const rangeFilter = and(
+    eq(schema.apiKeyAuditEvents.keyId, input.keyId),
+    inArray(schema.apiKeyAuditEvents.eventType, REQUEST_EVENT_TYPES),
+    gte(schema.apiKeyAuditEvents.createdAt, from),
+    lt(schema.apiKeyAuditEvents.createdAt, to)
+  );
+  const bucketStartSql = sql`date_trunc(${sql.raw(`'${bucket}'`)}, ${schema.apiKeyAuditEvents.createdAt})`.mapWith(
+    schema.apiKeyAuditEvents.createdAt
+  );
+
+  const [timelineRows, pathRows, ipRows] = await Promise.all([
+    authDb
+      .select({
+        bucketStart: bucketStartSql,
+        policyAction: schema.apiKeyAuditEvents.policyAction,
+        statusClass: statusClassSql,
+        requests: count(),
+      })
+      .from(schema.apiKeyAuditEvents)
+      .where(rangeFilter)
+      .groupBy(bucketStartSql, schema.apiKeyAuditEvents.policyAction, statusClassSql),
+    authDb
+      .select({
+        method: schema.apiKeyAuditEvents.requestMethod,
+        path: schema.apiKeyAuditEvents.requestPath,
+        requests: count(),
+      })
+      .from(schema.apiKeyAuditEvents)
+      .where(rangeFilter)
+      .groupBy(schema.apiKeyAuditEvents.requestMethod, schema.apiKeyAuditEvents.requestPath)
+      .orderBy(desc(count()))
+      .limit(TOP_BREAKDOWN_LIMIT),
+    authDb
+      .select({
+        ipAddress: schema.apiKeyAuditEvents.ipAddress,
+        requests: count(),
+      })
+      .from(schema.apiKeyAuditEvents)
+      .where(rangeFilter)
+      .groupBy(schema.apiKeyAuditEvents.ipAddress)
+      .orderBy(desc(count()))
+      .limit(TOP_BREAKDOWN_LIMIT),
+  ]);
+
+  const totals = {
+    requests: 0,
+    byPolicyAction: emptyPolicyActionCounts(),
+    byStatusClass: {} as Partial<Record<ApiKeyStatusClass, number>>,
+  };
+  const timeline = new Map<number, typeof totals>();
+
+  for (const row of timelineRows) {
+    const bucketStart = (row.bucketStart as Date).getTime();
+    const entry = timeline.get(bucketStart) ?? {
+      requests: 0,
+      byPolicyAction: emptyPolicyActionCounts(),
+      byStatusClass: {},
+    };
+    timeline.set(bucketStart, entry);
+
+    for (const target of [totals, entry]) {
+      target.requests += row.requests;
+      target.byPolicyAction[row.policyAction] += row.requests;
+      target.byStatusClass[row.statusClass] = (target.byStatusClass[row.statusClass] ?? 0) + row.requests;
+    }
+  }
+
+  return {
+    keyId: input.keyId,
+    bucket,
+    from,
+    to,
+    totals,
+    timeline: [...timeline.entries()]
+      .sort(([left], [right]) => left - right)
+      .map(([bucketStart, entry]) => ({ bucketStart: new Date(bucketStart), ...entry })),
+    byPath: pathRows.map((row) => ({ method: row.method, path: row.path, requests: row.requests })),
+    byIp: ipRows.map((row) => ({ ipAddress: row.ipAddress, requests: row.requests })),
+  };
+};
+
+export const listApiKeyEventsForUser = async (input: {
+  userId: string;
+  keyId: string;
+  limit?: number;
+  cursor?: string;
+  eventType?: ApiKeyAuditEventType;
+  outcome?: ApiKeyAuditOutcome;
+  policyAction?: ApiKeyPolicyAction;
+  statusCode?: number;
+  statusClass?: ApiKeyStatusClass;
+  ipAddress?: string;
+  path?: string;
+  from?: Date;
+  to?: Date;
+}) => {
+  await assertKeyOwnedByUser({ userId: input.userId, keyId: input.keyId });
+
+  const size = Math.max(1, Math.min(input.limit ?? 50, 200));
+  const filters: Array<SQL | undefined> = [
+    eq(schema.apiKeyAuditEvents.keyId, input.keyId),
+    input.eventType ? eq(schema.apiKeyAuditEvents.eventType, input.eventType) : undefined,
+    input.outcome ? eq(schema.apiKeyAuditEvents.outcome, input.outcome) : undefined,
+    input.policyAction ? eq(schema.apiKeyAuditEvents.policyAction, input.policyAction) : undefined,
+    input.statusCode ? eq(schema.apiKeyAuditEvents.statusCode, input.statusCode) : undefined,
+    input.statusClass ? statusClassFilter(input.statusClass) : undefined,
+    input.ipAddress ? eq(schema.apiKeyAuditEvents.ipAddress, input.ipAddress) : undefined,
+    input.path ? eq(schema.apiKeyAuditEvents.requestPath, input.path) : undefined,
+    input.from ? gte(schema.apiKeyAuditEvents.createdAt, input.from) : undefined,
+    input.to ? lte(schema.apiKeyAuditEvents.createdAt, input.to) : undefined,
+  ];
+
+  if (input.cursor) {
+    const [cursorEvent] = await authDb
+      .select({
+        id: schema.apiKeyAuditEvents.id,
+        createdAt: schema.apiKeyAuditEvents.createdAt,
+      })
+      .from(schema.apiKeyAuditEvents)
+      .where(and(eq(schema.apiKeyAuditEvents.id, input.cursor), eq(schema.apiKeyAuditEvents.keyId, input.keyId)))
+      .limit(1);
+
+    if (cursorEvent) {
+      filters.push(
+        or(
+          lt(schema.apiKeyAuditEvents.createdAt, cursorEvent.createdAt),
+          and(
+            eq(schema.apiKeyAuditEvents.createdAt, cursorEvent.createdAt),
+            lt(schema.apiKeyAuditEvents.id, cursorEvent.id)
+          )
+        )
+      );
+    }
+  }
+
+  const rows = await authDb
+    .select({
+      id: schema.apiKeyAuditEvents.id,
+      eventType: schema.apiKeyAuditEvents.eventType,
+      outcome: schema.apiKeyAuditEvents.outcome,
+      policyAction: schema.apiKeyAuditEvents.policyAction,
+      scope: schema.apiKeyAuditEvents.scope,
+      riskLevel: schema.apiKeyAuditEvents.riskLevel,
+      ipAddress: schema.apiKeyAuditEvents.ipAddress,
+      userAgent: schema.apiKeyAuditEvents.userAgent,
+      requestMethod: schema.apiKeyAuditEvents.requestMethod,
+      requestPath: schema.apiKeyAuditEvents.requestPath,
+      statusCode: schema.apiKeyAuditEvents.statusCode,
+      reasonCode: schema.apiKeyAuditEvents.reasonCode,
+      reason: schema.apiKeyAuditEvents.reason,
+      metadata: schema.apiKeyAuditEvents.metadata,
+      createdAt: schema.apiKeyAuditEvents.createdAt,
+    })
+    .from(schema.apiKeyAuditEvents)
+    .where(and(...filters))
+    .orderBy(desc(schema.apiKeyAuditEvents.createdAt), desc(schema.apiKeyAuditEvents.id))
+    .limit(size);
+
+  return {
+    events: rows,
+    nextCursor: rows.length === size ? (rows.at(-1)?.id ?? null) : null,
+  };
+};
@@ -0,0 +1,68 @@
+import { createPublicClient, defineChain, http, type Chain, type PublicClient } from "viem";
+
+import { findNetwork, getDefaultNetwork, listNetworks, type NetworkConfig } from "@evergreen-devparty/auth";
+
+import { HttpError } from "../lib/http-error";
+
+const chains = new Map<number, Chain>();
+const publicClients = new Map<number, PublicClient>();
+
+export const getDefaultChainId = (): number => getDefaultNetwork().chainId;
+
+export const listSupportedChainIds = (): number[] => listNetworks().map((network) => network.chainId);
+
+export const resolveNetwork = (chainId?: number | null): NetworkConfig => {
+  if (chainId === undefined || chainId === null) {
+    return getDefaultNetwork();
+  }
+
+  const network = findNetwork(chainId);
+  if (!network) {
+    throw new HttpError(400, "UNSUPPORTED_CHAIN", `Unsupported chain: ${chainId}`, {
+      supportedChainIds: listSupportedChainIds(),
+    });
+  }
+
+  return network;
+};
+
+export const getViemChain = (chainId?: number | null): Chain => {
+  const network = resolveNetwork(chainId);
+  const cached = chains.get(network.chainId);
+  if (cached) {
+    return cached;
+  }
+
+  const chain = defineChain({
+    id: network.chainId,
+    name: network.name,
+    nativeCurrency: network.nativeCurrency,
+    rpcUrls: {
+      default: {
+        http: [network.rpcUrl],
+      },
+    },
+    ...(network.explorerUrl
+      ? { blockExplorers: { default: { name: `${network.name} Explorer`, url: network.explorerUrl } } }
+      : {}),
+  });
+  chains.set(network.chainId, chain);
+
+  return chain;
+};
+
+export const getPublicClient = (chainId?: number | null): PublicClient => {
+  const network = resolveNetwork(chainId);
+  const cached = publicClients.get(network.chainId);
+  if (cached) {
+    return cached;
+  }
+
+  const client = createPublicClient({
+    chain: getViemChain(network.chainId),
+    transport: http(network.rpcUrl),
+  }) as PublicClient;
+  publicClients.set(network.chainId, client);
+
+  return client;
+};
@@ -1,44 +1,18 @@
 import { existsSync, readFileSync } from "node:fs";
 import { resolve } from "node:path";
 
-import type { Abi, Address } from "viem";
+import { parseAbi, type Abi, type Address } from "viem";
 
-import { ensCoreContracts } from "@evergreen-devparty/auth";
+import { resolveNetwork } from "./chain-clients";
 
 type TldConfig = {
   tld: string;
+  chainId: number;
   controllerAddress: Address;
   baseRegistrarAddress: Address;
+  nameWrapperAddress: Address;
 };
 
-const TLD_CONFIGS: readonly TldConfig[] = [
-  {
-    tld: "dev",
-    controllerAddress: "0x00a4c7ff46ab778d8333421d42715db2aa6b1b4d",
-    baseRegistrarAddress: "0xe077dc5c0a336f76662f024d98c0f20be0ad9d1c",
-  },
-  {
-    tld: "vibecoders",
-    controllerAddress: "0x48d7c909f01b6bb49461e24335734e13f5c900c2",
-    baseRegistrarAddress: "0x5b34fecea2324ad60bb29970ba343eda2cc39890",
-  },
-  {
-    tld: "fullstack",
-    controllerAddress: "0x0f3e10eef6327cc54a940565bab22cb68e1744cc",
-    baseRegistrarAddress: "0x9794c5fe486ca9f6e60d85af502e8b8760531cec",
-  },
-  {
-    tld: "backend",
-    controllerAddress: "0x078e29ad8ee892501864cd5a08b1e02e38063857",
-    baseRegistrarAddress: "0xc5ef6cf706800c7af9bef7c586db998a283e74f0",
-  },
-  {
-    tld: "frontend",
-    controllerAddress: "0x3ec2521319ceb4d66bd877f432ea405f2806e623",
-    baseRegistrarAddress: "0x203c38e52b324221d12fb6407d8603fdcb2ba655",
-  },
-] as const;
-
 type AbiBundle = {
   controllerAbi: Abi;
   baseRegistrarAbi: Abi;
@@ -48,6 +22,42 @@ type AbiBundle = {
 
 let abiBundle: AbiBundle | null = null;
 
+export const reverseRegistrarAbi = parseAbi(["function setName(string name) returns (bytes32)"]);
+
+export const ensRegistryAbi = parseAbi([
+  "function owner(bytes32 node) view returns (address)",
+  "function resolver(bytes32 node) view returns (address)",
+  "function setSubnodeRecord(bytes32 node, bytes32 label, address owner, address resolver, uint64 ttl)",
+]);
+
+export const baseRegistrarTransferAbi = parseAbi([
+  "function safeTransferFrom(address from, address to, uint256 tokenId)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+]);
+
+export const nameWrapperAbi = parseAbi([
+  "function setSubnodeRecord(bytes32 parentNode, string label, address owner, address resolver, uint64 ttl, uint32 fuses, uint64 expiry) returns (bytes32)",
+]);
+
+export const nameResolverAbi = parseAbi(["function name(bytes32 node) view returns (string)"]);
+
+export const baseRegistrarEventsAbi = parseAbi([
+  "event NameRegistered(uint256 indexed id, address indexed owner, uint256 expires)",
+  "event NameRenewed(uint256 indexed id, uint256 expires)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+]);
+
+export const controllerEventsAbi = parseAbi([
+  "event NameRegistered(string name, bytes32 indexed label, address indexed owner, uint256 baseCost, uint256 premium, uint256 expires)",
+  "event NameRenewed(string name, bytes32 indexed label, uint256 cost, uint256 expires)",
+]);
+
+export const ensRegistryEventsAbi = parseAbi([
+  "event NewOwner(bytes32 indexed node, bytes32 indexed label, address owner)",
+  "event NewResolver(bytes32 indexed node, address resolver)",
+  "event Transfer(bytes32 indexed node, address owner)",
+]);
+
 const resolveProjectRoot = (): string => {
   let cursor = process.cwd();
 
@@ -89,9 +99,30 @@ export const getAbiBundle = (): AbiBundle => {
   return abiBundle;
 };
 
-export const getTldConfig = (tldInput: string): TldConfig => {
+const tldConfigsByChain = new Map<number, readonly TldConfig[]>();
+
+export const listTldConfigs = (chainId?: number | null): readonly TldConfig[] => {
+  const network = resolveNetwork(chainId);
+  const cached = tldConfigsByChain.get(network.chainId);
+  if (cached) {
+    return cached;
+  }
+
+  const configs = Object.entries(network.tlds).map(([tld, deployment]) => ({
+    tld,
+    chainId: network.chainId,
+    controllerAddress: deployment.controller as Address,
+    baseRegistrarAddress: deployment.baseRegistrar as Address,
+    nameWrapperAddress: deployment.nameWrapper as Address,
+  }));
+  tldConfigsByChain.set(network.chainId, configs);
+
+  return configs;
+};
+
+export const getTldConfig = (tldInput: string, chainId?: number | null): TldConfig => {
   const normalized = tldInput.trim().toLowerCase().replace(/^\./, "");
-  const config = TLD_CONFIGS.find((entry) => entry.tld === normalized);
+  const config = listTldConfigs(chainId).find((entry) => entry.tld === normalized);
   if (!config) {
     throw new Error(`Unsupported ENS TLD: ${tldInput}`);
   }
@@ -99,10 +130,14 @@ export const getTldConfig = (tldInput: string): TldConfig => {
   return config;
 };
 
-export const listTldConfigs = (): readonly TldConfig[] => TLD_CONFIGS;
+export const getEnsCoreContracts = (chainId?: number | null) => {
+  const { contracts } = resolveNetwork(chainId);
 
-export const getEnsCoreContracts = () => ({
-  publicResolver: ensCoreContracts.publicResolver as Address,
-  ensRegistry: ensCoreContracts.ensRegistry as Address,
-  reverseRegistrar: ensCoreContracts.reverseRegistrar as Address,
-});
+  return {
+    publicResolver: contracts.publicResolver as Address,
+    ensRegistry: contracts.ensRegistry as Address,
+    reverseRegistrar: contracts.reverseRegistrar as Address,
+    multicall3: contracts.multicall3 as Address,
+    priceOracle: contracts.priceOracle as Address,
+  };
+};
@@ -0,0 +1,217 @@
+import { and, asc, eq, gt, lte, or, sql } from "drizzle-orm";
+
+import { authDb, sendEnsExpiryReminderEmail } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import { backendEnv } from "../config/env";
+import { createNotification } from "./forum-core.shared";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type EnsExpiryReminderWindow = (typeof schema.ensExpiryReminderWindowEnum.enumValues)[number];
+
+type ReminderError = {
+  identityId: string;
+  code: string;
+  message: string;
+};
+
+export type SendEnsExpiryRemindersResult = {
+  scanned: number;
+  notified: number;
+  emailed: number;
+  emailFailed: number;
+  startedAt: Date;
+  finishedAt: Date;
+  errors: ReminderError[];
+};
+
+type SendEnsExpiryRemindersDependencies = {
+  sendEmail: typeof sendEnsExpiryReminderEmail;
+};
+
+const clampLimit = (value: number | undefined): number => {
+  if (!value || !Number.isInteger(value)) {
+    return backendEnv.ensExpiryReminderLimit;
+  }
+
+  return Math.max(1, Math.min(value, 1000));
+};
+
+// Only the tightest window applies, so a name first seen 5 days out gets the 7d reminder and never the 30d one.
+export const resolveEnsExpiryWindow = (expiresAt: Date, now: Date): EnsExpiryReminderWindow | null => {
+  const remainingMs = expiresAt.getTime() - now.getTime();
+
+  if (remainingMs <= 0) {
+    return -remainingMs < backendEnv.ensExpiryGracePeriodDays * DAY_MS ? "grace" : null;
+  }
+
+  if (remainingMs <= DAY_MS) {
+    return "1d";
+  }
+
+  if (remainingMs <= 7 * DAY_MS) {
+    return "7d";
+  }
+
+  if (remainingMs <= 30 * DAY_MS) {
+    return "30d";
+  }
+
+  return null;
+};
+
+export const buildEnsRenewalUrl = (domainName: string): string => {
+  const url = new URL(backendEnv.ensRenewalUrl);
+  url.searchParams.set("domain", domainName);
+  return url.toString();
+};
+
+const windowSql = (now: Date) => sql`case
+  when ${schema.ensIdentities.expiresAt} <= ${now} then 'grace'
+  when ${schema.ensIdentities.expiresAt} <= ${new Date(now.getTime() + DAY_MS)} then '1d'
+  when ${schema.ensIdentities.expiresAt} <= ${new Date(now.getTime() + 7 * DAY_MS)} then '7d'
+  else '30d'
+end`;
+
+const loadReminderCandidates = async (input: { now: Date; limit: number }) => {
+  const { now } = input;
+  const graceStart = new Date(now.getTime() - backendEnv.ensExpiryGracePeriodDays * DAY_MS);
+
+  // Names lapse into `revoked` during the grace period; skip ones that were revoked by a transfer to an external wallet.
+  return authDb
+    .select({
+      identity: schema.ensIdentities,
+      email: schema.users.email,
+      userName: schema.users.name,
+    })
+    .from(schema.ensIdentities)
+    .innerJoin(schema.users, eq(schema.users.id, schema.ensIdentities.userId))
+    .where(
+      and(
+        lte(schema.ensIdentities.expiresAt, new Date(now.getTime() + 30 * DAY_MS)),
+        gt(schema.ensIdentities.expiresAt, graceStart),
+        or(
+          eq(schema.ensIdentities.status, "active"),
+          and(
+            eq(schema.ensIdentities.status, "revoked"),
+            lte(schema.ensIdentities.expiresAt, now),
+            sql`not exists (
+              select 1 from ${schema.ensTransfers}
+              where ${schema.ensTransfers.identityId} = ${schema.ensIdentities.id}
+                and ${schema.ensTransfers.status} = 'completed'
+                and ${schema.ensTransfers.recipientUserId} is null
+            )`
+          )
+        ),
+        sql`not exists (
+          select 1 from ${schema.ensExpiryReminders}
+          where ${schema.ensExpiryReminders.identityId} = ${schema.ensIdentities.id}
+            and ${schema.ensExpiryReminders.expiresAt} = ${schema.ensIdentities.expiresAt}
+            and ${schema.ensExpiryReminders.window}::text = ${windowSql(now)}
+        )`
+      )
+    )
+    .orderBy(asc(schema.ensIdentities.expiresAt))
+    .limit(input.limit);
+};
+
+export const sendEnsExpiryReminders = async (
+  input: {
+    limit?: number;
+    now?: Date;
+  } = {},
+  deps: SendEnsExpiryRemindersDependencies = { sendEmail: sendEnsExpiryReminderEmail }
+): Promise<SendEnsExpiryRemindersResult> => {
+  const startedAt = new Date();
+  const now = input.now ?? startedAt;
+  const candidates = await loadReminderCandidates({ now, limit: clampLimit(input.limit) });
+
+  let notified = 0;
+  let emailed = 0;
+  let emailFailed = 0;
+  const errors: ReminderError[] = [];
+
+  for (const candidate of candidates) {
+    const { identity } = candidate;
+    const expiresAt = identity.expiresAt;
+    const window = expiresAt ? resolveEnsExpiryWindow(expiresAt, now) : null;
+    if (!expiresAt || !window) {
+      continue;
+    }
+
+    // Claiming the reminder row first keeps overlapping runs from sending duplicates.
+    const claimed = await authDb
+      .insert(schema.ensExpiryReminders)
+      .values({
+        identityId: identity.id,
+        window,
+        expiresAt,
+        userId: identity.userId,
+        createdAt: now,
+      })
+      .onConflictDoNothing()
+      .returning({ identityId: schema.ensExpiryReminders.identityId });
+
+    if (claimed.length === 0) {
+      continue;
+    }
+
+    const renewUrl = buildEnsRenewalUrl(identity.name);
+
+    await createNotification({
+      recipientUserId: identity.userId,
+      type: "ens_expiry",
+      payload: {
+        identityId: identity.id,
+        domainName: identity.name,
+        window,
+        expiresAt: expiresAt.toISOString(),
+        renewUrl,
+      },
+    });
+    notified += 1;
+
+    try {
+      await deps.sendEmail({
+        email: candidate.email,
+        name: candidate.userName,
+        url: renewUrl,
+        domainName: identity.name,
+        expiresAt,
+        inGracePeriod: window === "grace",
+      });
+      emailed += 1;
+
+      await authDb
+        .update(schema.ensExpiryReminders)
+        .set({ emailSentAt: new Date() })
+        .where(
+          and(
+            eq(schema.ensExpiryReminders.identityId, identity.id),
+            eq(schema.ensExpiryReminders.window, window),
+            eq(schema.ensExpiryReminders.expiresAt, expiresAt)
+          )
+        );
+    } catch (error) {
+      emailFailed += 1;
+      if (errors.length < 50) {
+        errors.push({
+          identityId: identity.id,
+          code: "ENS_EXPIRY_EMAIL_FAILED",
+          message: error instanceof Error ? error.message : "Unknown email delivery failure",
+        });
+      }
+    }
+  }
+
+  return {
+    scanned: candidates.length,
+    notified,
+    emailed,
+    emailFailed,
+    startedAt,
+    finishedAt: new Date(),
+    errors,
+  };
+};
@@ -1,12 +1,14 @@
 import { and, asc, eq, inArray, lte } from "drizzle-orm";
-import { createPublicClient, http, labelhash, type Address } from "viem";
+import { labelhash, type Address } from "viem";
 
-import { authDb, oorthNexusNetwork } from "@evergreen-devparty/auth";
+import { authDb } from "@evergreen-devparty/auth";
 import { schema } from "@evergreen-devparty/db";
 
 import { backendEnv } from "../config/env";
 import { HttpError } from "../lib/http-error";
+import { getPublicClient } from "./chain-clients";
 import { getAbiBundle } from "./ens-contracts";
+import { markEnsIdentityPrimary, readEnsReverseName } from "./ens-records";
 
 const IDENTITY_SYNCABLE_STATUSES = ["active", "pending"] as const;
 
@@ -25,6 +27,7 @@ export type SyncEnsIdentitiesResult = {
   updated: number;
   activated: number;
   revoked: number;
+  primaryReconciled: number;
   unchanged: number;
   failed: number;
   staleMinutes: number;
@@ -33,26 +36,6 @@ export type SyncEnsIdentitiesResult = {
   errors: SyncIdentityError[];
 };
 
-const chain = {
-  id: oorthNexusNetwork.chainId,
-  name: "OorthNexus",
-  nativeCurrency: {
-    name: "ONXS",
-    symbol: "ONXS",
-    decimals: 18,
-  },
-  rpcUrls: {
-    default: {
-      http: [oorthNexusNetwork.rpcUrl],
-    },
-  },
-} as const;
-
-const publicClient = createPublicClient({
-  chain,
-  transport: http(oorthNexusNetwork.rpcUrl),
-});
-
 const normalizeAddress = (value: string): Address => value.trim().toLowerCase() as Address;
 
 const secondsToDate = (seconds: bigint): Date => new Date(Number(seconds) * 1000);
@@ -163,7 +146,7 @@ const readOwnerFromChain = async (identity: IdentityRecord, tokenId: bigint): Pr
   const { baseRegistrarAbi } = getAbiBundle();
 
   try {
-    const owner = (await publicClient.readContract({
+    const owner = (await getPublicClient(identity.chainId).readContract({
       address: identity.baseRegistrarAddress as Address,
       abi: baseRegistrarAbi,
       functionName: "ownerOf",
@@ -176,6 +159,15 @@ const readOwnerFromChain = async (identity: IdentityRecord, tokenId: bigint): Pr
   }
 };
 
+// `undefined` means the reverse record could not be read, so primary state is left untouched.
+const readReverseNameSafely = async (owner: Address, chainId: number): Promise<string | null | undefined> => {
+  try {
+    return await readEnsReverseName(owner, chainId);
+  } catch {
+    return undefined;
+  }
+};
+
 export const syncEnsIdentitiesFromChain = async (input: {
   limit?: number;
   staleMinutes?: number;
@@ -193,6 +185,7 @@ export const syncEnsIdentitiesFromChain = async (input: {
   let updated = 0;
   let activated = 0;
   let revoked = 0;
+  let primaryReconciled = 0;
   let unchanged = 0;
   let failed = 0;
   const errors: SyncIdentityError[] = [];
@@ -209,7 +202,7 @@ export const syncEnsIdentitiesFromChain = async (input: {
 
       const tokenId = BigInt(labelhash(identity.label));
       const { baseRegistrarAbi } = getAbiBundle();
-      const expiresRaw = (await publicClient.readContract({
+      const expiresRaw = (await getPublicClient(identity.chainId).readContract({
         address: identity.baseRegistrarAddress as Address,
         abi: baseRegistrarAbi,
         functionName: "nameExpires",
@@ -222,15 +215,31 @@ export const syncEnsIdentitiesFromChain = async (input: {
       const ownerLinked = owner ? linkedWallets.has(owner) : false;
 
       const nextStatus: IdentityStatus = expiresRaw > nowSeconds() && ownerLinked ? "active" : "revoked";
-      const nextPrimary = nextStatus === "active" ? identity.isPrimary : false;
+      let nextPrimary = nextStatus === "active" ? identity.isPrimary : false;
+      let nextReverseVerifiedAt = nextStatus === "active" ? identity.reverseRecordVerifiedAt : null;
+
+      // The on-chain reverse record wins over the DB flag: a match promotes, a different name demotes.
+      if (nextStatus === "active" && owner) {
+        const reverseName = await readReverseNameSafely(owner, identity.chainId);
+        if (reverseName === identity.name) {
+          nextPrimary = true;
+          nextReverseVerifiedAt = identity.reverseRecordVerifiedAt ?? new Date();
+        } else if (reverseName) {
+          nextPrimary = false;
+          nextReverseVerifiedAt = null;
+        } else if (reverseName === null) {
+          nextReverseVerifiedAt = null;
+        }
+      }
 
       const ownerChanged = normalizeAddress(identity.ownerAddress ?? "0x0000000000000000000000000000000000000000") !==
         normalizeAddress(owner ?? "0x0000000000000000000000000000000000000000");
       const statusChanged = identity.status !== nextStatus;
       const expiresChanged = !sameDate(identity.expiresAt, expiryDate);
       const primaryChanged = identity.isPrimary !== nextPrimary;
+      const reverseChanged = !sameDate(identity.reverseRecordVerifiedAt, nextReverseVerifiedAt);
 
-      if (!ownerChanged && !statusChanged && !expiresChanged && !primaryChanged) {
+      if (!ownerChanged && !statusChanged && !expiresChanged && !primaryChanged && !reverseChanged) {
         unchanged += 1;
         continue;
       }
@@ -242,10 +251,23 @@ export const syncEnsIdentitiesFromChain = async (input: {
           expiresAt: expiryDate,
           status: nextStatus,
           isPrimary: nextPrimary,
+          reverseRecordVerifiedAt: nextReverseVerifiedAt,
           updatedAt: new Date(),
         })
         .where(eq(schema.ensIdentities.id, identity.id));
 
+      if (nextPrimary && !identity.isPrimary) {
+        await markEnsIdentityPrimary({
+          userId: identity.userId,
+          identityId: identity.id,
+          reverseRecordVerifiedAt: nextReverseVerifiedAt,
+        });
+      }
+
+      if (primaryChanged || reverseChanged) {
+        primaryReconciled += 1;
+      }
+
       updated += 1;
       if (nextStatus === "active") {
         activated += 1;
@@ -272,6 +294,7 @@ export const syncEnsIdentitiesFromChain = async (input: {
     updated,
     activated,
     revoked,
+    primaryReconciled,
     unchanged,
     failed,
     staleMinutes,
@@ -0,0 +1,595 @@
+import { randomUUID } from "node:crypto";
+
+import { and, desc, eq, gt, inArray, lte, sql } from "drizzle-orm";
+import { BlockNotFoundError, concat, keccak256, namehash, toHex, type Address, type Hex } from "viem";
+
+import { authDb } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import { backendEnv } from "../config/env";
+import type { DbExecutor } from "../lib/db-executor";
+import { HttpError } from "../lib/http-error";
+import { serializeBigInt } from "../lib/serialize";
+import { getDefaultChainId, getPublicClient, resolveNetwork } from "./chain-clients";
+import {
+  baseRegistrarEventsAbi,
+  controllerEventsAbi,
+  ensRegistryEventsAbi,
+  getEnsCoreContracts,
+  listTldConfigs,
+} from "./ens-contracts";
+import { markRenewalIntentRenewed } from "./ens-marketplace";
+import { completeEnsTransfer } from "./ens-transfers";
+import { recordIntentRegistration } from "./ens-tx-watcher";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const REGISTRABLE_INTENT_STATUSES = ["prepared", "committed", "registerable"] as const;
+
+export type EnsLogSource = "registrar" | "controller" | "registry";
+
+export type EnsIndexedLog = {
+  source: EnsLogSource;
+  address: Address;
+  blockNumber: bigint;
+  blockHash: Hex;
+  transactionHash: Hex;
+  logIndex: number;
+  eventName: string;
+  args: Record<string, unknown>;
+};
+
+type IndexerError = {
+  txHash: string;
+  logIndex: number;
+  eventName: string;
+  code: string;
+  message: string;
+};
+
+export type IndexEnsChainLogsResult = {
+  chainId: number;
+  headBlock: number;
+  fromBlock: number | null;
+  toBlock: number | null;
+  logs: number;
+  applied: number;
+  duplicates: number;
+  failed: number;
+  reorgDetected: boolean;
+  rewoundTo: number | null;
+  droppedEvents: number;
+  expired: number;
+  startedAt: Date;
+  finishedAt: Date;
+  errors: IndexerError[];
+};
+
+type EnsLogIndexerDependencies = {
+  getHeadBlockNumber: () => Promise<bigint>;
+  getBlockHash: (blockNumber: bigint) => Promise<Hex | null>;
+  getLogs: (range: { fromBlock: bigint; toBlock: bigint }) => Promise<EnsIndexedLog[]>;
+};
+
+type RawLog = {
+  address: Address;
+  blockNumber: bigint | null;
+  blockHash: Hex | null;
+  transactionHash: Hex | null;
+  logIndex: number | null;
+  eventName: string;
+  args: unknown;
+};
+
+const normalizeAddress = (address: string): Address => address.trim().toLowerCase() as Address;
+
+const secondsToDate = (seconds: bigint): Date => new Date(Number(seconds) * 1000);
+
+const toErrorDetails = (error: unknown): { code: string; message: string } => {
+  if (error instanceof HttpError) {
+    return {
+      code: error.code,
+      message: error.message,
+    };
+  }
+
+  return {
+    code: "ENS_LOG_APPLY_FAILED",
+    message: error instanceof Error ? error.message : "Unknown ENS log indexer failure",
+  };
+};
+
+const toIndexedLogs = (source: EnsLogSource, logs: readonly RawLog[]): EnsIndexedLog[] =>
+  logs.flatMap((log) => {
+    // Pending logs carry no block coordinates yet; they are picked up once mined.
+    if (log.blockNumber === null || !log.blockHash || !log.transactionHash || log.logIndex === null) {
+      return [];
+    }
+
+    return [
+      {
+        source,
+        address: normalizeAddress(log.address),
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+        eventName: log.eventName,
+        args: (log.args ?? {}) as Record<string, unknown>,
+      },
+    ];
+  });
+
+const createChainDependencies = (chainId: number): EnsLogIndexerDependencies => {
+  const publicClient = getPublicClient(chainId);
+
+  const readEnsLogs = async (range: { fromBlock: bigint; toBlock: bigint }): Promise<EnsIndexedLog[]> => {
+    const tldConfigs = listTldConfigs(chainId);
+
+    const [registrarLogs, controllerLogs, registryLogs] = await Promise.all([
+      publicClient.getLogs({
+        address: tldConfigs.map((config) => config.baseRegistrarAddress),
+        events: baseRegistrarEventsAbi,
+        fromBlock: range.fromBlock,
+        toBlock: range.toBlock,
+        strict: true,
+      }),
+      publicClient.getLogs({
+        address: tldConfigs.map((config) => config.controllerAddress),
+        events: controllerEventsAbi,
+        fromBlock: range.fromBlock,
+        toBlock: range.toBlock,
+        strict: true,
+      }),
+      publicClient.getLogs({
+        address: getEnsCoreContracts(chainId).ensRegistry,
+        events: ensRegistryEventsAbi,
+        fromBlock: range.fromBlock,
+        toBlock: range.toBlock,
+        strict: true,
+      }),
+    ]);
+
+    return [
+      ...toIndexedLogs("registrar", registrarLogs as readonly RawLog[]),
+      ...toIndexedLogs("controller", controllerLogs as readonly RawLog[]),
+      ...toIndexedLogs("registry", registryLogs as readonly RawLog[]),
+    ];
+  };
+
+  return {
+    getHeadBlockNumber: () => publicClient.getBlockNumber(),
+    getBlockHash: async (blockNumber) => {
+      try {
+        const block = await publicClient.getBlock({ blockNumber });
+        return block.hash;
+      } catch (error) {
+        if (error instanceof BlockNotFoundError) {
+          return null;
+        }
+
+        throw error;
+      }
+    },
+    getLogs: readEnsLogs,
+  };
+};
+
+const getTldByAddress = (chainId: number, source: EnsLogSource, address: Address): string | null => {
+  const config = listTldConfigs(chainId).find((entry) =>
+    normalizeAddress(source === "registrar" ? entry.baseRegistrarAddress : entry.controllerAddress) === address
+  );
+
+  return config?.tld ?? null;
+};
+
+const getSubnodeHash = (parentNode: Hex, labelHash: Hex): Hex => keccak256(concat([parentNode, labelHash]));
+
+// Registry events carry the node directly; registrar events carry the labelhash token id under the TLD node.
+const resolveLogNode = (log: EnsIndexedLog, tld: string | null): Hex | null => {
+  if (log.source === "registry") {
+    const node = log.args.node as Hex;
+    return log.eventName === "NewOwner" ? getSubnodeHash(node, log.args.label as Hex) : node;
+  }
+
+  if (!tld) {
+    return null;
+  }
+
+  if (log.source === "controller") {
+    return namehash(`${String(log.args.name)}.${tld}`);
+  }
+
+  const tokenId = (log.args.id ?? log.args.tokenId) as bigint;
+  return getSubnodeHash(namehash(tld), toHex(tokenId, { size: 32 }));
+};
+
+const loadIdentityByNode = async (db: DbExecutor, chainId: number, node: Hex) => {
+  const [identity] = await db
+    .select()
+    .from(schema.ensIdentities)
+    .where(and(eq(schema.ensIdentities.chainId, chainId), eq(schema.ensIdentities.node, node)))
+    .limit(1);
+
+  return identity ?? null;
+};
+
+const applyIdentityOwner = async (db: DbExecutor, chainId: number, node: Hex, owner: Address) => {
+  const identity = await loadIdentityByNode(db, chainId, node);
+  if (!identity) {
+    return;
+  }
+
+  const [linkedWallet] = await db
+    .select({ id: schema.wallets.id })
+    .from(schema.wallets)
+    .where(and(eq(schema.wallets.userId, identity.userId), eq(schema.wallets.address, owner)))
+    .limit(1);
+
+  const now = new Date();
+  const unexpired = !identity.expiresAt || identity.expiresAt > now;
+
+  await db
+    .update(schema.ensIdentities)
+    .set(
+      linkedWallet && unexpired
+        ? { ownerAddress: owner, status: "active", updatedAt: now }
+        : {
+            ownerAddress: owner,
+            status: "revoked",
+            isPrimary: false,
+            reverseRecordVerifiedAt: null,
+            updatedAt: now,
+          }
+    )
+    .where(eq(schema.ensIdentities.id, identity.id));
+};
+
+const applyIdentityExpiry = async (db: DbExecutor, chainId: number, node: Hex, expires: bigint) => {
+  await db
+    .update(schema.ensIdentities)
+    .set({ expiresAt: secondsToDate(expires), updatedAt: new Date() })
+    .where(and(eq(schema.ensIdentities.chainId, chainId), eq(schema.ensIdentities.node, node)));
+};
+
+const applyRegistrarLog = async (db: DbExecutor, chainId: number, log: EnsIndexedLog, node: Hex) => {
+  const txHash = log.transactionHash.toLowerCase();
+
+  if (log.eventName === "NameRegistered") {
+    await applyIdentityExpiry(db, chainId, node, log.args.expires as bigint);
+    await applyIdentityOwner(db, chainId, node, normalizeAddress(log.args.owner as string));
+    return;
+  }
+
+  if (log.eventName === "NameRenewed") {
+    const [renewal] = await db
+      .select()
+      .from(schema.ensRenewalIntents)
+      .where(
+        and(
+          eq(schema.ensRenewalIntents.chainId, chainId),
+          eq(schema.ensRenewalIntents.status, "submitted"),
+          sql`lower(${schema.ensRenewalIntents.txHash}) = ${txHash}`
+        )
+      )
+      .limit(1);
+
+    if (renewal) {
+      await markRenewalIntentRenewed(renewal, { expiresAt: secondsToDate(log.args.expires as bigint) }, db);
+    } else {
+      await applyIdentityExpiry(db, chainId, node, log.args.expires as bigint);
+    }
+    return;
+  }
+
+  if (log.eventName !== "Transfer" || normalizeAddress(log.args.from as string) === ZERO_ADDRESS) {
+    return;
+  }
+
+  const [transfer] = await db
+    .select()
+    .from(schema.ensTransfers)
+    .where(
+      and(
+        eq(schema.ensTransfers.chainId, chainId),
+        eq(schema.ensTransfers.status, "submitted"),
+        eq(schema.ensTransfers.tokenId, String(log.args.tokenId)),
+        sql`lower(${schema.ensTransfers.txHash}) = ${txHash}`
+      )
+    )
+    .limit(1);
+
+  if (transfer) {
+    await completeEnsTransfer(transfer, db);
+    return;
+  }
+
+  await applyIdentityOwner(db, chainId, node, normalizeAddress(log.args.to as string));
+};
+
+const applyControllerLog = async (db: DbExecutor, chainId: number, log: EnsIndexedLog, tld: string) => {
+  if (log.eventName !== "NameRegistered") {
+    return;
+  }
+
+  const ownerAddress = normalizeAddress(log.args.owner as string);
+  const [intent] = await db
+    .select()
+    .from(schema.ensPurchaseIntents)
+    .where(
+      and(
+        eq(schema.ensPurchaseIntents.chainId, chainId),
+        eq(schema.ensPurchaseIntents.domainName, `${String(log.args.name).toLowerCase()}.${tld}`),
+        eq(schema.ensPurchaseIntents.walletAddress, ownerAddress),
+        inArray(schema.ensPurchaseIntents.status, REGISTRABLE_INTENT_STATUSES)
+      )
+    )
+    .orderBy(desc(schema.ensPurchaseIntents.updatedAt))
+    .limit(1);
+
+  if (!intent) {
+    return;
+  }
+
+  await recordIntentRegistration(
+    intent,
+    {
+      ownerAddress,
+      expiresAt: secondsToDate(log.args.expires as bigint),
+      txHash: log.transactionHash,
+    },
+    db
+  );
+};
+
+const applyRegistryLog = async (db: DbExecutor, chainId: number, log: EnsIndexedLog, node: Hex) => {
+  const now = new Date();
+
+  if (log.eventName === "NewResolver") {
+    const resolverAddress = normalizeAddress(log.args.resolver as string);
+
+    await db
+      .update(schema.ensIdentities)
+      .set({ resolverAddress, updatedAt: now })
+      .where(and(eq(schema.ensIdentities.chainId, chainId), eq(schema.ensIdentities.node, node)));
+    await db
+      .update(schema.ensSubnames)
+      .set({ resolverAddress, updatedAt: now })
+      .where(eq(schema.ensSubnames.node, node));
+    return;
+  }
+
+  const ownerAddress = normalizeAddress(log.args.owner as string);
+  const cleared = ownerAddress === ZERO_ADDRESS;
+
+  await db
+    .update(schema.ensSubnames)
+    .set(
+      cleared
+        ? { ownerAddress, status: "revoked", revokedAt: now, updatedAt: now }
+        : { ownerAddress, updatedAt: now }
+    )
+    .where(eq(schema.ensSubnames.node, node));
+};
+
+const applyLog = async (db: DbExecutor, chainId: number, log: EnsIndexedLog, tld: string | null, node: Hex | null) => {
+  if (!node) {
+    return;
+  }
+
+  if (log.source === "registrar") {
+    await applyRegistrarLog(db, chainId, log, node);
+  } else if (log.source === "controller" && tld) {
+    await applyControllerLog(db, chainId, log, tld);
+  } else if (log.source === "registry") {
+    await applyRegistryLog(db, chainId, log, node);
+  }
+};
+
+// Identities touched by dropped events are handed back to identity sync by marking them stale.
+const rewindIndexedEvents = async (chainId: number, rewindTo: bigint): Promise<number> => {
+  const dropped = await authDb
+    .delete(schema.ensChainEvents)
+    .where(and(eq(schema.ensChainEvents.chainId, chainId), gt(schema.ensChainEvents.blockNumber, Number(rewindTo))))
+    .returning({ node: schema.ensChainEvents.node });
+
+  const nodes = [...new Set(dropped.flatMap((event) => (event.node ? [event.node] : [])))];
+  if (nodes.length > 0) {
+    await authDb
+      .update(schema.ensIdentities)
+      .set({ updatedAt: new Date(0) })
+      .where(and(eq(schema.ensIdentities.chainId, chainId), inArray(schema.ensIdentities.node, nodes)));
+  }
+
+  return dropped.length;
+};
+
+const saveCheckpoint = async (chainId: number, blockNumber: bigint, blockHash: Hex) => {
+  const now = new Date();
+
+  await authDb
+    .insert(schema.ensIndexerCheckpoints)
+    .values({ chainId, blockNumber: Number(blockNumber), blockHash, updatedAt: now })
+    .onConflictDoUpdate({
+      target: schema.ensIndexerCheckpoints.chainId,
+      set: { blockNumber: Number(blockNumber), blockHash, updatedAt: now },
+    });
+};
+
+// Expiry has no event of its own, so lapsed names are revoked from the indexed expiry dates.
+const revokeExpiredIdentities = async (now: Date): Promise<number> => {
+  const expired = await authDb
+    .update(schema.ensIdentities)
+    .set({ status: "revoked", isPrimary: false, reverseRecordVerifiedAt: null, updatedAt: now })
+    .where(and(eq(schema.ensIdentities.status, "active"), lte(schema.ensIdentities.expiresAt, now)))
+    .returning({ id: schema.ensIdentities.id });
+
+  return expired.length;
+};
+
+export const getEnsIndexerCheckpoint = async (chainId: number = getDefaultChainId()) => {
+  const [checkpoint] = await authDb
+    .select()
+    .from(schema.ensIndexerCheckpoints)
+    .where(eq(schema.ensIndexerCheckpoints.chainId, chainId))
+    .limit(1);
+
+  return checkpoint ?? null;
+};
+
+export const indexEnsChainLogs = async (
+  input: {
+    chainId?: number;
+    blockBatch?: number;
+    reorgDepth?: number;
+    startBlock?: number | null;
+  } = {},
+  deps?: EnsLogIndexerDependencies
+): Promise<IndexEnsChainLogsResult> => {
+  const startedAt = new Date();
+  const chainId = resolveNetwork(input.chainId).chainId;
+  const chainDeps = deps ?? createChainDependencies(chainId);
+  const blockBatch = BigInt(Math.max(1, input.blockBatch ?? backendEnv.ensLogIndexerBlockBatch));
+  const reorgDepth = BigInt(Math.max(0, input.reorgDepth ?? backendEnv.ensLogIndexerReorgDepth));
+  // ENS_LOG_INDEXER_START_BLOCK only describes the default chain; other chains start from their head.
+  const configuredStartBlock = chainId === getDefaultChainId() ? backendEnv.ensLogIndexerStartBlock : null;
+  const startBlock = input.startBlock === undefined ? configuredStartBlock : input.startBlock;
+
+  const head = await chainDeps.getHeadBlockNumber();
+  const checkpoint = await getEnsIndexerCheckpoint(chainId);
+
+  let cursor = startBlock === null ? head : BigInt(startBlock) - 1n;
+  let reorgDetected = false;
+  let rewoundTo: number | null = null;
+  let droppedEvents = 0;
+
+  if (checkpoint) {
+    cursor = BigInt(checkpoint.blockNumber);
+    const canonicalHash = await chainDeps.getBlockHash(cursor);
+
+    if (canonicalHash?.toLowerCase() !== checkpoint.blockHash.toLowerCase()) {
+      const floor = startBlock === null ? -1n : BigInt(startBlock) - 1n;
+      const target = cursor - reorgDepth;
+      cursor = target > floor ? target : floor;
+      reorgDetected = true;
+      rewoundTo = Number(cursor);
+      droppedEvents = await rewindIndexedEvents(chainId, cursor);
+    }
+  }
+
+  const fromBlock = cursor + 1n;
+  const toBlock = head < cursor + blockBatch ? head : cursor + blockBatch;
+  const errors: IndexerError[] = [];
+  let logs: EnsIndexedLog[] = [];
+  let applied = 0;
+  let duplicates = 0;
+  let failed = 0;
+
+  if (fromBlock <= toBlock) {
+    // The range end hash is read before the logs so a reorg landing mid-run is caught by the next run.
+    const toBlockHash = await chainDeps.getBlockHash(toBlock);
+    logs = (await chainDeps.getLogs({ fromBlock, toBlock })).sort((left, right) =>
+      left.blockNumber === right.blockNumber
+        ? left.logIndex - right.logIndex
+        : left.blockNumber < right.blockNumber
+          ? -1
+          : 1
+    );
+
+    let failedAtBlock: bigint | null = null;
+
+    for (const log of logs) {
+      const tld = log.source === "registry" ? null : getTldByAddress(chainId, log.source, log.address);
+      const node = resolveLogNode(log, tld);
+
+      try {
+        // The event row commits only together with its effects, so a failed apply is retried rather than skipped.
+        const outcome = await authDb.transaction(async (tx) => {
+          const inserted = await tx
+            .insert(schema.ensChainEvents)
+            .values({
+              id: randomUUID(),
+              chainId,
+              blockNumber: Number(log.blockNumber),
+              blockHash: log.blockHash.toLowerCase(),
+              txHash: log.transactionHash.toLowerCase(),
+              logIndex: log.logIndex,
+              contractAddress: log.address,
+              eventName: log.eventName,
+              tld,
+              node,
+              args: serializeBigInt(log.args),
+            })
+            .onConflictDoNothing()
+            .returning({ id: schema.ensChainEvents.id });
+
+          if (inserted.length === 0) {
+            return "duplicate" as const;
+          }
+
+          await applyLog(tx, chainId, log, tld, node);
+          return "applied" as const;
+        });
+
+        if (outcome === "duplicate") {
+          duplicates += 1;
+        } else {
+          applied += 1;
+        }
+      } catch (error) {
+        const details = toErrorDetails(error);
+        failed += 1;
+        failedAtBlock = log.blockNumber;
+        errors.push({
+          txHash: log.transactionHash,
+          logIndex: log.logIndex,
+          eventName: log.eventName,
+          code: details.code,
+          message: details.message,
+        });
+        break;
+      }
+    }
+
+    if (failedAtBlock === null) {
+      if (toBlockHash) {
+        await saveCheckpoint(chainId, toBlock, toBlockHash);
+      }
+    } else if (failedAtBlock - 1n > cursor) {
+      // Stop just before the failed log's block; logs already applied there are skipped as duplicates next run.
+      const safeBlockHash = await chainDeps.getBlockHash(failedAtBlock - 1n);
+      if (safeBlockHash) {
+        await saveCheckpoint(chainId, failedAtBlock - 1n, safeBlockHash);
+      }
+    } else if (!checkpoint && cursor >= 0n) {
+      const cursorHash = await chainDeps.getBlockHash(cursor);
+      if (cursorHash) {
+        await saveCheckpoint(chainId, cursor, cursorHash);
+      }
+    }
+  } else if (cursor >= 0n && (!checkpoint || reorgDetected)) {
+    const cursorHash = await chainDeps.getBlockHash(cursor);
+    if (cursorHash) {
+      await saveCheckpoint(chainId, cursor, cursorHash);
+    }
+  }
+
+  const expired = await revokeExpiredIdentities(new Date());
+
+  return {
+    chainId,
+    headBlock: Number(head),
+    fromBlock: fromBlock <= toBlock ? Number(fromBlock) : null,
+    toBlock: fromBlock <= toBlock ? Number(toBlock) : null,
+    logs: logs.length,
+    applied,
+    duplicates,
+    failed,
+    reorgDetected,
+    rewoundTo,
+    droppedEvents,
+    expired,
+    startedAt,
+    finishedAt: new Date(),
+    errors,
+  };
+};
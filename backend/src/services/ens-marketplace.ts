@@ -1,12 +1,10 @@
 import { randomBytes, randomUUID } from "node:crypto";
 
-import { and, desc, eq, ne } from "drizzle-orm";
+import { and, asc, desc, eq, ne } from "drizzle-orm";
 import {
-  createPublicClient,
   decodeFunctionData,
   decodeEventLog,
   encodeFunctionData,
-  http,
   isAddress,
   keccak256,
   labelhash,
@@ -16,42 +14,40 @@ import {
   type Hex,
 } from "viem";
 
-import { authDb, oorthNexusNetwork } from "@evergreen-devparty/auth";
+import { authDb } from "@evergreen-devparty/auth";
 import { schema } from "@evergreen-devparty/db";
 
+import type { DbExecutor } from "../lib/db-executor";
 import { HttpError } from "../lib/http-error";
-import { getAbiBundle, getEnsCoreContracts, getTldConfig, listTldConfigs } from "./ens-contracts";
+import { getPublicClient, resolveNetwork } from "./chain-clients";
+import { getAbiBundle, getEnsCoreContracts, getTldConfig, listTldConfigs, reverseRegistrarAbi } from "./ens-contracts";
+import {
+  ENS_TEXT_RECORD_KEYS,
+  getEnsResolverAddress,
+  markEnsIdentityPrimary,
+  readEnsReverseName,
+  type EnsTextRecordKey,
+} from "./ens-records";
+import { emitEnsRegisteredWebhookEvent } from "./outbound-webhooks";
 
 const DEFAULT_DURATION_SECONDS = 365 * 24 * 60 * 60;
 const ZERO_BYTES32 = "0x0000000000000000000000000000000000000000000000000000000000000000" as Hex;
 const ENS_LABEL_REGEX = /^[a-z0-9-]{3,63}$/;
 
-const chain = {
-  id: oorthNexusNetwork.chainId,
-  name: "OorthNexus",
-  nativeCurrency: {
-    name: "ONXS",
-    symbol: "ONXS",
-    decimals: 18,
-  },
-  rpcUrls: {
-    default: {
-      http: [oorthNexusNetwork.rpcUrl],
-    },
-  },
-} as const;
-
-const publicClient = createPublicClient({
-  chain,
-  transport: http(oorthNexusNetwork.rpcUrl),
-});
-
 const normalizeAddress = (address: string): Address => address.trim().toLowerCase() as Address;
 
 const normalizeLabel = (label: string): string => label.trim().toLowerCase();
 
 const normalizeTld = (tld: string): string => tld.trim().toLowerCase().replace(/^\./, "");
 
+const resolveTldConfig = (tld: string, chainId: number) => {
+  try {
+    return getTldConfig(tld, chainId);
+  } catch {
+    throw new HttpError(400, "INVALID_TLD", `Unsupported ENS TLD: ${tld}`);
+  }
+};
+
 const ensureValidLabel = (label: string): void => {
   if (!ENS_LABEL_REGEX.test(label)) {
     throw new HttpError(400, "INVALID_LABEL", "Label must be 3-63 chars using a-z, 0-9, and '-' only");
@@ -121,7 +117,7 @@ const sleep = async (ms: number): Promise<void> =>
     setTimeout(resolve, ms);
   });
 
-const isReceiptPendingError = (error: unknown): boolean => {
+export const isReceiptPendingError = (error: unknown): boolean => {
   if (!(error instanceof Error)) {
     return false;
   }
@@ -136,7 +132,8 @@ const isReceiptPendingError = (error: unknown): boolean => {
   );
 };
 
-const getTransactionReceiptWithRetry = async (txHash: Hex) => {
+export const getTransactionReceiptWithRetry = async (txHash: Hex, chainId?: number) => {
+  const publicClient = getPublicClient(chainId);
   for (let attempt = 0; attempt < TX_RECEIPT_POLL_ATTEMPTS; attempt += 1) {
     try {
       return await publicClient.getTransactionReceipt({ hash: txHash });
@@ -163,10 +160,11 @@ const getTransactionReceiptWithRetry = async (txHash: Hex) => {
 };
 
 const readCommitmentTimestamp = async (input: {
+  chainId: number;
   controllerAddress: Address;
   commitment: Hex;
 }): Promise<bigint> => {
-  const timestamp = (await publicClient.readContract({
+  const timestamp = (await getPublicClient(input.chainId).readContract({
     address: input.controllerAddress,
     abi: getAbiBundle().controllerAbi,
     functionName: "commitments",
@@ -177,12 +175,14 @@ const readCommitmentTimestamp = async (input: {
 };
 
 const getCommitmentTimestampWithRetry = async (input: {
+  chainId: number;
   controllerAddress: Address;
   commitment: Hex;
   txHash?: Hex;
 }): Promise<bigint> => {
   for (let attempt = 0; attempt < COMMITMENT_POLL_ATTEMPTS; attempt += 1) {
     const timestamp = await readCommitmentTimestamp({
+      chainId: input.chainId,
       controllerAddress: input.controllerAddress,
       commitment: input.commitment,
     });
@@ -208,7 +208,7 @@ const getCommitmentTimestampWithRetry = async (input: {
   );
 };
 
-const ensureWalletOwnedByUser = async (userId: string, walletAddress: string, chainId: number): Promise<void> => {
+export const ensureWalletOwnedByUser = async (userId: string, walletAddress: string, chainId: number): Promise<void> => {
   const normalizedAddress = normalizeAddress(walletAddress);
 
   const [wallet] = await authDb
@@ -233,9 +233,11 @@ const ensureWalletOwnedByUser = async (userId: string, walletAddress: string, ch
 };
 
 const readControllerConfig = async (
-  controllerAddress: Address
+  controllerAddress: Address,
+  chainId: number
 ): Promise<{ minCommitmentAge: bigint; maxCommitmentAge: bigint; minRegistrationDuration: bigint }> => {
   const { controllerAbi } = getAbiBundle();
+  const publicClient = getPublicClient(chainId);
 
   const [minCommitmentAge, maxCommitmentAge, minRegistrationDuration] =
     (await Promise.all([
@@ -263,10 +265,10 @@ const readControllerConfig = async (
   };
 };
 
-const readRentPrice = async (controllerAddress: Address, label: string, durationSeconds: number) => {
+const readRentPrice = async (controllerAddress: Address, label: string, durationSeconds: number, chainId: number) => {
   const { controllerAbi } = getAbiBundle();
 
-  const price = (await publicClient.readContract({
+  const price = (await getPublicClient(chainId).readContract({
     address: controllerAddress,
     abi: controllerAbi,
     functionName: "rentPrice",
@@ -584,19 +586,21 @@ const summarizeIntent = (intent: {
   updatedAt: intent.updatedAt,
 });
 
-export const listEnsTlds = () =>
-  listTldConfigs().map((config) => ({
+export const listEnsTlds = (chainId?: number) =>
+  listTldConfigs(chainId).map((config) => ({
+    chainId: config.chainId,
     tld: config.tld,
     controllerAddress: config.controllerAddress,
     baseRegistrarAddress: config.baseRegistrarAddress,
   }));
 
-export const getChainBlockNumber = () => publicClient.getBlockNumber();
+export const getChainBlockNumber = (chainId?: number) => getPublicClient(chainId).getBlockNumber();
 
 export const checkDomainAvailability = async (input: {
   label: string;
   tld: string;
   durationSeconds?: number;
+  chainId?: number;
 }) => {
   const label = normalizeLabel(input.label);
   const tld = normalizeTld(input.tld);
@@ -605,8 +609,10 @@ export const checkDomainAvailability = async (input: {
   const durationSeconds = input.durationSeconds ?? DEFAULT_DURATION_SECONDS;
   ensureDuration(durationSeconds);
 
-  const tldConfig = getTldConfig(tld);
+  const chainId = resolveNetwork(input.chainId).chainId;
+  const tldConfig = resolveTldConfig(tld, chainId);
   const { controllerAbi, baseRegistrarAbi } = getAbiBundle();
+  const publicClient = getPublicClient(chainId);
 
   const [isValid, isAvailable, rentPrice, gracePeriod, expiresAt, controllerRules] = await Promise.all([
     publicClient.readContract({
@@ -621,7 +627,7 @@ export const checkDomainAvailability = async (input: {
       functionName: "available",
       args: [label],
     }),
-    readRentPrice(tldConfig.controllerAddress, label, durationSeconds),
+    readRentPrice(tldConfig.controllerAddress, label, durationSeconds, chainId),
     publicClient.readContract({
       address: tldConfig.baseRegistrarAddress,
       abi: baseRegistrarAbi,
@@ -633,13 +639,14 @@ export const checkDomainAvailability = async (input: {
       functionName: "nameExpires",
       args: [BigInt(labelhash(label))],
     }),
-    readControllerConfig(tldConfig.controllerAddress),
+    readControllerConfig(tldConfig.controllerAddress, chainId),
   ]);
 
   const price = toPriceSummary(rentPrice.base, rentPrice.premium);
   const status = classifyStatus(expiresAt as bigint, gracePeriod as bigint);
 
   return {
+    chainId,
     label,
     tld,
     domainName: toDomainName(label, tld),
@@ -656,6 +663,223 @@ export const checkDomainAvailability = async (input: {
   };
 };
 
+const ENS_BATCH_LABEL_LIMIT = 20;
+const ENS_SUGGESTION_PREFIXES = ["the", "hey", "im", "get"] as const;
+const ENS_SUGGESTION_SUFFIXES = ["dev", "hq", "labs", "codes", "builds"] as const;
+
+export type EnsLabelSuggestionSource = "input" | "prefix" | "suffix" | "username" | "github";
+
+type MulticallEntry = { status: "success"; result: unknown } | { status: "failure"; error: Error };
+
+const resolveTldConfigs = (chainId: number, tlds?: string[]) => {
+  if (!tlds || tlds.length === 0) {
+    return [...listTldConfigs(chainId)];
+  }
+
+  const normalized = [...new Set(tlds.map(normalizeTld))];
+  return normalized.map((tld) => resolveTldConfig(tld, chainId));
+};
+
+const readMulticallValue = <T>(entry: MulticallEntry | undefined): T | null =>
+  entry && entry.status === "success" ? (entry.result as T) : null;
+
+// Reads valid/available/rentPrice/nameExpires for every label × TLD pair in one Multicall3 round trip.
+export const checkDomainAvailabilityBatch = async (input: {
+  labels: string[];
+  tlds?: string[];
+  durationSeconds?: number;
+  chainId?: number;
+}) => {
+  const labels = [...new Set(input.labels.map(normalizeLabel))];
+  if (labels.length === 0) {
+    throw new HttpError(400, "INVALID_LABEL", "At least one label is required");
+  }
+
+  if (labels.length > ENS_BATCH_LABEL_LIMIT) {
+    throw new HttpError(400, "TOO_MANY_LABELS", `At most ${ENS_BATCH_LABEL_LIMIT} labels can be checked at once`);
+  }
+
+  const durationSeconds = input.durationSeconds ?? DEFAULT_DURATION_SECONDS;
+  ensureDuration(durationSeconds);
+
+  const chainId = resolveNetwork(input.chainId).chainId;
+  const tldConfigs = resolveTldConfigs(chainId, input.tlds);
+  const validLabels = labels.filter((label) => ENS_LABEL_REGEX.test(label));
+  const { controllerAbi, baseRegistrarAbi } = getAbiBundle();
+  const pairs = validLabels.flatMap((label) => tldConfigs.map((tldConfig) => ({ label, tldConfig })));
+
+  const contracts = [
+    ...tldConfigs.map((tldConfig) => ({
+      address: tldConfig.baseRegistrarAddress,
+      abi: baseRegistrarAbi,
+      functionName: "GRACE_PERIOD",
+    })),
+    ...pairs.flatMap(({ label, tldConfig }) => [
+      {
+        address: tldConfig.controllerAddress,
+        abi: controllerAbi,
+        functionName: "valid",
+        args: [label],
+      },
+      {
+        address: tldConfig.controllerAddress,
+        abi: controllerAbi,
+        functionName: "available",
+        args: [label],
+      },
+      {
+        address: tldConfig.controllerAddress,
+        abi: controllerAbi,
+        functionName: "rentPrice",
+        args: [label, BigInt(durationSeconds)],
+      },
+      {
+        address: tldConfig.baseRegistrarAddress,
+        abi: baseRegistrarAbi,
+        functionName: "nameExpires",
+        args: [BigInt(labelhash(label))],
+      },
+    ]),
+  ];
+
+  const results =
+    contracts.length > tldConfigs.length
+      ? ((await getPublicClient(chainId).multicall({
+          contracts,
+          allowFailure: true,
+          multicallAddress: getEnsCoreContracts(chainId).multicall3,
+        })) as MulticallEntry[])
+      : [];
+
+  const gracePeriodByTld = new Map(
+    tldConfigs.map((tldConfig, index) => [tldConfig.tld, readMulticallValue<bigint>(results[index]) ?? 0n])
+  );
+
+  const checked = pairs.map(({ label, tldConfig }, index) => {
+    const offset = tldConfigs.length + index * 4;
+    const isValid = readMulticallValue<boolean>(results[offset]);
+    const isAvailable = readMulticallValue<boolean>(results[offset + 1]);
+    const rentPrice = readMulticallValue<{ base: bigint; premium: bigint }>(results[offset + 2]);
+    const expiresAt = readMulticallValue<bigint>(results[offset + 3]);
+    const failed = isValid === null || isAvailable === null || expiresAt === null;
+
+    return {
+      label,
+      tld: tldConfig.tld,
+      domainName: toDomainName(label, tldConfig.tld),
+      isValid: Boolean(isValid),
+      isAvailable: Boolean(isAvailable),
+      status: failed ? ("unknown" as const) : classifyStatus(expiresAt, gracePeriodByTld.get(tldConfig.tld) ?? 0n),
+      expiresAt,
+      price: rentPrice ? toPriceSummary(rentPrice.base, rentPrice.premium) : null,
+    };
+  });
+
+  const rejected = labels
+    .filter((label) => !ENS_LABEL_REGEX.test(label))
+    .flatMap((label) =>
+      tldConfigs.map((tldConfig) => ({
+        label,
+        tld: tldConfig.tld,
+        domainName: toDomainName(label, tldConfig.tld),
+        isValid: false,
+        isAvailable: false,
+        status: "invalid" as const,
+        expiresAt: null,
+        price: null,
+      }))
+    );
+
+  return {
+    chainId,
+    durationSeconds,
+    tlds: tldConfigs.map((tldConfig) => tldConfig.tld),
+    results: [...checked, ...rejected],
+  };
+};
+
+const toSuggestionLabel = (value: string): string =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 63);
+
+export const buildEnsLabelSuggestions = (input: {
+  label: string;
+  username?: string | null;
+  githubUsername?: string | null;
+}): Array<{ label: string; source: EnsLabelSuggestionSource }> => {
+  const base = toSuggestionLabel(input.label);
+  const candidates: Array<{ label: string; source: EnsLabelSuggestionSource }> = [
+    { label: base, source: "input" },
+    ...(input.username ? [{ label: toSuggestionLabel(input.username), source: "username" as const }] : []),
+    ...(input.githubUsername ? [{ label: toSuggestionLabel(input.githubUsername), source: "github" as const }] : []),
+    ...ENS_SUGGESTION_PREFIXES.map((prefix) => ({ label: `${prefix}${base}`, source: "prefix" as const })),
+    ...ENS_SUGGESTION_SUFFIXES.map((suffix) => ({ label: `${base}${suffix}`, source: "suffix" as const })),
+  ];
+
+  const seen = new Set<string>();
+  return candidates.filter((candidate) => {
+    if (!ENS_LABEL_REGEX.test(candidate.label) || seen.has(candidate.label)) {
+      return false;
+    }
+
+    seen.add(candidate.label);
+    return true;
+  });
+};
+
+export const suggestDomainNames = async (input: {
+  userId: string;
+  label: string;
+  tlds?: string[];
+  durationSeconds?: number;
+  limit?: number;
+  chainId?: number;
+}) => {
+  const [user] = await authDb
+    .select({ username: schema.users.username, githubUsername: schema.profiles.githubUsername })
+    .from(schema.users)
+    .leftJoin(schema.profiles, eq(schema.profiles.userId, schema.users.id))
+    .where(eq(schema.users.id, input.userId))
+    .limit(1);
+
+  const candidates = buildEnsLabelSuggestions({
+    label: input.label,
+    username: user?.username,
+    githubUsername: user?.githubUsername,
+  }).slice(0, ENS_BATCH_LABEL_LIMIT);
+
+  if (candidates.length === 0) {
+    throw new HttpError(400, "INVALID_LABEL", "Label must be 3-63 chars using a-z, 0-9, and '-' only");
+  }
+
+  const batch = await checkDomainAvailabilityBatch({
+    labels: candidates.map((candidate) => candidate.label),
+    tlds: input.tlds,
+    durationSeconds: input.durationSeconds,
+    chainId: input.chainId,
+  });
+
+  const sourceByLabel = new Map(candidates.map((candidate) => [candidate.label, candidate.source]));
+  const limit = Math.max(1, Math.min(input.limit ?? 20, 100));
+
+  return {
+    chainId: batch.chainId,
+    durationSeconds: batch.durationSeconds,
+    suggestions: batch.results
+      .filter((result) => result.isValid && result.isAvailable && result.status === "available")
+      .slice(0, limit)
+      .map((result) => ({
+        ...result,
+        source: sourceByLabel.get(result.label) ?? "input",
+      })),
+  };
+};
+
 export const createCommitmentIntent = async (input: {
   userId: string;
   walletAddress: string;
@@ -663,6 +887,7 @@ export const createCommitmentIntent = async (input: {
   tld: string;
   durationSeconds: number;
   referrer?: string;
+  chainId?: number;
 }) => {
   const label = normalizeLabel(input.label);
   const tld = normalizeTld(input.tld);
@@ -670,12 +895,14 @@ export const createCommitmentIntent = async (input: {
   ensureValidLabel(label);
   ensureDuration(input.durationSeconds);
 
-  const chainId = oorthNexusNetwork.chainId;
+  const chainId = resolveNetwork(input.chainId).chainId;
   await ensureWalletOwnedByUser(input.userId, walletAddress, chainId);
 
-  const tldConfig = getTldConfig(tld);
+  const tldConfig = resolveTldConfig(tld, chainId);
   const { controllerAbi } = getAbiBundle();
-  const controllerRules = await readControllerConfig(tldConfig.controllerAddress);
+  const { publicResolver } = getEnsCoreContracts(chainId);
+  const publicClient = getPublicClient(chainId);
+  const controllerRules = await readControllerConfig(tldConfig.controllerAddress, chainId);
 
   if (BigInt(input.durationSeconds) < controllerRules.minRegistrationDuration) {
     throw new HttpError(
@@ -698,7 +925,7 @@ export const createCommitmentIntent = async (input: {
       functionName: "available",
       args: [label],
     }),
-    readRentPrice(tldConfig.controllerAddress, label, input.durationSeconds),
+    readRentPrice(tldConfig.controllerAddress, label, input.durationSeconds, chainId),
   ]);
 
   if (!isValid) {
@@ -715,7 +942,7 @@ export const createCommitmentIntent = async (input: {
     label,
     walletAddress,
     durationSeconds: input.durationSeconds,
-    resolverAddress: getEnsCoreContracts().publicResolver,
+    resolverAddress: publicResolver,
     secret,
     referrer,
   });
@@ -742,7 +969,7 @@ export const createCommitmentIntent = async (input: {
     label,
     domainName,
     durationSeconds: input.durationSeconds,
-    resolverAddress: getEnsCoreContracts().publicResolver,
+    resolverAddress: publicResolver,
     controllerAddress: tldConfig.controllerAddress,
     baseRegistrarAddress: tldConfig.baseRegistrarAddress,
     secretHash,
@@ -804,8 +1031,8 @@ export const confirmCommitmentIntent = async (input: {
   }
 
   const [receipt, tx] = await Promise.all([
-    getTransactionReceiptWithRetry(txHash),
-    publicClient.getTransaction({ hash: txHash }),
+    getTransactionReceiptWithRetry(txHash, intent.chainId),
+    getPublicClient(intent.chainId).getTransaction({ hash: txHash }),
   ]);
 
   if (receipt.status !== "success") {
@@ -826,6 +1053,7 @@ export const confirmCommitmentIntent = async (input: {
   });
 
   const commitmentTimestamp = await getCommitmentTimestampWithRetry({
+    chainId: intent.chainId,
     controllerAddress: intent.controllerAddress as Address,
     commitment: intent.commitment as Hex,
     txHash,
@@ -879,7 +1107,7 @@ export const prepareRegisterTransaction = async (input: {
     throw new HttpError(400, "SECRET_MISMATCH", "Secret does not match commitment intent");
   }
 
-  const commitmentTimestamp = (await publicClient.readContract({
+  const commitmentTimestamp = (await getPublicClient(intent.chainId).readContract({
     address: intent.controllerAddress as Address,
     abi: getAbiBundle().controllerAbi,
     functionName: "commitments",
@@ -911,7 +1139,12 @@ export const prepareRegisterTransaction = async (input: {
     throw new HttpError(409, "COMMITMENT_EXPIRED", "Commitment expired. Create a new commitment intent");
   }
 
-  const rentPrice = await readRentPrice(intent.controllerAddress as Address, intent.label, intent.durationSeconds);
+  const rentPrice = await readRentPrice(
+    intent.controllerAddress as Address,
+    intent.label,
+    intent.durationSeconds,
+    intent.chainId
+  );
   const price = toPriceSummary(rentPrice.base, rentPrice.premium);
 
   const registration = buildRegistrationTuple({
@@ -1001,8 +1234,8 @@ export const confirmRegisterTransaction = async (input: {
   }
 
   const [receipt, tx] = await Promise.all([
-    getTransactionReceiptWithRetry(txHash),
-    publicClient.getTransaction({ hash: txHash }),
+    getTransactionReceiptWithRetry(txHash, intent.chainId),
+    getPublicClient(intent.chainId).getTransaction({ hash: txHash }),
   ]);
 
   if (receipt.status !== "success") {
@@ -1133,6 +1366,8 @@ export const confirmRegisterTransaction = async (input: {
     })
     .where(eq(schema.ensPurchaseIntents.id, intent.id));
 
+  await emitEnsRegisteredWebhookEvent({ intent, ownerAddress, expiresAt, txHash });
+
   const [domain] = await authDb
     .select()
     .from(schema.ensIdentities)
@@ -1164,30 +1399,35 @@ export const listUserPurchaseIntents = async (userId: string, limit = 20) => {
   return rows.map((row) => summarizeIntent(row));
 };
 
-export const prepareSetAddressRecord = async (input: {
-  userId: string;
-  domainName: string;
-  address: string;
-}) => {
-  const domainName = input.domainName.trim().toLowerCase();
-  const address = ensureAddress(input.address);
+export const getUserDomainByName = async (userId: string, domainNameInput: string) => {
+  const domainName = domainNameInput.trim().toLowerCase();
 
   const [domain] = await authDb
     .select()
     .from(schema.ensIdentities)
-    .where(and(eq(schema.ensIdentities.userId, input.userId), eq(schema.ensIdentities.name, domainName)))
+    .where(and(eq(schema.ensIdentities.userId, userId), eq(schema.ensIdentities.name, domainName)))
     .limit(1);
 
   if (!domain) {
     throw new HttpError(404, "DOMAIN_NOT_FOUND", "Domain not found for current user");
   }
 
-  const node = namehash(domainName);
+  return domain;
+};
+
+export const prepareSetAddressRecord = async (input: {
+  userId: string;
+  domainName: string;
+  address: string;
+}) => {
+  const address = ensureAddress(input.address);
+  const domain = await getUserDomainByName(input.userId, input.domainName);
+  const node = namehash(domain.name);
 
   return {
     domain,
     tx: {
-      to: getEnsCoreContracts().publicResolver,
+      to: getEnsResolverAddress(domain),
       functionName: "setAddr",
       args: [node, address],
       value: "0",
@@ -1195,6 +1435,150 @@ export const prepareSetAddressRecord = async (input: {
   };
 };
 
+export const prepareSetTextRecord = async (input: {
+  userId: string;
+  domainName: string;
+  key: EnsTextRecordKey;
+  value: string;
+}) => {
+  const domain = await getUserDomainByName(input.userId, input.domainName);
+  const node = namehash(domain.name);
+
+  return {
+    domain,
+    tx: {
+      to: getEnsResolverAddress(domain),
+      functionName: "setText",
+      args: [node, input.key, input.value.trim()],
+      value: "0",
+    },
+  };
+};
+
+export const prepareRecordsMulticall = async (input: {
+  userId: string;
+  domainName: string;
+  address?: string;
+  texts?: Partial<Record<EnsTextRecordKey, string>>;
+}) => {
+  const domain = await getUserDomainByName(input.userId, input.domainName);
+  const node = namehash(domain.name);
+  const { publicResolverAbi } = getAbiBundle();
+
+  const calls: Array<{ functionName: "setAddr" | "setText"; args: readonly unknown[] }> = [];
+  if (input.address) {
+    calls.push({ functionName: "setAddr", args: [node, ensureAddress(input.address)] });
+  }
+
+  for (const key of ENS_TEXT_RECORD_KEYS) {
+    const value = input.texts?.[key];
+    if (value !== undefined) {
+      calls.push({ functionName: "setText", args: [node, key, value.trim()] });
+    }
+  }
+
+  if (calls.length === 0) {
+    throw new HttpError(400, "NO_RECORD_CHANGES", "At least one address or text record is required");
+  }
+
+  const data = calls.map((call) =>
+    encodeFunctionData({
+      abi: publicResolverAbi,
+      functionName: call.functionName,
+      args: call.args,
+    })
+  );
+
+  return {
+    domain,
+    calls,
+    tx: {
+      to: getEnsResolverAddress(domain),
+      functionName: "multicall",
+      args: [data],
+      value: "0",
+    },
+  };
+};
+
+export const getActiveUserDomainByName = async (userId: string, domainName: string) => {
+  const domain = await getUserDomainByName(userId, domainName);
+
+  if (domain.status !== "active") {
+    throw new HttpError(409, "DOMAIN_NOT_ACTIVE", "Domain is not active");
+  }
+
+  return domain;
+};
+
+export const preparePrimaryName = async (input: { userId: string; domainName: string }) => {
+  const domain = await getActiveUserDomainByName(input.userId, input.domainName);
+
+  return {
+    domain,
+    tx: {
+      to: getEnsCoreContracts(domain.chainId).reverseRegistrar,
+      functionName: "setName",
+      args: [domain.name],
+      value: "0",
+    },
+  };
+};
+
+export const confirmPrimaryName = async (input: { userId: string; domainName: string; txHash: string }) => {
+  const domain = await getActiveUserDomainByName(input.userId, input.domainName);
+  const txHash = toTxHash(input.txHash);
+
+  const [receipt, tx] = await Promise.all([
+    getTransactionReceiptWithRetry(txHash, domain.chainId),
+    getPublicClient(domain.chainId).getTransaction({ hash: txHash }),
+  ]);
+
+  if (receipt.status !== "success") {
+    throw new HttpError(409, "REVERSE_TX_FAILED", "Reverse record transaction failed on-chain");
+  }
+
+  if (!tx.to || normalizeAddress(tx.to) !== normalizeAddress(getEnsCoreContracts(domain.chainId).reverseRegistrar)) {
+    throw new HttpError(400, "INVALID_REVERSE_TX", "Reverse record transaction target does not match reverse registrar");
+  }
+
+  const decoded = decodeFunctionData({
+    abi: reverseRegistrarAbi,
+    data: tx.input,
+  });
+
+  if (decoded.functionName !== "setName" || decoded.args[0].trim().toLowerCase() !== domain.name) {
+    throw new HttpError(400, "INVALID_REVERSE_TX", "Reverse record transaction does not set this domain name");
+  }
+
+  await ensureWalletOwnedByUser(input.userId, tx.from, domain.chainId);
+
+  const reverseName = await readEnsReverseName(normalizeAddress(tx.from), domain.chainId);
+  if (reverseName !== domain.name) {
+    throw new HttpError(409, "REVERSE_RECORD_MISMATCH", "Reverse record on-chain does not resolve to this domain");
+  }
+
+  const verifiedAt = new Date();
+  await markEnsIdentityPrimary({
+    userId: input.userId,
+    identityId: domain.id,
+    reverseRecordVerifiedAt: verifiedAt,
+  });
+
+  return {
+    domain: {
+      ...domain,
+      isPrimary: true,
+      reverseRecordVerifiedAt: verifiedAt,
+    },
+    reverseTxHash: txHash,
+  };
+};
+
+type RenewalIntentRecord = typeof schema.ensRenewalIntents.$inferSelect;
+
+export type EnsRenewalSettlement = "pending" | "renewed" | "failed";
+
 export const prepareRenewal = async (input: {
   userId: string;
   domainName: string;
@@ -1203,22 +1587,52 @@ export const prepareRenewal = async (input: {
 }) => {
   ensureDuration(input.durationSeconds);
 
-  const [domain] = await authDb
-    .select()
-    .from(schema.ensIdentities)
-    .where(and(eq(schema.ensIdentities.userId, input.userId), eq(schema.ensIdentities.name, input.domainName)))
-    .limit(1);
+  // Names in their grace period are revoked in the database but can still be renewed.
+  const domain = await getUserDomainByName(input.userId, input.domainName);
 
-  if (!domain) {
-    throw new HttpError(404, "DOMAIN_NOT_FOUND", "Domain not found for current user");
+  if (!domain.controllerAddress || !domain.baseRegistrarAddress) {
+    throw new HttpError(409, "IDENTITY_CONFIG_INVALID", "Identity missing controller or registrar address for renewal");
   }
 
-  const price = await readRentPrice(domain.controllerAddress as Address, domain.label, input.durationSeconds);
+  const price = await readRentPrice(
+    domain.controllerAddress as Address,
+    domain.label,
+    input.durationSeconds,
+    domain.chainId
+  );
   const valueWithBuffer = (price.base * 110n) / 100n;
   const referrer = toHex32(input.referrer);
+  const now = new Date();
+
+  await authDb
+    .update(schema.ensRenewalIntents)
+    .set({ status: "cancelled", updatedAt: now })
+    .where(and(eq(schema.ensRenewalIntents.identityId, domain.id), eq(schema.ensRenewalIntents.status, "prepared")));
+
+  const [intent] = await authDb
+    .insert(schema.ensRenewalIntents)
+    .values({
+      id: randomUUID(),
+      userId: input.userId,
+      identityId: domain.id,
+      chainId: domain.chainId,
+      domainName: domain.name,
+      label: domain.label,
+      controllerAddress: normalizeAddress(domain.controllerAddress),
+      baseRegistrarAddress: normalizeAddress(domain.baseRegistrarAddress),
+      durationSeconds: input.durationSeconds,
+      valueWei: valueWithBuffer.toString(),
+      referrer,
+      previousExpiresAt: domain.expiresAt,
+      status: "prepared",
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
 
   return {
     domain,
+    intent,
     price: {
       base: price.base,
       premium: price.premium,
@@ -1232,3 +1646,179 @@ export const prepareRenewal = async (input: {
     },
   };
 };
+
+const loadRenewalIntentById = async (intentId: string): Promise<RenewalIntentRecord> => {
+  const [intent] = await authDb
+    .select()
+    .from(schema.ensRenewalIntents)
+    .where(eq(schema.ensRenewalIntents.id, intentId))
+    .limit(1);
+
+  if (!intent) {
+    throw new HttpError(404, "RENEWAL_INTENT_NOT_FOUND", "ENS renewal intent not found");
+  }
+
+  return intent;
+};
+
+export const listUserRenewalIntents = async (userId: string, limit = 20) =>
+  authDb
+    .select()
+    .from(schema.ensRenewalIntents)
+    .where(eq(schema.ensRenewalIntents.userId, userId))
+    .orderBy(desc(schema.ensRenewalIntents.createdAt))
+    .limit(Math.max(1, Math.min(limit, 100)));
+
+export const loadSubmittedRenewalIntents = async (limit: number): Promise<RenewalIntentRecord[]> =>
+  authDb
+    .select()
+    .from(schema.ensRenewalIntents)
+    .where(eq(schema.ensRenewalIntents.status, "submitted"))
+    .orderBy(asc(schema.ensRenewalIntents.updatedAt))
+    .limit(limit);
+
+// A renewal in the grace period revives a revoked identity when the name still belongs to one of the user's wallets.
+export const markRenewalIntentRenewed = async (
+  intent: RenewalIntentRecord,
+  input: { expiresAt: Date | null; ownerAddress?: string | null },
+  db: DbExecutor = authDb
+) => {
+  const now = new Date();
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(schema.ensRenewalIntents)
+      .set({ status: "renewed", renewedExpiresAt: input.expiresAt, failureReason: null, updatedAt: now })
+      .where(eq(schema.ensRenewalIntents.id, intent.id));
+
+    const [identity] = await tx
+      .select()
+      .from(schema.ensIdentities)
+      .where(eq(schema.ensIdentities.id, intent.identityId))
+      .limit(1)
+      .for("update");
+    if (!identity) {
+      return;
+    }
+
+    const rawOwner = input.ownerAddress ?? identity.ownerAddress;
+    const ownerAddress = rawOwner ? normalizeAddress(rawOwner) : null;
+    const [linkedWallet] = ownerAddress
+      ? await tx
+          .select({ id: schema.wallets.id })
+          .from(schema.wallets)
+          .where(and(eq(schema.wallets.userId, identity.userId), eq(schema.wallets.address, ownerAddress)))
+          .limit(1)
+      : [];
+    const unexpired = !input.expiresAt || input.expiresAt > now;
+
+    await tx
+      .update(schema.ensIdentities)
+      .set(
+        linkedWallet && unexpired
+          ? { expiresAt: input.expiresAt, ownerAddress, status: "active", updatedAt: now }
+          : { expiresAt: input.expiresAt, updatedAt: now }
+      )
+      .where(eq(schema.ensIdentities.id, identity.id));
+  });
+};
+
+export const settleRenewalIntent = async (intent: RenewalIntentRecord): Promise<EnsRenewalSettlement> => {
+  if (intent.status !== "submitted" || !intent.txHash) {
+    return "pending";
+  }
+
+  const publicClient = getPublicClient(intent.chainId);
+  let receipt: Awaited<ReturnType<typeof publicClient.getTransactionReceipt>>;
+  try {
+    receipt = await publicClient.getTransactionReceipt({ hash: intent.txHash as Hex });
+  } catch (error) {
+    if (isReceiptPendingError(error)) {
+      return "pending";
+    }
+
+    throw error;
+  }
+
+  const now = new Date();
+
+  if (receipt.status !== "success") {
+    await authDb
+      .update(schema.ensRenewalIntents)
+      .set({ status: "failed", failureReason: "Renew tx reverted", updatedAt: now })
+      .where(eq(schema.ensRenewalIntents.id, intent.id));
+    return "failed";
+  }
+
+  const expiresRaw = (await publicClient.readContract({
+    address: intent.baseRegistrarAddress as Address,
+    abi: getAbiBundle().baseRegistrarAbi,
+    functionName: "nameExpires",
+    args: [BigInt(labelhash(intent.label))],
+  })) as bigint;
+  const ownerAddress = await publicClient
+    .readContract({
+      address: intent.baseRegistrarAddress as Address,
+      abi: getAbiBundle().baseRegistrarAbi,
+      functionName: "ownerOf",
+      args: [BigInt(labelhash(intent.label))],
+    })
+    .then((owner) => normalizeAddress(String(owner)))
+    .catch(() => null);
+  await markRenewalIntentRenewed(intent, {
+    expiresAt: expiresRaw > 0n ? secondsToDate(expiresRaw) : null,
+    ownerAddress,
+  });
+
+  return "renewed";
+};
+
+export const confirmRenewalIntent = async (input: { userId: string; intentId: string; txHash: string }) => {
+  const intent = await loadRenewalIntentById(input.intentId);
+  const txHash = toTxHash(input.txHash);
+
+  if (intent.userId !== input.userId) {
+    throw new HttpError(404, "RENEWAL_INTENT_NOT_FOUND", "ENS renewal intent not found");
+  }
+
+  if (intent.txHash?.toLowerCase() === txHash.toLowerCase() && ["submitted", "renewed"].includes(intent.status)) {
+    return { intent };
+  }
+
+  if (intent.status !== "prepared") {
+    throw new HttpError(409, "INTENT_STATE_INVALID", `Cannot confirm renewal from state '${intent.status}'`);
+  }
+
+  const tx = await getPublicClient(intent.chainId).getTransaction({ hash: txHash });
+  if (!tx.to || normalizeAddress(tx.to) !== normalizeAddress(intent.controllerAddress)) {
+    throw new HttpError(400, "INVALID_RENEW_TX", "Renew transaction target does not match controller");
+  }
+
+  const decoded = decodeFunctionData({
+    abi: getAbiBundle().controllerAbi,
+    data: tx.input,
+  });
+  const args = (decoded.args as readonly unknown[] | undefined) ?? [];
+
+  if (
+    decoded.functionName !== "renew" ||
+    String(args[0] ?? "").toLowerCase() !== intent.label ||
+    BigInt(String(args[1] ?? 0)) !== BigInt(intent.durationSeconds)
+  ) {
+    throw new HttpError(400, "INVALID_RENEW_TX", "Renew call does not match renewal intent");
+  }
+
+  const [submitted] = await authDb
+    .update(schema.ensRenewalIntents)
+    .set({ status: "submitted", txHash, updatedAt: new Date() })
+    .where(eq(schema.ensRenewalIntents.id, intent.id))
+    .returning();
+
+  if (submitted) {
+    await settleRenewalIntent(submitted);
+  }
+
+  return {
+    intent: await loadRenewalIntentById(intent.id),
+  };
+};
@@ -0,0 +1,358 @@
+import { and, asc, eq, isNull, lte, ne, or, sql } from "drizzle-orm";
+import { namehash, type Address, type Hex } from "viem";
+
+import { authDb } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import { backendEnv } from "../config/env";
+import { HttpError } from "../lib/http-error";
+import { getPublicClient } from "./chain-clients";
+import { ensRegistryAbi, getAbiBundle, getEnsCoreContracts, nameResolverAbi } from "./ens-contracts";
+
+export const ENS_TEXT_RECORD_KEYS = ["avatar", "url", "com.github", "com.twitter", "description", "email"] as const;
+
+export type EnsTextRecordKey = (typeof ENS_TEXT_RECORD_KEYS)[number];
+
+export type EnsResolverRecords = {
+  address: Address | null;
+  texts: Partial<Record<EnsTextRecordKey, string>>;
+};
+
+type IdentityRecord = typeof schema.ensIdentities.$inferSelect;
+
+type SyncRecordsError = {
+  identityId: string;
+  name: string;
+  code: string;
+  message: string;
+};
+
+export type SyncEnsRecordsResult = {
+  scanned: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  staleMinutes: number;
+  startedAt: Date;
+  finishedAt: Date;
+  errors: SyncRecordsError[];
+};
+
+type SyncEnsRecordsDependencies = {
+  readRecords: (identity: IdentityRecord) => Promise<EnsResolverRecords>;
+};
+
+type EnsProfileField = "image" | "websiteUrl" | "githubUsername" | "bio" | "brandingEmail";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Profile fields each text record is compared against for drift; `com.twitter` has no profile counterpart.
+const PROFILE_FIELD_BY_KEY: Partial<Record<EnsTextRecordKey, EnsProfileField>> = {
+  avatar: "image",
+  url: "websiteUrl",
+  "com.github": "githubUsername",
+  description: "bio",
+  email: "brandingEmail",
+};
+
+const clampLimit = (value: number | undefined): number => {
+  if (!value || !Number.isInteger(value)) {
+    return backendEnv.ensRecordsSyncLimit;
+  }
+
+  return Math.max(1, Math.min(value, 500));
+};
+
+const clampStaleMinutes = (value: number | undefined): number => {
+  if (!value || !Number.isInteger(value)) {
+    return backendEnv.ensRecordsSyncStaleMinutes;
+  }
+
+  return Math.max(1, Math.min(value, 7 * 24 * 60));
+};
+
+const toErrorDetails = (error: unknown): { code: string; message: string } => {
+  if (error instanceof HttpError) {
+    return {
+      code: error.code,
+      message: error.message,
+    };
+  }
+
+  return {
+    code: "ENS_RECORDS_SYNC_FAILED",
+    message: error instanceof Error ? error.message : "Unknown ENS records sync failure",
+  };
+};
+
+export const isEnsTextRecordKey = (key: string): key is EnsTextRecordKey =>
+  (ENS_TEXT_RECORD_KEYS as readonly string[]).includes(key);
+
+export const getEnsResolverAddress = (identity: { resolverAddress: string | null; chainId: number }): Address =>
+  (identity.resolverAddress ?? getEnsCoreContracts(identity.chainId).publicResolver) as Address;
+
+export const readEnsResolverRecords = async (identity: IdentityRecord): Promise<EnsResolverRecords> => {
+  const { publicResolverAbi } = getAbiBundle();
+  const resolver = getEnsResolverAddress(identity);
+  const node = (identity.node ?? namehash(identity.name)) as Hex;
+  const publicClient = getPublicClient(identity.chainId);
+
+  const [address, ...values] = await Promise.all([
+    publicClient.readContract({
+      address: resolver,
+      abi: publicResolverAbi,
+      functionName: "addr",
+      args: [node],
+    }) as Promise<Address>,
+    ...ENS_TEXT_RECORD_KEYS.map(
+      (key) =>
+        publicClient.readContract({
+          address: resolver,
+          abi: publicResolverAbi,
+          functionName: "text",
+          args: [node, key],
+        }) as Promise<string>
+    ),
+  ]);
+
+  const texts: EnsResolverRecords["texts"] = {};
+  ENS_TEXT_RECORD_KEYS.forEach((key, index) => {
+    const value = values[index];
+    if (value) {
+      texts[key] = value;
+    }
+  });
+
+  return {
+    address: address && address.toLowerCase() !== ZERO_ADDRESS ? (address.toLowerCase() as Address) : null,
+    texts,
+  };
+};
+
+export const getEnsReverseNode = (address: string): Hex => namehash(`${address.toLowerCase().slice(2)}.addr.reverse`);
+
+export const readEnsReverseName = async (address: Address, chainId?: number): Promise<string | null> => {
+  const node = getEnsReverseNode(address);
+  const publicClient = getPublicClient(chainId);
+  const resolver = await publicClient.readContract({
+    address: getEnsCoreContracts(chainId).ensRegistry,
+    abi: ensRegistryAbi,
+    functionName: "resolver",
+    args: [node],
+  });
+
+  if (resolver.toLowerCase() === ZERO_ADDRESS) {
+    return null;
+  }
+
+  const name = await publicClient.readContract({
+    address: resolver,
+    abi: nameResolverAbi,
+    functionName: "name",
+    args: [node],
+  });
+
+  return name ? name.trim().toLowerCase() : null;
+};
+
+// Keeps a single primary identity per user; other identities lose the flag and their reverse verification.
+export const markEnsIdentityPrimary = async (input: {
+  userId: string;
+  identityId: string;
+  reverseRecordVerifiedAt: Date | null;
+}) => {
+  const now = new Date();
+
+  await authDb.transaction(async (tx) => {
+    await tx
+      .update(schema.ensIdentities)
+      .set({ isPrimary: false, reverseRecordVerifiedAt: null, updatedAt: now })
+      .where(and(eq(schema.ensIdentities.userId, input.userId), ne(schema.ensIdentities.id, input.identityId)));
+
+    await tx
+      .update(schema.ensIdentities)
+      .set({ isPrimary: true, reverseRecordVerifiedAt: input.reverseRecordVerifiedAt, updatedAt: now })
+      .where(eq(schema.ensIdentities.id, input.identityId));
+  });
+};
+
+const loadSyncCandidates = async (input: { staleMinutes: number; limit: number }): Promise<IdentityRecord[]> => {
+  const staleThreshold = new Date(Date.now() - input.staleMinutes * 60 * 1000);
+
+  return authDb
+    .select()
+    .from(schema.ensIdentities)
+    .where(
+      and(
+        eq(schema.ensIdentities.status, "active"),
+        or(isNull(schema.ensIdentities.recordsSyncedAt), lte(schema.ensIdentities.recordsSyncedAt, staleThreshold))
+      )
+    )
+    .orderBy(sql`${schema.ensIdentities.recordsSyncedAt} asc nulls first`, asc(schema.ensIdentities.id))
+    .limit(input.limit);
+};
+
+const storeIdentityRecords = async (identity: IdentityRecord, records: EnsResolverRecords, now: Date) => {
+  const existing = await authDb
+    .select({ key: schema.ensTextRecords.key, value: schema.ensTextRecords.value })
+    .from(schema.ensTextRecords)
+    .where(eq(schema.ensTextRecords.identityId, identity.id));
+
+  const existingByKey = new Map(existing.map((row) => [row.key, row.value]));
+  const nextEntries = Object.entries(records.texts) as Array<[EnsTextRecordKey, string]>;
+  const textsChanged =
+    existing.length !== nextEntries.length || nextEntries.some(([key, value]) => existingByKey.get(key) !== value);
+  const addressChanged = (identity.addressRecord ?? null) !== records.address;
+
+  await authDb.transaction(async (tx) => {
+    if (textsChanged) {
+      await tx.delete(schema.ensTextRecords).where(eq(schema.ensTextRecords.identityId, identity.id));
+      if (nextEntries.length > 0) {
+        await tx.insert(schema.ensTextRecords).values(
+          nextEntries.map(([key, value]) => ({
+            identityId: identity.id,
+            key,
+            value,
+            syncedAt: now,
+          }))
+        );
+      }
+    }
+
+    await tx
+      .update(schema.ensIdentities)
+      .set({
+        addressRecord: records.address,
+        recordsSyncedAt: now,
+      })
+      .where(eq(schema.ensIdentities.id, identity.id));
+  });
+
+  return textsChanged || addressChanged;
+};
+
+export const syncEnsRecordsFromChain = async (
+  input: {
+    limit?: number;
+    staleMinutes?: number;
+  } = {},
+  deps: SyncEnsRecordsDependencies = { readRecords: readEnsResolverRecords }
+): Promise<SyncEnsRecordsResult> => {
+  const startedAt = new Date();
+  const limit = clampLimit(input.limit);
+  const staleMinutes = clampStaleMinutes(input.staleMinutes);
+  const candidates = await loadSyncCandidates({ staleMinutes, limit });
+
+  let updated = 0;
+  let unchanged = 0;
+  let failed = 0;
+  const errors: SyncRecordsError[] = [];
+
+  for (const identity of candidates) {
+    try {
+      const records = await deps.readRecords(identity);
+      const changed = await storeIdentityRecords(identity, records, new Date());
+      if (changed) {
+        updated += 1;
+      } else {
+        unchanged += 1;
+      }
+    } catch (error) {
+      const details = toErrorDetails(error);
+      failed += 1;
+
+      if (errors.length < 50) {
+        errors.push({
+          identityId: identity.id,
+          name: identity.name,
+          code: details.code,
+          message: details.message,
+        });
+      }
+    }
+  }
+
+  return {
+    scanned: candidates.length,
+    updated,
+    unchanged,
+    failed,
+    staleMinutes,
+    startedAt,
+    finishedAt: new Date(),
+    errors,
+  };
+};
+
+const normalizeForDrift = (field: EnsProfileField, value: string | null | undefined): string => {
+  const trimmed = value?.trim() ?? "";
+  if (field === "websiteUrl") {
+    return trimmed.replace(/\/+$/, "").toLowerCase();
+  }
+
+  if (field === "githubUsername" || field === "brandingEmail") {
+    return trimmed.toLowerCase();
+  }
+
+  return trimmed;
+};
+
+export const getEnsProfileRecords = async (input: {
+  userId: string;
+  profile: Record<EnsProfileField, string | null>;
+}) => {
+  const [identity] = await authDb
+    .select()
+    .from(schema.ensIdentities)
+    .where(
+      and(
+        eq(schema.ensIdentities.userId, input.userId),
+        eq(schema.ensIdentities.status, "active"),
+        eq(schema.ensIdentities.isPrimary, true)
+      )
+    )
+    .limit(1);
+
+  if (!identity) {
+    return null;
+  }
+
+  const rows = await authDb
+    .select({ key: schema.ensTextRecords.key, value: schema.ensTextRecords.value })
+    .from(schema.ensTextRecords)
+    .where(eq(schema.ensTextRecords.identityId, identity.id))
+    .orderBy(asc(schema.ensTextRecords.key));
+
+  const records: Partial<Record<EnsTextRecordKey, string>> = {};
+  for (const row of rows) {
+    if (isEnsTextRecordKey(row.key)) {
+      records[row.key] = row.value;
+    }
+  }
+
+  // Drift is only meaningful once the records have been read from chain at least once.
+  const drift = identity.recordsSyncedAt
+    ? ENS_TEXT_RECORD_KEYS.flatMap((key) => {
+        const field = PROFILE_FIELD_BY_KEY[key];
+        if (!field) {
+          return [];
+        }
+
+        const onChain = records[key] ?? null;
+        const profileValue = input.profile[field];
+        if (normalizeForDrift(field, onChain) === normalizeForDrift(field, profileValue)) {
+          return [];
+        }
+
+        return [{ key, profileField: field, onChain, profile: profileValue }];
+      })
+    : [];
+
+  return {
+    name: identity.name,
+    addressRecord: identity.addressRecord,
+    syncedAt: identity.recordsSyncedAt,
+    records,
+    drift,
+  };
+};
@@ -0,0 +1,404 @@
+import { randomUUID } from "node:crypto";
+
+import { and, desc, eq, ne } from "drizzle-orm";
+import { decodeFunctionData, isAddress, labelhash, namehash, type Address, type Hex } from "viem";
+
+import { authDb } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import { HttpError } from "../lib/http-error";
+import { getPublicClient } from "./chain-clients";
+import { ensRegistryAbi, getEnsCoreContracts, getTldConfig, nameWrapperAbi } from "./ens-contracts";
+import {
+  ensureWalletOwnedByUser,
+  getActiveUserDomainByName,
+  getTransactionReceiptWithRetry,
+  getUserDomainByName,
+} from "./ens-marketplace";
+
+type IdentityRecord = typeof schema.ensIdentities.$inferSelect;
+type SubnameRecord = typeof schema.ensSubnames.$inferSelect;
+
+const SUBNAME_LABEL_REGEX = /^[a-z0-9-]{1,63}$/;
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000" as Address;
+
+const normalizeAddress = (address: string): Address => address.trim().toLowerCase() as Address;
+
+const toTxHash = (value: string): Hex => {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(value)) {
+    throw new HttpError(400, "INVALID_TX_HASH", "Invalid transaction hash format");
+  }
+
+  return value.toLowerCase() as Hex;
+};
+
+const getParentNode = (parent: IdentityRecord): Hex => (parent.node ?? namehash(parent.name)) as Hex;
+
+const toExpirySeconds = (expiresAt: Date | null): bigint =>
+  expiresAt ? BigInt(Math.floor(expiresAt.getTime() / 1000)) : 0n;
+
+// Wrapped parents are owned by their TLD's NameWrapper in the registry, so subnames must be issued through it.
+const resolveSubnameContract = async (parent: IdentityRecord) => {
+  const registry = getEnsCoreContracts(parent.chainId).ensRegistry;
+  const registryOwner = await getPublicClient(parent.chainId).readContract({
+    address: registry,
+    abi: ensRegistryAbi,
+    functionName: "owner",
+    args: [getParentNode(parent)],
+  });
+  const { nameWrapperAddress } = getTldConfig(parent.tld, parent.chainId);
+  const wrapped = normalizeAddress(registryOwner) === normalizeAddress(nameWrapperAddress);
+
+  return {
+    wrapped,
+    contractAddress: wrapped ? nameWrapperAddress : registry,
+  };
+};
+
+const buildSubnodeTx = (input: { subname: SubnameRecord; parent: IdentityRecord; owner: Address; resolver: Address }) => {
+  const parentNode = getParentNode(input.parent);
+
+  if (input.subname.wrapped) {
+    return {
+      to: input.subname.contractAddress,
+      functionName: "setSubnodeRecord",
+      args: [
+        parentNode,
+        input.subname.label,
+        input.owner,
+        input.resolver,
+        0n,
+        0,
+        toExpirySeconds(input.parent.expiresAt),
+      ],
+      value: "0",
+    };
+  }
+
+  return {
+    to: input.subname.contractAddress,
+    functionName: "setSubnodeRecord",
+    args: [parentNode, labelhash(input.subname.label), input.owner, input.resolver, 0n],
+    value: "0",
+  };
+};
+
+// Revoking through the registry clears the owner; the NameWrapper cannot mint to the zero address, so wrapped subnames return to the parent owner.
+const getRevokeOwner = (subname: SubnameRecord, parent: IdentityRecord): Address => {
+  if (!subname.wrapped) {
+    return ZERO_ADDRESS;
+  }
+
+  if (!parent.ownerAddress) {
+    throw new HttpError(409, "IDENTITY_CONFIG_INVALID", "Parent domain is missing an owner address");
+  }
+
+  return normalizeAddress(parent.ownerAddress);
+};
+
+const assertSubnodeTxMatches = (input: {
+  subname: SubnameRecord;
+  parent: IdentityRecord;
+  txInput: Hex;
+  expectedOwner: Address;
+}): void => {
+  const decoded = decodeFunctionData({
+    abi: input.subname.wrapped ? nameWrapperAbi : ensRegistryAbi,
+    data: input.txInput,
+  });
+
+  if (decoded.functionName !== "setSubnodeRecord") {
+    throw new HttpError(400, "INVALID_SUBNAME_TX", "Transaction input is not a setSubnodeRecord call");
+  }
+
+  const args = decoded.args as readonly unknown[];
+  const expectedLabel = input.subname.wrapped ? input.subname.label : labelhash(input.subname.label);
+
+  if (String(args[0]).toLowerCase() !== getParentNode(input.parent).toLowerCase()) {
+    throw new HttpError(400, "INVALID_SUBNAME_TX", "setSubnodeRecord parent node does not match domain");
+  }
+
+  if (String(args[1]).toLowerCase() !== expectedLabel.toLowerCase()) {
+    throw new HttpError(400, "INVALID_SUBNAME_TX", "setSubnodeRecord label does not match subname");
+  }
+
+  if (normalizeAddress(String(args[2])) !== input.expectedOwner) {
+    throw new HttpError(400, "INVALID_SUBNAME_TX", "setSubnodeRecord owner does not match subname");
+  }
+};
+
+const verifySubnodeTransaction = async (input: {
+  userId: string;
+  subname: SubnameRecord;
+  parent: IdentityRecord;
+  txHash: Hex;
+  expectedOwner: Address;
+}) => {
+  const [receipt, tx] = await Promise.all([
+    getTransactionReceiptWithRetry(input.txHash, input.parent.chainId),
+    getPublicClient(input.parent.chainId).getTransaction({ hash: input.txHash }),
+  ]);
+
+  if (receipt.status !== "success") {
+    return false;
+  }
+
+  if (!tx.to || normalizeAddress(tx.to) !== normalizeAddress(input.subname.contractAddress)) {
+    throw new HttpError(400, "INVALID_SUBNAME_TX", "Subname transaction target does not match registry contract");
+  }
+
+  await ensureWalletOwnedByUser(input.userId, tx.from, input.parent.chainId);
+
+  assertSubnodeTxMatches({
+    subname: input.subname,
+    parent: input.parent,
+    txInput: tx.input,
+    expectedOwner: input.expectedOwner,
+  });
+
+  return true;
+};
+
+const getIssuedSubname = async (userId: string, subnameId: string) => {
+  const [row] = await authDb
+    .select({
+      subname: schema.ensSubnames,
+      parent: schema.ensIdentities,
+    })
+    .from(schema.ensSubnames)
+    .innerJoin(schema.ensIdentities, eq(schema.ensIdentities.id, schema.ensSubnames.parentIdentityId))
+    .where(and(eq(schema.ensSubnames.id, subnameId), eq(schema.ensSubnames.issuerUserId, userId)))
+    .limit(1);
+
+  if (!row) {
+    throw new HttpError(404, "SUBNAME_NOT_FOUND", "Subname not found for current user");
+  }
+
+  return row;
+};
+
+const resolveSubnameOwner = async (input: {
+  parent: IdentityRecord;
+  ownerAddress?: string;
+  recipientUserId?: string;
+}): Promise<Address> => {
+  if (input.ownerAddress) {
+    if (!isAddress(input.ownerAddress)) {
+      throw new HttpError(400, "INVALID_ADDRESS", `Invalid EVM address: ${input.ownerAddress}`);
+    }
+
+    return normalizeAddress(input.ownerAddress);
+  }
+
+  if (input.recipientUserId) {
+    const [wallet] = await authDb
+      .select({ address: schema.wallets.address })
+      .from(schema.wallets)
+      .where(and(eq(schema.wallets.userId, input.recipientUserId), eq(schema.wallets.chainId, input.parent.chainId)))
+      .orderBy(desc(schema.wallets.isPrimary), desc(schema.wallets.updatedAt))
+      .limit(1);
+
+    if (wallet) {
+      return normalizeAddress(wallet.address);
+    }
+  }
+
+  throw new HttpError(400, "SUBNAME_OWNER_REQUIRED", "Provide an owner address or a recipient with a linked wallet");
+};
+
+export const listDomainSubnames = async (input: { userId: string; domainName: string }) => {
+  const parent = await getUserDomainByName(input.userId, input.domainName);
+
+  const subnames = await authDb
+    .select()
+    .from(schema.ensSubnames)
+    .where(eq(schema.ensSubnames.parentIdentityId, parent.id))
+    .orderBy(desc(schema.ensSubnames.createdAt));
+
+  return {
+    domain: parent,
+    subnames,
+  };
+};
+
+export const listReceivedSubnames = async (userId: string) =>
+  authDb
+    .select()
+    .from(schema.ensSubnames)
+    .where(and(eq(schema.ensSubnames.recipientUserId, userId), eq(schema.ensSubnames.status, "active")))
+    .orderBy(desc(schema.ensSubnames.issuedAt));
+
+export const prepareSubnameIssue = async (input: {
+  userId: string;
+  domainName: string;
+  label: string;
+  ownerAddress?: string;
+  recipientUserId?: string;
+}) => {
+  const parent = await getActiveUserDomainByName(input.userId, input.domainName);
+  const label = input.label.trim().toLowerCase();
+
+  if (!SUBNAME_LABEL_REGEX.test(label)) {
+    throw new HttpError(400, "INVALID_LABEL", "Label must be 1-63 chars using a-z, 0-9, and '-' only");
+  }
+
+  if (input.recipientUserId) {
+    const [recipient] = await authDb
+      .select({ id: schema.users.id })
+      .from(schema.users)
+      .where(eq(schema.users.id, input.recipientUserId))
+      .limit(1);
+
+    if (!recipient) {
+      throw new HttpError(404, "USER_NOT_FOUND", "Recipient user not found");
+    }
+  }
+
+  const name = `${label}.${parent.name}`;
+  const [existing] = await authDb
+    .select({ status: schema.ensSubnames.status })
+    .from(schema.ensSubnames)
+    .where(eq(schema.ensSubnames.name, name))
+    .limit(1);
+
+  if (existing?.status === "active") {
+    throw new HttpError(409, "SUBNAME_TAKEN", "Subname is already issued");
+  }
+
+  const ownerAddress = await resolveSubnameOwner({
+    parent,
+    ownerAddress: input.ownerAddress,
+    recipientUserId: input.recipientUserId,
+  });
+  const contract = await resolveSubnameContract(parent);
+  const resolverAddress = normalizeAddress(parent.resolverAddress ?? getEnsCoreContracts(parent.chainId).publicResolver);
+  const now = new Date();
+
+  const values = {
+    parentIdentityId: parent.id,
+    issuerUserId: input.userId,
+    recipientUserId: input.recipientUserId ?? null,
+    label,
+    node: namehash(name),
+    ownerAddress,
+    resolverAddress,
+    contractAddress: normalizeAddress(contract.contractAddress),
+    wrapped: contract.wrapped,
+    status: "pending" as const,
+    issueTxHash: null,
+    revokeTxHash: null,
+    issuedAt: null,
+    revokedAt: null,
+    updatedAt: now,
+  };
+
+  const [subname] = await authDb
+    .insert(schema.ensSubnames)
+    .values({
+      id: randomUUID(),
+      name,
+      createdAt: now,
+      ...values,
+    })
+    .onConflictDoUpdate({
+      target: schema.ensSubnames.name,
+      set: values,
+      where: ne(schema.ensSubnames.status, "active"),
+    })
+    .returning();
+
+  // No row back means a concurrent issue activated the name after the check above.
+  if (!subname) {
+    throw new HttpError(409, "SUBNAME_TAKEN", "Subname is already issued");
+  }
+
+  return {
+    subname,
+    tx: buildSubnodeTx({ subname, parent, owner: ownerAddress, resolver: resolverAddress as Address }),
+  };
+};
+
+export const confirmSubnameIssue = async (input: { userId: string; subnameId: string; txHash: string }) => {
+  const { subname, parent } = await getIssuedSubname(input.userId, input.subnameId);
+  const txHash = toTxHash(input.txHash);
+
+  if (subname.status === "active" && subname.issueTxHash === txHash) {
+    return { subname };
+  }
+
+  if (subname.status !== "pending") {
+    throw new HttpError(409, "SUBNAME_STATE_INVALID", `Cannot confirm issue from state '${subname.status}'`);
+  }
+
+  const succeeded = await verifySubnodeTransaction({
+    userId: input.userId,
+    subname,
+    parent,
+    txHash,
+    expectedOwner: normalizeAddress(subname.ownerAddress),
+  });
+  const now = new Date();
+
+  if (!succeeded) {
+    await authDb
+      .update(schema.ensSubnames)
+      .set({ status: "failed", issueTxHash: txHash, updatedAt: now })
+      .where(eq(schema.ensSubnames.id, subname.id));
+    throw new HttpError(409, "SUBNAME_TX_FAILED", "Subname transaction failed on-chain");
+  }
+
+  const [updated] = await authDb
+    .update(schema.ensSubnames)
+    .set({ status: "active", issueTxHash: txHash, issuedAt: now, updatedAt: now })
+    .where(eq(schema.ensSubnames.id, subname.id))
+    .returning();
+
+  return { subname: updated };
+};
+
+export const prepareSubnameRevoke = async (input: { userId: string; subnameId: string }) => {
+  const { subname, parent } = await getIssuedSubname(input.userId, input.subnameId);
+
+  if (subname.status !== "active") {
+    throw new HttpError(409, "SUBNAME_STATE_INVALID", `Cannot revoke subname from state '${subname.status}'`);
+  }
+
+  return {
+    subname,
+    tx: buildSubnodeTx({ subname, parent, owner: getRevokeOwner(subname, parent), resolver: ZERO_ADDRESS }),
+  };
+};
+
+export const confirmSubnameRevoke = async (input: { userId: string; subnameId: string; txHash: string }) => {
+  const { subname, parent } = await getIssuedSubname(input.userId, input.subnameId);
+  const txHash = toTxHash(input.txHash);
+
+  if (subname.status === "revoked" && subname.revokeTxHash === txHash) {
+    return { subname };
+  }
+
+  if (subname.status !== "active") {
+    throw new HttpError(409, "SUBNAME_STATE_INVALID", `Cannot confirm revoke from state '${subname.status}'`);
+  }
+
+  const succeeded = await verifySubnodeTransaction({
+    userId: input.userId,
+    subname,
+    parent,
+    txHash,
+    expectedOwner: getRevokeOwner(subname, parent),
+  });
+
+  if (!succeeded) {
+    throw new HttpError(409, "SUBNAME_TX_FAILED", "Subname transaction failed on-chain");
+  }
+
+  const now = new Date();
+  const [updated] = await authDb
+    .update(schema.ensSubnames)
+    .set({ status: "revoked", revokeTxHash: txHash, revokedAt: now, updatedAt: now })
+    .where(eq(schema.ensSubnames.id, subname.id))
+    .returning();
+
+  return { subname: updated };
+};
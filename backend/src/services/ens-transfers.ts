@@ -0,0 +1,371 @@
+import { randomUUID } from "node:crypto";
+
+import { and, asc, desc, eq, ne, or } from "drizzle-orm";
+import { decodeEventLog, decodeFunctionData, isAddress, labelhash, type Address, type Hex } from "viem";
+
+import { authDb } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import type { DbExecutor } from "../lib/db-executor";
+import { HttpError } from "../lib/http-error";
+import { getPublicClient } from "./chain-clients";
+import { baseRegistrarTransferAbi } from "./ens-contracts";
+import { ensureWalletOwnedByUser, getActiveUserDomainByName, isReceiptPendingError } from "./ens-marketplace";
+import { createNotification } from "./forum-core.shared";
+
+type TransferRecord = typeof schema.ensTransfers.$inferSelect;
+
+export type EnsTransferSettlement = "pending" | "completed" | "failed";
+
+const normalizeAddress = (address: string): Address => address.trim().toLowerCase() as Address;
+
+const toTxHash = (value: string): Hex => {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(value)) {
+    throw new HttpError(400, "INVALID_TX_HASH", "Invalid transaction hash format");
+  }
+
+  return value.toLowerCase() as Hex;
+};
+
+const loadTransferById = async (transferId: string): Promise<TransferRecord> => {
+  const [transfer] = await authDb.select().from(schema.ensTransfers).where(eq(schema.ensTransfers.id, transferId)).limit(1);
+
+  if (!transfer) {
+    throw new HttpError(404, "TRANSFER_NOT_FOUND", "ENS transfer not found");
+  }
+
+  return transfer;
+};
+
+const resolveRecipient = async (input: {
+  userId: string;
+  chainId: number;
+  toAddress?: string;
+  recipientUsername?: string;
+}): Promise<{ recipientUserId: string | null; toAddress: Address }> => {
+  if (input.toAddress && !isAddress(input.toAddress)) {
+    throw new HttpError(400, "INVALID_ADDRESS", `Invalid EVM address: ${input.toAddress}`);
+  }
+
+  if (!input.recipientUsername) {
+    if (!input.toAddress) {
+      throw new HttpError(400, "TRANSFER_RECIPIENT_REQUIRED", "Provide a recipient address or username");
+    }
+
+    return { recipientUserId: null, toAddress: normalizeAddress(input.toAddress) };
+  }
+
+  const [recipient] = await authDb
+    .select({ id: schema.users.id })
+    .from(schema.users)
+    .where(eq(schema.users.username, input.recipientUsername.trim()))
+    .limit(1);
+
+  if (!recipient) {
+    throw new HttpError(404, "USER_NOT_FOUND", "Recipient user not found");
+  }
+
+  if (recipient.id === input.userId) {
+    throw new HttpError(400, "INVALID_TRANSFER_RECIPIENT", "Cannot transfer a name to yourself");
+  }
+
+  const wallets = await authDb
+    .select({ address: schema.wallets.address })
+    .from(schema.wallets)
+    .where(and(eq(schema.wallets.userId, recipient.id), eq(schema.wallets.chainId, input.chainId)))
+    .orderBy(desc(schema.wallets.isPrimary), desc(schema.wallets.updatedAt));
+
+  if (input.toAddress) {
+    const toAddress = normalizeAddress(input.toAddress);
+    if (!wallets.some((wallet) => normalizeAddress(wallet.address) === toAddress)) {
+      throw new HttpError(400, "RECIPIENT_WALLET_MISMATCH", "Recipient address is not linked to the recipient account");
+    }
+
+    return { recipientUserId: recipient.id, toAddress };
+  }
+
+  const [wallet] = wallets;
+  if (!wallet) {
+    throw new HttpError(400, "RECIPIENT_WALLET_REQUIRED", "Recipient has no linked wallet on this chain");
+  }
+
+  return { recipientUserId: recipient.id, toAddress: normalizeAddress(wallet.address) };
+};
+
+const markTransferFailed = async (transfer: TransferRecord, reason: string) => {
+  await authDb
+    .update(schema.ensTransfers)
+    .set({ status: "failed", failureReason: reason, updatedAt: new Date() })
+    .where(eq(schema.ensTransfers.id, transfer.id));
+};
+
+export const listEnsTransfers = async (userId: string) =>
+  authDb
+    .select()
+    .from(schema.ensTransfers)
+    .where(or(eq(schema.ensTransfers.senderUserId, userId), eq(schema.ensTransfers.recipientUserId, userId)))
+    .orderBy(desc(schema.ensTransfers.createdAt))
+    .limit(50);
+
+export const prepareEnsTransfer = async (input: {
+  userId: string;
+  domainName: string;
+  toAddress?: string;
+  recipientUsername?: string;
+}) => {
+  const identity = await getActiveUserDomainByName(input.userId, input.domainName);
+
+  if (!identity.baseRegistrarAddress || !identity.ownerAddress) {
+    throw new HttpError(409, "IDENTITY_CONFIG_INVALID", "Identity missing registrar or owner address for transfer");
+  }
+
+  const fromAddress = normalizeAddress(identity.ownerAddress);
+  await ensureWalletOwnedByUser(input.userId, fromAddress, identity.chainId);
+
+  const recipient = await resolveRecipient({
+    userId: input.userId,
+    chainId: identity.chainId,
+    toAddress: input.toAddress,
+    recipientUsername: input.recipientUsername,
+  });
+
+  if (recipient.toAddress === fromAddress) {
+    throw new HttpError(400, "INVALID_TRANSFER_RECIPIENT", "Recipient address already owns this name");
+  }
+
+  const [inFlight] = await authDb
+    .select({ id: schema.ensTransfers.id })
+    .from(schema.ensTransfers)
+    .where(and(eq(schema.ensTransfers.identityId, identity.id), eq(schema.ensTransfers.status, "submitted")))
+    .limit(1);
+
+  if (inFlight) {
+    throw new HttpError(409, "TRANSFER_IN_PROGRESS", "A transfer for this name is already waiting for confirmation");
+  }
+
+  const now = new Date();
+  const tokenId = BigInt(labelhash(identity.label));
+
+  await authDb
+    .update(schema.ensTransfers)
+    .set({ status: "cancelled", updatedAt: now })
+    .where(and(eq(schema.ensTransfers.identityId, identity.id), eq(schema.ensTransfers.status, "prepared")));
+
+  const [transfer] = await authDb
+    .insert(schema.ensTransfers)
+    .values({
+      id: randomUUID(),
+      identityId: identity.id,
+      senderUserId: input.userId,
+      recipientUserId: recipient.recipientUserId,
+      chainId: identity.chainId,
+      registrarAddress: normalizeAddress(identity.baseRegistrarAddress),
+      tokenId: tokenId.toString(),
+      fromAddress,
+      toAddress: recipient.toAddress,
+      status: "prepared",
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  return {
+    transfer,
+    tx: {
+      to: identity.baseRegistrarAddress,
+      functionName: "safeTransferFrom",
+      args: [fromAddress, recipient.toAddress, tokenId],
+      value: "0",
+    },
+  };
+};
+
+// Reassigns the identity once the transfer has landed: platform recipients take over the row, external recipients revoke it.
+export const completeEnsTransfer = async (transfer: TransferRecord, db: DbExecutor = authDb) => {
+  const now = new Date();
+
+  const completed = await db.transaction(async (tx) => {
+    // Claiming the submitted row first lets only one of the confirm route, tx watcher and log indexer complete it.
+    const [claimed] = await tx
+      .update(schema.ensTransfers)
+      .set({ status: "completed", failureReason: null, completedAt: now, updatedAt: now })
+      .where(and(eq(schema.ensTransfers.id, transfer.id), eq(schema.ensTransfers.status, "submitted")))
+      .returning({ id: schema.ensTransfers.id });
+
+    if (!claimed) {
+      return null;
+    }
+
+    const [updatedIdentity] = await tx
+      .update(schema.ensIdentities)
+      .set({
+        userId: transfer.recipientUserId ?? undefined,
+        ownerAddress: transfer.toAddress,
+        status: transfer.recipientUserId ? "active" : "revoked",
+        isPrimary: false,
+        reverseRecordVerifiedAt: null,
+        updatedAt: now,
+      })
+      .where(eq(schema.ensIdentities.id, transfer.identityId))
+      .returning();
+
+    if (transfer.recipientUserId) {
+      await tx
+        .update(schema.ensSubnames)
+        .set({ issuerUserId: transfer.recipientUserId, updatedAt: now })
+        .where(eq(schema.ensSubnames.parentIdentityId, transfer.identityId));
+    }
+
+    await tx
+      .update(schema.ensTransfers)
+      .set({ status: "cancelled", updatedAt: now })
+      .where(
+        and(
+          eq(schema.ensTransfers.identityId, transfer.identityId),
+          eq(schema.ensTransfers.status, "prepared"),
+          ne(schema.ensTransfers.id, transfer.id)
+        )
+      );
+
+    return { identity: updatedIdentity };
+  });
+
+  if (!completed) {
+    return false;
+  }
+
+  const { identity } = completed;
+  const payload = {
+    transferId: transfer.id,
+    domainName: identity?.name ?? null,
+    fromAddress: transfer.fromAddress,
+    toAddress: transfer.toAddress,
+    txHash: transfer.txHash,
+  };
+
+  await createNotification({
+    recipientUserId: transfer.senderUserId,
+    type: "ens_transfer",
+    payload: { ...payload, direction: "sent", counterpartUserId: transfer.recipientUserId },
+  });
+
+  if (transfer.recipientUserId) {
+    await createNotification({
+      recipientUserId: transfer.recipientUserId,
+      type: "ens_transfer",
+      payload: { ...payload, direction: "received", counterpartUserId: transfer.senderUserId },
+    });
+  }
+
+  return true;
+};
+
+export const settleEnsTransfer = async (transfer: TransferRecord): Promise<EnsTransferSettlement> => {
+  if (transfer.status !== "submitted" || !transfer.txHash) {
+    return "pending";
+  }
+
+  const publicClient = getPublicClient(transfer.chainId);
+  let receipt: Awaited<ReturnType<typeof publicClient.getTransactionReceipt>>;
+  try {
+    receipt = await publicClient.getTransactionReceipt({ hash: transfer.txHash as Hex });
+  } catch (error) {
+    if (isReceiptPendingError(error)) {
+      return "pending";
+    }
+
+    throw error;
+  }
+
+  if (receipt.status !== "success") {
+    await markTransferFailed(transfer, "Transfer tx reverted");
+    return "failed";
+  }
+
+  const transferLog = receipt.logs
+    .filter((log) => normalizeAddress(log.address) === normalizeAddress(transfer.registrarAddress))
+    .map((log) => {
+      try {
+        return decodeEventLog({
+          abi: baseRegistrarTransferAbi,
+          topics: log.topics,
+          data: log.data,
+        });
+      } catch {
+        return null;
+      }
+    })
+    .find(
+      (event) =>
+        event?.eventName === "Transfer" &&
+        normalizeAddress(event.args.from) === normalizeAddress(transfer.fromAddress) &&
+        normalizeAddress(event.args.to) === normalizeAddress(transfer.toAddress) &&
+        event.args.tokenId.toString() === transfer.tokenId
+    );
+
+  if (!transferLog) {
+    await markTransferFailed(transfer, "Transfer event not found in transaction receipt");
+    return "failed";
+  }
+
+  await completeEnsTransfer(transfer);
+  return "completed";
+};
+
+export const confirmEnsTransfer = async (input: { userId: string; transferId: string; txHash: string }) => {
+  const transfer = await loadTransferById(input.transferId);
+  const txHash = toTxHash(input.txHash);
+
+  if (transfer.senderUserId !== input.userId) {
+    throw new HttpError(404, "TRANSFER_NOT_FOUND", "ENS transfer not found");
+  }
+
+  if (transfer.txHash === txHash && ["submitted", "completed"].includes(transfer.status)) {
+    return { transfer };
+  }
+
+  if (transfer.status !== "prepared") {
+    throw new HttpError(409, "TRANSFER_STATE_INVALID", `Cannot confirm transfer from state '${transfer.status}'`);
+  }
+
+  const tx = await getPublicClient(transfer.chainId).getTransaction({ hash: txHash });
+  if (!tx.to || normalizeAddress(tx.to) !== normalizeAddress(transfer.registrarAddress)) {
+    throw new HttpError(400, "INVALID_TRANSFER_TX", "Transfer transaction target does not match base registrar");
+  }
+
+  const decoded = decodeFunctionData({
+    abi: baseRegistrarTransferAbi,
+    data: tx.input,
+  });
+  const [from, to, tokenId] = decoded.args;
+
+  if (
+    normalizeAddress(from) !== normalizeAddress(transfer.fromAddress) ||
+    normalizeAddress(to) !== normalizeAddress(transfer.toAddress) ||
+    tokenId.toString() !== transfer.tokenId
+  ) {
+    throw new HttpError(400, "INVALID_TRANSFER_TX", "Transfer call arguments do not match prepared transfer");
+  }
+
+  const [submitted] = await authDb
+    .update(schema.ensTransfers)
+    .set({ status: "submitted", txHash, updatedAt: new Date() })
+    .where(eq(schema.ensTransfers.id, transfer.id))
+    .returning();
+
+  if (submitted) {
+    await settleEnsTransfer(submitted);
+  }
+
+  return {
+    transfer: await loadTransferById(transfer.id),
+  };
+};
+
+export const loadSubmittedEnsTransfers = async (limit: number): Promise<TransferRecord[]> =>
+  authDb
+    .select()
+    .from(schema.ensTransfers)
+    .where(eq(schema.ensTransfers.status, "submitted"))
+    .orderBy(asc(schema.ensTransfers.updatedAt))
+    .limit(limit);
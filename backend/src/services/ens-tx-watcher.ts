@@ -1,44 +1,35 @@
 import { randomUUID } from "node:crypto";
 
 import { asc, eq, inArray } from "drizzle-orm";
-import { createPublicClient, http, labelhash, namehash, type Address, type Hex } from "viem";
+import { labelhash, namehash, type Address, type Hex } from "viem";
 
-import { authDb, oorthNexusNetwork } from "@evergreen-devparty/auth";
+import { authDb } from "@evergreen-devparty/auth";
 import { schema } from "@evergreen-devparty/db";
 
 import { backendEnv } from "../config/env";
+import type { DbExecutor } from "../lib/db-executor";
 import { HttpError } from "../lib/http-error";
+import { getPublicClient } from "./chain-clients";
 import { getAbiBundle } from "./ens-contracts";
-import { confirmCommitmentIntentByIntentId, confirmRegisterTransactionByIntentId } from "./ens-marketplace";
+import {
+  confirmCommitmentIntentByIntentId,
+  confirmRegisterTransactionByIntentId,
+  loadSubmittedRenewalIntents,
+  settleRenewalIntent,
+} from "./ens-marketplace";
+import { loadSubmittedEnsTransfers, settleEnsTransfer } from "./ens-transfers";
+import { emitEnsRegisteredWebhookEvent } from "./outbound-webhooks";
 
 const WATCHABLE_INTENT_STATUSES = ["prepared", "committed", "registerable"] as const;
 
-const chain = {
-  id: oorthNexusNetwork.chainId,
-  name: "OorthNexus",
-  nativeCurrency: {
-    name: "ONXS",
-    symbol: "ONXS",
-    decimals: 18,
-  },
-  rpcUrls: {
-    default: {
-      http: [oorthNexusNetwork.rpcUrl],
-    },
-  },
-} as const;
-
-const publicClient = createPublicClient({
-  chain,
-  transport: http(oorthNexusNetwork.rpcUrl),
-});
-
 type WatchableIntentStatus = (typeof WATCHABLE_INTENT_STATUSES)[number];
 
 type PurchaseIntentRecord = typeof schema.ensPurchaseIntents.$inferSelect;
 
 type WatchError = {
-  intentId: string;
+  intentId?: string;
+  renewalIntentId?: string;
+  transferId?: string;
   code: string;
   message: string;
 };
@@ -49,6 +40,12 @@ export type WatchPendingEnsTransactionsResult = {
   checkedRegisterTx: number;
   syncedCommitments: number;
   syncedRegistrations: number;
+  checkedTransfers: number;
+  completedTransfers: number;
+  failedTransfers: number;
+  checkedRenewals: number;
+  syncedRenewals: number;
+  failedRenewals: number;
   expired: number;
   unchanged: number;
   failed: number;
@@ -84,7 +81,7 @@ const sameDate = (left: Date | null, right: Date | null): boolean => {
   return left.getTime() === right.getTime();
 };
 
-const toErrorDetails = (error: unknown): Omit<WatchError, "intentId"> => {
+const toErrorDetails = (error: unknown): Omit<WatchError, "intentId" | "renewalIntentId" | "transferId"> => {
   if (error instanceof HttpError) {
     return {
       code: error.code,
@@ -139,7 +136,7 @@ const syncCommitmentFromChain = async (
   intent: PurchaseIntentRecord
 ): Promise<{ updated: boolean; intent: PurchaseIntentRecord }> => {
   const { controllerAbi } = getAbiBundle();
-  const commitmentTimestamp = (await publicClient.readContract({
+  const commitmentTimestamp = (await getPublicClient(intent.chainId).readContract({
     address: intent.controllerAddress as Address,
     abi: controllerAbi,
     functionName: "commitments",
@@ -192,55 +189,18 @@ const syncCommitmentFromChain = async (
   };
 };
 
-const syncRegistrationFromChain = async (
-  intent: PurchaseIntentRecord
-): Promise<{ updated: boolean; intent: PurchaseIntentRecord }> => {
-  if (!(["committed", "registerable"] as const).includes(intent.status as "committed" | "registerable")) {
-    return {
-      updated: false,
-      intent,
-    };
-  }
-
-  const { baseRegistrarAbi } = getAbiBundle();
-  const tokenId = BigInt(labelhash(intent.label));
-  const expiresRaw = (await publicClient.readContract({
-    address: intent.baseRegistrarAddress as Address,
-    abi: baseRegistrarAbi,
-    functionName: "nameExpires",
-    args: [tokenId],
-  })) as bigint;
-
-  if (expiresRaw <= nowSeconds()) {
-    return {
-      updated: false,
-      intent,
-    };
-  }
-
-  const ownerAddress = normalizeAddress(
-    String(
-      (await publicClient.readContract({
-        address: intent.baseRegistrarAddress as Address,
-        abi: baseRegistrarAbi,
-        functionName: "ownerOf",
-        args: [tokenId],
-      })) as Address
-    )
-  );
-
-  if (ownerAddress !== normalizeAddress(intent.walletAddress)) {
-    return {
-      updated: false,
-      intent,
-    };
-  }
-
+// Shared by the receipt fallback and the log indexer once a registration is known to have landed.
+export const recordIntentRegistration = async (
+  intent: PurchaseIntentRecord,
+  input: { ownerAddress: Address; expiresAt: Date; txHash?: string },
+  db: DbExecutor = authDb
+): Promise<void> => {
   const now = new Date();
-  const expiresAt = secondsToDate(expiresRaw);
+  const { ownerAddress, expiresAt } = input;
+  const txHash = input.txHash ?? intent.registerTxHash;
   const domainNode = namehash(intent.domainName);
 
-  await authDb
+  await db
     .insert(schema.ensIdentities)
     .values({
       id: randomUUID(),
@@ -254,7 +214,7 @@ const syncRegistrationFromChain = async (
       ownerAddress,
       controllerAddress: intent.controllerAddress,
       baseRegistrarAddress: intent.baseRegistrarAddress,
-      txHash: intent.registerTxHash,
+      txHash,
       status: "active",
       commitmentId: intent.id,
       expiresAt,
@@ -275,7 +235,7 @@ const syncRegistrationFromChain = async (
         ownerAddress,
         controllerAddress: intent.controllerAddress,
         baseRegistrarAddress: intent.baseRegistrarAddress,
-        txHash: intent.registerTxHash,
+        txHash,
         status: "active",
         commitmentId: intent.id,
         expiresAt,
@@ -286,16 +246,70 @@ const syncRegistrationFromChain = async (
     });
 
   if (intent.status !== "registered" || intent.failureReason !== null) {
-    await authDb
+    await db
       .update(schema.ensPurchaseIntents)
       .set({
         status: "registered",
+        registerTxHash: txHash,
         failureReason: null,
         updatedAt: now,
       })
       .where(eq(schema.ensPurchaseIntents.id, intent.id));
   }
 
+  await emitEnsRegisteredWebhookEvent({ intent, ownerAddress, expiresAt, txHash });
+};
+
+const syncRegistrationFromChain = async (
+  intent: PurchaseIntentRecord
+): Promise<{ updated: boolean; intent: PurchaseIntentRecord }> => {
+  if (!(["committed", "registerable"] as const).includes(intent.status as "committed" | "registerable")) {
+    return {
+      updated: false,
+      intent,
+    };
+  }
+
+  const { baseRegistrarAbi } = getAbiBundle();
+  const publicClient = getPublicClient(intent.chainId);
+  const tokenId = BigInt(labelhash(intent.label));
+  const expiresRaw = (await publicClient.readContract({
+    address: intent.baseRegistrarAddress as Address,
+    abi: baseRegistrarAbi,
+    functionName: "nameExpires",
+    args: [tokenId],
+  })) as bigint;
+
+  if (expiresRaw <= nowSeconds()) {
+    return {
+      updated: false,
+      intent,
+    };
+  }
+
+  const ownerAddress = normalizeAddress(
+    String(
+      (await publicClient.readContract({
+        address: intent.baseRegistrarAddress as Address,
+        abi: baseRegistrarAbi,
+        functionName: "ownerOf",
+        args: [tokenId],
+      })) as Address
+    )
+  );
+
+  if (ownerAddress !== normalizeAddress(intent.walletAddress)) {
+    return {
+      updated: false,
+      intent,
+    };
+  }
+
+  await recordIntentRegistration(intent, {
+    ownerAddress,
+    expiresAt: secondsToDate(expiresRaw),
+  });
+
   return {
     updated: true,
     intent: await loadIntentById(intent.id),
@@ -426,12 +440,64 @@ export const watchPendingEnsTransactions = async (input: {
     }
   }
 
+  const transfers = await loadSubmittedEnsTransfers(limit);
+  let completedTransfers = 0;
+  let failedTransfers = 0;
+
+  for (const transfer of transfers) {
+    try {
+      const settlement = await settleEnsTransfer(transfer);
+      if (settlement === "completed") {
+        completedTransfers += 1;
+      } else if (settlement === "failed") {
+        failedTransfers += 1;
+      }
+    } catch (error) {
+      const details = toErrorDetails(error);
+      pushError(errors, {
+        transferId: transfer.id,
+        code: details.code,
+        message: details.message,
+      });
+      failed += 1;
+    }
+  }
+
+  const renewals = await loadSubmittedRenewalIntents(limit);
+  let syncedRenewals = 0;
+  let failedRenewals = 0;
+
+  for (const renewal of renewals) {
+    try {
+      const settlement = await settleRenewalIntent(renewal);
+      if (settlement === "renewed") {
+        syncedRenewals += 1;
+      } else if (settlement === "failed") {
+        failedRenewals += 1;
+      }
+    } catch (error) {
+      const details = toErrorDetails(error);
+      pushError(errors, {
+        renewalIntentId: renewal.id,
+        code: details.code,
+        message: details.message,
+      });
+      failed += 1;
+    }
+  }
+
   return {
     scanned: candidates.length,
     checkedCommitTx,
     checkedRegisterTx,
     syncedCommitments,
     syncedRegistrations,
+    checkedTransfers: transfers.length,
+    completedTransfers,
+    failedTransfers,
+    checkedRenewals: renewals.length,
+    syncedRenewals,
+    failedRenewals,
     expired,
     unchanged,
     failed,
@@ -0,0 +1,183 @@
+import type { Element, ElementContent, Root, Text } from "hast";
+import { solidity } from "highlightjs-solidity";
+import { common, createLowlight } from "lowlight";
+import { SKIP, visit } from "unist-util-visit";
+
+type CodeLanguage = {
+  language: string;
+  grammar: string;
+};
+
+const codeLanguageAliases: Record<string, CodeLanguage> = {
+  ts: { language: "typescript", grammar: "typescript" },
+  tsx: { language: "typescript", grammar: "typescript" },
+  mts: { language: "typescript", grammar: "typescript" },
+  cts: { language: "typescript", grammar: "typescript" },
+  typescript: { language: "typescript", grammar: "typescript" },
+  sol: { language: "solidity", grammar: "solidity" },
+  solidity: { language: "solidity", grammar: "solidity" },
+  rs: { language: "rust", grammar: "rust" },
+  rust: { language: "rust", grammar: "rust" },
+  go: { language: "go", grammar: "go" },
+  golang: { language: "go", grammar: "go" },
+  py: { language: "python", grammar: "python" },
+  python: { language: "python", grammar: "python" },
+  python3: { language: "python", grammar: "python" },
+  sh: { language: "shell", grammar: "bash" },
+  bash: { language: "shell", grammar: "bash" },
+  zsh: { language: "shell", grammar: "bash" },
+  shell: { language: "shell", grammar: "bash" },
+  console: { language: "shell", grammar: "shell" },
+  shellsession: { language: "shell", grammar: "shell" },
+  diff: { language: "diff", grammar: "diff" },
+  patch: { language: "diff", grammar: "diff" },
+};
+
+const lowlight = createLowlight({
+  typescript: common.typescript,
+  solidity,
+  rust: common.rust,
+  go: common.go,
+  python: common.python,
+  bash: common.bash,
+  shell: common.shell,
+  diff: common.diff,
+});
+
+const languageNameRegex = /^[a-z0-9_+-]{1,32}$/;
+const highlightRangesRegex = /\{([\d\s,-]+)\}/;
+const showLineNumbersRegex = /(^|\s)showLineNumbers(\s|$)/;
+
+export const normalizeCodeLanguage = (input: string | null | undefined): string | null => {
+  const value = input?.trim().toLowerCase();
+  if (!value) {
+    return null;
+  }
+
+  const known = codeLanguageAliases[value];
+  if (known) {
+    return known.language;
+  }
+
+  return languageNameRegex.test(value) ? value : null;
+};
+
+const parseHighlightedLines = (meta: string, lineCount: number): Set<number> => {
+  const lines = new Set<number>();
+  const match = meta.match(highlightRangesRegex);
+  if (!match?.[1]) {
+    return lines;
+  }
+
+  for (const part of match[1].split(",")) {
+    const [startText, endText] = part.split("-").map((value) => value.trim());
+    const start = Number(startText);
+    const end = endText === undefined ? start : Number(endText);
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1) {
+      continue;
+    }
+
+    for (let line = start; line <= Math.min(end, lineCount); line += 1) {
+      lines.add(line);
+    }
+  }
+
+  return lines;
+};
+
+const appendSegments = (target: ElementContent[][], next: ElementContent[][]): void => {
+  const [first, ...rest] = next;
+  target[target.length - 1]?.push(...(first ?? []));
+  target.push(...rest);
+};
+
+const splitNodeIntoLines = (node: ElementContent): ElementContent[][] => {
+  if (node.type === "text") {
+    return node.value.split("\n").map((value): ElementContent[] => (value ? [{ type: "text", value }] : []));
+  }
+
+  if (node.type !== "element") {
+    return [[node]];
+  }
+
+  const segments: ElementContent[][] = [[]];
+  for (const child of node.children) {
+    appendSegments(segments, splitNodeIntoLines(child));
+  }
+
+  return segments.map((children): ElementContent[] => (children.length > 0 ? [{ ...node, children }] : []));
+};
+
+const splitIntoLines = (nodes: ElementContent[]): ElementContent[][] => {
+  const lines: ElementContent[][] = [[]];
+  for (const node of nodes) {
+    appendSegments(lines, splitNodeIntoLines(node));
+  }
+
+  return lines;
+};
+
+const readText = (nodes: ElementContent[]): string =>
+  nodes.map((node) => (node.type === "text" ? node.value : node.type === "element" ? readText(node.children) : "")).join("");
+
+const readFenceLanguage = (code: Element): string | null => {
+  const className = code.properties.className;
+  const classes = Array.isArray(className) ? className : [];
+  const languageClass = classes.find((value): value is string => typeof value === "string" && value.startsWith("language-"));
+
+  return languageClass ? languageClass.slice("language-".length).toLowerCase() : null;
+};
+
+const highlightCodeElement = (pre: Element, code: Element): void => {
+  const source = readText(code.children).replace(/\n$/, "");
+  const fenceLanguage = readFenceLanguage(code);
+  const known = fenceLanguage ? codeLanguageAliases[fenceLanguage] : undefined;
+  const meta = typeof code.data?.meta === "string" ? code.data.meta : "";
+
+  const tokens: ElementContent[] = known
+    ? (lowlight.highlight(known.grammar, source).children as ElementContent[])
+    : [{ type: "text", value: source } satisfies Text];
+
+  const lines = splitIntoLines(tokens);
+  const highlightedLines = parseHighlightedLines(meta, lines.length);
+
+  const children: ElementContent[] = [];
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    children.push({
+      type: "element",
+      tagName: "span",
+      properties: {
+        className: highlightedLines.has(lineNumber) ? ["code-line", "highlighted"] : ["code-line"],
+        dataLine: lineNumber,
+      },
+      children: line,
+    });
+    children.push({ type: "text", value: "\n" });
+  });
+
+  code.children = children;
+  if (known) {
+    code.properties.className = ["hljs", `language-${fenceLanguage}`];
+    pre.properties.dataLanguage = known.language;
+  }
+
+  if (showLineNumbersRegex.test(meta)) {
+    pre.properties.className = ["line-numbers"];
+  }
+};
+
+export const rehypeHighlightCode = () => (tree: Root) => {
+  visit(tree, "element", (node: Element) => {
+    if (node.tagName !== "pre") {
+      return;
+    }
+
+    const code = node.children.find((child): child is Element => child.type === "element" && child.tagName === "code");
+    if (code) {
+      highlightCodeElement(node, code);
+    }
+
+    return SKIP;
+  });
+};
@@ -0,0 +1,148 @@
+import { and, asc, eq } from "drizzle-orm";
+
+import { authDb } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import { HttpError } from "../lib/http-error";
+import { ensureUserExists } from "./forum-core.shared";
+import { removeForumFollow } from "./forum-core.social";
+
+export const toggleForumBlock = async (input: { userId: string; targetUserId: string }) => {
+  if (input.userId === input.targetUserId) {
+    throw new HttpError(400, "INVALID_BLOCK", "Cannot block yourself");
+  }
+
+  await ensureUserExists(input.targetUserId);
+
+  const removed = await authDb
+    .delete(schema.forumUserBlocks)
+    .where(and(eq(schema.forumUserBlocks.blockerId, input.userId), eq(schema.forumUserBlocks.blockedId, input.targetUserId)))
+    .returning({ blockedId: schema.forumUserBlocks.blockedId });
+
+  if (removed.length > 0) {
+    return {
+      blocked: false,
+      userId: input.targetUserId,
+    };
+  }
+
+  await authDb
+    .insert(schema.forumUserBlocks)
+    .values({
+      blockerId: input.userId,
+      blockedId: input.targetUserId,
+      createdAt: new Date(),
+    })
+    .onConflictDoNothing();
+
+  await removeForumFollow({ followerUserId: input.userId, followeeUserId: input.targetUserId });
+  await removeForumFollow({ followerUserId: input.targetUserId, followeeUserId: input.userId });
+
+  return {
+    blocked: true,
+    userId: input.targetUserId,
+  };
+};
+
+export const toggleForumMute = async (input: { userId: string; targetUserId: string }) => {
+  if (input.userId === input.targetUserId) {
+    throw new HttpError(400, "INVALID_MUTE", "Cannot mute yourself");
+  }
+
+  await ensureUserExists(input.targetUserId);
+
+  const removed = await authDb
+    .delete(schema.forumUserMutes)
+    .where(and(eq(schema.forumUserMutes.muterId, input.userId), eq(schema.forumUserMutes.mutedId, input.targetUserId)))
+    .returning({ mutedId: schema.forumUserMutes.mutedId });
+
+  if (removed.length > 0) {
+    return {
+      muted: false,
+      userId: input.targetUserId,
+    };
+  }
+
+  await authDb
+    .insert(schema.forumUserMutes)
+    .values({
+      muterId: input.userId,
+      mutedId: input.targetUserId,
+      createdAt: new Date(),
+    })
+    .onConflictDoNothing();
+
+  return {
+    muted: true,
+    userId: input.targetUserId,
+  };
+};
+
+export const toggleForumTagMute = async (input: { userId: string; tag: string }) => {
+  const [tag] = await authDb
+    .select({ id: schema.forumTags.id, slug: schema.forumTags.slug })
+    .from(schema.forumTags)
+    .where(eq(schema.forumTags.slug, input.tag.trim().toLowerCase()))
+    .limit(1);
+
+  if (!tag) {
+    throw new HttpError(404, "TAG_NOT_FOUND", "Forum tag not found");
+  }
+
+  const removed = await authDb
+    .delete(schema.forumTagMutes)
+    .where(and(eq(schema.forumTagMutes.userId, input.userId), eq(schema.forumTagMutes.tagId, tag.id)))
+    .returning({ tagId: schema.forumTagMutes.tagId });
+
+  if (removed.length > 0) {
+    return {
+      muted: false,
+      tag: tag.slug,
+    };
+  }
+
+  await authDb
+    .insert(schema.forumTagMutes)
+    .values({
+      userId: input.userId,
+      tagId: tag.id,
+      createdAt: new Date(),
+    })
+    .onConflictDoNothing();
+
+  return {
+    muted: true,
+    tag: tag.slug,
+  };
+};
+
+export const listForumBlocksAndMutes = async (input: { userId: string }) => {
+  const [blocks, mutes, tagMutes] = await Promise.all([
+    authDb
+      .select({ userId: schema.forumUserBlocks.blockedId, createdAt: schema.forumUserBlocks.createdAt })
+      .from(schema.forumUserBlocks)
+      .where(eq(schema.forumUserBlocks.blockerId, input.userId))
+      .orderBy(asc(schema.forumUserBlocks.createdAt)),
+    authDb
+      .select({ userId: schema.forumUserMutes.mutedId, createdAt: schema.forumUserMutes.createdAt })
+      .from(schema.forumUserMutes)
+      .where(eq(schema.forumUserMutes.muterId, input.userId))
+      .orderBy(asc(schema.forumUserMutes.createdAt)),
+    authDb
+      .select({
+        tag: schema.forumTags.slug,
+        displayName: schema.forumTags.displayName,
+        createdAt: schema.forumTagMutes.createdAt,
+      })
+      .from(schema.forumTagMutes)
+      .innerJoin(schema.forumTags, eq(schema.forumTags.id, schema.forumTagMutes.tagId))
+      .where(eq(schema.forumTagMutes.userId, input.userId))
+      .orderBy(asc(schema.forumTags.slug)),
+  ]);
+
+  return {
+    blockedUsers: blocks,
+    mutedUsers: mutes,
+    mutedTags: tagMutes,
+  };
+};
@@ -0,0 +1,408 @@
+import { randomUUID } from "node:crypto";
+
+import { and, asc, desc, eq, gte, inArray, sql } from "drizzle-orm";
+
+import { authDb } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import { HttpError } from "../lib/http-error";
+import { ensureUserExists, summarizePost } from "./forum-core.shared";
+import { assertAdminAccess } from "./forum-permissions";
+
+const MAX_CATEGORY_DEPTH = 4;
+const CATEGORY_TRENDING_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+type ForumCategory = typeof schema.forumCategories.$inferSelect;
+type ForumCategoryPostPolicy = ForumCategory["postPolicy"];
+
+type CategoryTreeNode = ReturnType<typeof summarizeCategory> & {
+  postCount: number;
+  children: CategoryTreeNode[];
+};
+
+const summarizeCategory = (category: ForumCategory) => ({
+  id: category.id,
+  parentId: category.parentId,
+  slug: category.slug,
+  name: category.name,
+  description: category.description,
+  sortOrder: category.sortOrder,
+  postPolicy: category.postPolicy,
+  createdAt: category.createdAt,
+  updatedAt: category.updatedAt,
+});
+
+const normalizeCategorySlug = (input: string): string => {
+  const slug = input
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 120);
+
+  if (!slug) {
+    throw new HttpError(400, "INVALID_CATEGORY_SLUG", "Category slug must contain letters or numbers");
+  }
+
+  return slug;
+};
+
+const listAllCategories = async () =>
+  authDb.select().from(schema.forumCategories).orderBy(asc(schema.forumCategories.sortOrder), asc(schema.forumCategories.name));
+
+const collectDescendantIds = (categories: ForumCategory[], rootId: string): string[] => {
+  const ids = [rootId];
+
+  for (let index = 0; index < ids.length; index += 1) {
+    for (const category of categories) {
+      if (category.parentId === ids[index] && !ids.includes(category.id)) {
+        ids.push(category.id);
+      }
+    }
+  }
+
+  return ids;
+};
+
+const collectAncestors = (categories: ForumCategory[], category: ForumCategory): ForumCategory[] => {
+  const categoryById = new Map(categories.map((entry) => [entry.id, entry]));
+  const ancestors: ForumCategory[] = [];
+  let parentId = category.parentId;
+
+  while (parentId && ancestors.length < MAX_CATEGORY_DEPTH) {
+    const parent = categoryById.get(parentId);
+    if (!parent) {
+      break;
+    }
+
+    ancestors.unshift(parent);
+    parentId = parent.parentId;
+  }
+
+  return ancestors;
+};
+
+export const getForumCategoryById = async (categoryId: string) => {
+  const [category] = await authDb.select().from(schema.forumCategories).where(eq(schema.forumCategories.id, categoryId)).limit(1);
+  if (!category) {
+    throw new HttpError(404, "CATEGORY_NOT_FOUND", "Forum category not found");
+  }
+
+  return category;
+};
+
+const ensureCategorySlugAvailable = async (slug: string, categoryId?: string) => {
+  const [existing] = await authDb
+    .select({ id: schema.forumCategories.id })
+    .from(schema.forumCategories)
+    .where(eq(schema.forumCategories.slug, slug))
+    .limit(1);
+
+  if (existing && existing.id !== categoryId) {
+    throw new HttpError(409, "CATEGORY_SLUG_TAKEN", "Category slug is already in use");
+  }
+};
+
+const ensureParentAllowed = async (input: { parentId: string; categoryId?: string }) => {
+  const categories = await listAllCategories();
+  const parent = categories.find((category) => category.id === input.parentId);
+  if (!parent) {
+    throw new HttpError(404, "CATEGORY_NOT_FOUND", "Parent category not found");
+  }
+
+  if (input.categoryId && collectDescendantIds(categories, input.categoryId).includes(parent.id)) {
+    throw new HttpError(400, "INVALID_CATEGORY_PARENT", "A category cannot be moved under itself or its descendants");
+  }
+
+  let subtreeHeight = 0;
+  const category = input.categoryId ? categories.find((entry) => entry.id === input.categoryId) : undefined;
+  if (category) {
+    const baseDepth = collectAncestors(categories, category).length;
+    for (const descendantId of collectDescendantIds(categories, category.id)) {
+      const descendant = categories.find((entry) => entry.id === descendantId);
+      if (descendant) {
+        subtreeHeight = Math.max(subtreeHeight, collectAncestors(categories, descendant).length - baseDepth);
+      }
+    }
+  }
+
+  // Root categories sit at depth 0, so a chain may reach exactly MAX_CATEGORY_DEPTH like reply depth does.
+  if (collectAncestors(categories, parent).length + 1 + subtreeHeight > MAX_CATEGORY_DEPTH) {
+    throw new HttpError(400, "MAX_CATEGORY_DEPTH_EXCEEDED", `Maximum category depth is ${MAX_CATEGORY_DEPTH}`);
+  }
+};
+
+const findCategoryBySlug = (categories: ForumCategory[], slug: string): ForumCategory => {
+  const category = categories.find((entry) => entry.slug === slug.trim().toLowerCase());
+  if (!category) {
+    throw new HttpError(404, "CATEGORY_NOT_FOUND", "Forum category not found");
+  }
+
+  return category;
+};
+
+export const resolveForumCategoryScope = async (slug: string) => {
+  const categories = await listAllCategories();
+  const category = findCategoryBySlug(categories, slug);
+
+  return {
+    category,
+    categoryIds: collectDescendantIds(categories, category.id),
+  };
+};
+
+export const listForumCategories = async () => {
+  const [categories, counts] = await Promise.all([
+    listAllCategories(),
+    authDb
+      .select({
+        categoryId: schema.forumPosts.categoryId,
+        postCount: sql<number>`count(*)`,
+      })
+      .from(schema.forumPosts)
+      .where(eq(schema.forumPosts.status, "published"))
+      .groupBy(schema.forumPosts.categoryId),
+  ]);
+
+  const postCountByCategory = new Map(counts.map((row) => [row.categoryId, Number(row.postCount)]));
+  const nodeById = new Map<string, CategoryTreeNode>(
+    categories.map((category) => [
+      category.id,
+      {
+        ...summarizeCategory(category),
+        postCount: postCountByCategory.get(category.id) ?? 0,
+        children: [],
+      },
+    ])
+  );
+
+  const roots: CategoryTreeNode[] = [];
+  for (const category of categories) {
+    const node = nodeById.get(category.id);
+    if (!node) {
+      continue;
+    }
+
+    const parent = category.parentId ? nodeById.get(category.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return {
+    categories: roots,
+  };
+};
+
+export const getForumCategory = async (input: { slug: string }) => {
+  const categories = await listAllCategories();
+  const category = findCategoryBySlug(categories, input.slug);
+
+  const moderators = await authDb
+    .select({
+      userId: schema.forumCategoryModerators.userId,
+      username: schema.users.username,
+      name: schema.users.name,
+      image: schema.users.image,
+      assignedAt: schema.forumCategoryModerators.createdAt,
+    })
+    .from(schema.forumCategoryModerators)
+    .innerJoin(schema.users, eq(schema.users.id, schema.forumCategoryModerators.userId))
+    .where(eq(schema.forumCategoryModerators.categoryId, category.id))
+    .orderBy(asc(schema.forumCategoryModerators.createdAt));
+
+  return {
+    category: summarizeCategory(category),
+    ancestors: collectAncestors(categories, category).map((entry) => summarizeCategory(entry)),
+    children: categories.filter((entry) => entry.parentId === category.id).map((entry) => summarizeCategory(entry)),
+    moderators,
+  };
+};
+
+export const listForumCategoryTrending = async (input: { slug: string; limit?: number }) => {
+  const limit = Math.max(1, Math.min(input.limit ?? 20, 100));
+  const { category, categoryIds } = await resolveForumCategoryScope(input.slug);
+  const since = new Date(Date.now() - CATEGORY_TRENDING_WINDOW_MS);
+  const popularity = sql<number>`${schema.forumPosts.reactionCount} + ${schema.forumPosts.commentCount} + ${schema.forumPosts.shareCount}`;
+  const scopeFilter = and(
+    eq(schema.forumPosts.status, "published"),
+    inArray(schema.forumPosts.categoryId, categoryIds),
+    gte(schema.forumPosts.lastActivityAt, since)
+  );
+
+  const [tags, posts] = await Promise.all([
+    authDb
+      .select({
+        id: schema.forumTags.id,
+        slug: schema.forumTags.slug,
+        displayName: schema.forumTags.displayName,
+        trendScore: schema.forumTags.trendScore,
+        postCount: sql<number>`count(*)`,
+      })
+      .from(schema.forumPostTags)
+      .innerJoin(schema.forumTags, eq(schema.forumTags.id, schema.forumPostTags.tagId))
+      .innerJoin(schema.forumPosts, eq(schema.forumPosts.id, schema.forumPostTags.postId))
+      .where(scopeFilter)
+      .groupBy(schema.forumTags.id)
+      .orderBy(desc(sql`count(*)`), desc(schema.forumTags.trendScore), asc(schema.forumTags.slug))
+      .limit(limit),
+    authDb
+      .select()
+      .from(schema.forumPosts)
+      .where(scopeFilter)
+      .orderBy(desc(popularity), desc(schema.forumPosts.lastActivityAt))
+      .limit(limit),
+  ]);
+
+  return {
+    category: summarizeCategory(category),
+    tags: tags.map((tag) => ({
+      ...tag,
+      postCount: Number(tag.postCount),
+    })),
+    posts: posts.map((post) => summarizePost(post)),
+  };
+};
+
+export const createForumCategory = async (input: {
+  actorUserId: string;
+  slug: string;
+  name: string;
+  description?: string;
+  parentId?: string;
+  sortOrder?: number;
+  postPolicy?: ForumCategoryPostPolicy;
+}) => {
+  await assertAdminAccess(input.actorUserId);
+
+  const slug = normalizeCategorySlug(input.slug);
+  const name = input.name.trim();
+  if (!name) {
+    throw new HttpError(400, "INVALID_CATEGORY_NAME", "Category name is required");
+  }
+
+  await ensureCategorySlugAvailable(slug);
+  if (input.parentId) {
+    await ensureParentAllowed({ parentId: input.parentId });
+  }
+
+  const categoryId = randomUUID();
+  const now = new Date();
+
+  await authDb.insert(schema.forumCategories).values({
+    id: categoryId,
+    parentId: input.parentId ?? null,
+    slug,
+    name,
+    description: input.description?.trim() ?? "",
+    sortOrder: input.sortOrder ?? 0,
+    postPolicy: input.postPolicy ?? "everyone",
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return {
+    category: summarizeCategory(await getForumCategoryById(categoryId)),
+  };
+};
+
+export const updateForumCategory = async (input: {
+  actorUserId: string;
+  categoryId: string;
+  slug?: string;
+  name?: string;
+  description?: string;
+  parentId?: string | null;
+  sortOrder?: number;
+  postPolicy?: ForumCategoryPostPolicy;
+}) => {
+  await assertAdminAccess(input.actorUserId);
+  const category = await getForumCategoryById(input.categoryId);
+
+  const slug = input.slug === undefined ? category.slug : normalizeCategorySlug(input.slug);
+  if (slug !== category.slug) {
+    await ensureCategorySlugAvailable(slug, category.id);
+  }
+
+  const name = input.name === undefined ? category.name : input.name.trim();
+  if (!name) {
+    throw new HttpError(400, "INVALID_CATEGORY_NAME", "Category name is required");
+  }
+
+  if (input.parentId && input.parentId !== category.parentId) {
+    await ensureParentAllowed({ parentId: input.parentId, categoryId: category.id });
+  }
+
+  await authDb
+    .update(schema.forumCategories)
+    .set({
+      slug,
+      name,
+      description: input.description === undefined ? category.description : input.description.trim(),
+      parentId: input.parentId === undefined ? category.parentId : input.parentId,
+      sortOrder: input.sortOrder ?? category.sortOrder,
+      postPolicy: input.postPolicy ?? category.postPolicy,
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.forumCategories.id, category.id));
+
+  return {
+    category: summarizeCategory(await getForumCategoryById(category.id)),
+  };
+};
+
+export const deleteForumCategory = async (input: { actorUserId: string; categoryId: string }) => {
+  await assertAdminAccess(input.actorUserId);
+  const category = await getForumCategoryById(input.categoryId);
+
+  const [child] = await authDb
+    .select({ id: schema.forumCategories.id })
+    .from(schema.forumCategories)
+    .where(eq(schema.forumCategories.parentId, category.id))
+    .limit(1);
+
+  if (child) {
+    throw new HttpError(409, "CATEGORY_HAS_CHILDREN", "Move or delete subcategories before deleting this category");
+  }
+
+  await authDb.delete(schema.forumCategories).where(eq(schema.forumCategories.id, category.id));
+
+  return {
+    categoryId: category.id,
+    deleted: true,
+  };
+};
+
+export const setForumCategoryModerator = async (input: {
+  actorUserId: string;
+  categoryId: string;
+  userId: string;
+  assigned: boolean;
+}) => {
+  await assertAdminAccess(input.actorUserId);
+  const [category] = await Promise.all([getForumCategoryById(input.categoryId), ensureUserExists(input.userId)]);
+
+  if (input.assigned) {
+    await authDb
+      .insert(schema.forumCategoryModerators)
+      .values({
+        categoryId: category.id,
+        userId: input.userId,
+        createdAt: new Date(),
+      })
+      .onConflictDoNothing();
+  } else {
+    await authDb
+      .delete(schema.forumCategoryModerators)
+      .where(and(eq(schema.forumCategoryModerators.categoryId, category.id), eq(schema.forumCategoryModerators.userId, input.userId)));
+  }
+
+  return {
+    categoryId: category.id,
+    userId: input.userId,
+    assigned: input.assigned,
+  };
+};
@@ -6,11 +6,19 @@ import { authDb } from "@evergreen-devparty/auth";
 import { schema } from "@evergreen-devparty/db";
 
 import { HttpError } from "../lib/http-error";
-import { analyzeMarkdown } from "./forum-markdown";
+import { normalizeCodeLanguage } from "./forum-code-highlight";
+import { getForumCategoryById } from "./forum-core.categories";
+import { analyzeMarkdown, renderMarkdownToHtml } from "./forum-markdown";
 import { recordForumActionMetric } from "./forum-metrics";
+import { assertCanPostInCategory } from "./forum-permissions";
 import { enqueueForumSearchSync } from "./forum-search-sync-queue";
+import { emitOutboundWebhookEvent } from "./outbound-webhooks";
+import { createForumPoll, getForumPollForPost, normalizeForumPollInput, type ForumPollInput } from "./forum-core.polls";
+import { releaseAcceptedAnswer } from "./forum-core.questions";
+import { recordForumCommentRevision, recordForumPostRevision } from "./forum-core.revisions";
 import {
   MAX_REPLY_DEPTH,
+  assertNoForumBlockBetween,
   createNotification,
   ensureCommentEditableByUser,
   ensurePostEditableByUser,
@@ -27,13 +35,15 @@ const summarizePostDetail = (post: typeof schema.forumPosts.$inferSelect) => ({
   ...summarizePost(post),
   contentMarkdown: post.contentMarkdown,
   contentPlaintext: post.contentPlaintext,
+  contentHtml: post.contentHtml || renderMarkdownToHtml(post.contentMarkdown),
   contentMeta: post.contentMeta,
 });
 
-const summarizeCommentDetail = (comment: typeof schema.forumComments.$inferSelect) => ({
+export const summarizeCommentDetail = (comment: typeof schema.forumComments.$inferSelect) => ({
   ...summarizeComment(comment),
   contentMarkdown: comment.contentMarkdown,
   contentPlaintext: comment.contentPlaintext,
+  contentHtml: comment.contentHtml || renderMarkdownToHtml(comment.contentMarkdown),
   contentMeta: comment.contentMeta,
 });
 
@@ -48,6 +58,7 @@ export const previewForumMarkdown = async (input: { markdown: string }) => {
       wordCount: analysis.wordCount,
       codeBlockCount: analysis.codeBlockCount,
       inlineCodeCount: analysis.inlineCodeCount,
+      codeLanguages: analysis.codeLanguages,
       linkCount: analysis.links.length,
       mentionCount: analysis.mentions.length,
       links: analysis.links,
@@ -61,17 +72,28 @@ export const createForumPost = async (input: {
   title: string;
   markdown: string;
   tags?: string[];
+  categoryId?: string;
+  postType?: "discussion" | "question";
+  poll?: ForumPollInput;
 }) => {
   const title = input.title.trim();
   if (!title) {
     throw new HttpError(400, "INVALID_TITLE", "Post title is required");
   }
 
+  if (input.categoryId) {
+    await assertCanPostInCategory({
+      actorUserId: input.userId,
+      category: await getForumCategoryById(input.categoryId),
+    });
+  }
+
   const analysis = analyzeMarkdown({ markdown: input.markdown });
   if (!analysis.markdown) {
     throw new HttpError(400, "INVALID_CONTENT", "Post content is required");
   }
 
+  const pollInput = input.poll ? normalizeForumPollInput(input.poll) : null;
   const postId = randomUUID();
   const now = new Date();
   const slug = uniqueSlug(title);
@@ -79,13 +101,17 @@ export const createForumPost = async (input: {
   await authDb.insert(schema.forumPosts).values({
     id: postId,
     authorId: input.userId,
+    categoryId: input.categoryId ?? null,
+    postType: input.postType ?? "discussion",
     title,
     slug,
     contentMarkdown: analysis.markdown,
     contentPlaintext: analysis.plaintext,
+    contentHtml: analysis.htmlPreview,
     contentMeta: {
       codeBlockCount: analysis.codeBlockCount,
       inlineCodeCount: analysis.inlineCodeCount,
+      codeLanguages: analysis.codeLanguages,
       wordCount: analysis.wordCount,
     },
     status: "published",
@@ -97,12 +123,14 @@ export const createForumPost = async (input: {
   });
 
   const tags = await upsertTags(postId, input.tags ?? []);
+  const poll = pollInput ? await createForumPoll({ postId, poll: pollInput, now }) : null;
   await insertReferences({
     targetType: "post",
     postId,
     links: analysis.links,
   });
   const mentions = await insertMentions({
+    authorId: input.userId,
     targetType: "post",
     postId,
     mentions: analysis.mentions,
@@ -143,9 +171,25 @@ export const createForumPost = async (input: {
     throw new HttpError(500, "POST_CREATE_FAILED", "Failed to create forum post");
   }
 
+  await emitOutboundWebhookEvent({
+    eventType: "post.created",
+    dedupeKey: `post.created:${postId}`,
+    data: {
+      postId,
+      authorId: input.userId,
+      title: post.title,
+      slug: post.slug,
+      postType: post.postType,
+      categoryId: post.categoryId,
+      tags,
+      createdAt: post.createdAt.toISOString(),
+    },
+  });
+
   return {
     post: summarizePost(post),
     tags,
+    poll,
   };
 };
 
@@ -155,25 +199,53 @@ export const updateForumPost = async (input: {
   title?: string;
   markdown?: string;
 }) => {
-  const post = await ensurePostEditableByUser(input.postId, input.userId);
+  await ensurePostEditableByUser(input.postId, input.userId);
 
-  const nextTitle = input.title?.trim() || post.title;
-  const analysis = analyzeMarkdown({ markdown: input.markdown ?? post.contentMarkdown });
+  // Lock the post and diff against its current content so concurrent edits each record a revision of what they replaced.
+  const { post, analysis } = await authDb.transaction(async (tx) => {
+    const [post] = await tx
+      .select()
+      .from(schema.forumPosts)
+      .where(eq(schema.forumPosts.id, input.postId))
+      .for("update");
 
-  await authDb
-    .update(schema.forumPosts)
-    .set({
-      title: nextTitle,
-      contentMarkdown: analysis.markdown,
-      contentPlaintext: analysis.plaintext,
-      contentMeta: {
-        codeBlockCount: analysis.codeBlockCount,
-        inlineCodeCount: analysis.inlineCodeCount,
-        wordCount: analysis.wordCount,
+    if (!post || post.status === "soft_deleted") {
+      throw new HttpError(404, "POST_NOT_FOUND", "Forum post not found");
+    }
+
+    const nextTitle = input.title?.trim() || post.title;
+    const analysis = analyzeMarkdown({ markdown: input.markdown ?? post.contentMarkdown });
+
+    await recordForumPostRevision(
+      {
+        post,
+        editorUserId: input.userId,
+        title: nextTitle,
+        contentMarkdown: analysis.markdown,
+        contentPlaintext: analysis.plaintext,
       },
-      updatedAt: new Date(),
-    })
-    .where(eq(schema.forumPosts.id, input.postId));
+      tx
+    );
+
+    await tx
+      .update(schema.forumPosts)
+      .set({
+        title: nextTitle,
+        contentMarkdown: analysis.markdown,
+        contentPlaintext: analysis.plaintext,
+        contentHtml: analysis.htmlPreview,
+        contentMeta: {
+          codeBlockCount: analysis.codeBlockCount,
+          inlineCodeCount: analysis.inlineCodeCount,
+          codeLanguages: analysis.codeLanguages,
+          wordCount: analysis.wordCount,
+        },
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.forumPosts.id, input.postId));
+
+    return { post, analysis };
+  });
 
   await authDb.delete(schema.forumReferences).where(and(eq(schema.forumReferences.targetType, "post"), eq(schema.forumReferences.postId, input.postId)));
   await authDb.delete(schema.forumMentions).where(eq(schema.forumMentions.postId, input.postId));
@@ -184,6 +256,7 @@ export const updateForumPost = async (input: {
     links: analysis.links,
   });
   await insertMentions({
+    authorId: post.authorId,
     targetType: "post",
     postId: input.postId,
     mentions: analysis.mentions,
@@ -242,7 +315,9 @@ export const softDeleteForumPost = async (input: { userId: string; postId: strin
   };
 };
 
-export const listForumPosts = async (input: { limit?: number; cursor?: string; authorId?: string } = {}) => {
+export const listForumPosts = async (
+  input: { limit?: number; cursor?: string; authorId?: string; language?: string } = {}
+) => {
   const limit = Math.max(1, Math.min(input.limit ?? 20, 100));
   const filters = [eq(schema.forumPosts.status, "published")];
 
@@ -250,6 +325,15 @@ export const listForumPosts = async (input: { limit?: number; cursor?: string; a
     filters.push(eq(schema.forumPosts.authorId, input.authorId));
   }
 
+  if (input.language) {
+    const language = normalizeCodeLanguage(input.language);
+    if (!language) {
+      throw new HttpError(400, "INVALID_LANGUAGE", "Unsupported code language filter");
+    }
+
+    filters.push(sql`(${schema.forumPosts.contentMeta} -> 'codeLanguages' ->> ${language}) is not null`);
+  }
+
   if (input.cursor) {
     const [cursorPost] = await authDb
       .select({
@@ -295,6 +379,7 @@ export const getForumPostDetail = async (input: {
   postId: string;
   commentsLimit?: number;
   commentsCursor?: string;
+  viewerUserId?: string;
 }) => {
   const [post] = await authDb.select().from(schema.forumPosts).where(eq(schema.forumPosts.id, input.postId)).limit(1);
   if (!post || post.status === "soft_deleted") {
@@ -334,8 +419,19 @@ export const getForumPostDetail = async (input: {
     .orderBy(desc(schema.forumComments.createdAt), desc(schema.forumComments.id))
     .limit(commentsLimit);
 
+  const poll = await getForumPollForPost({ postId: post.id, viewerUserId: input.viewerUserId });
+  const [acceptedAnswer] = post.acceptedCommentId
+    ? await authDb
+        .select()
+        .from(schema.forumComments)
+        .where(and(eq(schema.forumComments.id, post.acceptedCommentId), eq(schema.forumComments.status, "published")))
+        .limit(1)
+    : [];
+
   return {
     post: summarizePostDetail(post),
+    poll,
+    acceptedAnswer: acceptedAnswer ? summarizeCommentDetail(acceptedAnswer) : null,
     comments: comments.map((comment) => summarizeCommentDetail(comment)),
     commentsNextCursor: comments.at(-1)?.id ?? null,
   };
@@ -372,8 +468,12 @@ export const createForumComment = async (input: {
     if (depth > MAX_REPLY_DEPTH) {
       throw new HttpError(400, "MAX_REPLY_DEPTH_EXCEEDED", `Maximum reply depth is ${MAX_REPLY_DEPTH}`);
     }
+
+    await assertNoForumBlockBetween({ actorUserId: input.userId, targetUserId: parent.authorId });
   }
 
+  await assertNoForumBlockBetween({ actorUserId: input.userId, targetUserId: post.authorId });
+
   const analysis = analyzeMarkdown({ markdown: input.markdown });
   if (!analysis.markdown) {
     throw new HttpError(400, "INVALID_CONTENT", "Comment content is required");
@@ -390,9 +490,11 @@ export const createForumComment = async (input: {
     depth,
     contentMarkdown: analysis.markdown,
     contentPlaintext: analysis.plaintext,
+    contentHtml: analysis.htmlPreview,
     contentMeta: {
       codeBlockCount: analysis.codeBlockCount,
       inlineCodeCount: analysis.inlineCodeCount,
+      codeLanguages: analysis.codeLanguages,
       wordCount: analysis.wordCount,
     },
     status: "published",
@@ -426,6 +528,7 @@ export const createForumComment = async (input: {
     links: analysis.links,
   });
   const mentions = await insertMentions({
+    authorId: input.userId,
     targetType: "comment",
     postId: input.postId,
     commentId,
@@ -464,6 +567,15 @@ export const createForumComment = async (input: {
         commentId,
       });
     }
+  } else if (post.postType === "question") {
+    await createNotification({
+      recipientUserId: post.authorId,
+      actorUserId: input.userId,
+      type: "reply",
+      postId: input.postId,
+      commentId,
+      payload: { context: "answer" },
+    });
   }
 
   for (const mention of mentions) {
@@ -488,6 +600,19 @@ export const createForumComment = async (input: {
 
   recordForumActionMetric("comment_create");
 
+  await emitOutboundWebhookEvent({
+    eventType: "comment.created",
+    dedupeKey: `comment.created:${commentId}`,
+    data: {
+      commentId,
+      postId: input.postId,
+      parentId: comment.parentId,
+      authorId: input.userId,
+      depth: comment.depth,
+      createdAt: comment.createdAt.toISOString(),
+    },
+  });
+
   return {
     comment: summarizeComment(comment),
   };
@@ -498,22 +623,49 @@ export const updateForumComment = async (input: {
   commentId: string;
   markdown: string;
 }) => {
-  const comment = await ensureCommentEditableByUser(input.commentId, input.userId);
+  await ensureCommentEditableByUser(input.commentId, input.userId);
   const analysis = analyzeMarkdown({ markdown: input.markdown });
 
-  await authDb
-    .update(schema.forumComments)
-    .set({
-      contentMarkdown: analysis.markdown,
-      contentPlaintext: analysis.plaintext,
-      contentMeta: {
-        codeBlockCount: analysis.codeBlockCount,
-        inlineCodeCount: analysis.inlineCodeCount,
-        wordCount: analysis.wordCount,
+  const comment = await authDb.transaction(async (tx) => {
+    const [comment] = await tx
+      .select()
+      .from(schema.forumComments)
+      .where(eq(schema.forumComments.id, input.commentId))
+      .for("update");
+
+    // A moderator hide or author delete may have landed since the permission check.
+    if (!comment || comment.status !== "published") {
+      throw new HttpError(404, "COMMENT_NOT_FOUND", "Forum comment not found");
+    }
+
+    await recordForumCommentRevision(
+      {
+        comment,
+        editorUserId: input.userId,
+        contentMarkdown: analysis.markdown,
+        contentPlaintext: analysis.plaintext,
       },
-      updatedAt: new Date(),
-    })
-    .where(eq(schema.forumComments.id, input.commentId));
+      tx
+    );
+
+    await tx
+      .update(schema.forumComments)
+      .set({
+        contentMarkdown: analysis.markdown,
+        contentPlaintext: analysis.plaintext,
+        contentHtml: analysis.htmlPreview,
+        contentMeta: {
+          codeBlockCount: analysis.codeBlockCount,
+          inlineCodeCount: analysis.inlineCodeCount,
+          codeLanguages: analysis.codeLanguages,
+          wordCount: analysis.wordCount,
+        },
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.forumComments.id, input.commentId));
+
+    return comment;
+  });
 
   await authDb.delete(schema.forumReferences).where(and(eq(schema.forumReferences.targetType, "comment"), eq(schema.forumReferences.commentId, input.commentId)));
   await authDb.delete(schema.forumMentions).where(eq(schema.forumMentions.commentId, input.commentId));
@@ -525,6 +677,7 @@ export const updateForumComment = async (input: {
     links: analysis.links,
   });
   await insertMentions({
+    authorId: comment.authorId,
     targetType: "comment",
     postId: comment.postId,
     commentId: comment.id,
@@ -550,18 +703,27 @@ export const updateForumComment = async (input: {
   return { comment: summarizeComment(updated) };
 };
 
-export const softDeleteForumComment = async (input: { userId: string; commentId: string }) => {
-  const comment = await ensureCommentEditableByUser(input.commentId, input.userId);
+// Shared by author deletes and moderator hides: counters drop, the accepted answer is released and search forgets it.
+export const retractForumComment = async (
+  comment: typeof schema.forumComments.$inferSelect,
+  status: "soft_deleted" | "hidden"
+) => {
   const now = new Date();
 
-  await authDb
+  // Only the transition out of "published" retracts; a repeated or concurrent retraction leaves the counters alone.
+  const [retracted] = await authDb
     .update(schema.forumComments)
     .set({
-      status: "soft_deleted",
-      deletedAt: now,
+      status,
+      deletedAt: status === "soft_deleted" ? now : comment.deletedAt,
       updatedAt: now,
     })
-    .where(eq(schema.forumComments.id, input.commentId));
+    .where(and(eq(schema.forumComments.id, comment.id), eq(schema.forumComments.status, "published")))
+    .returning({ id: schema.forumComments.id });
+
+  if (!retracted) {
+    return false;
+  }
 
   await authDb
     .update(schema.forumPosts)
@@ -580,12 +742,24 @@ export const softDeleteForumComment = async (input: { userId: string; commentId:
     })
     .where(eq(schema.profileMetrics.userId, comment.authorId));
 
+  await releaseAcceptedAnswer(comment);
+
   await enqueueForumSearchSync({
     targetType: "comment",
-    targetId: input.commentId,
+    targetId: comment.id,
     operation: "delete",
   });
 
+  return true;
+};
+
+export const softDeleteForumComment = async (input: { userId: string; commentId: string }) => {
+  const comment = await ensureCommentEditableByUser(input.commentId, input.userId);
+
+  if (!(await retractForumComment(comment, "soft_deleted"))) {
+    throw new HttpError(404, "COMMENT_NOT_FOUND", "Forum comment not found");
+  }
+
   return {
     commentId: input.commentId,
     status: "soft_deleted" as const,
@@ -654,6 +828,7 @@ export const upsertReplyDraft = async (input: {
         contentMeta: {
           codeBlockCount: analysis.codeBlockCount,
           inlineCodeCount: analysis.inlineCodeCount,
+          codeLanguages: analysis.codeLanguages,
           wordCount: analysis.wordCount,
         },
         updatedAt: now,
@@ -670,6 +845,7 @@ export const upsertReplyDraft = async (input: {
       contentMeta: {
         codeBlockCount: analysis.codeBlockCount,
         inlineCodeCount: analysis.inlineCodeCount,
+        codeLanguages: analysis.codeLanguages,
         wordCount: analysis.wordCount,
       },
       createdAt: now,
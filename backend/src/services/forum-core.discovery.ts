@@ -1,11 +1,28 @@
-import { and, desc, eq, ilike, inArray, lt, or, sql } from "drizzle-orm";
+import { and, desc, eq, gte, ilike, inArray, isNotNull, isNull, or, sql, type SQL } from "drizzle-orm";
+import { z } from "zod";
 
 import { authDb } from "@evergreen-devparty/auth";
 import { schema } from "@evergreen-devparty/db";
 
 import { HttpError } from "../lib/http-error";
+import { resolveForumCategoryScope } from "./forum-core.categories";
 import { searchForumContentViaMeili } from "./forum-search-meili";
-import { summarizeComment, summarizePost } from "./forum-core.shared";
+import { forumHiddenAuthorFilter, forumMutedTagFilter, summarizeComment, summarizePost } from "./forum-core.shared";
+
+export type ForumQuestionStatus = "unanswered" | "solved";
+export type ForumFeedSort = "new" | "active" | "top" | "hot";
+export type ForumFeedTopWindow = "day" | "week" | "month" | "all";
+
+const questionStatusFilter = (status: ForumQuestionStatus | undefined) => {
+  if (!status) {
+    return undefined;
+  }
+
+  return and(
+    eq(schema.forumPosts.postType, "question"),
+    status === "solved" ? isNotNull(schema.forumPosts.acceptedCommentId) : isNull(schema.forumPosts.acceptedCommentId)
+  );
+};
 
 const orderByIds = <T extends { id: string }>(rows: T[], ids: string[]): T[] => {
   const rowById = new Map(rows.map((row) => [row.id, row]));
@@ -23,38 +40,173 @@ const orderByIds = <T extends { id: string }>(rows: T[], ids: string[]): T[] =>
   return ordered;
 };
 
-const searchForumContentFromDb = async (query: string, limit: number) => {
+const searchForumContentFromDb = async (
+  query: string,
+  limit: number,
+  postScopeFilter: SQL | undefined,
+  commentScopeFilter: SQL | undefined
+) => {
   const pattern = `%${query}%`;
 
   const [posts, comments] = await Promise.all([
     authDb
       .select()
       .from(schema.forumPosts)
-      .where(and(eq(schema.forumPosts.status, "published"), or(ilike(schema.forumPosts.title, pattern), ilike(schema.forumPosts.contentPlaintext, pattern))))
+      .where(
+        and(
+          eq(schema.forumPosts.status, "published"),
+          or(ilike(schema.forumPosts.title, pattern), ilike(schema.forumPosts.contentPlaintext, pattern)),
+          postScopeFilter
+        )
+      )
       .orderBy(desc(schema.forumPosts.lastActivityAt))
       .limit(limit),
     authDb
-      .select()
+      .select({ comment: schema.forumComments })
       .from(schema.forumComments)
-      .where(and(eq(schema.forumComments.status, "published"), ilike(schema.forumComments.contentPlaintext, pattern)))
+      .leftJoin(schema.forumPosts, eq(schema.forumPosts.id, schema.forumComments.postId))
+      .where(
+        and(
+          eq(schema.forumComments.status, "published"),
+          ilike(schema.forumComments.contentPlaintext, pattern),
+          postScopeFilter,
+          commentScopeFilter
+        )
+      )
       .orderBy(desc(schema.forumComments.createdAt))
       .limit(limit),
   ]);
 
   return {
     posts: posts.map((post) => summarizePost(post)),
-    comments: comments.map((comment) => summarizeComment(comment)),
+    comments: comments.map((row) => summarizeComment(row.comment)),
   };
 };
 
+const FEED_TOP_WINDOW_DAYS: Record<Exclude<ForumFeedTopWindow, "all">, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+};
+
+const feedTopScore = sql`(${schema.forumPosts.reactionCount} + ${schema.forumPosts.commentCount} + ${schema.forumPosts.shareCount})`;
+
+// Sort keys in descending priority; the post id is always appended as the final tie-breaker.
+const feedSortKeys = (sort: ForumFeedSort): SQL[] => {
+  switch (sort) {
+    case "new":
+      return [sql`${schema.forumPosts.createdAt}`];
+    case "top":
+      return [feedTopScore, sql`${schema.forumPosts.createdAt}`];
+    case "hot":
+      return [sql`${schema.forumPosts.hotScore}`, sql`${schema.forumPosts.lastActivityAt}`];
+    case "active":
+      return [sql`${schema.forumPosts.lastActivityAt}`, sql`${schema.forumPosts.createdAt}`];
+  }
+};
+
+type ForumFeedCursor = {
+  sort: ForumFeedSort;
+  keys: string[];
+  id: string;
+};
+
+const encodeFeedCursor = (cursor: ForumFeedCursor): string => Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+// Cursor keys are Postgres text renderings ("2026-01-02 03:04:05.123456+00", "12", "0.5"), checked per sort
+// so a tampered or cross-sort cursor is rejected before it reaches a SQL comparison.
+const TIMESTAMP_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?[+-]\d{2}(:\d{2})?$/;
+
+const isTimestampKey = (value: string): boolean => {
+  const match = TIMESTAMP_KEY_PATTERN.exec(value);
+  if (!match) {
+    return false;
+  }
+
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    hour < 24 &&
+    minute < 60 &&
+    second < 60
+  );
+};
+
+const timestampKeySchema = z.string().refine(isTimestampKey);
+const integerKeySchema = z.string().regex(/^-?\d{1,10}$/);
+const floatKeySchema = z
+  .string()
+  .regex(/^-?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/i)
+  .refine((value) => Number.isFinite(Number(value)));
+
+const feedCursorKeysSchemas: Record<ForumFeedSort, z.ZodType<string[]>> = {
+  new: z.tuple([timestampKeySchema]),
+  top: z.tuple([integerKeySchema, timestampKeySchema]),
+  hot: z.tuple([floatKeySchema, timestampKeySchema]),
+  active: z.tuple([timestampKeySchema, timestampKeySchema]),
+};
+
+const decodeFeedCursor = (value: string, sort: ForumFeedSort): ForumFeedCursor => {
+  let decoded: unknown = null;
+  try {
+    decoded = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    decoded = null;
+  }
+
+  const parsed = z
+    .object({
+      sort: z.literal(sort),
+      keys: feedCursorKeysSchemas[sort],
+      id: z.string().min(1).max(200),
+    })
+    .safeParse(decoded);
+
+  if (!parsed.success) {
+    throw new HttpError(400, "INVALID_CURSOR", "Feed cursor is invalid for this sort");
+  }
+
+  return parsed.data;
+};
+
+// Keyset pagination over (keys..., id) descending. Key values travel as Postgres text so
+// timestamps keep microsecond precision and scores compare exactly.
+const feedCursorFilter = (keys: SQL[], cursor: ForumFeedCursor) => {
+  const columns = [...keys, sql`${schema.forumPosts.id}`];
+  const values = [...cursor.keys, cursor.id];
+
+  return or(
+    ...columns.map((column, index) =>
+      and(
+        ...columns.slice(0, index).map((previous, previousIndex) => sql`${previous} = ${values[previousIndex]}`),
+        sql`${column} < ${values[index]}`
+      )
+    )
+  );
+};
+
 export const getForumFeed = async (input: {
   limit?: number;
   cursor?: string;
   userId?: string;
   followingOnly?: boolean;
+  categorySlug?: string;
+  questionStatus?: ForumQuestionStatus;
+  sort?: ForumFeedSort;
+  window?: ForumFeedTopWindow;
+  tag?: string;
+  authorId?: string;
+  hasCode?: boolean;
+  noComments?: boolean;
 }) => {
+  const sort = input.sort ?? "active";
   const limit = Math.max(1, Math.min(input.limit ?? 20, 100));
+  const sortKeys = feedSortKeys(sort);
   let authorIds: string[] | null = null;
+  const categoryIds = input.categorySlug ? (await resolveForumCategoryScope(input.categorySlug)).categoryIds : null;
 
   if (input.followingOnly) {
     if (!input.userId) {
@@ -74,30 +226,9 @@ export const getForumFeed = async (input: {
   const filters = [eq(schema.forumPosts.status, "published")];
 
   if (input.cursor) {
-    const [cursorPost] = await authDb
-      .select({
-        id: schema.forumPosts.id,
-        lastActivityAt: schema.forumPosts.lastActivityAt,
-        createdAt: schema.forumPosts.createdAt,
-      })
-      .from(schema.forumPosts)
-      .where(eq(schema.forumPosts.id, input.cursor))
-      .limit(1);
-
-    if (cursorPost) {
-      const cursorFilter = or(
-        lt(schema.forumPosts.lastActivityAt, cursorPost.lastActivityAt),
-        and(eq(schema.forumPosts.lastActivityAt, cursorPost.lastActivityAt), lt(schema.forumPosts.createdAt, cursorPost.createdAt)),
-        and(
-          eq(schema.forumPosts.lastActivityAt, cursorPost.lastActivityAt),
-          eq(schema.forumPosts.createdAt, cursorPost.createdAt),
-          lt(schema.forumPosts.id, cursorPost.id)
-        )
-      );
-
-      if (cursorFilter) {
-        filters.push(cursorFilter);
-      }
+    const cursorFilter = feedCursorFilter(sortKeys, decodeFeedCursor(input.cursor, sort));
+    if (cursorFilter) {
+      filters.push(cursorFilter);
     }
   }
 
@@ -105,26 +236,95 @@ export const getForumFeed = async (input: {
     filters.push(inArray(schema.forumPosts.authorId, authorIds));
   }
 
-  const posts = await authDb
-    .select()
+  if (input.authorId) {
+    filters.push(eq(schema.forumPosts.authorId, input.authorId));
+  }
+
+  if (categoryIds) {
+    filters.push(inArray(schema.forumPosts.categoryId, categoryIds));
+  }
+
+  const questionFilter = questionStatusFilter(input.questionStatus);
+  if (questionFilter) {
+    filters.push(questionFilter);
+  }
+
+  if (input.userId) {
+    filters.push(forumHiddenAuthorFilter(input.userId, schema.forumPosts.authorId));
+    filters.push(forumMutedTagFilter(input.userId, schema.forumPosts.id));
+  }
+
+  if (input.tag) {
+    filters.push(
+      inArray(
+        schema.forumPosts.id,
+        authDb
+          .select({ postId: schema.forumPostTags.postId })
+          .from(schema.forumPostTags)
+          .innerJoin(schema.forumTags, eq(schema.forumTags.id, schema.forumPostTags.tagId))
+          .where(eq(schema.forumTags.slug, input.tag.trim().toLowerCase()))
+      )
+    );
+  }
+
+  if (input.hasCode) {
+    filters.push(sql`coalesce((${schema.forumPosts.contentMeta} ->> 'codeBlockCount')::int, 0) > 0`);
+  }
+
+  if (input.noComments) {
+    filters.push(eq(schema.forumPosts.commentCount, 0));
+  }
+
+  const topWindow = input.window ?? "week";
+  if (sort === "top" && topWindow !== "all") {
+    const windowStart = new Date(Date.now() - FEED_TOP_WINDOW_DAYS[topWindow] * 24 * 60 * 60 * 1000);
+    filters.push(gte(schema.forumPosts.createdAt, windowStart));
+  }
+
+  const rows = await authDb
+    .select({
+      post: schema.forumPosts,
+      cursorKeys: sql<string[]>`array[${sql.join(
+        sortKeys.map((key) => sql`(${key})::text`),
+        sql`, `
+      )}]`,
+    })
     .from(schema.forumPosts)
     .where(and(...filters))
-    .orderBy(desc(schema.forumPosts.lastActivityAt), desc(schema.forumPosts.createdAt), desc(schema.forumPosts.id))
+    .orderBy(...sortKeys.map((key) => desc(key)), desc(schema.forumPosts.id))
     .limit(limit);
 
+  const last = rows.at(-1);
+
   return {
-    posts: posts.map((post) => summarizePost(post)),
-    nextCursor: posts.at(-1)?.id ?? null,
+    posts: rows.map((row) => summarizePost(row.post)),
+    nextCursor: last ? encodeFeedCursor({ sort, keys: last.cursorKeys, id: last.post.id }) : null,
   };
 };
 
-export const searchForumContent = async (input: { query: string; limit?: number }) => {
+export const searchForumContent = async (input: {
+  query: string;
+  limit?: number;
+  categorySlug?: string;
+  questionStatus?: ForumQuestionStatus;
+  viewerUserId?: string;
+}) => {
   const query = input.query.trim();
   if (!query) {
     return { posts: [], comments: [] };
   }
 
   const limit = Math.max(1, Math.min(input.limit ?? 20, 100));
+  const categoryIds = input.categorySlug ? (await resolveForumCategoryScope(input.categorySlug)).categoryIds : null;
+  const postScopeFilter = and(
+    categoryIds ? inArray(schema.forumPosts.categoryId, categoryIds) : undefined,
+    questionStatusFilter(input.questionStatus),
+    input.viewerUserId ? forumHiddenAuthorFilter(input.viewerUserId, schema.forumPosts.authorId) : undefined,
+    input.viewerUserId ? forumMutedTagFilter(input.viewerUserId, schema.forumPosts.id) : undefined
+  );
+  const commentScopeFilter = input.viewerUserId
+    ? forumHiddenAuthorFilter(input.viewerUserId, schema.forumComments.authorId)
+    : undefined;
 
   try {
     const meili = await searchForumContentViaMeili({
@@ -133,7 +333,7 @@ export const searchForumContent = async (input: { query: string; limit?: number
     });
 
     if (!meili) {
-      return searchForumContentFromDb(query, limit);
+      return searchForumContentFromDb(query, limit, postScopeFilter, commentScopeFilter);
     }
 
     const [posts, comments] = await Promise.all([
@@ -141,7 +341,7 @@ export const searchForumContent = async (input: { query: string; limit?: number
         ? authDb
             .select()
             .from(schema.forumPosts)
-            .where(and(eq(schema.forumPosts.status, "published"), inArray(schema.forumPosts.id, meili.postIds)))
+            .where(and(eq(schema.forumPosts.status, "published"), inArray(schema.forumPosts.id, meili.postIds), postScopeFilter))
         : Promise.resolve([]),
       meili.commentIds.length > 0
         ? authDb
@@ -151,7 +351,14 @@ export const searchForumContent = async (input: { query: string; limit?: number
             })
             .from(schema.forumComments)
             .leftJoin(schema.forumPosts, eq(schema.forumPosts.id, schema.forumComments.postId))
-            .where(and(eq(schema.forumComments.status, "published"), inArray(schema.forumComments.id, meili.commentIds)))
+            .where(
+              and(
+                eq(schema.forumComments.status, "published"),
+                inArray(schema.forumComments.id, meili.commentIds),
+                postScopeFilter,
+                commentScopeFilter
+              )
+            )
         : Promise.resolve([]),
     ]);
 
@@ -164,7 +371,7 @@ export const searchForumContent = async (input: { query: string; limit?: number
     );
 
     if (orderedPosts.length === 0 && orderedComments.length === 0) {
-      return searchForumContentFromDb(query, limit);
+      return searchForumContentFromDb(query, limit, postScopeFilter, commentScopeFilter);
     }
 
     return {
@@ -172,7 +379,7 @@ export const searchForumContent = async (input: { query: string; limit?: number
       comments: orderedComments.map((comment) => summarizeComment(comment)),
     };
   } catch {
-    return searchForumContentFromDb(query, limit);
+    return searchForumContentFromDb(query, limit, postScopeFilter, commentScopeFilter);
   }
 };
 
@@ -7,7 +7,15 @@ import { schema } from "@evergreen-devparty/db";
 
 import { HttpError } from "../lib/http-error";
 import { recordForumActionMetric } from "./forum-metrics";
-import { assertCanLockPost, assertModeratorAccess, ensureNoOpenDuplicateReport, resolveForumReportTarget } from "./forum-permissions";
+import { emitOutboundWebhookEvent } from "./outbound-webhooks";
+import {
+  assertCanHideComment,
+  assertCanLockPost,
+  assertModeratorAccess,
+  ensureNoOpenDuplicateReport,
+  resolveForumReportTarget,
+} from "./forum-permissions";
+import { retractForumComment } from "./forum-core.content";
 
 type ModerationReportStatus = "open" | "resolved" | "dismissed";
 
@@ -80,6 +88,22 @@ export const lockForumPostAsModerator = async (input: {
   };
 };
 
+export const hideForumCommentAsModerator = async (input: { moderatorUserId: string; commentId: string }) => {
+  const { comment } = await assertCanHideComment({
+    actorUserId: input.moderatorUserId,
+    commentId: input.commentId,
+  });
+
+  if (!(await retractForumComment(comment, "hidden"))) {
+    throw new HttpError(404, "COMMENT_NOT_FOUND", "Forum comment not found");
+  }
+
+  return {
+    commentId: comment.id,
+    status: "hidden" as const,
+  };
+};
+
 export const listForumReportsForModeration = async (input: {
   moderatorUserId: string;
   status?: ModerationReportStatus;
@@ -211,6 +235,8 @@ export const resolveForumReportAsModerator = async (input: {
     .select({
       id: schema.forumReports.id,
       status: schema.forumReports.status,
+      reporterUserId: schema.forumReports.reporterUserId,
+      targetType: schema.forumReports.targetType,
     })
     .from(schema.forumReports)
     .where(eq(schema.forumReports.id, input.reportId))
@@ -231,6 +257,19 @@ export const resolveForumReportAsModerator = async (input: {
     })
     .where(eq(schema.forumReports.id, input.reportId));
 
+  await emitOutboundWebhookEvent({
+    eventType: "report.resolved",
+    dedupeKey: `report.resolved:${input.reportId}:${input.status}`,
+    recipientUserId: report.reporterUserId,
+    data: {
+      reportId: input.reportId,
+      targetType: report.targetType,
+      previousStatus: report.status,
+      status: input.status,
+      reviewedAt: now.toISOString(),
+    },
+  });
+
   return {
     reportId: input.reportId,
     previousStatus: report.status,
@@ -4,7 +4,15 @@ import { authDb } from "@evergreen-devparty/auth";
 import { schema } from "@evergreen-devparty/db";
 
 import { HttpError } from "../lib/http-error";
-import { summarizeNotification } from "./forum-core.shared";
+import { forumHiddenAuthorFilter, forumMutedTagFilter, summarizeNotification } from "./forum-core.shared";
+
+// Notifications from blocked/muted actors or about posts with muted tags stay stored but are not surfaced.
+const visibleNotificationsFilter = (userId: string) =>
+  and(
+    eq(schema.forumNotifications.recipientUserId, userId),
+    or(isNull(schema.forumNotifications.actorUserId), forumHiddenAuthorFilter(userId, schema.forumNotifications.actorUserId)),
+    or(isNull(schema.forumNotifications.postId), forumMutedTagFilter(userId, schema.forumNotifications.postId))
+  );
 
 export const listForumNotifications = async (input: {
   userId: string;
@@ -13,7 +21,7 @@ export const listForumNotifications = async (input: {
   cursor?: string;
 }) => {
   const size = Math.max(1, Math.min(input.limit ?? 50, 200));
-  const filters = [eq(schema.forumNotifications.recipientUserId, input.userId)];
+  const filters = [visibleNotificationsFilter(input.userId)];
 
   if (input.unreadOnly) {
     filters.push(isNull(schema.forumNotifications.readAt));
@@ -109,7 +117,7 @@ export const getForumNotificationStreamState = async (input: { userId: string })
         id: schema.forumNotifications.id,
       })
       .from(schema.forumNotifications)
-      .where(eq(schema.forumNotifications.recipientUserId, input.userId))
+      .where(visibleNotificationsFilter(input.userId))
       .orderBy(desc(schema.forumNotifications.createdAt), desc(schema.forumNotifications.id))
       .limit(1)
       .then((rows) => rows[0] ?? null),
@@ -118,7 +126,7 @@ export const getForumNotificationStreamState = async (input: { userId: string })
         unreadCount: sql<number>`count(*)`,
       })
       .from(schema.forumNotifications)
-      .where(and(eq(schema.forumNotifications.recipientUserId, input.userId), isNull(schema.forumNotifications.readAt)))
+      .where(and(visibleNotificationsFilter(input.userId), isNull(schema.forumNotifications.readAt)))
       .limit(1)
       .then((rows) => rows[0] ?? { unreadCount: 0 }),
   ]);
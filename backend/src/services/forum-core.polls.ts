@@ -0,0 +1,284 @@
+import { randomUUID } from "node:crypto";
+
+import { and, asc, eq, inArray, isNotNull, isNull, lte, sql } from "drizzle-orm";
+
+import { authDb } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import { HttpError } from "../lib/http-error";
+import { hasActiveEnsIdentity } from "./forum-permissions";
+import { createNotification, getPostById } from "./forum-core.shared";
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+
+type ForumPoll = typeof schema.forumPolls.$inferSelect;
+type ForumPollOption = typeof schema.forumPollOptions.$inferSelect;
+
+export type ForumPollInput = {
+  question?: string;
+  options: string[];
+  allowMultiple?: boolean;
+  ensGated?: boolean;
+  closesAt?: Date;
+};
+
+export type NormalizedForumPollInput = {
+  question: string | null;
+  options: string[];
+  allowMultiple: boolean;
+  ensGated: boolean;
+  closesAt: Date | null;
+};
+
+const isPollClosed = (poll: ForumPoll, now = new Date()): boolean => poll.closesAt !== null && poll.closesAt <= now;
+
+export const normalizeForumPollInput = (input: ForumPollInput): NormalizedForumPollInput => {
+  const options = input.options.map((option) => option.trim());
+  const uniqueOptions = new Set(options.map((option) => option.toLowerCase()));
+
+  if (
+    options.length < MIN_POLL_OPTIONS ||
+    options.length > MAX_POLL_OPTIONS ||
+    options.some((option) => !option) ||
+    uniqueOptions.size !== options.length
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_POLL_OPTIONS",
+      `Polls need ${MIN_POLL_OPTIONS}-${MAX_POLL_OPTIONS} distinct, non-empty options`
+    );
+  }
+
+  const closesAt = input.closesAt ?? null;
+  if (closesAt && closesAt <= new Date()) {
+    throw new HttpError(400, "INVALID_POLL_CLOSE_TIME", "Poll close time must be in the future");
+  }
+
+  return {
+    question: input.question?.trim() || null,
+    options,
+    allowMultiple: input.allowMultiple ?? false,
+    ensGated: input.ensGated ?? false,
+    closesAt,
+  };
+};
+
+const summarizePoll = (input: { poll: ForumPoll; options: ForumPollOption[]; viewerOptionIds: string[] | null }) => {
+  const closed = isPollClosed(input.poll);
+  const resultsVisible = closed || input.viewerOptionIds !== null;
+
+  return {
+    id: input.poll.id,
+    postId: input.poll.postId,
+    question: input.poll.question,
+    allowMultiple: input.poll.allowMultiple,
+    ensGated: input.poll.ensGated,
+    closesAt: input.poll.closesAt,
+    closed,
+    voterCount: input.poll.voterCount,
+    resultsVisible,
+    viewerOptionIds: input.viewerOptionIds,
+    options: input.options.map((option) => ({
+      id: option.id,
+      label: option.label,
+      position: option.position,
+      voteCount: resultsVisible ? option.voteCount : null,
+    })),
+  };
+};
+
+const loadPollSummary = async (poll: ForumPoll, viewerUserId?: string) => {
+  const [options, votes] = await Promise.all([
+    authDb
+      .select()
+      .from(schema.forumPollOptions)
+      .where(eq(schema.forumPollOptions.pollId, poll.id))
+      .orderBy(asc(schema.forumPollOptions.position)),
+    viewerUserId
+      ? authDb
+          .select({ optionId: schema.forumPollVotes.optionId })
+          .from(schema.forumPollVotes)
+          .where(and(eq(schema.forumPollVotes.pollId, poll.id), eq(schema.forumPollVotes.userId, viewerUserId)))
+      : Promise.resolve([]),
+  ]);
+
+  return summarizePoll({
+    poll,
+    options,
+    viewerOptionIds: votes.length > 0 ? votes.map((vote) => vote.optionId) : null,
+  });
+};
+
+export const createForumPoll = async (input: { postId: string; poll: NormalizedForumPollInput; now: Date }) => {
+  const pollId = randomUUID();
+
+  await authDb.insert(schema.forumPolls).values({
+    id: pollId,
+    postId: input.postId,
+    question: input.poll.question,
+    allowMultiple: input.poll.allowMultiple,
+    ensGated: input.poll.ensGated,
+    closesAt: input.poll.closesAt,
+    createdAt: input.now,
+    updatedAt: input.now,
+  });
+
+  await authDb.insert(schema.forumPollOptions).values(
+    input.poll.options.map((label, position) => ({
+      id: randomUUID(),
+      pollId,
+      position,
+      label,
+    }))
+  );
+
+  return getForumPollForPost({ postId: input.postId });
+};
+
+export const getForumPollForPost = async (input: { postId: string; viewerUserId?: string }) => {
+  const [poll] = await authDb.select().from(schema.forumPolls).where(eq(schema.forumPolls.postId, input.postId)).limit(1);
+  if (!poll) {
+    return null;
+  }
+
+  return loadPollSummary(poll, input.viewerUserId);
+};
+
+export const voteForumPoll = async (input: { userId: string; postId: string; optionIds: string[] }) => {
+  const post = await getPostById(input.postId);
+  if (post.isLocked) {
+    throw new HttpError(409, "POST_LOCKED", "Voting is locked for this post");
+  }
+
+  const optionIds = [...new Set(input.optionIds)];
+
+  const poll = await authDb.transaction(async (tx) => {
+    const [locked] = await tx
+      .select()
+      .from(schema.forumPolls)
+      .where(eq(schema.forumPolls.postId, post.id))
+      .limit(1)
+      .for("update");
+
+    if (!locked) {
+      throw new HttpError(404, "POLL_NOT_FOUND", "This post has no poll");
+    }
+
+    if (isPollClosed(locked)) {
+      throw new HttpError(409, "POLL_CLOSED", "This poll is closed");
+    }
+
+    if (!locked.allowMultiple && optionIds.length > 1) {
+      throw new HttpError(400, "POLL_SINGLE_CHOICE", "This poll accepts a single option");
+    }
+
+    const options = await tx
+      .select({ id: schema.forumPollOptions.id })
+      .from(schema.forumPollOptions)
+      .where(and(eq(schema.forumPollOptions.pollId, locked.id), inArray(schema.forumPollOptions.id, optionIds)));
+
+    if (options.length !== optionIds.length) {
+      throw new HttpError(400, "INVALID_POLL_OPTION", "Poll option not found");
+    }
+
+    if (locked.ensGated && !(await hasActiveEnsIdentity(input.userId))) {
+      throw new HttpError(403, "ENS_VERIFICATION_REQUIRED", "A verified ENS name is required to vote in this poll");
+    }
+
+    const [existingVote] = await tx
+      .select({ optionId: schema.forumPollVotes.optionId })
+      .from(schema.forumPollVotes)
+      .where(and(eq(schema.forumPollVotes.pollId, locked.id), eq(schema.forumPollVotes.userId, input.userId)))
+      .limit(1);
+
+    if (existingVote) {
+      throw new HttpError(409, "POLL_ALREADY_VOTED", "You have already voted in this poll");
+    }
+
+    const now = new Date();
+    await tx.insert(schema.forumPollVotes).values(
+      optionIds.map((optionId) => ({
+        pollId: locked.id,
+        userId: input.userId,
+        optionId,
+        createdAt: now,
+      }))
+    );
+
+    await tx
+      .update(schema.forumPollOptions)
+      .set({
+        voteCount: sql`${schema.forumPollOptions.voteCount} + 1`,
+      })
+      .where(inArray(schema.forumPollOptions.id, optionIds));
+
+    const [updated] = await tx
+      .update(schema.forumPolls)
+      .set({
+        voterCount: sql`${schema.forumPolls.voterCount} + 1`,
+        updatedAt: now,
+      })
+      .where(eq(schema.forumPolls.id, locked.id))
+      .returning();
+
+    return updated ?? locked;
+  });
+
+  return {
+    poll: await loadPollSummary(poll, input.userId),
+  };
+};
+
+export const closeDueForumPolls = async (input: { limit: number }) => {
+  const now = new Date();
+  const duePolls = await authDb
+    .select({
+      id: schema.forumPolls.id,
+      postId: schema.forumPolls.postId,
+      authorId: schema.forumPosts.authorId,
+    })
+    .from(schema.forumPolls)
+    .innerJoin(schema.forumPosts, eq(schema.forumPosts.id, schema.forumPolls.postId))
+    .where(
+      and(
+        isNull(schema.forumPolls.closedNotifiedAt),
+        isNotNull(schema.forumPolls.closesAt),
+        lte(schema.forumPolls.closesAt, now)
+      )
+    )
+    .orderBy(asc(schema.forumPolls.closesAt))
+    .limit(input.limit);
+
+  let closed = 0;
+  for (const due of duePolls) {
+    const [poll] = await authDb
+      .update(schema.forumPolls)
+      .set({
+        closedNotifiedAt: now,
+        updatedAt: now,
+      })
+      .where(and(eq(schema.forumPolls.id, due.id), isNull(schema.forumPolls.closedNotifiedAt)))
+      .returning();
+
+    if (!poll) {
+      continue;
+    }
+
+    closed += 1;
+    await createNotification({
+      recipientUserId: due.authorId,
+      type: "poll_closed",
+      postId: due.postId,
+      payload: {
+        pollId: poll.id,
+        voterCount: poll.voterCount,
+      },
+    });
+  }
+
+  return {
+    scanned: duePolls.length,
+    closed,
+  };
+};
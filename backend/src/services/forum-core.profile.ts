@@ -1,9 +1,10 @@
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 
 import { authDb } from "@evergreen-devparty/auth";
 import { schema } from "@evergreen-devparty/db";
 
 import { HttpError } from "../lib/http-error";
+import { getEnsProfileRecords } from "./ens-records";
 import { ensureProfileMetrics } from "./forum-core.shared";
 
 export const getForumProfile = async (userId: string) => {
@@ -22,6 +23,17 @@ export const getForumProfile = async (userId: string) => {
 
   const profile = profileRows[0] ?? null;
   const extendedProfile = extended[0] ?? null;
+  const websiteUrl = extendedProfile?.websiteUrl ?? profile?.websiteUrl ?? null;
+  const ensRecords = await getEnsProfileRecords({
+    userId,
+    profile: {
+      image: user.image,
+      websiteUrl,
+      githubUsername: profile?.githubUsername ?? null,
+      bio: profile?.bio ?? null,
+      brandingEmail: extendedProfile?.brandingEmail ?? null,
+    },
+  });
 
   return {
     profile: {
@@ -33,7 +45,7 @@ export const getForumProfile = async (userId: string) => {
       displayName: profile?.displayName ?? null,
       headline: profile?.headline ?? null,
       bio: profile?.bio ?? null,
-      websiteUrl: extendedProfile?.websiteUrl ?? profile?.websiteUrl ?? null,
+      websiteUrl,
       githubUsername: profile?.githubUsername ?? null,
       location: extendedProfile?.location ?? profile?.location ?? null,
       organization: extendedProfile?.organization ?? null,
@@ -41,10 +53,45 @@ export const getForumProfile = async (userId: string) => {
       displayWalletAddress: extendedProfile?.displayWalletAddress ?? null,
       displayEnsName: extendedProfile?.displayEnsName ?? null,
       metrics: metrics[0] ?? null,
+      ensRecords,
     },
   };
 };
 
+// Display ENS names must be held by the user, either as an owned identity or an issued subname.
+const assertDisplayEnsNameHeld = async (userId: string, name: string) => {
+  const [identity, subname] = await Promise.all([
+    authDb
+      .select({ id: schema.ensIdentities.id })
+      .from(schema.ensIdentities)
+      .where(
+        and(
+          eq(schema.ensIdentities.userId, userId),
+          eq(schema.ensIdentities.name, name),
+          eq(schema.ensIdentities.status, "active")
+        )
+      )
+      .limit(1)
+      .then((rows) => rows[0] ?? null),
+    authDb
+      .select({ id: schema.ensSubnames.id })
+      .from(schema.ensSubnames)
+      .where(
+        and(
+          eq(schema.ensSubnames.recipientUserId, userId),
+          eq(schema.ensSubnames.name, name),
+          eq(schema.ensSubnames.status, "active")
+        )
+      )
+      .limit(1)
+      .then((rows) => rows[0] ?? null),
+  ]);
+
+  if (!identity && !subname) {
+    throw new HttpError(400, "INVALID_DISPLAY_ENS_NAME", "Display ENS name must be an active name or subname you hold");
+  }
+};
+
 export const updateForumProfile = async (input: {
   userId: string;
   displayName?: string;
@@ -59,6 +106,11 @@ export const updateForumProfile = async (input: {
   displayEnsName?: string;
 }) => {
   const now = new Date();
+  const displayEnsName = input.displayEnsName?.trim()?.toLowerCase() || null;
+
+  if (displayEnsName) {
+    await assertDisplayEnsNameHeld(input.userId, displayEnsName);
+  }
 
   const [existingProfile, existingExtended] = await Promise.all([
     authDb
@@ -98,7 +150,7 @@ export const updateForumProfile = async (input: {
     websiteUrl: input.websiteUrl?.trim() || null,
     brandingEmail: input.brandingEmail?.trim() || null,
     displayWalletAddress: input.displayWalletAddress?.trim() || null,
-    displayEnsName: input.displayEnsName?.trim()?.toLowerCase() || null,
+    displayEnsName,
     updatedAt: now,
   };
 
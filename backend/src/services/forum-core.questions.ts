@@ -0,0 +1,133 @@
+import { and, eq, isNull, sql } from "drizzle-orm";
+
+import { authDb } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import { HttpError } from "../lib/http-error";
+import { assertCanAcceptAnswer } from "./forum-permissions";
+import { createNotification, ensureProfileMetrics, getCommentById, summarizePost } from "./forum-core.shared";
+
+export const ACCEPTED_ANSWER_SCORE = 15;
+
+type ForumPost = typeof schema.forumPosts.$inferSelect;
+type ForumComment = typeof schema.forumComments.$inferSelect;
+
+const adjustAcceptedAnswerScore = async (input: { post: ForumPost; answerAuthorId: string; delta: number; now: Date }) => {
+  if (input.answerAuthorId === input.post.authorId) {
+    return;
+  }
+
+  await ensureProfileMetrics(input.answerAuthorId);
+  await authDb
+    .update(schema.profileMetrics)
+    .set({
+      engagementScore: sql`GREATEST(${schema.profileMetrics.engagementScore} + ${input.delta}, 0)`,
+      updatedAt: input.now,
+    })
+    .where(eq(schema.profileMetrics.userId, input.answerAuthorId));
+};
+
+const swapAcceptedAnswer = async (input: { post: ForumPost; commentId: string | null; now: Date }) => {
+  const [updated] = await authDb
+    .update(schema.forumPosts)
+    .set({
+      acceptedCommentId: input.commentId,
+      acceptedAt: input.commentId ? input.now : null,
+      updatedAt: input.now,
+    })
+    .where(
+      and(
+        eq(schema.forumPosts.id, input.post.id),
+        input.post.acceptedCommentId
+          ? eq(schema.forumPosts.acceptedCommentId, input.post.acceptedCommentId)
+          : isNull(schema.forumPosts.acceptedCommentId)
+      )
+    )
+    .returning();
+
+  if (!updated) {
+    throw new HttpError(409, "ACCEPTED_ANSWER_CONFLICT", "Accepted answer changed concurrently, please retry");
+  }
+
+  if (input.post.acceptedCommentId) {
+    const [previous] = await authDb
+      .select({ authorId: schema.forumComments.authorId })
+      .from(schema.forumComments)
+      .where(eq(schema.forumComments.id, input.post.acceptedCommentId))
+      .limit(1);
+
+    if (previous) {
+      await adjustAcceptedAnswerScore({
+        post: input.post,
+        answerAuthorId: previous.authorId,
+        delta: -ACCEPTED_ANSWER_SCORE,
+        now: input.now,
+      });
+    }
+  }
+
+  return updated;
+};
+
+export const setForumAcceptedAnswer = async (input: { userId: string; postId: string; commentId: string | null }) => {
+  const { post } = await assertCanAcceptAnswer({
+    actorUserId: input.userId,
+    postId: input.postId,
+  });
+
+  if (post.postType !== "question") {
+    throw new HttpError(409, "POST_NOT_QUESTION", "Only question posts can have an accepted answer");
+  }
+
+  if (post.acceptedCommentId === input.commentId) {
+    return {
+      post: summarizePost(post),
+    };
+  }
+
+  let answer: ForumComment | null = null;
+  if (input.commentId) {
+    answer = await getCommentById(input.commentId);
+    if (answer.postId !== post.id) {
+      throw new HttpError(404, "COMMENT_NOT_FOUND", "Forum comment not found");
+    }
+  }
+
+  const now = new Date();
+  const updated = await swapAcceptedAnswer({ post, commentId: answer?.id ?? null, now });
+
+  if (answer) {
+    await adjustAcceptedAnswerScore({
+      post,
+      answerAuthorId: answer.authorId,
+      delta: ACCEPTED_ANSWER_SCORE,
+      now,
+    });
+
+    await createNotification({
+      recipientUserId: answer.authorId,
+      actorUserId: input.userId,
+      type: "answer_accepted",
+      postId: post.id,
+      commentId: answer.id,
+    });
+  }
+
+  return {
+    post: summarizePost(updated),
+  };
+};
+
+export const releaseAcceptedAnswer = async (comment: ForumComment) => {
+  const [post] = await authDb
+    .select()
+    .from(schema.forumPosts)
+    .where(and(eq(schema.forumPosts.id, comment.postId), eq(schema.forumPosts.acceptedCommentId, comment.id)))
+    .limit(1);
+
+  if (!post) {
+    return;
+  }
+
+  await swapAcceptedAnswer({ post, commentId: null, now: new Date() });
+};
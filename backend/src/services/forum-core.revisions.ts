@@ -0,0 +1,252 @@
+import { randomUUID } from "node:crypto";
+
+import { asc, eq, sql } from "drizzle-orm";
+
+import { authDb } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import type { DbExecutor } from "../lib/db-executor";
+import { HttpError } from "../lib/http-error";
+import { assertModeratorAccess } from "./forum-permissions";
+import { diffRevisionLines } from "./forum-revision-diff";
+
+type RevisionContent = {
+  revision: number;
+  title?: string;
+  contentMarkdown: string;
+};
+
+const summarizePostRevision = (revision: typeof schema.forumPostRevisions.$inferSelect) => ({
+  id: revision.id,
+  postId: revision.postId,
+  revision: revision.revision,
+  editorUserId: revision.editorUserId,
+  title: revision.title,
+  contentMarkdown: revision.contentMarkdown,
+  createdAt: revision.createdAt,
+});
+
+const summarizeCommentRevision = (revision: typeof schema.forumCommentRevisions.$inferSelect) => ({
+  id: revision.id,
+  commentId: revision.commentId,
+  postId: revision.postId,
+  revision: revision.revision,
+  editorUserId: revision.editorUserId,
+  contentMarkdown: revision.contentMarkdown,
+  createdAt: revision.createdAt,
+});
+
+const buildRevisionDiff = <T extends RevisionContent>(
+  revisions: T[],
+  input: { fromRevision?: number; toRevision?: number }
+) => {
+  const latest = revisions.at(-1);
+  if (!latest) {
+    if (input.fromRevision !== undefined || input.toRevision !== undefined) {
+      throw new HttpError(404, "REVISION_NOT_FOUND", "Revision not found");
+    }
+
+    return null;
+  }
+
+  const toRevision = input.toRevision ?? latest.revision;
+  const fromRevision = input.fromRevision ?? toRevision - 1;
+  const revisionByNumber = new Map(revisions.map((revision) => [revision.revision, revision]));
+
+  const to = revisionByNumber.get(toRevision);
+  if (!to) {
+    throw new HttpError(404, "REVISION_NOT_FOUND", `Revision ${toRevision} not found`);
+  }
+
+  const from = revisionByNumber.get(fromRevision);
+  if (!from) {
+    if (input.fromRevision !== undefined) {
+      throw new HttpError(404, "REVISION_NOT_FOUND", `Revision ${fromRevision} not found`);
+    }
+
+    return null;
+  }
+
+  return {
+    fromRevision: from.revision,
+    toRevision: to.revision,
+    titleChanged: from.title !== to.title,
+    ...diffRevisionLines(from.contentMarkdown, to.contentMarkdown),
+  };
+};
+
+const nextPostRevisionNumber = async (db: DbExecutor, postId: string) => {
+  const [row] = await db
+    .select({ latest: sql<number | null>`max(${schema.forumPostRevisions.revision})` })
+    .from(schema.forumPostRevisions)
+    .where(eq(schema.forumPostRevisions.postId, postId));
+
+  return Number(row?.latest ?? 0) + 1;
+};
+
+const nextCommentRevisionNumber = async (db: DbExecutor, commentId: string) => {
+  const [row] = await db
+    .select({ latest: sql<number | null>`max(${schema.forumCommentRevisions.revision})` })
+    .from(schema.forumCommentRevisions)
+    .where(eq(schema.forumCommentRevisions.commentId, commentId));
+
+  return Number(row?.latest ?? 0) + 1;
+};
+
+// Callers pass the transaction that holds the post's row lock and write the new content in that same transaction,
+// so revision numbers stay sequential and the latest revision always matches the stored post.
+export const recordForumPostRevision = async (
+  input: {
+    post: typeof schema.forumPosts.$inferSelect;
+    editorUserId: string;
+    title: string;
+    contentMarkdown: string;
+    contentPlaintext: string;
+  },
+  db: DbExecutor
+) => {
+  if (input.post.title === input.title && input.post.contentMarkdown === input.contentMarkdown) {
+    return null;
+  }
+
+  let revision = await nextPostRevisionNumber(db, input.post.id);
+
+  if (revision === 1) {
+    await db.insert(schema.forumPostRevisions).values({
+      id: randomUUID(),
+      postId: input.post.id,
+      revision,
+      editorUserId: input.post.authorId,
+      title: input.post.title,
+      contentMarkdown: input.post.contentMarkdown,
+      contentPlaintext: input.post.contentPlaintext,
+      createdAt: input.post.createdAt,
+    });
+    revision += 1;
+  }
+
+  await db.insert(schema.forumPostRevisions).values({
+    id: randomUUID(),
+    postId: input.post.id,
+    revision,
+    editorUserId: input.editorUserId,
+    title: input.title,
+    contentMarkdown: input.contentMarkdown,
+    contentPlaintext: input.contentPlaintext,
+    createdAt: new Date(),
+  });
+
+  return revision;
+};
+
+// Same contract as recordForumPostRevision, with the comment row locked instead.
+export const recordForumCommentRevision = async (
+  input: {
+    comment: typeof schema.forumComments.$inferSelect;
+    editorUserId: string;
+    contentMarkdown: string;
+    contentPlaintext: string;
+  },
+  db: DbExecutor
+) => {
+  if (input.comment.contentMarkdown === input.contentMarkdown) {
+    return null;
+  }
+
+  let revision = await nextCommentRevisionNumber(db, input.comment.id);
+
+  if (revision === 1) {
+    await db.insert(schema.forumCommentRevisions).values({
+      id: randomUUID(),
+      commentId: input.comment.id,
+      postId: input.comment.postId,
+      revision,
+      editorUserId: input.comment.authorId,
+      contentMarkdown: input.comment.contentMarkdown,
+      contentPlaintext: input.comment.contentPlaintext,
+      createdAt: input.comment.createdAt,
+    });
+    revision += 1;
+  }
+
+  await db.insert(schema.forumCommentRevisions).values({
+    id: randomUUID(),
+    commentId: input.comment.id,
+    postId: input.comment.postId,
+    revision,
+    editorUserId: input.editorUserId,
+    contentMarkdown: input.contentMarkdown,
+    contentPlaintext: input.contentPlaintext,
+    createdAt: new Date(),
+  });
+
+  return revision;
+};
+
+export const listForumPostRevisions = async (input: {
+  postId: string;
+  moderatorUserId?: string;
+  fromRevision?: number;
+  toRevision?: number;
+}) => {
+  if (input.moderatorUserId) {
+    await assertModeratorAccess(input.moderatorUserId);
+  }
+
+  const [post] = await authDb.select().from(schema.forumPosts).where(eq(schema.forumPosts.id, input.postId)).limit(1);
+  if (!post || (!input.moderatorUserId && post.status !== "published")) {
+    throw new HttpError(404, "POST_NOT_FOUND", "Forum post not found");
+  }
+
+  const revisions = await authDb
+    .select()
+    .from(schema.forumPostRevisions)
+    .where(eq(schema.forumPostRevisions.postId, post.id))
+    .orderBy(asc(schema.forumPostRevisions.revision));
+
+  return {
+    postId: post.id,
+    status: post.status,
+    revisions: revisions.map((revision) => summarizePostRevision(revision)),
+    diff: buildRevisionDiff(revisions, input),
+  };
+};
+
+export const listForumCommentRevisions = async (input: {
+  commentId: string;
+  moderatorUserId?: string;
+  fromRevision?: number;
+  toRevision?: number;
+}) => {
+  if (input.moderatorUserId) {
+    await assertModeratorAccess(input.moderatorUserId);
+  }
+
+  const [row] = await authDb
+    .select({
+      comment: schema.forumComments,
+      postStatus: schema.forumPosts.status,
+    })
+    .from(schema.forumComments)
+    .leftJoin(schema.forumPosts, eq(schema.forumPosts.id, schema.forumComments.postId))
+    .where(eq(schema.forumComments.id, input.commentId))
+    .limit(1);
+
+  if (!row || (!input.moderatorUserId && (row.comment.status !== "published" || row.postStatus !== "published"))) {
+    throw new HttpError(404, "COMMENT_NOT_FOUND", "Forum comment not found");
+  }
+
+  const revisions = await authDb
+    .select()
+    .from(schema.forumCommentRevisions)
+    .where(eq(schema.forumCommentRevisions.commentId, row.comment.id))
+    .orderBy(asc(schema.forumCommentRevisions.revision));
+
+  return {
+    commentId: row.comment.id,
+    postId: row.comment.postId,
+    status: row.comment.status,
+    revisions: revisions.map((revision) => summarizeCommentRevision(revision)),
+    diff: buildRevisionDiff(revisions, input),
+  };
+};
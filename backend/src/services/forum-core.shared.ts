@@ -1,6 +1,6 @@
 import { randomUUID } from "node:crypto";
 
-import { and, eq, inArray, sql } from "drizzle-orm";
+import { and, eq, inArray, or, sql, type SQL, type SQLWrapper } from "drizzle-orm";
 import { getAddress } from "viem";
 
 import { authDb } from "@evergreen-devparty/auth";
@@ -8,6 +8,7 @@ import { schema } from "@evergreen-devparty/db";
 
 import { HttpError } from "../lib/http-error";
 import { analyzeMarkdown } from "./forum-markdown";
+import { emitOutboundWebhookEvent, type OutboundWebhookEventType } from "./outbound-webhooks";
 
 export const MAX_REPLY_DEPTH = 3;
 
@@ -49,11 +50,16 @@ export const summarizePost = (post: typeof schema.forumPosts.$inferSelect) => ({
   reactionCount: post.reactionCount,
   shareCount: post.shareCount,
   bookmarkCount: post.bookmarkCount,
+  hotScore: post.hotScore,
   lastActivityAt: post.lastActivityAt,
   createdAt: post.createdAt,
   updatedAt: post.updatedAt,
   deletedAt: post.deletedAt,
   authorId: post.authorId,
+  categoryId: post.categoryId,
+  postType: post.postType,
+  acceptedCommentId: post.acceptedCommentId,
+  acceptedAt: post.acceptedAt,
 });
 
 export const summarizeComment = (comment: typeof schema.forumComments.$inferSelect) => ({
@@ -103,10 +109,70 @@ export const ensureProfileMetrics = async (userId: string) => {
     });
 };
 
+const listForumBlockedUserIds = async (userId: string, candidateUserIds: string[]) => {
+  if (candidateUserIds.length === 0) {
+    return new Set<string>();
+  }
+
+  const rows = await authDb
+    .select({ blockerId: schema.forumUserBlocks.blockerId, blockedId: schema.forumUserBlocks.blockedId })
+    .from(schema.forumUserBlocks)
+    .where(
+      or(
+        and(eq(schema.forumUserBlocks.blockerId, userId), inArray(schema.forumUserBlocks.blockedId, candidateUserIds)),
+        and(inArray(schema.forumUserBlocks.blockerId, candidateUserIds), eq(schema.forumUserBlocks.blockedId, userId))
+      )
+    );
+
+  return new Set(rows.map((row) => (row.blockerId === userId ? row.blockedId : row.blockerId)));
+};
+
+export const assertNoForumBlockBetween = async (input: { actorUserId: string; targetUserId: string }) => {
+  if (input.actorUserId === input.targetUserId) {
+    return;
+  }
+
+  const blocked = await listForumBlockedUserIds(input.actorUserId, [input.targetUserId]);
+  if (blocked.size > 0) {
+    throw new HttpError(403, "USER_BLOCKED", "Interaction is blocked between these users");
+  }
+};
+
+// Authors hidden from a viewer: anyone they blocked, anyone who blocked them, and anyone they muted.
+export const forumHiddenAuthorFilter = (viewerUserId: string, authorColumn: SQLWrapper): SQL => sql`${authorColumn} not in (
+  select ${schema.forumUserBlocks.blockedId} from ${schema.forumUserBlocks} where ${schema.forumUserBlocks.blockerId} = ${viewerUserId}
+  union all
+  select ${schema.forumUserBlocks.blockerId} from ${schema.forumUserBlocks} where ${schema.forumUserBlocks.blockedId} = ${viewerUserId}
+  union all
+  select ${schema.forumUserMutes.mutedId} from ${schema.forumUserMutes} where ${schema.forumUserMutes.muterId} = ${viewerUserId}
+)`;
+
+export const forumMutedTagFilter = (viewerUserId: string, postIdColumn: SQLWrapper): SQL => sql`${postIdColumn} not in (
+  select ${schema.forumPostTags.postId} from ${schema.forumPostTags}
+  inner join ${schema.forumTagMutes} on ${schema.forumTagMutes.tagId} = ${schema.forumPostTags.tagId}
+  where ${schema.forumTagMutes.userId} = ${viewerUserId}
+)`;
+
+const NOTIFICATION_WEBHOOK_EVENT_TYPES: Partial<Record<string, OutboundWebhookEventType>> = {
+  mention: "mention",
+  reaction: "reaction",
+  ens_expiry: "ens.expiring",
+};
+
 export const createNotification = async (input: {
   recipientUserId: string;
   actorUserId?: string | null;
-  type: "mention" | "reply" | "reaction" | "follow" | "share" | "report_update";
+  type:
+    | "mention"
+    | "reply"
+    | "reaction"
+    | "follow"
+    | "share"
+    | "report_update"
+    | "answer_accepted"
+    | "poll_closed"
+    | "ens_transfer"
+    | "ens_expiry";
   postId?: string | null;
   commentId?: string | null;
   payload?: Record<string, unknown>;
@@ -115,8 +181,21 @@ export const createNotification = async (input: {
     return;
   }
 
+  if (input.actorUserId) {
+    const [muted] = await authDb
+      .select({ mutedId: schema.forumUserMutes.mutedId })
+      .from(schema.forumUserMutes)
+      .where(and(eq(schema.forumUserMutes.muterId, input.recipientUserId), eq(schema.forumUserMutes.mutedId, input.actorUserId)))
+      .limit(1);
+
+    if (muted || (await listForumBlockedUserIds(input.recipientUserId, [input.actorUserId])).size > 0) {
+      return;
+    }
+  }
+
+  const notificationId = randomUUID();
   await authDb.insert(schema.forumNotifications).values({
-    id: randomUUID(),
+    id: notificationId,
     recipientUserId: input.recipientUserId,
     actorUserId: input.actorUserId ?? null,
     type: input.type,
@@ -125,6 +204,23 @@ export const createNotification = async (input: {
     payload: input.payload ?? {},
     createdAt: new Date(),
   });
+
+  const eventType = NOTIFICATION_WEBHOOK_EVENT_TYPES[input.type];
+  if (eventType) {
+    await emitOutboundWebhookEvent({
+      eventType,
+      dedupeKey: `notification:${notificationId}`,
+      recipientUserId: input.recipientUserId,
+      data: {
+        notificationId,
+        recipientUserId: input.recipientUserId,
+        actorUserId: input.actorUserId ?? null,
+        postId: input.postId ?? null,
+        commentId: input.commentId ?? null,
+        ...input.payload,
+      },
+    });
+  }
 };
 
 const resolveMentionTargets = async (mentions: Mention[]) => {
@@ -143,7 +239,7 @@ const resolveMentionTargets = async (mentions: Mention[]) => {
     return candidates;
   }))];
 
-  const [users, ensIdentities, wallets, ensOwnerAddresses, ensControllerAddresses] = await Promise.all([
+  const [users, ensIdentities, ensSubnames, wallets, ensOwnerAddresses, ensControllerAddresses] = await Promise.all([
     userMentions.length
       ? authDb
           .select({ id: schema.users.id, username: schema.users.username })
@@ -156,6 +252,12 @@ const resolveMentionTargets = async (mentions: Mention[]) => {
           .from(schema.ensIdentities)
           .where(inArray(schema.ensIdentities.name, ensMentions))
       : Promise.resolve([]),
+    ensMentions.length
+      ? authDb
+          .select({ name: schema.ensSubnames.name, recipientUserId: schema.ensSubnames.recipientUserId })
+          .from(schema.ensSubnames)
+          .where(and(inArray(schema.ensSubnames.name, ensMentions), eq(schema.ensSubnames.status, "active")))
+      : Promise.resolve([]),
     walletCandidates.length
       ? authDb
           .select({ userId: schema.wallets.userId, address: schema.wallets.address })
@@ -188,6 +290,9 @@ const resolveMentionTargets = async (mentions: Mention[]) => {
 
   const userByUsername = new Map(users.map((user) => [String(user.username).toLowerCase(), user.id]));
   const ensByName = new Map(ensIdentities.map((ens) => [ens.name.toLowerCase(), ens]));
+  const subnameRecipientByName = new Map(
+    ensSubnames.map((subname) => [subname.name.toLowerCase(), subname.recipientUserId])
+  );
   const userByWalletAddress = new Map(wallets.map((wallet) => [wallet.address.toLowerCase(), wallet.userId]));
   const ensByWalletAddress = new Map<string, { id: string; userId: string }>();
 
@@ -220,7 +325,7 @@ const resolveMentionTargets = async (mentions: Mention[]) => {
       const ens = ensByName.get(mention.mentionText.toLowerCase()) ?? null;
       return {
         mention,
-        mentionedUserId: ens?.userId ?? null,
+        mentionedUserId: ens?.userId ?? subnameRecipientByName.get(mention.mentionText.toLowerCase()) ?? null,
         mentionedEnsIdentityId: ens?.id ?? null,
       };
     }
@@ -327,6 +432,7 @@ export const insertReferences = async (input: {
 };
 
 export const insertMentions = async (input: {
+  authorId: string;
   targetType: "post" | "comment";
   postId?: string | null;
   commentId?: string | null;
@@ -336,7 +442,17 @@ export const insertMentions = async (input: {
     return [] as Array<{ mentionedUserId: string | null }>;
   }
 
-  const resolved = await resolveMentionTargets(input.mentions);
+  // Mentions across a block are kept as plain text and never linked to the blocked/blocking user.
+  const targets = await resolveMentionTargets(input.mentions);
+  const blockedUserIds = await listForumBlockedUserIds(
+    input.authorId,
+    targets.flatMap((item) => (item.mentionedUserId ? [item.mentionedUserId] : []))
+  );
+  const resolved = targets.map((item) =>
+    item.mentionedUserId && blockedUserIds.has(item.mentionedUserId)
+      ? { ...item, mentionedUserId: null, mentionedEnsIdentityId: null }
+      : item
+  );
   await authDb.insert(schema.forumMentions).values(
     resolved.map((item) => ({
       id: randomUUID(),
@@ -376,7 +492,7 @@ export const ensureCommentEditableByUser = async (commentId: string, userId: str
     .where(eq(schema.forumComments.id, commentId))
     .limit(1);
 
-  if (!comment || comment.status === "soft_deleted") {
+  if (!comment || comment.status !== "published") {
     throw new HttpError(404, "COMMENT_NOT_FOUND", "Forum comment not found");
   }
 
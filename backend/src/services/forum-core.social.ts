@@ -9,6 +9,7 @@ import { HttpError } from "../lib/http-error";
 import { recordForumActionMetric } from "./forum-metrics";
 import { assertCanPinPost } from "./forum-permissions";
 import {
+  assertNoForumBlockBetween,
   createNotification,
   ensureProfileMetrics,
   ensureUserExists,
@@ -169,6 +170,8 @@ export const createForumShare = async (input: {
     throw new HttpError(400, "INVALID_SHARE_TARGET", "Cannot share your own post");
   }
 
+  await assertNoForumBlockBetween({ actorUserId: input.userId, targetUserId: post.authorId });
+
   const now = new Date();
 
   await authDb.insert(schema.forumShares).values({
@@ -274,6 +277,40 @@ export const toggleForumBookmark = async (input: {
   };
 };
 
+export const removeForumFollow = async (input: { followerUserId: string; followeeUserId: string }) => {
+  const removed = await authDb
+    .delete(schema.forumFollows)
+    .where(
+      and(
+        eq(schema.forumFollows.followerId, input.followerUserId),
+        eq(schema.forumFollows.followeeId, input.followeeUserId)
+      )
+    )
+    .returning({ followerId: schema.forumFollows.followerId });
+
+  if (removed.length === 0) {
+    return false;
+  }
+
+  await authDb
+    .update(schema.profileMetrics)
+    .set({
+      followingCount: sql`GREATEST(${schema.profileMetrics.followingCount} - 1, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.profileMetrics.userId, input.followerUserId));
+
+  await authDb
+    .update(schema.profileMetrics)
+    .set({
+      followerCount: sql`GREATEST(${schema.profileMetrics.followerCount} - 1, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.profileMetrics.userId, input.followeeUserId));
+
+  return true;
+};
+
 export const toggleForumFollow = async (input: {
   followerUserId: string;
   followeeUserId: string;
@@ -298,30 +335,10 @@ export const toggleForumFollow = async (input: {
     .limit(1);
 
   if (existing) {
-    await authDb
-      .delete(schema.forumFollows)
-      .where(
-        and(
-          eq(schema.forumFollows.followerId, input.followerUserId),
-          eq(schema.forumFollows.followeeId, input.followeeUserId)
-        )
-      );
-
-    await authDb
-      .update(schema.profileMetrics)
-      .set({
-        followingCount: sql`GREATEST(${schema.profileMetrics.followingCount} - 1, 0)`,
-        updatedAt: new Date(),
-      })
-      .where(eq(schema.profileMetrics.userId, input.followerUserId));
-
-    await authDb
-      .update(schema.profileMetrics)
-      .set({
-        followerCount: sql`GREATEST(${schema.profileMetrics.followerCount} - 1, 0)`,
-        updatedAt: new Date(),
-      })
-      .where(eq(schema.profileMetrics.userId, input.followeeUserId));
+    await removeForumFollow({
+      followerUserId: input.followerUserId,
+      followeeUserId: input.followeeUserId,
+    });
 
     return {
       following: false,
@@ -329,6 +346,8 @@ export const toggleForumFollow = async (input: {
     };
   }
 
+  await assertNoForumBlockBetween({ actorUserId: input.followerUserId, targetUserId: input.followeeUserId });
+
   await authDb.insert(schema.forumFollows).values({
     followerId: input.followerUserId,
     followeeId: input.followeeUserId,
@@ -0,0 +1,276 @@
+import { and, asc, desc, eq, gt, inArray, isNull, lt, lte, ne, or, sql, type SQL } from "drizzle-orm";
+
+import { authDb } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import { HttpError } from "../lib/http-error";
+import { summarizeCommentDetail } from "./forum-core.content";
+import { MAX_REPLY_DEPTH, summarizeComment } from "./forum-core.shared";
+
+export type ForumCommentTreeSort = "oldest" | "newest" | "top";
+
+type ForumComment = typeof schema.forumComments.$inferSelect;
+
+type CommentTreeNode = (
+  | (ReturnType<typeof summarizeCommentDetail> & { deleted: false })
+  | (Omit<ReturnType<typeof summarizeComment>, "authorId"> & {
+      authorId: null;
+      contentMarkdown: null;
+      contentPlaintext: null;
+      contentHtml: null;
+      contentMeta: null;
+      deleted: true;
+    })
+) & {
+  isAcceptedAnswer: boolean;
+  replies: CommentTreeNode[];
+  moreReplies: {
+    parentId: string;
+    remaining: number;
+    cursor: string | null;
+  } | null;
+};
+
+// Deleted and hidden comments stay in the tree as placeholders while any reply beneath them, at any depth, is still published.
+const visibleCommentFilter = or(
+  eq(schema.forumComments.status, "published"),
+  sql`exists (
+    with recursive descendant as (
+      select child.id, child.status from ${schema.forumComments} as child where child.parent_id = ${schema.forumComments.id}
+      union all
+      select child.id, child.status from ${schema.forumComments} as child inner join descendant on child.parent_id = descendant.id
+    )
+    select 1 from descendant where descendant.status = 'published'
+  )`
+);
+
+const commentOrderBy = (sort: ForumCommentTreeSort): SQL[] => {
+  if (sort === "newest") {
+    return [desc(schema.forumComments.createdAt), desc(schema.forumComments.id)];
+  }
+
+  if (sort === "top") {
+    return [desc(schema.forumComments.reactionCount), asc(schema.forumComments.createdAt), asc(schema.forumComments.id)];
+  }
+
+  return [asc(schema.forumComments.createdAt), asc(schema.forumComments.id)];
+};
+
+const buildCommentCursorFilter = async (input: { postId: string; cursor: string; sort: ForumCommentTreeSort }) => {
+  const [cursorComment] = await authDb
+    .select({
+      id: schema.forumComments.id,
+      postId: schema.forumComments.postId,
+      createdAt: schema.forumComments.createdAt,
+      reactionCount: schema.forumComments.reactionCount,
+    })
+    .from(schema.forumComments)
+    .where(eq(schema.forumComments.id, input.cursor))
+    .limit(1);
+
+  if (!cursorComment || cursorComment.postId !== input.postId) {
+    return undefined;
+  }
+
+  if (input.sort === "newest") {
+    return or(
+      lt(schema.forumComments.createdAt, cursorComment.createdAt),
+      and(eq(schema.forumComments.createdAt, cursorComment.createdAt), lt(schema.forumComments.id, cursorComment.id))
+    );
+  }
+
+  const chronologicalFilter = or(
+    gt(schema.forumComments.createdAt, cursorComment.createdAt),
+    and(eq(schema.forumComments.createdAt, cursorComment.createdAt), gt(schema.forumComments.id, cursorComment.id))
+  );
+
+  if (input.sort === "top") {
+    return or(
+      lt(schema.forumComments.reactionCount, cursorComment.reactionCount),
+      and(eq(schema.forumComments.reactionCount, cursorComment.reactionCount), chronologicalFilter)
+    );
+  }
+
+  return chronologicalFilter;
+};
+
+const summarizeTreeComment = (comment: ForumComment, acceptedCommentId: string | null): CommentTreeNode => {
+  if (comment.status === "published") {
+    return {
+      ...summarizeCommentDetail(comment),
+      deleted: false,
+      isAcceptedAnswer: comment.id === acceptedCommentId,
+      replies: [],
+      moreReplies: null,
+    };
+  }
+
+  return {
+    ...summarizeComment(comment),
+    authorId: null,
+    contentMarkdown: null,
+    contentPlaintext: null,
+    contentHtml: null,
+    contentMeta: null,
+    deleted: true,
+    isAcceptedAnswer: false,
+    replies: [],
+    moreReplies: null,
+  };
+};
+
+const countVisibleReplies = async (parentIds: string[]) => {
+  const rows = await authDb
+    .select({
+      parentId: schema.forumComments.parentId,
+      replyCount: sql<number>`count(*)`,
+    })
+    .from(schema.forumComments)
+    .where(and(inArray(schema.forumComments.parentId, parentIds), visibleCommentFilter))
+    .groupBy(schema.forumComments.parentId);
+
+  return new Map(rows.map((row) => [row.parentId, Number(row.replyCount)]));
+};
+
+const loadRankedReplies = async (input: { parentIds: string[]; sort: ForumCommentTreeSort; replyLimit: number }) => {
+  const orderBy = commentOrderBy(input.sort);
+  const ranked = authDb
+    .select({
+      id: schema.forumComments.id,
+      rank: sql<number>`row_number() over (partition by ${schema.forumComments.parentId} order by ${sql.join(orderBy, sql`, `)})`.as(
+        "rank"
+      ),
+    })
+    .from(schema.forumComments)
+    .where(and(inArray(schema.forumComments.parentId, input.parentIds), visibleCommentFilter))
+    .as("ranked");
+
+  const rows = await authDb
+    .select({ comment: schema.forumComments })
+    .from(schema.forumComments)
+    .innerJoin(ranked, eq(ranked.id, schema.forumComments.id))
+    .where(lte(ranked.rank, input.replyLimit))
+    .orderBy(...orderBy);
+
+  return rows.map((row) => row.comment);
+};
+
+export const getForumCommentTree = async (input: {
+  postId: string;
+  sort?: ForumCommentTreeSort;
+  parentId?: string;
+  limit?: number;
+  cursor?: string;
+  replyLimit?: number;
+  depth?: number;
+}) => {
+  const [post] = await authDb.select().from(schema.forumPosts).where(eq(schema.forumPosts.id, input.postId)).limit(1);
+  if (!post || post.status === "soft_deleted") {
+    throw new HttpError(404, "POST_NOT_FOUND", "Forum post not found");
+  }
+
+  if (input.parentId) {
+    const [parent] = await authDb
+      .select({ postId: schema.forumComments.postId })
+      .from(schema.forumComments)
+      .where(eq(schema.forumComments.id, input.parentId))
+      .limit(1);
+
+    if (!parent || parent.postId !== input.postId) {
+      throw new HttpError(404, "PARENT_COMMENT_NOT_FOUND", "Parent comment not found");
+    }
+  }
+
+  const sort = input.sort ?? "oldest";
+  const limit = Math.max(1, Math.min(input.limit ?? 20, 100));
+  const replyLimit = Math.max(1, Math.min(input.replyLimit ?? 5, 50));
+  const depth = Math.max(0, Math.min(input.depth ?? MAX_REPLY_DEPTH, MAX_REPLY_DEPTH));
+
+  const filters = [
+    eq(schema.forumComments.postId, input.postId),
+    input.parentId ? eq(schema.forumComments.parentId, input.parentId) : isNull(schema.forumComments.parentId),
+    visibleCommentFilter,
+  ];
+
+  if (input.cursor) {
+    filters.push(await buildCommentCursorFilter({ postId: input.postId, cursor: input.cursor, sort }));
+  }
+
+  const pinnedAnswerId = input.parentId ? null : post.acceptedCommentId;
+  if (pinnedAnswerId) {
+    filters.push(ne(schema.forumComments.id, pinnedAnswerId));
+  }
+
+  const [roots, pinned] = await Promise.all([
+    authDb
+      .select()
+      .from(schema.forumComments)
+      .where(and(...filters))
+      .orderBy(...commentOrderBy(sort))
+      .limit(limit),
+    pinnedAnswerId && !input.cursor
+      ? authDb
+          .select()
+          .from(schema.forumComments)
+          .where(
+            and(
+              eq(schema.forumComments.id, pinnedAnswerId),
+              isNull(schema.forumComments.parentId),
+              eq(schema.forumComments.status, "published")
+            )
+          )
+          .limit(1)
+      : Promise.resolve([]),
+  ]);
+
+  const rootNodes = [...pinned, ...roots].map((comment) => summarizeTreeComment(comment, post.acceptedCommentId));
+  let frontier = rootNodes;
+
+  for (let level = 0; frontier.length > 0; level += 1) {
+    const parentIds = frontier.map((node) => node.id);
+    const replyCounts = await countVisibleReplies(parentIds);
+
+    if (level >= depth) {
+      for (const node of frontier) {
+        const remaining = replyCounts.get(node.id) ?? 0;
+        if (remaining > 0) {
+          node.moreReplies = { parentId: node.id, remaining, cursor: null };
+        }
+      }
+
+      break;
+    }
+
+    const replies = await loadRankedReplies({ parentIds, sort, replyLimit });
+    const nodeById = new Map(frontier.map((node) => [node.id, node]));
+    const nextFrontier: CommentTreeNode[] = [];
+
+    for (const reply of replies) {
+      const parent = reply.parentId ? nodeById.get(reply.parentId) : undefined;
+      if (!parent) {
+        continue;
+      }
+
+      const node = summarizeTreeComment(reply, post.acceptedCommentId);
+      parent.replies.push(node);
+      nextFrontier.push(node);
+    }
+
+    for (const node of frontier) {
+      const remaining = (replyCounts.get(node.id) ?? 0) - node.replies.length;
+      if (remaining > 0) {
+        node.moreReplies = { parentId: node.id, remaining, cursor: node.replies.at(-1)?.id ?? null };
+      }
+    }
+
+    frontier = nextFrontier;
+  }
+
+  return {
+    postId: input.postId,
+    parentId: input.parentId ?? null,
+    sort,
+    comments: rootNodes,
+    nextCursor: roots.length === limit ? (roots.at(-1)?.id ?? null) : null,
+  };
+};
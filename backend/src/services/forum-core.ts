@@ -1,3 +1,18 @@
+export {
+  listForumBlocksAndMutes,
+  toggleForumBlock,
+  toggleForumMute,
+  toggleForumTagMute,
+} from "./forum-core.blocks";
+export {
+  createForumCategory,
+  deleteForumCategory,
+  getForumCategory,
+  listForumCategories,
+  listForumCategoryTrending,
+  setForumCategoryModerator,
+  updateForumCategory,
+} from "./forum-core.categories";
 export {
   createForumComment,
   createForumPost,
@@ -22,6 +37,7 @@ export {
 } from "./forum-core.discovery";
 export {
   createForumReport,
+  hideForumCommentAsModerator,
   listForumReportsForModeration,
   lockForumPostAsModerator,
   resolveForumReportAsModerator,
@@ -32,7 +48,10 @@ export {
   markAllForumNotificationsRead,
   markForumNotificationRead,
 } from "./forum-core.notifications";
+export { voteForumPoll } from "./forum-core.polls";
 export { getForumProfile, updateForumProfile } from "./forum-core.profile";
+export { setForumAcceptedAnswer } from "./forum-core.questions";
+export { listForumCommentRevisions, listForumPostRevisions } from "./forum-core.revisions";
 export {
   createForumShare,
   setForumPostPinned,
@@ -40,3 +59,4 @@ export {
   toggleForumFollow,
   toggleForumReaction,
 } from "./forum-core.social";
+export { getForumCommentTree } from "./forum-core.threads";
@@ -1,12 +1,22 @@
+import type { Element, Root as HastRoot } from "hast";
+import type { Nodes, Root } from "mdast";
+import rehypeSanitize, { defaultSchema, type Options as SanitizeSchema } from "rehype-sanitize";
+import rehypeStringify from "rehype-stringify";
+import remarkGfm from "remark-gfm";
+import remarkParse from "remark-parse";
+import remarkRehype from "remark-rehype";
+import { unified } from "unified";
+import { visit } from "unist-util-visit";
+
+import { normalizeCodeLanguage, rehypeHighlightCode } from "./forum-code-highlight";
+
 const MAX_LINKS = 50;
 const MAX_MENTIONS = 50;
 
-const markdownLinkRegex = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/gi;
-const bareUrlRegex = /(^|\s)(https?:\/\/[^\s<>{}"`|\\^\[\]]+)/gi;
 const userMentionRegex = /(^|[^\w])@([a-zA-Z0-9_.-]{2,64})\b/g;
 const ensMentionRegex = /(^|[^\w])@([a-zA-Z0-9-]{2,64}\.[a-zA-Z0-9.-]{2,120})\b/g;
 const walletMentionRegex = /(^|[^\w])@(0x[a-fA-F0-9]{40})\b/g;
-const codeFenceRegex = /```([a-zA-Z0-9_-]+)?\n([\s\S]*?)```/g;
+const externalLinkProtocolRegex = /^https?:\/\//i;
 
 type LinkReference = {
   url: string;
@@ -25,11 +35,52 @@ export type MarkdownAnalysis = {
   htmlPreview: string;
   codeBlockCount: number;
   inlineCodeCount: number;
+  codeLanguages: Record<string, number>;
   links: LinkReference[];
   mentions: MentionReference[];
   wordCount: number;
 };
 
+const sanitizeSchema: SanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    pre: [["className", "line-numbers"], "dataLanguage"],
+    code: [["className", "hljs", /^language-[a-z0-9_+-]+$/]],
+    span: [["className", "code-line", "highlighted", /^hljs-[a-z0-9_-]+$/, /^[a-z]+_+$/], "dataLine"],
+    th: [...(defaultSchema.attributes?.th ?? []), ["align", "left", "center", "right"]],
+    td: [...(defaultSchema.attributes?.td ?? []), ["align", "left", "center", "right"]],
+  },
+  protocols: {
+    ...defaultSchema.protocols,
+    href: ["http", "https", "mailto"],
+    src: ["http", "https"],
+  },
+};
+
+const rehypeExternalLinks = () => (tree: HastRoot) => {
+  visit(tree, "element", (node: Element) => {
+    if (node.tagName !== "a") {
+      return;
+    }
+
+    const href = node.properties.href;
+    if (typeof href === "string" && externalLinkProtocolRegex.test(href)) {
+      node.properties.target = "_blank";
+      node.properties.rel = ["noopener", "noreferrer", "nofollow"];
+    }
+  });
+};
+
+const markdownParser = unified().use(remarkParse).use(remarkGfm);
+
+const htmlRenderer = unified()
+  .use(remarkRehype)
+  .use(rehypeHighlightCode)
+  .use(rehypeSanitize, sanitizeSchema)
+  .use(rehypeExternalLinks)
+  .use(rehypeStringify);
+
 const normalizeWhitespace = (input: string): string => input.replace(/\r\n/g, "\n").trim();
 
 const extractDomain = (url: string): string | null => {
@@ -50,115 +101,88 @@ const normalizeUrl = (url: string): string => {
   }
 };
 
-const escapeHtml = (input: string): string =>
-  input
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
-
-const buildPlaintext = (markdown: string): string =>
-  markdown
-    .replace(codeFenceRegex, " $2 ")
-    .replace(/`([^`]+)`/g, " $1 ")
-    .replace(/\[(.*?)\]\((.*?)\)/g, " $1 ")
-    .replace(/[>*#_~\-]/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
+const parseMarkdown = (markdown: string): Root => markdownParser.runSync(markdownParser.parse(markdown)) as Root;
 
-const countWords = (plaintext: string): number => {
-  if (!plaintext) {
-    return 0;
+const renderHtml = (tree: Root): string => htmlRenderer.stringify(htmlRenderer.runSync(structuredClone(tree)));
+
+const collectPlaintext = (node: Nodes, parts: string[]): void => {
+  switch (node.type) {
+    case "text":
+    case "inlineCode":
+    case "code":
+      parts.push(node.value);
+      return;
+    case "image":
+      if (node.alt) {
+        parts.push(node.alt);
+      }
+      return;
+    case "html":
+    case "definition":
+      return;
+    default:
+      break;
   }
 
-  return plaintext.split(/\s+/).filter(Boolean).length;
+  if ("children" in node) {
+    for (const child of node.children) {
+      collectPlaintext(child, parts);
+    }
+  }
 };
 
-const renderMarkdownPreview = (markdown: string): string => {
-  const normalized = normalizeWhitespace(markdown);
-  const codeBlocks: string[] = [];
-
-  const withCodePlaceholders = normalized.replace(codeFenceRegex, (_match, language, code) => {
-    const lang = typeof language === "string" && language ? language : "text";
-    const escapedCode = escapeHtml(String(code));
-    const html = `<pre><code class="language-${escapeHtml(lang)}">${escapedCode}</code></pre>`;
-    const token = `__CODE_BLOCK_${codeBlocks.length}__`;
-    codeBlocks.push(html);
-    return token;
-  });
-
-  let escaped = escapeHtml(withCodePlaceholders);
-  escaped = escaped.replace(/`([^`]+)`/g, "<code>$1</code>");
+const buildPlaintext = (tree: Root): string => {
+  const parts: string[] = [];
+  collectPlaintext(tree, parts);
 
-  escaped = escaped.replace(markdownLinkRegex, (_match, label, url) => {
-    const safeUrl = escapeHtml(url);
-    const safeLabel = escapeHtml(label);
-    return `<a href="${safeUrl}" target="_blank" rel="noopener noreferrer nofollow">${safeLabel}</a>`;
-  });
-
-  escaped = escaped.replace(bareUrlRegex, (_match, prefix, url) => {
-    const safeUrl = escapeHtml(url);
-    return `${prefix}<a href="${safeUrl}" target="_blank" rel="noopener noreferrer nofollow">${safeUrl}</a>`;
-  });
-
-  escaped = escaped.replace(/\n/g, "<br />");
+  return parts.join(" ").replace(/\s+/g, " ").trim();
+};
 
-  for (let i = 0; i < codeBlocks.length; i += 1) {
-    escaped = escaped.replace(`__CODE_BLOCK_${i}__`, codeBlocks[i] ?? "");
+const countWords = (plaintext: string): number => {
+  if (!plaintext) {
+    return 0;
   }
 
-  return escaped;
+  return plaintext.split(/\s+/).filter(Boolean).length;
 };
 
-const extractLinks = (markdown: string): LinkReference[] => {
+const extractLinks = (tree: Root): LinkReference[] => {
   const links: LinkReference[] = [];
   const seen = new Set<string>();
 
-  const consume = (url: string): void => {
-    const normalizedUrl = normalizeUrl(url);
+  visit(tree, "link", (node) => {
+    if (links.length >= MAX_LINKS || !externalLinkProtocolRegex.test(node.url)) {
+      return;
+    }
+
+    const normalizedUrl = normalizeUrl(node.url);
     if (seen.has(normalizedUrl)) {
       return;
     }
 
     seen.add(normalizedUrl);
     links.push({
-      url,
+      url: node.url,
       normalizedUrl,
-      domain: extractDomain(url),
+      domain: extractDomain(node.url),
     });
-  };
-
-  for (const match of markdown.matchAll(markdownLinkRegex)) {
-    const url = match[2];
-    if (url) {
-      consume(url);
-    }
-    if (links.length >= MAX_LINKS) {
-      return links;
-    }
-  }
-
-  for (const match of markdown.matchAll(bareUrlRegex)) {
-    const url = match[2];
-    if (url) {
-      consume(url);
-    }
-    if (links.length >= MAX_LINKS) {
-      return links;
-    }
-  }
+  });
 
   return links;
 };
 
-const extractMentions = (markdown: string): MentionReference[] => {
+const extractMentions = (tree: Root): MentionReference[] => {
+  const texts: string[] = [];
+  visit(tree, "text", (node) => {
+    texts.push(node.value);
+  });
+
   const mentions: MentionReference[] = [];
   const seen = new Set<string>();
 
   const pushMention = (mention: MentionReference): void => {
     const key = `${mention.targetType}:${mention.mentionText.toLowerCase()}`;
-    if (seen.has(key)) {
+    if (seen.has(key) || mentions.length >= MAX_MENTIONS) {
       return;
     }
 
@@ -166,64 +190,66 @@ const extractMentions = (markdown: string): MentionReference[] => {
     mentions.push(mention);
   };
 
-  for (const match of markdown.matchAll(walletMentionRegex)) {
-    const mentionText = match[2];
-    if (mentionText) {
-      pushMention({
-        targetType: "wallet",
-        mentionText,
-      });
-    }
-    if (mentions.length >= MAX_MENTIONS) {
-      return mentions;
+  const patterns: Array<[MentionReference["targetType"], RegExp]> = [
+    ["wallet", walletMentionRegex],
+    ["ens", ensMentionRegex],
+    ["user", userMentionRegex],
+  ];
+
+  for (const [targetType, pattern] of patterns) {
+    for (const text of texts) {
+      for (const match of text.matchAll(pattern)) {
+        const mentionText = match[2];
+        if (mentionText) {
+          pushMention({
+            targetType,
+            mentionText,
+          });
+        }
+      }
     }
   }
 
-  for (const match of markdown.matchAll(ensMentionRegex)) {
-    const mentionText = match[2];
-    if (mentionText) {
-      pushMention({
-        targetType: "ens",
-        mentionText,
-      });
-    }
-    if (mentions.length >= MAX_MENTIONS) {
-      return mentions;
-    }
-  }
+  return mentions;
+};
 
-  for (const match of markdown.matchAll(userMentionRegex)) {
-    const mentionText = match[2];
-    if (mentionText) {
-      pushMention({
-        targetType: "user",
-        mentionText,
-      });
-    }
-    if (mentions.length >= MAX_MENTIONS) {
-      return mentions;
+const countNodes = (tree: Root, type: "code" | "inlineCode"): number => {
+  let count = 0;
+  visit(tree, type, () => {
+    count += 1;
+  });
+
+  return count;
+};
+
+const countCodeLanguages = (tree: Root): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  visit(tree, "code", (node) => {
+    const language = normalizeCodeLanguage(node.lang);
+    if (language) {
+      counts[language] = (counts[language] ?? 0) + 1;
     }
-  }
+  });
 
-  return mentions;
+  return counts;
 };
 
+export const renderMarkdownToHtml = (markdown: string): string => renderHtml(parseMarkdown(normalizeWhitespace(markdown)));
+
 export const analyzeMarkdown = (input: { markdown: string }): MarkdownAnalysis => {
   const markdown = normalizeWhitespace(input.markdown);
-  const plaintext = buildPlaintext(markdown);
-  const links = extractLinks(markdown);
-  const mentions = extractMentions(markdown);
-  const codeBlockCount = [...markdown.matchAll(codeFenceRegex)].length;
-  const inlineCodeCount = [...markdown.matchAll(/`[^`]+`/g)].length;
+  const tree = parseMarkdown(markdown);
+  const plaintext = buildPlaintext(tree);
 
   return {
     markdown,
     plaintext,
-    htmlPreview: renderMarkdownPreview(markdown),
-    links,
-    mentions,
-    codeBlockCount,
-    inlineCodeCount,
+    htmlPreview: renderHtml(tree),
+    links: extractLinks(tree),
+    mentions: extractMentions(tree),
+    codeBlockCount: countNodes(tree, "code"),
+    inlineCodeCount: countNodes(tree, "inlineCode"),
+    codeLanguages: countCodeLanguages(tree),
     wordCount: countWords(plaintext),
   };
 };
@@ -1,4 +1,4 @@
-import { and, eq } from "drizzle-orm";
+import { and, eq, inArray } from "drizzle-orm";
 
 import { authDb } from "@evergreen-devparty/auth";
 import { schema } from "@evergreen-devparty/db";
@@ -7,6 +7,10 @@ import { HttpError } from "../lib/http-error";
 import { ensureUserExists, getCommentById, getPostById } from "./forum-core.shared";
 
 type UserRole = typeof schema.users.$inferSelect.role;
+type ForumUser = typeof schema.users.$inferSelect;
+type ForumCategory = typeof schema.forumCategories.$inferSelect;
+
+const MAX_CATEGORY_LINEAGE_DEPTH = 16;
 
 const isModeratorOrAdmin = (role: UserRole | null | undefined): boolean => role === "moderator" || role === "admin";
 
@@ -20,6 +24,93 @@ export const assertModeratorAccess = async (actorUserId: string) => {
   return actor;
 };
 
+export const assertAdminAccess = async (actorUserId: string) => {
+  const actor = await ensureUserExists(actorUserId);
+
+  if (actor.role !== "admin") {
+    throw new HttpError(403, "FORBIDDEN", "Admin access required");
+  }
+
+  return actor;
+};
+
+const listCategoryLineageIds = async (categoryId: string): Promise<string[]> => {
+  const lineage: string[] = [];
+  let currentId: string | null = categoryId;
+
+  while (currentId && lineage.length < MAX_CATEGORY_LINEAGE_DEPTH && !lineage.includes(currentId)) {
+    lineage.push(currentId);
+
+    const [category] = await authDb
+      .select({ parentId: schema.forumCategories.parentId })
+      .from(schema.forumCategories)
+      .where(eq(schema.forumCategories.id, currentId))
+      .limit(1);
+    currentId = category?.parentId ?? null;
+  }
+
+  return lineage;
+};
+
+export const hasCategoryModeratorAccess = async (actor: ForumUser, categoryId: string | null): Promise<boolean> => {
+  if (isModeratorOrAdmin(actor.role)) {
+    return true;
+  }
+
+  if (!categoryId) {
+    return false;
+  }
+
+  const lineage = await listCategoryLineageIds(categoryId);
+  const [assignment] = await authDb
+    .select({ categoryId: schema.forumCategoryModerators.categoryId })
+    .from(schema.forumCategoryModerators)
+    .where(and(eq(schema.forumCategoryModerators.userId, actor.id), inArray(schema.forumCategoryModerators.categoryId, lineage)))
+    .limit(1);
+
+  return Boolean(assignment);
+};
+
+export const hasActiveEnsIdentity = async (userId: string): Promise<boolean> => {
+  const [identity] = await authDb
+    .select({ id: schema.ensIdentities.id })
+    .from(schema.ensIdentities)
+    .where(and(eq(schema.ensIdentities.userId, userId), eq(schema.ensIdentities.status, "active")))
+    .limit(1);
+
+  return Boolean(identity);
+};
+
+export const assertCanPostInCategory = async (input: { actorUserId: string; category: ForumCategory }) => {
+  const actor = await ensureUserExists(input.actorUserId);
+
+  if (input.category.postPolicy === "everyone") {
+    return actor;
+  }
+
+  if (input.category.postPolicy === "admins") {
+    if (actor.role !== "admin") {
+      throw new HttpError(403, "CATEGORY_POST_FORBIDDEN", "Only admins can post in this category");
+    }
+
+    return actor;
+  }
+
+  if (input.category.postPolicy === "moderators") {
+    if (!(await hasCategoryModeratorAccess(actor, input.category.id))) {
+      throw new HttpError(403, "CATEGORY_POST_FORBIDDEN", "Only category moderators can post in this category");
+    }
+
+    return actor;
+  }
+
+  if (!(await hasActiveEnsIdentity(actor.id))) {
+    throw new HttpError(403, "ENS_VERIFICATION_REQUIRED", "A verified ENS name is required to post in this category");
+  }
+
+  return actor;
+};
+
 export const assertCanPinPost = async (input: { actorUserId: string; postId: string }) => {
   const [actor, post] = await Promise.all([ensureUserExists(input.actorUserId), getPostById(input.postId)]);
 
@@ -31,7 +122,7 @@ export const assertCanPinPost = async (input: { actorUserId: string; postId: str
     };
   }
 
-  if (isModeratorOrAdmin(actor.role)) {
+  if (await hasCategoryModeratorAccess(actor, post.categoryId)) {
     return {
       actor,
       post,
@@ -42,8 +133,34 @@ export const assertCanPinPost = async (input: { actorUserId: string; postId: str
   throw new HttpError(403, "FORBIDDEN", "Only post owner or moderator/admin can pin this post");
 };
 
+export const assertCanAcceptAnswer = async (input: { actorUserId: string; postId: string }) => {
+  const [actor, post] = await Promise.all([ensureUserExists(input.actorUserId), getPostById(input.postId)]);
+
+  if (post.authorId === input.actorUserId) {
+    return {
+      actor,
+      post,
+      scope: "owner" as const,
+    };
+  }
+
+  if (await hasCategoryModeratorAccess(actor, post.categoryId)) {
+    return {
+      actor,
+      post,
+      scope: "moderator" as const,
+    };
+  }
+
+  throw new HttpError(403, "FORBIDDEN", "Only the question author or a moderator can accept an answer");
+};
+
 export const assertCanLockPost = async (input: { actorUserId: string; postId: string }) => {
-  const [actor, post] = await Promise.all([assertModeratorAccess(input.actorUserId), getPostById(input.postId)]);
+  const [actor, post] = await Promise.all([ensureUserExists(input.actorUserId), getPostById(input.postId)]);
+
+  if (!(await hasCategoryModeratorAccess(actor, post.categoryId))) {
+    throw new HttpError(403, "FORBIDDEN", "Moderator access required");
+  }
 
   return {
     actor,
@@ -52,6 +169,21 @@ export const assertCanLockPost = async (input: { actorUserId: string; postId: st
   };
 };
 
+export const assertCanHideComment = async (input: { actorUserId: string; commentId: string }) => {
+  const comment = await getCommentById(input.commentId);
+  const [actor, post] = await Promise.all([ensureUserExists(input.actorUserId), getPostById(comment.postId)]);
+
+  if (!(await hasCategoryModeratorAccess(actor, post.categoryId))) {
+    throw new HttpError(403, "FORBIDDEN", "Moderator access required");
+  }
+
+  return {
+    actor,
+    comment,
+    scope: "moderator" as const,
+  };
+};
+
 export const resolveForumReportTarget = async (input: {
   reporterUserId: string;
   targetType: "post" | "comment" | "user";
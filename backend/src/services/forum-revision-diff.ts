@@ -0,0 +1,133 @@
+const MAX_DIFF_MATRIX_CELLS = 4_000_000;
+
+export type RevisionDiffLine = {
+  type: "context" | "added" | "removed";
+  text: string;
+  oldLineNumber: number | null;
+  newLineNumber: number | null;
+};
+
+export type RevisionDiff = {
+  lines: RevisionDiffLine[];
+  stats: {
+    added: number;
+    removed: number;
+    unchanged: number;
+  };
+  truncated: boolean;
+};
+
+const splitLines = (input: string): string[] => (input ? input.replace(/\r\n/g, "\n").split("\n") : []);
+
+const diffMiddle = (before: string[], after: string[]): Array<{ type: RevisionDiffLine["type"]; text: string }> => {
+  const rows = before.length;
+  const cols = after.length;
+
+  if (rows * cols > MAX_DIFF_MATRIX_CELLS) {
+    return [
+      ...before.map((text) => ({ type: "removed" as const, text })),
+      ...after.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  const width = cols + 1;
+  const lcs = new Uint32Array((rows + 1) * width);
+
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = cols - 1; j >= 0; j -= 1) {
+      lcs[i * width + j] =
+        before[i] === after[j]
+          ? (lcs[(i + 1) * width + j + 1] ?? 0) + 1
+          : Math.max(lcs[(i + 1) * width + j] ?? 0, lcs[i * width + j + 1] ?? 0);
+    }
+  }
+
+  const result: Array<{ type: RevisionDiffLine["type"]; text: string }> = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      result.push({ type: "context", text: before[i] ?? "" });
+      i += 1;
+      j += 1;
+    } else if ((lcs[(i + 1) * width + j] ?? 0) >= (lcs[i * width + j + 1] ?? 0)) {
+      result.push({ type: "removed", text: before[i] ?? "" });
+      i += 1;
+    } else {
+      result.push({ type: "added", text: after[j] ?? "" });
+      j += 1;
+    }
+  }
+
+  for (; i < rows; i += 1) {
+    result.push({ type: "removed", text: before[i] ?? "" });
+  }
+
+  for (; j < cols; j += 1) {
+    result.push({ type: "added", text: after[j] ?? "" });
+  }
+
+  return result;
+};
+
+export const diffRevisionLines = (beforeText: string, afterText: string): RevisionDiff => {
+  const before = splitLines(beforeText);
+  const after = splitLines(afterText);
+
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix += 1;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const middleBefore = before.slice(prefix, before.length - suffix);
+  const middleAfter = after.slice(prefix, after.length - suffix);
+  const truncated = middleBefore.length * middleAfter.length > MAX_DIFF_MATRIX_CELLS;
+
+  const operations = [
+    ...before.slice(0, prefix).map((text) => ({ type: "context" as const, text })),
+    ...diffMiddle(middleBefore, middleAfter),
+    ...before.slice(before.length - suffix).map((text) => ({ type: "context" as const, text })),
+  ];
+
+  const lines: RevisionDiffLine[] = [];
+  const stats = {
+    added: 0,
+    removed: 0,
+    unchanged: 0,
+  };
+  let oldLineNumber = 1;
+  let newLineNumber = 1;
+
+  for (const operation of operations) {
+    if (operation.type === "context") {
+      lines.push({ ...operation, oldLineNumber, newLineNumber });
+      oldLineNumber += 1;
+      newLineNumber += 1;
+      stats.unchanged += 1;
+    } else if (operation.type === "removed") {
+      lines.push({ ...operation, oldLineNumber, newLineNumber: null });
+      oldLineNumber += 1;
+      stats.removed += 1;
+    } else {
+      lines.push({ ...operation, oldLineNumber: null, newLineNumber });
+      newLineNumber += 1;
+      stats.added += 1;
+    }
+  }
+
+  return {
+    lines,
+    stats,
+    truncated,
+  };
+};
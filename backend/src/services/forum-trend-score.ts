@@ -0,0 +1,97 @@
+import { sql } from "drizzle-orm";
+
+import { authDb } from "@evergreen-devparty/auth";
+
+import { backendEnv } from "../config/env";
+
+type RecomputeForumTrendScoresInput = {
+  windowHours?: number;
+  halfLifeHours?: number;
+  now?: Date;
+};
+
+export type RecomputeForumTrendScoresResult = {
+  updatedPosts: number;
+  updatedTags: number;
+  windowStart: Date;
+  halfLifeHours: number;
+  startedAt: Date;
+  finishedAt: Date;
+};
+
+const TREND_EVENT_WEIGHTS = {
+  post: 4,
+  comment: 2,
+  reaction: 1,
+  share: 3,
+} as const;
+
+export const recomputeForumTrendScores = async (
+  input: RecomputeForumTrendScoresInput = {}
+): Promise<RecomputeForumTrendScoresResult> => {
+  const startedAt = new Date();
+  const now = input.now ?? startedAt;
+  const windowHours = input.windowHours ?? backendEnv.forumTrendWindowHours;
+  const halfLifeHours = input.halfLifeHours ?? backendEnv.forumTrendHalfLifeHours;
+  const windowStart = new Date(now.getTime() - windowHours * 60 * 60 * 1000);
+
+  const postResult = await authDb.execute(sql`
+    with events as (
+      select p.id as post_id, p.created_at, ${TREND_EVENT_WEIGHTS.post}::double precision as weight
+      from forum_posts p
+      where p.status = 'published' and p.created_at >= ${windowStart} and p.created_at <= ${now}
+      union all
+      select c.post_id, c.created_at, ${TREND_EVENT_WEIGHTS.comment}::double precision
+      from forum_comments c
+      where c.status = 'published' and c.created_at >= ${windowStart} and c.created_at <= ${now}
+      union all
+      select coalesce(r.post_id, rc.post_id), r.created_at, ${TREND_EVENT_WEIGHTS.reaction}::double precision
+      from forum_reactions r
+      left join forum_comments rc on rc.id = r.comment_id
+      where r.created_at >= ${windowStart} and r.created_at <= ${now}
+      union all
+      select s.post_id, s.created_at, ${TREND_EVENT_WEIGHTS.share}::double precision
+      from forum_shares s
+      where s.created_at >= ${windowStart} and s.created_at <= ${now}
+    ),
+    scores as (
+      select
+        post_id,
+        sum(weight * exp(-ln(2) * (extract(epoch from (${now}::timestamptz - created_at)) / 3600) / ${halfLifeHours})) as score
+      from events
+      where post_id is not null
+      group by post_id
+    )
+    update forum_posts as target
+    set hot_score = case when source.status = 'published' then coalesce(scores.score, 0) else 0 end
+    from forum_posts as source
+    left join scores on scores.post_id = source.id
+    where target.id = source.id
+      and (source.hot_score <> 0 or scores.post_id is not null)
+  `);
+
+  const tagResult = await authDb.execute(sql`
+    with scores as (
+      select pt.tag_id, sum(p.hot_score) as score
+      from forum_post_tags pt
+      inner join forum_posts p on p.id = pt.post_id
+      where p.status = 'published' and p.hot_score > 0
+      group by pt.tag_id
+    )
+    update forum_tags as target
+    set trend_score = coalesce(scores.score, 0)
+    from forum_tags as source
+    left join scores on scores.tag_id = source.id
+    where target.id = source.id
+      and (source.trend_score <> 0 or scores.tag_id is not null)
+  `);
+
+  return {
+    updatedPosts: postResult.rowCount ?? 0,
+    updatedTags: tagResult.rowCount ?? 0,
+    windowStart,
+    halfLifeHours,
+    startedAt,
+    finishedAt: new Date(),
+  };
+};
@@ -8,6 +8,12 @@ const WORKER_NAMES = [
   "identity-sync",
   "forum-search-sync",
   "forum-search-backfill",
+  "forum-poll-close",
+  "forum-trend-score",
+  "ens-records-sync",
+  "ens-expiry-reminders",
+  "ens-log-indexer",
+  "outbound-webhooks",
 ] as const;
 const WORKER_OUTCOMES = ["completed", "skipped", "failed"] as const;
 
@@ -43,6 +49,12 @@ const initWorkerTotals = (): WorkerTotals => ({
   "identity-sync": { completed: 0, skipped: 0, failed: 0 },
   "forum-search-sync": { completed: 0, skipped: 0, failed: 0 },
   "forum-search-backfill": { completed: 0, skipped: 0, failed: 0 },
+  "forum-poll-close": { completed: 0, skipped: 0, failed: 0 },
+  "forum-trend-score": { completed: 0, skipped: 0, failed: 0 },
+  "ens-records-sync": { completed: 0, skipped: 0, failed: 0 },
+  "ens-expiry-reminders": { completed: 0, skipped: 0, failed: 0 },
+  "ens-log-indexer": { completed: 0, skipped: 0, failed: 0 },
+  "outbound-webhooks": { completed: 0, skipped: 0, failed: 0 },
 });
 
 const initWorkerSkipStreak = (): WorkerSkipStreak => ({
@@ -53,6 +65,12 @@ const initWorkerSkipStreak = (): WorkerSkipStreak => ({
   "identity-sync": 0,
   "forum-search-sync": 0,
   "forum-search-backfill": 0,
+  "forum-poll-close": 0,
+  "forum-trend-score": 0,
+  "ens-records-sync": 0,
+  "ens-expiry-reminders": 0,
+  "ens-log-indexer": 0,
+  "outbound-webhooks": 0,
 });
 
 const state: OpsMetricsSnapshot = {
@@ -82,6 +100,12 @@ const cloneWorkerTotals = (input: WorkerTotals): WorkerTotals => ({
   "identity-sync": { ...input["identity-sync"] },
   "forum-search-sync": { ...input["forum-search-sync"] },
   "forum-search-backfill": { ...input["forum-search-backfill"] },
+  "forum-poll-close": { ...input["forum-poll-close"] },
+  "forum-trend-score": { ...input["forum-trend-score"] },
+  "ens-records-sync": { ...input["ens-records-sync"] },
+  "ens-expiry-reminders": { ...input["ens-expiry-reminders"] },
+  "ens-log-indexer": { ...input["ens-log-indexer"] },
+  "outbound-webhooks": { ...input["outbound-webhooks"] },
 });
 
 const cloneWorkerSkipStreak = (input: WorkerSkipStreak): WorkerSkipStreak => ({
@@ -92,6 +116,12 @@ const cloneWorkerSkipStreak = (input: WorkerSkipStreak): WorkerSkipStreak => ({
   "identity-sync": input["identity-sync"],
   "forum-search-sync": input["forum-search-sync"],
   "forum-search-backfill": input["forum-search-backfill"],
+  "forum-poll-close": input["forum-poll-close"],
+  "forum-trend-score": input["forum-trend-score"],
+  "ens-records-sync": input["ens-records-sync"],
+  "ens-expiry-reminders": input["ens-expiry-reminders"],
+  "ens-log-indexer": input["ens-log-indexer"],
+  "outbound-webhooks": input["outbound-webhooks"],
 });
 
 export const setOpsMetricAlertHandler = (handler: OpsMetricAlertHandler | null): void => {
@@ -0,0 +1,452 @@
+import { randomUUID } from "node:crypto";
+
+import { and, asc, count, desc, eq } from "drizzle-orm";
+
+import { authDb } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import { HttpError } from "../lib/http-error";
+import {
+  createApiKeyForUser,
+  listApiKeysForOrganization,
+  revokeApiKeyForUser,
+  rotateApiKeyForUser,
+  type CreateApiKeyInput,
+} from "./api-keys/core";
+
+export type OrganizationMemberRole = (typeof schema.organizationMemberRoleEnum.enumValues)[number];
+
+type OrganizationRecord = typeof schema.organizations.$inferSelect;
+
+const SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{1,62}[a-z0-9])?$/;
+const KEY_MANAGER_ROLES: OrganizationMemberRole[] = ["owner", "admin"];
+
+const slugify = (input: string): string =>
+  input
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, "")
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 64);
+
+const isSlugUniqueViolation = (error: unknown): boolean => {
+  const candidates = [error, typeof error === "object" && error !== null ? (error as { cause?: unknown }).cause : null];
+
+  return candidates.some(
+    (candidate) =>
+      typeof candidate === "object" &&
+      candidate !== null &&
+      (candidate as { code?: unknown }).code === "23505" &&
+      (candidate as { constraint?: unknown }).constraint === "organizations_slug_unique"
+  );
+};
+
+const toOrganizationView = (organization: OrganizationRecord) => ({
+  id: organization.id,
+  name: organization.name,
+  slug: organization.slug,
+  serviceAccountUserId: organization.serviceAccountUserId,
+  createdByUserId: organization.createdByUserId,
+  createdAt: organization.createdAt,
+  updatedAt: organization.updatedAt,
+});
+
+const loadOrganizationMembership = async (input: { organizationId: string; userId: string }) => {
+  const [row] = await authDb
+    .select({
+      organization: schema.organizations,
+      role: schema.organizationMembers.role,
+    })
+    .from(schema.organizationMembers)
+    .innerJoin(schema.organizations, eq(schema.organizations.id, schema.organizationMembers.organizationId))
+    .where(
+      and(
+        eq(schema.organizationMembers.organizationId, input.organizationId),
+        eq(schema.organizationMembers.userId, input.userId)
+      )
+    )
+    .limit(1);
+
+  // Non-members get the same 404 as a missing organization so ids cannot be probed.
+  if (!row) {
+    throw new HttpError(404, "ORGANIZATION_NOT_FOUND", "Organization not found");
+  }
+
+  return row;
+};
+
+const assertOrganizationRole = async (input: {
+  organizationId: string;
+  userId: string;
+  roles: OrganizationMemberRole[];
+}) => {
+  const membership = await loadOrganizationMembership(input);
+  if (!input.roles.includes(membership.role)) {
+    throw new HttpError(403, "ORGANIZATION_FORBIDDEN", "Your organization role does not allow this action", {
+      role: membership.role,
+      requiredRoles: input.roles,
+    });
+  }
+
+  return membership;
+};
+
+const loadMember = async (organizationId: string, userId: string) => {
+  const [member] = await authDb
+    .select()
+    .from(schema.organizationMembers)
+    .where(
+      and(eq(schema.organizationMembers.organizationId, organizationId), eq(schema.organizationMembers.userId, userId))
+    )
+    .limit(1);
+
+  if (!member) {
+    throw new HttpError(404, "ORGANIZATION_MEMBER_NOT_FOUND", "Organization member not found");
+  }
+
+  return member;
+};
+
+const assertNotLastOwner = async (organizationId: string, member: { role: OrganizationMemberRole }) => {
+  if (member.role !== "owner") {
+    return;
+  }
+
+  const [owners] = await authDb
+    .select({ total: count() })
+    .from(schema.organizationMembers)
+    .where(
+      and(eq(schema.organizationMembers.organizationId, organizationId), eq(schema.organizationMembers.role, "owner"))
+    );
+
+  if ((owners?.total ?? 0) <= 1) {
+    throw new HttpError(409, "ORGANIZATION_LAST_OWNER", "An organization must keep at least one owner");
+  }
+};
+
+// Only owners may grant, change or remove the owner role; admins manage admins and members.
+const assertCanManageRole = (actorRole: OrganizationMemberRole, ...roles: OrganizationMemberRole[]) => {
+  if (actorRole !== "owner" && roles.includes("owner")) {
+    throw new HttpError(403, "ORGANIZATION_FORBIDDEN", "Only owners can manage organization owners");
+  }
+};
+
+export const createOrganization = async (input: { userId: string; name: string; slug?: string }) => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new HttpError(400, "ORGANIZATION_NAME_REQUIRED", "Organization name is required");
+  }
+
+  const slug = input.slug ? input.slug.trim().toLowerCase() : slugify(name);
+  if (!SLUG_PATTERN.test(slug)) {
+    throw new HttpError(
+      400,
+      "ORGANIZATION_SLUG_INVALID",
+      "Organization slug must be 3-64 lowercase letters, digits or hyphens"
+    );
+  }
+
+  const [existing] = await authDb
+    .select({ id: schema.organizations.id })
+    .from(schema.organizations)
+    .where(eq(schema.organizations.slug, slug))
+    .limit(1);
+
+  if (existing) {
+    throw new HttpError(409, "ORGANIZATION_SLUG_TAKEN", "Organization slug is already taken");
+  }
+
+  const organizationId = randomUUID();
+  const serviceAccountUserId = randomUUID();
+  const now = new Date();
+
+  // The service account, organization and owner membership land together so a failed step leaves no orphans.
+  const organization = await authDb
+    .transaction(async (tx) => {
+      // The service account is a plain user row without credentials, so it can own keys but never sign in.
+      await tx.insert(schema.users).values({
+        id: serviceAccountUserId,
+        email: `org-${organizationId}@service-accounts.invalid`,
+        emailVerified: true,
+        name: `${name.slice(0, 100)} (service account)`,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const [created] = await tx
+        .insert(schema.organizations)
+        .values({
+          id: organizationId,
+          name,
+          slug,
+          serviceAccountUserId,
+          createdByUserId: input.userId,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .returning();
+
+      await tx.insert(schema.organizationMembers).values({
+        organizationId,
+        userId: input.userId,
+        role: "owner",
+        addedByUserId: input.userId,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      return created;
+    })
+    .catch((error: unknown) => {
+      // A concurrent create can claim the slug between the lookup above and the insert.
+      if (isSlugUniqueViolation(error)) {
+        throw new HttpError(409, "ORGANIZATION_SLUG_TAKEN", "Organization slug is already taken");
+      }
+
+      throw error;
+    });
+
+  return {
+    ...toOrganizationView(organization),
+    role: "owner" as const,
+  };
+};
+
+export const listOrganizationsForUser = async (userId: string) => {
+  const rows = await authDb
+    .select({
+      organization: schema.organizations,
+      role: schema.organizationMembers.role,
+    })
+    .from(schema.organizationMembers)
+    .innerJoin(schema.organizations, eq(schema.organizations.id, schema.organizationMembers.organizationId))
+    .where(eq(schema.organizationMembers.userId, userId))
+    .orderBy(desc(schema.organizations.createdAt));
+
+  return rows.map((row) => ({
+    ...toOrganizationView(row.organization),
+    role: row.role,
+  }));
+};
+
+export const getOrganizationForMember = async (input: { userId: string; organizationId: string }) => {
+  const membership = await loadOrganizationMembership(input);
+
+  const members = await authDb
+    .select({
+      userId: schema.organizationMembers.userId,
+      role: schema.organizationMembers.role,
+      name: schema.users.name,
+      username: schema.users.username,
+      addedByUserId: schema.organizationMembers.addedByUserId,
+      createdAt: schema.organizationMembers.createdAt,
+    })
+    .from(schema.organizationMembers)
+    .innerJoin(schema.users, eq(schema.users.id, schema.organizationMembers.userId))
+    .where(eq(schema.organizationMembers.organizationId, input.organizationId))
+    .orderBy(asc(schema.organizationMembers.createdAt));
+
+  return {
+    ...toOrganizationView(membership.organization),
+    role: membership.role,
+    members,
+  };
+};
+
+export const addOrganizationMember = async (input: {
+  actorUserId: string;
+  organizationId: string;
+  userId?: string;
+  email?: string;
+  role?: OrganizationMemberRole;
+}) => {
+  const role = input.role ?? "member";
+  const actor = await assertOrganizationRole({
+    organizationId: input.organizationId,
+    userId: input.actorUserId,
+    roles: KEY_MANAGER_ROLES,
+  });
+  assertCanManageRole(actor.role, role);
+
+  if (!input.userId && !input.email) {
+    throw new HttpError(400, "ORGANIZATION_MEMBER_REQUIRED", "Provide a userId or email for the new member");
+  }
+
+  const [user] = await authDb
+    .select({ id: schema.users.id })
+    .from(schema.users)
+    .where(
+      input.userId
+        ? eq(schema.users.id, input.userId)
+        : eq(schema.users.email, (input.email ?? "").trim().toLowerCase())
+    )
+    .limit(1);
+
+  if (!user) {
+    throw new HttpError(404, "USER_NOT_FOUND", "User account was not found");
+  }
+
+  if (user.id === actor.organization.serviceAccountUserId) {
+    throw new HttpError(400, "ORGANIZATION_MEMBER_INVALID", "The service account cannot be an organization member");
+  }
+
+  const now = new Date();
+  const [member] = await authDb
+    .insert(schema.organizationMembers)
+    .values({
+      organizationId: input.organizationId,
+      userId: user.id,
+      role,
+      addedByUserId: input.actorUserId,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!member) {
+    throw new HttpError(409, "ORGANIZATION_MEMBER_EXISTS", "User is already an organization member");
+  }
+
+  return member;
+};
+
+export const updateOrganizationMemberRole = async (input: {
+  actorUserId: string;
+  organizationId: string;
+  userId: string;
+  role: OrganizationMemberRole;
+}) => {
+  const actor = await assertOrganizationRole({
+    organizationId: input.organizationId,
+    userId: input.actorUserId,
+    roles: KEY_MANAGER_ROLES,
+  });
+  const member = await loadMember(input.organizationId, input.userId);
+  assertCanManageRole(actor.role, member.role, input.role);
+
+  if (member.role === input.role) {
+    return member;
+  }
+
+  await assertNotLastOwner(input.organizationId, member);
+
+  const [updated] = await authDb
+    .update(schema.organizationMembers)
+    .set({
+      role: input.role,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(schema.organizationMembers.organizationId, input.organizationId),
+        eq(schema.organizationMembers.userId, input.userId)
+      )
+    )
+    .returning();
+
+  return updated ?? member;
+};
+
+export const removeOrganizationMember = async (input: {
+  actorUserId: string;
+  organizationId: string;
+  userId: string;
+}) => {
+  // Any member may leave; removing someone else needs an owner or admin.
+  const actor =
+    input.actorUserId === input.userId
+      ? await loadOrganizationMembership({ organizationId: input.organizationId, userId: input.actorUserId })
+      : await assertOrganizationRole({
+          organizationId: input.organizationId,
+          userId: input.actorUserId,
+          roles: KEY_MANAGER_ROLES,
+        });
+  const member = await loadMember(input.organizationId, input.userId);
+  if (input.actorUserId !== input.userId) {
+    assertCanManageRole(actor.role, member.role);
+  }
+
+  await assertNotLastOwner(input.organizationId, member);
+
+  await authDb
+    .delete(schema.organizationMembers)
+    .where(
+      and(
+        eq(schema.organizationMembers.organizationId, input.organizationId),
+        eq(schema.organizationMembers.userId, input.userId)
+      )
+    );
+
+  return {
+    removed: true,
+    organizationId: input.organizationId,
+    userId: input.userId,
+  };
+};
+
+export const listOrganizationApiKeys = async (input: { userId: string; organizationId: string }) => {
+  await loadOrganizationMembership(input);
+  return listApiKeysForOrganization(input.organizationId);
+};
+
+export const createOrganizationApiKey = async (
+  input: Omit<CreateApiKeyInput, "userId" | "organizationId" | "createdByUserId"> & {
+    actorUserId: string;
+    organizationId: string;
+  }
+) => {
+  const { actorUserId, organizationId, ...keyInput } = input;
+  const { organization } = await assertOrganizationRole({
+    organizationId,
+    userId: actorUserId,
+    roles: KEY_MANAGER_ROLES,
+  });
+
+  return createApiKeyForUser({
+    ...keyInput,
+    userId: organization.serviceAccountUserId,
+    organizationId,
+    createdByUserId: actorUserId,
+  });
+};
+
+export const rotateOrganizationApiKey = async (
+  input: Omit<Parameters<typeof rotateApiKeyForUser>[0], "userId"> & {
+    actorUserId: string;
+    organizationId: string;
+  }
+) => {
+  const { organizationId, ...rotateInput } = input;
+  const { organization } = await assertOrganizationRole({
+    organizationId,
+    userId: input.actorUserId,
+    roles: KEY_MANAGER_ROLES,
+  });
+
+  return rotateApiKeyForUser({
+    ...rotateInput,
+    userId: organization.serviceAccountUserId,
+  });
+};
+
+export const revokeOrganizationApiKey = async (
+  input: Omit<Parameters<typeof revokeApiKeyForUser>[0], "userId"> & {
+    actorUserId: string;
+    organizationId: string;
+  }
+) => {
+  const { organizationId, ...revokeInput } = input;
+  const { organization } = await assertOrganizationRole({
+    organizationId,
+    userId: input.actorUserId,
+    roles: KEY_MANAGER_ROLES,
+  });
+
+  return revokeApiKeyForUser({
+    ...revokeInput,
+    userId: organization.serviceAccountUserId,
+  });
+};
@@ -0,0 +1,649 @@
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+
+import { and, asc, count, desc, eq, inArray, isNull, lte, or, sql } from "drizzle-orm";
+
+import { authDb } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import { backendEnv } from "../config/env";
+import { HttpError } from "../lib/http-error";
+import { assertPublicHostname, PrivateNetworkAddressError, publicOnlyLookup } from "../lib/network-guard";
+
+export const OUTBOUND_WEBHOOK_EVENT_TYPES = [
+  "post.created",
+  "comment.created",
+  "mention",
+  "reaction",
+  "report.resolved",
+  "ens.registered",
+  "ens.expiring",
+] as const;
+
+export type OutboundWebhookEventType = (typeof OUTBOUND_WEBHOOK_EVENT_TYPES)[number];
+
+type SubscriptionRecord = typeof schema.outboundWebhookSubscriptions.$inferSelect;
+type DeliveryRecord = typeof schema.outboundWebhookDeliveries.$inferSelect;
+type DeliveryStatus = DeliveryRecord["status"];
+
+type FetchLike = (url: string, init: RequestInit) => Promise<Pick<Response, "status" | "ok">>;
+
+export type DeliverOutboundWebhooksDependencies = {
+  fetch: FetchLike;
+};
+
+export type DeliverOutboundWebhooksResult = {
+  scanned: number;
+  delivered: number;
+  failed: number;
+  deadLettered: number;
+  startedAt: Date;
+  finishedAt: Date;
+  errors: Array<{ deliveryId: string; subscriptionId: string; code: string; message: string }>;
+};
+
+const MAX_BATCH_LIMIT = 500;
+const ERROR_CLASS_LIMIT = 64;
+
+const clampBatchLimit = (value: number | undefined): number => {
+  if (!value || !Number.isInteger(value)) {
+    return backendEnv.outboundWebhook.batchLimit;
+  }
+
+  return Math.max(1, Math.min(value, MAX_BATCH_LIMIT));
+};
+
+const retryDelayMs = (attemptCount: number): number => {
+  const exponent = Math.max(0, attemptCount - 1);
+  const delay = backendEnv.outboundWebhook.baseDelayMs * 2 ** exponent;
+  return Math.min(delay, backendEnv.outboundWebhook.maxDelayMs);
+};
+
+const normalizeEventTypes = (eventTypes: string[]): OutboundWebhookEventType[] => {
+  const normalized = [...new Set(eventTypes.map((eventType) => eventType.trim().toLowerCase()))].sort();
+  const invalid = normalized.find(
+    (eventType) => !OUTBOUND_WEBHOOK_EVENT_TYPES.includes(eventType as OutboundWebhookEventType)
+  );
+  if (invalid) {
+    throw new HttpError(400, "WEBHOOK_EVENT_TYPE_INVALID", `Unsupported webhook event type: ${invalid}`, {
+      supportedEventTypes: OUTBOUND_WEBHOOK_EVENT_TYPES,
+    });
+  }
+
+  if (normalized.length === 0) {
+    throw new HttpError(400, "WEBHOOK_EVENT_TYPE_REQUIRED", "At least one webhook event type is required");
+  }
+
+  return normalized as OutboundWebhookEventType[];
+};
+
+const assertPublicWebhookTarget = async (url: URL): Promise<void> => {
+  if (backendEnv.outboundWebhook.allowPrivateNetworks) {
+    return;
+  }
+
+  try {
+    await assertPublicHostname(url.hostname);
+  } catch (error) {
+    if (error instanceof PrivateNetworkAddressError) {
+      throw new HttpError(400, "WEBHOOK_URL_FORBIDDEN", "Webhook URL must resolve to a public internet address");
+    }
+
+    throw new HttpError(400, "WEBHOOK_URL_UNRESOLVABLE", "Webhook URL host could not be resolved");
+  }
+};
+
+const normalizeWebhookUrl = async (value: string): Promise<string> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(value.trim());
+  } catch {
+    throw new HttpError(400, "WEBHOOK_URL_INVALID", "Webhook URL is not a valid URL");
+  }
+
+  const allowedProtocols = backendEnv.outboundWebhook.allowHttp ? ["https:", "http:"] : ["https:"];
+  if (!allowedProtocols.includes(parsed.protocol)) {
+    throw new HttpError(400, "WEBHOOK_URL_INSECURE", "Webhook URL must use https");
+  }
+
+  if (parsed.username || parsed.password) {
+    throw new HttpError(400, "WEBHOOK_URL_INVALID", "Webhook URL must not contain credentials");
+  }
+
+  await assertPublicWebhookTarget(parsed);
+
+  parsed.hash = "";
+  return parsed.toString();
+};
+
+const toSubscriptionView = (subscription: SubscriptionRecord) => ({
+  id: subscription.id,
+  url: subscription.url,
+  description: subscription.description,
+  eventTypes: Array.isArray(subscription.eventTypes) ? (subscription.eventTypes as string[]) : [],
+  status: subscription.status,
+  apiKeyId: subscription.apiKeyId,
+  lastDeliveryAt: subscription.lastDeliveryAt,
+  lastFailureAt: subscription.lastFailureAt,
+  createdAt: subscription.createdAt,
+  updatedAt: subscription.updatedAt,
+});
+
+const loadUserSubscription = async (userId: string, subscriptionId: string): Promise<SubscriptionRecord> => {
+  const [subscription] = await authDb
+    .select()
+    .from(schema.outboundWebhookSubscriptions)
+    .where(
+      and(
+        eq(schema.outboundWebhookSubscriptions.id, subscriptionId),
+        eq(schema.outboundWebhookSubscriptions.userId, userId)
+      )
+    )
+    .limit(1);
+
+  if (!subscription) {
+    throw new HttpError(404, "WEBHOOK_SUBSCRIPTION_NOT_FOUND", "Webhook subscription not found");
+  }
+
+  return subscription;
+};
+
+export const signOutboundWebhookPayload = (input: { secret: string; timestamp: number; body: string }): string =>
+  `sha256=${createHmac("sha256", input.secret).update(`${input.timestamp}.${input.body}`).digest("hex")}`;
+
+export const createOutboundWebhookSubscription = async (input: {
+  userId: string;
+  apiKeyId?: string | null;
+  url: string;
+  description?: string;
+  eventTypes: string[];
+}) => {
+  const url = await normalizeWebhookUrl(input.url);
+  const eventTypes = normalizeEventTypes(input.eventTypes);
+
+  const [existing] = await authDb
+    .select({ total: count() })
+    .from(schema.outboundWebhookSubscriptions)
+    .where(eq(schema.outboundWebhookSubscriptions.userId, input.userId));
+  if ((existing?.total ?? 0) >= backendEnv.outboundWebhook.maxSubscriptions) {
+    throw new HttpError(
+      409,
+      "WEBHOOK_SUBSCRIPTION_LIMIT",
+      `At most ${backendEnv.outboundWebhook.maxSubscriptions} webhook subscriptions are allowed per account`
+    );
+  }
+
+  const now = new Date();
+  const signingSecret = `whsec_${randomBytes(32).toString("base64url")}`;
+  const [subscription] = await authDb
+    .insert(schema.outboundWebhookSubscriptions)
+    .values({
+      id: randomUUID(),
+      userId: input.userId,
+      apiKeyId: input.apiKeyId ?? null,
+      url,
+      description: input.description?.trim() || null,
+      eventTypes,
+      signingSecret,
+      status: "active",
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  return {
+    subscription: toSubscriptionView(subscription),
+    signingSecret,
+  };
+};
+
+export const listOutboundWebhookSubscriptions = async (userId: string) => {
+  const subscriptions = await authDb
+    .select()
+    .from(schema.outboundWebhookSubscriptions)
+    .where(eq(schema.outboundWebhookSubscriptions.userId, userId))
+    .orderBy(desc(schema.outboundWebhookSubscriptions.createdAt));
+
+  return {
+    subscriptions: subscriptions.map(toSubscriptionView),
+    supportedEventTypes: OUTBOUND_WEBHOOK_EVENT_TYPES,
+  };
+};
+
+export const updateOutboundWebhookSubscription = async (input: {
+  userId: string;
+  subscriptionId: string;
+  url?: string;
+  description?: string | null;
+  eventTypes?: string[];
+  status?: SubscriptionRecord["status"];
+}) => {
+  await loadUserSubscription(input.userId, input.subscriptionId);
+  const url = input.url !== undefined ? await normalizeWebhookUrl(input.url) : undefined;
+
+  const [subscription] = await authDb
+    .update(schema.outboundWebhookSubscriptions)
+    .set({
+      ...(url !== undefined ? { url } : {}),
+      ...(input.description !== undefined ? { description: input.description?.trim() || null } : {}),
+      ...(input.eventTypes !== undefined ? { eventTypes: normalizeEventTypes(input.eventTypes) } : {}),
+      ...(input.status !== undefined ? { status: input.status } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.outboundWebhookSubscriptions.id, input.subscriptionId))
+    .returning();
+
+  return {
+    subscription: toSubscriptionView(subscription),
+  };
+};
+
+export const deleteOutboundWebhookSubscription = async (input: { userId: string; subscriptionId: string }) => {
+  await loadUserSubscription(input.userId, input.subscriptionId);
+  await authDb
+    .delete(schema.outboundWebhookSubscriptions)
+    .where(eq(schema.outboundWebhookSubscriptions.id, input.subscriptionId));
+
+  return {
+    deleted: true,
+    subscriptionId: input.subscriptionId,
+  };
+};
+
+export const listOutboundWebhookDeliveries = async (input: {
+  userId: string;
+  subscriptionId: string;
+  status?: DeliveryStatus;
+  limit?: number;
+}) => {
+  await loadUserSubscription(input.userId, input.subscriptionId);
+
+  const deliveries = await authDb
+    .select({
+      id: schema.outboundWebhookDeliveries.id,
+      eventType: schema.outboundWebhookDeliveries.eventType,
+      status: schema.outboundWebhookDeliveries.status,
+      attemptCount: schema.outboundWebhookDeliveries.attemptCount,
+      responseStatus: schema.outboundWebhookDeliveries.responseStatus,
+      durationMs: schema.outboundWebhookDeliveries.durationMs,
+      lastErrorCode: schema.outboundWebhookDeliveries.lastErrorCode,
+      lastErrorMessage: schema.outboundWebhookDeliveries.lastErrorMessage,
+      payload: schema.outboundWebhookDeliveries.payload,
+      nextRetryAt: schema.outboundWebhookDeliveries.nextRetryAt,
+      deliveredAt: schema.outboundWebhookDeliveries.deliveredAt,
+      deadLetteredAt: schema.outboundWebhookDeliveries.deadLetteredAt,
+      createdAt: schema.outboundWebhookDeliveries.createdAt,
+      updatedAt: schema.outboundWebhookDeliveries.updatedAt,
+    })
+    .from(schema.outboundWebhookDeliveries)
+    .where(
+      and(
+        eq(schema.outboundWebhookDeliveries.subscriptionId, input.subscriptionId),
+        input.status ? eq(schema.outboundWebhookDeliveries.status, input.status) : undefined
+      )
+    )
+    .orderBy(desc(schema.outboundWebhookDeliveries.createdAt))
+    .limit(Math.max(1, Math.min(100, input.limit ?? 50)));
+
+  return {
+    deliveries,
+  };
+};
+
+export const redeliverOutboundWebhookDelivery = async (input: {
+  userId: string;
+  subscriptionId: string;
+  deliveryId: string;
+}) => {
+  await loadUserSubscription(input.userId, input.subscriptionId);
+
+  const now = new Date();
+  const [delivery] = await authDb
+    .update(schema.outboundWebhookDeliveries)
+    .set({
+      status: "pending",
+      attemptCount: 0,
+      nextRetryAt: now,
+      deadLetteredAt: null,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(schema.outboundWebhookDeliveries.id, input.deliveryId),
+        eq(schema.outboundWebhookDeliveries.subscriptionId, input.subscriptionId),
+        inArray(schema.outboundWebhookDeliveries.status, ["delivered", "failed", "dead_letter"])
+      )
+    )
+    .returning({ id: schema.outboundWebhookDeliveries.id });
+
+  if (!delivery) {
+    throw new HttpError(409, "WEBHOOK_DELIVERY_NOT_REDELIVERABLE", "Delivery not found or still in flight");
+  }
+
+  return {
+    deliveryId: delivery.id,
+    status: "pending" as const,
+  };
+};
+
+// Queues one delivery per matching active subscription; recipient-scoped events only reach the recipient's hooks.
+export const emitOutboundWebhookEvent = async (input: {
+  eventType: OutboundWebhookEventType;
+  dedupeKey: string;
+  recipientUserId?: string | null;
+  data: Record<string, unknown>;
+}): Promise<number> => {
+  try {
+    const subscriptions = await authDb
+      .select({ id: schema.outboundWebhookSubscriptions.id })
+      .from(schema.outboundWebhookSubscriptions)
+      .where(
+        and(
+          eq(schema.outboundWebhookSubscriptions.status, "active"),
+          sql`${schema.outboundWebhookSubscriptions.eventTypes} @> ${JSON.stringify([input.eventType])}::jsonb`,
+          input.recipientUserId ? eq(schema.outboundWebhookSubscriptions.userId, input.recipientUserId) : undefined
+        )
+      );
+
+    if (subscriptions.length === 0) {
+      return 0;
+    }
+
+    const now = new Date();
+    const queued = await authDb
+      .insert(schema.outboundWebhookDeliveries)
+      .values(
+        subscriptions.map((subscription) => ({
+          id: randomUUID(),
+          subscriptionId: subscription.id,
+          eventType: input.eventType,
+          dedupeKey: input.dedupeKey,
+          payload: input.data,
+          status: "pending" as const,
+          nextRetryAt: now,
+          createdAt: now,
+          updatedAt: now,
+        }))
+      )
+      .onConflictDoNothing()
+      .returning({ id: schema.outboundWebhookDeliveries.id });
+
+    return queued.length;
+  } catch {
+    // Ignore queueing failures so the originating forum or ENS action still succeeds.
+    return 0;
+  }
+};
+
+export const emitEnsRegisteredWebhookEvent = async (input: {
+  intent: typeof schema.ensPurchaseIntents.$inferSelect;
+  ownerAddress: string;
+  expiresAt: Date | null;
+  txHash: string | null;
+}): Promise<number> =>
+  emitOutboundWebhookEvent({
+    eventType: "ens.registered",
+    dedupeKey: `ens.registered:${input.intent.id}`,
+    recipientUserId: input.intent.userId,
+    data: {
+      intentId: input.intent.id,
+      domainName: input.intent.domainName,
+      chainId: input.intent.chainId,
+      tld: input.intent.tld,
+      ownerAddress: input.ownerAddress,
+      txHash: input.txHash,
+      expiresAt: input.expiresAt?.toISOString() ?? null,
+    },
+  });
+
+const reserveDueDeliveries = async (limit: number): Promise<DeliveryRecord[]> => {
+  const now = new Date();
+  const candidates = await authDb
+    .select({ delivery: schema.outboundWebhookDeliveries })
+    .from(schema.outboundWebhookDeliveries)
+    .innerJoin(
+      schema.outboundWebhookSubscriptions,
+      eq(schema.outboundWebhookSubscriptions.id, schema.outboundWebhookDeliveries.subscriptionId)
+    )
+    .where(
+      and(
+        eq(schema.outboundWebhookSubscriptions.status, "active"),
+        inArray(schema.outboundWebhookDeliveries.status, ["pending", "failed"]),
+        or(isNull(schema.outboundWebhookDeliveries.nextRetryAt), lte(schema.outboundWebhookDeliveries.nextRetryAt, now))
+      )
+    )
+    .orderBy(asc(schema.outboundWebhookDeliveries.nextRetryAt), asc(schema.outboundWebhookDeliveries.createdAt))
+    .limit(limit);
+
+  const reserved: DeliveryRecord[] = [];
+  for (const { delivery } of candidates) {
+    const [row] = await authDb
+      .update(schema.outboundWebhookDeliveries)
+      .set({
+        status: "processing",
+        attemptCount: delivery.attemptCount + 1,
+        nextRetryAt: null,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(schema.outboundWebhookDeliveries.id, delivery.id),
+          eq(schema.outboundWebhookDeliveries.status, delivery.status)
+        )
+      )
+      .returning();
+
+    if (row) {
+      reserved.push(row);
+    }
+  }
+
+  return reserved;
+};
+
+const markDeliverySucceeded = async (
+  delivery: DeliveryRecord,
+  result: { responseStatus: number; durationMs: number }
+): Promise<void> => {
+  const now = new Date();
+  await authDb
+    .update(schema.outboundWebhookDeliveries)
+    .set({
+      status: "delivered",
+      responseStatus: result.responseStatus,
+      durationMs: result.durationMs,
+      lastErrorCode: null,
+      lastErrorMessage: null,
+      nextRetryAt: null,
+      deliveredAt: now,
+      deadLetteredAt: null,
+      updatedAt: now,
+    })
+    .where(eq(schema.outboundWebhookDeliveries.id, delivery.id));
+
+  await authDb
+    .update(schema.outboundWebhookSubscriptions)
+    .set({ lastDeliveryAt: now })
+    .where(eq(schema.outboundWebhookSubscriptions.id, delivery.subscriptionId));
+};
+
+const markDeliveryFailed = async (
+  delivery: DeliveryRecord,
+  failure: { code: string; message: string; responseStatus?: number; durationMs?: number }
+): Promise<DeliveryStatus> => {
+  const now = new Date();
+  const shouldMoveToDeadLetter = delivery.attemptCount >= backendEnv.outboundWebhook.maxAttempts;
+  const nextStatus: DeliveryStatus = shouldMoveToDeadLetter ? "dead_letter" : "failed";
+
+  await authDb
+    .update(schema.outboundWebhookDeliveries)
+    .set({
+      status: nextStatus,
+      responseStatus: failure.responseStatus ?? null,
+      durationMs: failure.durationMs ?? null,
+      lastErrorCode: failure.code,
+      lastErrorMessage: failure.message,
+      nextRetryAt: shouldMoveToDeadLetter ? null : new Date(now.getTime() + retryDelayMs(delivery.attemptCount)),
+      deadLetteredAt: shouldMoveToDeadLetter ? now : null,
+      updatedAt: now,
+    })
+    .where(eq(schema.outboundWebhookDeliveries.id, delivery.id));
+
+  await authDb
+    .update(schema.outboundWebhookSubscriptions)
+    .set({ lastFailureAt: now })
+    .where(eq(schema.outboundWebhookSubscriptions.id, delivery.subscriptionId));
+
+  return nextStatus;
+};
+
+// Responses are never read: redirects are not followed and bodies are discarded so endpoints cannot echo data back.
+const postWithPublicOnlyLookup: FetchLike = (url, init) =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const send = target.protocol === "https:" ? httpsRequest : httpRequest;
+    const request = send(
+      target,
+      {
+        method: init.method,
+        headers: init.headers as Record<string, string>,
+        signal: init.signal ?? undefined,
+        ...(backendEnv.outboundWebhook.allowPrivateNetworks ? {} : { lookup: publicOnlyLookup }),
+      },
+      (response) => {
+        response.resume();
+        const status = response.statusCode ?? 0;
+        resolve({ status, ok: status >= 200 && status < 300 });
+      }
+    );
+    request.once("error", reject);
+    request.end(typeof init.body === "string" ? init.body : undefined);
+  });
+
+const defaultDeliverDependencies: DeliverOutboundWebhooksDependencies = {
+  fetch: postWithPublicOnlyLookup,
+};
+
+// Only an error class is kept; raw error messages can describe the subscriber's network.
+const toErrorClass = (error: unknown): string => {
+  const code = error instanceof Error ? ((error as NodeJS.ErrnoException).code ?? error.name) : "UnknownError";
+  return code.slice(0, ERROR_CLASS_LIMIT);
+};
+
+const isTimeoutError = (error: unknown): boolean =>
+  error instanceof Error &&
+  (error.name === "TimeoutError" ||
+    (error.name === "AbortError" && (error.cause as Error | undefined)?.name === "TimeoutError"));
+
+export const deliverDueOutboundWebhooks = async (
+  input: { limit?: number } = {},
+  deps: DeliverOutboundWebhooksDependencies = defaultDeliverDependencies
+): Promise<DeliverOutboundWebhooksResult> => {
+  const startedAt = new Date();
+  const deliveries = await reserveDueDeliveries(clampBatchLimit(input.limit));
+  const subscriptionIds = [...new Set(deliveries.map((delivery) => delivery.subscriptionId))];
+  const subscriptions =
+    subscriptionIds.length === 0
+      ? []
+      : await authDb
+          .select()
+          .from(schema.outboundWebhookSubscriptions)
+          .where(inArray(schema.outboundWebhookSubscriptions.id, subscriptionIds));
+  const subscriptionById = new Map(subscriptions.map((subscription) => [subscription.id, subscription]));
+
+  const errors: DeliverOutboundWebhooksResult["errors"] = [];
+  let delivered = 0;
+  let failed = 0;
+  let deadLettered = 0;
+
+  for (const delivery of deliveries) {
+    const subscription = subscriptionById.get(delivery.subscriptionId);
+    if (!subscription) {
+      continue;
+    }
+
+    const body = JSON.stringify({
+      id: delivery.id,
+      type: delivery.eventType,
+      createdAt: delivery.createdAt.toISOString(),
+      data: delivery.payload,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const started = Date.now();
+
+    let failure: Parameters<typeof markDeliveryFailed>[1];
+    try {
+      // Re-checked on every attempt: the host may resolve differently than it did when the subscription was saved.
+      await assertPublicWebhookTarget(new URL(subscription.url));
+      const response = await deps.fetch(subscription.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "user-agent": "EvergreenDevparty-Webhooks/1.0",
+          "x-webhook-event": delivery.eventType,
+          "x-webhook-delivery": delivery.id,
+          "x-webhook-timestamp": String(timestamp),
+          "x-webhook-signature": signOutboundWebhookPayload({ secret: subscription.signingSecret, timestamp, body }),
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(backendEnv.outboundWebhook.timeoutMs),
+      });
+      const durationMs = Date.now() - started;
+
+      if (response.ok) {
+        await markDeliverySucceeded(delivery, { responseStatus: response.status, durationMs });
+        delivered += 1;
+        continue;
+      }
+
+      failure = {
+        code: "WEBHOOK_ENDPOINT_REJECTED",
+        message: `Endpoint responded with HTTP ${response.status}`,
+        responseStatus: response.status,
+        durationMs,
+      };
+    } catch (error) {
+      const forbidden =
+        (error instanceof HttpError && error.code === "WEBHOOK_URL_FORBIDDEN") ||
+        error instanceof PrivateNetworkAddressError ||
+        (error instanceof Error && error.cause instanceof PrivateNetworkAddressError);
+      failure = {
+        code: forbidden
+          ? "WEBHOOK_URL_FORBIDDEN"
+          : isTimeoutError(error)
+            ? "WEBHOOK_ENDPOINT_TIMEOUT"
+            : "WEBHOOK_ENDPOINT_UNREACHABLE",
+        message: error instanceof HttpError ? error.code : toErrorClass(error),
+        durationMs: Date.now() - started,
+      };
+    }
+
+    const status = await markDeliveryFailed(delivery, failure);
+    if (status === "dead_letter") {
+      deadLettered += 1;
+    } else {
+      failed += 1;
+    }
+
+    if (errors.length < 100) {
+      errors.push({
+        deliveryId: delivery.id,
+        subscriptionId: delivery.subscriptionId,
+        code: failure.code,
+        message: failure.message,
+      });
+    }
+  }
+
+  return {
+    scanned: deliveries.length,
+    delivered,
+    failed,
+    deadLettered,
+    startedAt,
+    finishedAt: new Date(),
+    errors,
+  };
+};
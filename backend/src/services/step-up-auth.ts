@@ -0,0 +1,45 @@
+import { and, eq } from "drizzle-orm";
+
+import { authDb, verifySecretValue } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import { HttpError } from "../lib/http-error";
+
+const toDate = (value: Date | string | null | undefined): Date | null => {
+  if (!value) {
+    return null;
+  }
+
+  if (value instanceof Date) {
+    return value;
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+export const isSessionFresh = (sessionUpdatedAt: Date | string | null | undefined, freshSeconds: number): boolean => {
+  const updatedAt = toDate(sessionUpdatedAt) ?? new Date(0);
+  return Date.now() - updatedAt.getTime() <= freshSeconds * 1000;
+};
+
+export const verifyCurrentPassword = async (userId: string, password: string): Promise<void> => {
+  const [credentialAccount] = await authDb
+    .select({ passwordHash: schema.authAccounts.password })
+    .from(schema.authAccounts)
+    .where(and(eq(schema.authAccounts.userId, userId), eq(schema.authAccounts.providerId, "credential")))
+    .limit(1);
+
+  if (!credentialAccount?.passwordHash) {
+    throw new HttpError(403, "SESSION_REAUTH_REQUIRED", "Password-based re-authentication is unavailable for this account");
+  }
+
+  const verified = await verifySecretValue({
+    hash: credentialAccount.passwordHash,
+    value: password,
+  });
+
+  if (!verified) {
+    throw new HttpError(403, "SESSION_REAUTH_REQUIRED", "Current password is invalid");
+  }
+};
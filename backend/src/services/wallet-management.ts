@@ -0,0 +1,382 @@
+import { randomUUID } from "node:crypto";
+
+import { and, desc, eq, ne } from "drizzle-orm";
+
+import { authDb, verifySiweChallenge } from "@evergreen-devparty/auth";
+import { schema } from "@evergreen-devparty/db";
+
+import { backendEnv } from "../config/env";
+import { HttpError } from "../lib/http-error";
+import { isSessionFresh, verifyCurrentPassword } from "./step-up-auth";
+
+type WalletRecord = typeof schema.wallets.$inferSelect;
+type WalletAuditAction = (typeof schema.walletAuditActionEnum.enumValues)[number];
+
+export type WalletStepUpMethod = "siwe" | "session" | "password";
+
+export type WalletStepUpInput = {
+  userId: string;
+  sessionUpdatedAt?: string | Date | null;
+  currentPassword?: string;
+  message?: string;
+  signature?: string;
+  requestIp?: string;
+  requestUserAgent?: string;
+};
+
+const sanitize = (value: string | undefined | null): string | null => {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed.slice(0, 512) : null;
+};
+
+const siweAccountIdFor = (wallet: Pick<WalletRecord, "chainId" | "address">): string =>
+  `${wallet.chainId}:${wallet.address.toLowerCase()}`;
+
+export const mapSiweErrorToHttpError = (error: unknown): HttpError | null => {
+  if (!(error instanceof Error)) {
+    return null;
+  }
+
+  const message = error.message.toLowerCase();
+  if (message.includes("signature") || message.includes("nonce") || message.includes("siwe")) {
+    return new HttpError(400, "SIWE_VERIFICATION_FAILED", "SIWE verification failed");
+  }
+
+  return null;
+};
+
+export const recordWalletAuditEvent = async (input: {
+  userId: string;
+  action: WalletAuditAction;
+  outcome: "success" | "denied";
+  wallet?: Pick<WalletRecord, "id" | "chainId" | "address"> | null;
+  stepUpMethod?: WalletStepUpMethod | null;
+  reasonCode?: string | null;
+  requestIp?: string;
+  requestUserAgent?: string;
+  metadata?: Record<string, unknown>;
+}): Promise<void> => {
+  try {
+    await authDb.insert(schema.walletAuditEvents).values({
+      id: randomUUID(),
+      userId: input.userId,
+      walletId: input.wallet?.id ?? null,
+      chainId: input.wallet?.chainId ?? null,
+      address: input.wallet?.address ?? null,
+      action: input.action,
+      outcome: input.outcome,
+      stepUpMethod: input.stepUpMethod ?? null,
+      reasonCode: input.reasonCode ?? null,
+      ipAddress: sanitize(input.requestIp),
+      userAgent: sanitize(input.requestUserAgent),
+      metadata: input.metadata ?? {},
+    });
+  } catch {
+    // Ignore audit write failures to avoid masking the request result.
+  }
+};
+
+export const listUserWallets = async (userId: string, chainId?: number) =>
+  authDb
+    .select()
+    .from(schema.wallets)
+    .where(
+      chainId === undefined
+        ? eq(schema.wallets.userId, userId)
+        : and(eq(schema.wallets.userId, userId), eq(schema.wallets.chainId, chainId))
+    )
+    .orderBy(desc(schema.wallets.isPrimary), desc(schema.wallets.updatedAt));
+
+export const listWalletAuditEvents = async (input: { userId: string; limit?: number }) =>
+  authDb
+    .select()
+    .from(schema.walletAuditEvents)
+    .where(eq(schema.walletAuditEvents.userId, input.userId))
+    .orderBy(desc(schema.walletAuditEvents.createdAt))
+    .limit(Math.max(1, Math.min(100, input.limit ?? 50)));
+
+const loadUserWallet = async (userId: string, walletId: string): Promise<WalletRecord> => {
+  const [wallet] = await authDb
+    .select()
+    .from(schema.wallets)
+    .where(and(eq(schema.wallets.id, walletId), eq(schema.wallets.userId, userId)))
+    .limit(1);
+
+  if (!wallet) {
+    throw new HttpError(404, "WALLET_NOT_FOUND", "Wallet not found");
+  }
+
+  return wallet;
+};
+
+const resolveWalletStepUp = async (input: WalletStepUpInput): Promise<WalletStepUpMethod> => {
+  if (input.message && input.signature) {
+    let verification: Awaited<ReturnType<typeof verifySiweChallenge>>;
+    try {
+      verification = await verifySiweChallenge({
+        db: authDb,
+        message: input.message,
+        signature: input.signature,
+      });
+    } catch (error) {
+      throw mapSiweErrorToHttpError(error) ?? error;
+    }
+
+    const [signer] = await authDb
+      .select({ id: schema.wallets.id })
+      .from(schema.wallets)
+      .where(
+        and(
+          eq(schema.wallets.userId, input.userId),
+          eq(schema.wallets.chainId, verification.chainId),
+          eq(schema.wallets.address, verification.address)
+        )
+      )
+      .limit(1);
+
+    if (!signer) {
+      throw new HttpError(403, "SESSION_REAUTH_REQUIRED", "SIWE signature must come from a wallet linked to this account");
+    }
+
+    return "siwe";
+  }
+
+  if (isSessionFresh(input.sessionUpdatedAt, backendEnv.walletSessionFreshSeconds)) {
+    return "session";
+  }
+
+  if (input.currentPassword) {
+    await verifyCurrentPassword(input.userId, input.currentPassword);
+    return "password";
+  }
+
+  throw new HttpError(
+    403,
+    "SESSION_REAUTH_REQUIRED",
+    "Please re-authenticate with a fresh session, a SIWE signature or currentPassword"
+  );
+};
+
+const withDeniedAudit = async <T>(
+  input: WalletStepUpInput & {
+    action: WalletAuditAction;
+    wallet: Pick<WalletRecord, "id" | "chainId" | "address"> | null;
+  },
+  task: () => Promise<T>
+): Promise<T> => {
+  try {
+    return await task();
+  } catch (error) {
+    if (error instanceof HttpError) {
+      await recordWalletAuditEvent({
+        userId: input.userId,
+        action: input.action,
+        outcome: "denied",
+        wallet: input.wallet,
+        reasonCode: error.code,
+        requestIp: input.requestIp,
+        requestUserAgent: input.requestUserAgent,
+      });
+    }
+
+    throw error;
+  }
+};
+
+const assertWalletNotBackingEnsNames = async (userId: string, wallet: WalletRecord): Promise<void> => {
+  const address = wallet.address.toLowerCase();
+
+  const [identities, subnames] = await Promise.all([
+    authDb
+      .select({ name: schema.ensIdentities.name })
+      .from(schema.ensIdentities)
+      .where(
+        and(
+          eq(schema.ensIdentities.userId, userId),
+          eq(schema.ensIdentities.chainId, wallet.chainId),
+          eq(schema.ensIdentities.ownerAddress, address),
+          eq(schema.ensIdentities.status, "active")
+        )
+      ),
+    authDb
+      .select({ name: schema.ensSubnames.name })
+      .from(schema.ensSubnames)
+      .where(
+        and(
+          eq(schema.ensSubnames.recipientUserId, userId),
+          eq(schema.ensSubnames.ownerAddress, address),
+          eq(schema.ensSubnames.status, "active")
+        )
+      ),
+  ]);
+
+  const names = [...identities, ...subnames].map((row) => row.name);
+  if (names.length > 0) {
+    throw new HttpError(
+      409,
+      "WALLET_OWNS_ACTIVE_ENS",
+      `Wallet still owns active ENS names: ${names.slice(0, 5).join(", ")}. Transfer them before unlinking`
+    );
+  }
+};
+
+const assertOtherSignInMethodRemains = async (userId: string, wallet: WalletRecord): Promise<void> => {
+  const accounts = await authDb
+    .select({
+      providerId: schema.authAccounts.providerId,
+      accountId: schema.authAccounts.accountId,
+      password: schema.authAccounts.password,
+    })
+    .from(schema.authAccounts)
+    .where(eq(schema.authAccounts.userId, userId));
+
+  const walletAccountId = siweAccountIdFor(wallet);
+  const remaining = accounts.filter((account) => {
+    if (account.providerId === "siwe") {
+      return account.accountId.toLowerCase() !== walletAccountId;
+    }
+
+    if (account.providerId === "credential") {
+      return Boolean(account.password);
+    }
+
+    return true;
+  });
+
+  if (remaining.length === 0) {
+    throw new HttpError(
+      409,
+      "LAST_SIGN_IN_METHOD",
+      "Cannot unlink the only sign-in method on this account. Add a password, social login or another wallet first"
+    );
+  }
+};
+
+export const unlinkWalletForUser = async (input: WalletStepUpInput & { walletId: string }) => {
+  const wallet = await loadUserWallet(input.userId, input.walletId);
+
+  const stepUpMethod = await withDeniedAudit({ ...input, action: "unlinked", wallet }, async () => {
+    const method = await resolveWalletStepUp(input);
+    await assertWalletNotBackingEnsNames(input.userId, wallet);
+    await assertOtherSignInMethodRemains(input.userId, wallet);
+    return method;
+  });
+
+  const now = new Date();
+  const promotedWallet = await authDb.transaction(async (tx) => {
+    await tx.delete(schema.wallets).where(eq(schema.wallets.id, wallet.id));
+    await tx
+      .delete(schema.authAccounts)
+      .where(
+        and(
+          eq(schema.authAccounts.userId, input.userId),
+          eq(schema.authAccounts.providerId, "siwe"),
+          eq(schema.authAccounts.accountId, siweAccountIdFor(wallet))
+        )
+      );
+
+    if (!wallet.isPrimary) {
+      return null;
+    }
+
+    const [nextPrimary] = await tx
+      .select()
+      .from(schema.wallets)
+      .where(and(eq(schema.wallets.userId, input.userId), ne(schema.wallets.id, wallet.id)))
+      .orderBy(desc(schema.wallets.updatedAt))
+      .limit(1);
+
+    if (!nextPrimary) {
+      return null;
+    }
+
+    const [promoted] = await tx
+      .update(schema.wallets)
+      .set({ isPrimary: true, updatedAt: now })
+      .where(eq(schema.wallets.id, nextPrimary.id))
+      .returning();
+
+    return promoted ?? null;
+  });
+
+  await recordWalletAuditEvent({
+    userId: input.userId,
+    action: "unlinked",
+    outcome: "success",
+    wallet,
+    stepUpMethod,
+    requestIp: input.requestIp,
+    requestUserAgent: input.requestUserAgent,
+    metadata: {
+      wasPrimary: wallet.isPrimary,
+      promotedWalletId: promotedWallet?.id ?? null,
+    },
+  });
+
+  return {
+    unlinked: true,
+    walletId: wallet.id,
+    address: wallet.address,
+    chainId: wallet.chainId,
+    primaryWallet: promotedWallet,
+  };
+};
+
+export const setPrimaryWalletForUser = async (input: WalletStepUpInput & { walletId: string }) => {
+  const wallet = await loadUserWallet(input.userId, input.walletId);
+
+  if (wallet.isPrimary) {
+    return {
+      wallet,
+      changed: false,
+    };
+  }
+
+  const stepUpMethod = await withDeniedAudit({ ...input, action: "primary_changed", wallet }, () =>
+    resolveWalletStepUp(input)
+  );
+
+  const [previousPrimary] = await authDb
+    .select({ id: schema.wallets.id })
+    .from(schema.wallets)
+    .where(and(eq(schema.wallets.userId, input.userId), eq(schema.wallets.isPrimary, true)))
+    .limit(1);
+
+  const now = new Date();
+  const updated = await authDb.transaction(async (tx) => {
+    await tx
+      .update(schema.wallets)
+      .set({ isPrimary: false, updatedAt: now })
+      .where(and(eq(schema.wallets.userId, input.userId), eq(schema.wallets.isPrimary, true)));
+
+    const [row] = await tx
+      .update(schema.wallets)
+      .set({ isPrimary: true, updatedAt: now })
+      .where(eq(schema.wallets.id, wallet.id))
+      .returning();
+
+    return row ?? { ...wallet, isPrimary: true, updatedAt: now };
+  });
+
+  await recordWalletAuditEvent({
+    userId: input.userId,
+    action: "primary_changed",
+    outcome: "success",
+    wallet,
+    stepUpMethod,
+    requestIp: input.requestIp,
+    requestUserAgent: input.requestUserAgent,
+    metadata: {
+      previousPrimaryWalletId: previousPrimary?.id ?? null,
+    },
+  });
+
+  return {
+    wallet: updated,
+    changed: true,
+  };
+};
@@ -3,7 +3,7 @@ import { randomUUID } from "node:crypto";
 import test from "node:test";
 
 import Fastify from "fastify";
-import { eq, inArray, sql } from "drizzle-orm";
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
 
 import type { FastifyRequest } from "fastify";
 
@@ -84,6 +84,10 @@ const buildForumDbTestApp = async () => {
       requireAuthSessionMiddleware: async (request) => {
         getTestUserId(request);
       },
+      getAuthSession: async (request) => {
+        const userId = request.headers["x-test-user-id"];
+        return typeof userId === "string" && userId ? buildTestSession(userId) : null;
+      },
     },
   });
 
@@ -1193,3 +1197,1738 @@ test("forum DB integration enforces max reply depth", async (t) => {
   assert.equal(overflowResponse.statusCode, 400);
   assert.equal(overflowResponse.json().code, "MAX_REPLY_DEPTH_EXCEEDED");
 });
+
+test("forum DB integration records post revisions and hides deleted history from non-moderators", async (t) => {
+  if (!(await canConnectToDatabase())) {
+    t.skip("integration database is not available");
+    return;
+  }
+
+  const authorId = randomUUID();
+  const moderatorId = randomUUID();
+  await insertUser({ id: authorId });
+  await insertUser({ id: moderatorId, role: "moderator" });
+
+  const app = await buildForumDbTestApp();
+  let postId: string | null = null;
+
+  t.after(async () => {
+    await app.close();
+    await cleanupUsersAndQueueTargets({
+      userIds: [authorId, moderatorId],
+      targetIds: [postId].filter((value): value is string => Boolean(value)),
+    });
+  });
+
+  const createPostResponse = await app.inject({
+    method: "POST",
+    url: "/api/forum/posts",
+    headers: {
+      "x-test-user-id": authorId,
+    },
+    payload: {
+      title: `Revision test ${authorId.slice(0, 8)}`,
+      markdown: "first line\nsecond line",
+    },
+  });
+
+  assert.equal(createPostResponse.statusCode, 200);
+  postId = createPostResponse.json().post.id;
+
+  for (const markdown of ["first line\nsecond line edited", "first line\nsecond line edited\nthird line"]) {
+    const editResponse = await app.inject({
+      method: "PATCH",
+      url: `/api/forum/posts/${postId}`,
+      headers: {
+        "x-test-user-id": authorId,
+      },
+      payload: {
+        markdown,
+      },
+    });
+
+    assert.equal(editResponse.statusCode, 200);
+  }
+
+  const revisionsResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${postId}/revisions?from=1&to=3`,
+  });
+
+  assert.equal(revisionsResponse.statusCode, 200);
+  const payload = revisionsResponse.json();
+  assert.deepEqual(
+    payload.revisions.map((revision: { revision: number }) => revision.revision),
+    [1, 2, 3]
+  );
+  assert.equal(payload.diff.fromRevision, 1);
+  assert.equal(payload.diff.toRevision, 3);
+  assert.deepEqual(payload.diff.stats, { added: 2, removed: 1, unchanged: 1 });
+
+  const deleteResponse = await app.inject({
+    method: "DELETE",
+    url: `/api/forum/posts/${postId}`,
+    headers: {
+      "x-test-user-id": authorId,
+    },
+  });
+
+  assert.equal(deleteResponse.statusCode, 200);
+
+  const publicAfterDelete = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${postId}/revisions`,
+  });
+  assert.equal(publicAfterDelete.statusCode, 404);
+
+  const strangerAfterDelete = await app.inject({
+    method: "GET",
+    url: `/api/forum/mod/posts/${postId}/revisions`,
+    headers: {
+      "x-test-user-id": authorId,
+    },
+  });
+  assert.equal(strangerAfterDelete.statusCode, 403);
+
+  const moderatorAfterDelete = await app.inject({
+    method: "GET",
+    url: `/api/forum/mod/posts/${postId}/revisions`,
+    headers: {
+      "x-test-user-id": moderatorId,
+    },
+  });
+  assert.equal(moderatorAfterDelete.statusCode, 200);
+  assert.equal(moderatorAfterDelete.json().status, "soft_deleted");
+  assert.equal(moderatorAfterDelete.json().revisions.length, 3);
+});
+
+test("forum DB integration numbers concurrent post edits and keeps the latest revision in sync", async (t) => {
+  if (!(await canConnectToDatabase())) {
+    t.skip("integration database is not available");
+    return;
+  }
+
+  const authorId = randomUUID();
+  const postId = randomUUID();
+  await insertUser({ id: authorId });
+  await insertForumPostRow({ id: postId, authorId, title: "Concurrent edits", slug: `concurrent-${postId.slice(0, 8)}` });
+
+  const [{ authDb }, { schema }, { updateForumPost }] = await Promise.all([
+    import("@evergreen-devparty/auth"),
+    import("@evergreen-devparty/db"),
+    import("../../../src/services/forum-core.content"),
+  ]);
+
+  t.after(async () => {
+    await cleanupUsersAndQueueTargets({ userIds: [authorId], targetIds: [postId] });
+  });
+
+  const [original] = await authDb.select().from(schema.forumPosts).where(eq(schema.forumPosts.id, postId));
+  assert.ok(original);
+
+  await Promise.all(
+    ["first edit", "second edit", "third edit"].map((markdown) =>
+      updateForumPost({
+        userId: authorId,
+        postId,
+        markdown,
+      })
+    )
+  );
+
+  const stored = await authDb
+    .select({ revision: schema.forumPostRevisions.revision, contentMarkdown: schema.forumPostRevisions.contentMarkdown })
+    .from(schema.forumPostRevisions)
+    .where(eq(schema.forumPostRevisions.postId, postId))
+    .orderBy(asc(schema.forumPostRevisions.revision));
+  assert.deepEqual(stored.map((row) => row.revision), [1, 2, 3, 4]);
+  assert.equal(stored[0]?.contentMarkdown, original.contentMarkdown);
+  assert.deepEqual(stored.slice(1).map((row) => row.contentMarkdown).sort(), ["first edit", "second edit", "third edit"]);
+
+  const [post] = await authDb
+    .select({ contentMarkdown: schema.forumPosts.contentMarkdown })
+    .from(schema.forumPosts)
+    .where(eq(schema.forumPosts.id, postId));
+  assert.equal(post?.contentMarkdown, stored.at(-1)?.contentMarkdown);
+});
+
+test("forum DB integration stores sanitized GFM html for posts and comments", async (t) => {
+  if (!(await canConnectToDatabase())) {
+    t.skip("integration database is not available");
+    return;
+  }
+
+  const authorId = randomUUID();
+
+  await insertUser({ id: authorId });
+
+  const app = await buildForumDbTestApp();
+  let postId: string | null = null;
+  let commentId: string | null = null;
+
+  t.after(async () => {
+    await app.close();
+    await cleanupUsersAndQueueTargets({
+      userIds: [authorId],
+      targetIds: [postId, commentId].filter((value): value is string => Boolean(value)),
+    });
+  });
+
+  const createPostResponse = await app.inject({
+    method: "POST",
+    url: "/api/forum/posts",
+    headers: {
+      "x-test-user-id": authorId,
+    },
+    payload: {
+      title: `GFM post ${authorId.slice(0, 8)}`,
+      markdown: [
+        "| chain | id |",
+        "| --- | --: |",
+        "| devnet | 131 |",
+        "",
+        "- [x] deploy",
+        "",
+        "~~legacy~~ see https://example.com/docs and [bad](javascript:alert(1))",
+        "",
+        "<script>alert(1)</script>",
+      ].join("\n"),
+    },
+  });
+
+  assert.equal(createPostResponse.statusCode, 200);
+  postId = createPostResponse.json().post.id;
+
+  const createCommentResponse = await app.inject({
+    method: "POST",
+    url: `/api/forum/posts/${postId}/comments`,
+    headers: {
+      "x-test-user-id": authorId,
+    },
+    payload: {
+      markdown: "Looks good <img src=x onerror=alert(1)>",
+    },
+  });
+
+  assert.equal(createCommentResponse.statusCode, 200);
+  commentId = createCommentResponse.json().comment.id;
+
+  const detailResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${postId}`,
+  });
+
+  assert.equal(detailResponse.statusCode, 200);
+  const payload = detailResponse.json();
+  const postHtml = payload.post.contentHtml as string;
+  assert.ok(postHtml.includes("<table>"));
+  assert.ok(postHtml.includes('<td align="right">131</td>'));
+  assert.ok(postHtml.includes('<input type="checkbox" checked disabled>'));
+  assert.ok(postHtml.includes("<del>legacy</del>"));
+  assert.ok(postHtml.includes('<a href="https://example.com/docs" target="_blank" rel="noopener noreferrer nofollow">'));
+  assert.ok(!postHtml.includes("javascript:"));
+  assert.ok(!postHtml.includes("<script"));
+
+  const commentHtml = payload.comments[0].contentHtml as string;
+  assert.equal(commentHtml, "<p>Looks good </p>");
+
+  const { authDb } = await import("@evergreen-devparty/auth");
+  const { schema } = await import("@evergreen-devparty/db");
+  const [storedPost] = await authDb
+    .select({ contentHtml: schema.forumPosts.contentHtml })
+    .from(schema.forumPosts)
+    .where(eq(schema.forumPosts.id, postId as string))
+    .limit(1);
+  assert.equal(storedPost?.contentHtml, postHtml);
+});
+
+test("forum DB integration highlights code fences and filters posts by code language", async (t) => {
+  if (!(await canConnectToDatabase())) {
+    t.skip("integration database is not available");
+    return;
+  }
+
+  const authorId = randomUUID();
+
+  await insertUser({ id: authorId });
+
+  const app = await buildForumDbTestApp();
+  let postId: string | null = null;
+
+  t.after(async () => {
+    await app.close();
+    await cleanupUsersAndQueueTargets({
+      userIds: [authorId],
+      targetIds: [postId].filter((value): value is string => Boolean(value)),
+    });
+  });
+
+  const createPostResponse = await app.inject({
+    method: "POST",
+    url: "/api/forum/posts",
+    headers: {
+      "x-test-user-id": authorId,
+    },
+    payload: {
+      title: `Code post ${authorId.slice(0, 8)}`,
+      markdown: [
+        "```ts {2-3} showLineNumbers",
+        "const a = 1;",
+        "const b = 2;",
+        "const c = 3;",
+        "```",
+        "",
+        "```sol",
+        "contract Vault {}",
+        "```",
+        "",
+        "```typescript",
+        "export {};",
+        "```",
+      ].join("\n"),
+    },
+  });
+
+  assert.equal(createPostResponse.statusCode, 200);
+  postId = createPostResponse.json().post.id;
+
+  const detailResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${postId}`,
+  });
+
+  assert.equal(detailResponse.statusCode, 200);
+  const detail = detailResponse.json();
+  assert.deepEqual(detail.post.contentMeta.codeLanguages, { typescript: 2, solidity: 1 });
+
+  const html = detail.post.contentHtml as string;
+  assert.ok(html.includes('<pre data-language="typescript" class="line-numbers"><code class="hljs language-ts">'));
+  assert.ok(html.includes('<span class="code-line" data-line="1"><span class="hljs-keyword">const</span>'));
+  assert.ok(html.includes('<span class="code-line highlighted" data-line="2">'));
+  assert.ok(html.includes('<span class="code-line highlighted" data-line="3">'));
+  assert.ok(html.includes('<pre data-language="solidity"><code class="hljs language-sol">'));
+
+  const solidityListResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts?authorId=${authorId}&language=solidity`,
+  });
+
+  assert.equal(solidityListResponse.statusCode, 200);
+  assert.deepEqual(
+    solidityListResponse.json().posts.map((post: { id: string }) => post.id),
+    [postId]
+  );
+
+  const rustListResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts?authorId=${authorId}&language=rs`,
+  });
+
+  assert.equal(rustListResponse.statusCode, 200);
+  assert.equal(rustListResponse.json().posts.length, 0);
+});
+
+test("forum DB integration scopes posting, feed and moderation to categories", async (t) => {
+  if (!(await canConnectToDatabase())) {
+    t.skip("integration database is not available");
+    return;
+  }
+
+  const adminId = randomUUID();
+  const memberId = randomUUID();
+  const categoryModeratorId = randomUUID();
+  const suffix = adminId.slice(0, 8);
+
+  await insertUser({ id: adminId, role: "admin" });
+  await insertUser({ id: memberId });
+  await insertUser({ id: categoryModeratorId });
+
+  const app = await buildForumDbTestApp();
+  const categoryIds: string[] = [];
+  const postIds: string[] = [];
+
+  t.after(async () => {
+    await app.close();
+    const [{ authDb }, { schema }] = await Promise.all([import("@evergreen-devparty/auth"), import("@evergreen-devparty/db")]);
+    if (categoryIds.length > 0) {
+      await authDb.delete(schema.forumCategories).where(inArray(schema.forumCategories.id, [...categoryIds].reverse()));
+    }
+    await cleanupUsersAndQueueTargets({
+      userIds: [adminId, memberId, categoryModeratorId],
+      targetIds: postIds,
+    });
+  });
+
+  const createCategory = async (payload: Record<string, unknown>, userId = adminId) =>
+    app.inject({
+      method: "POST",
+      url: "/api/forum/mod/categories",
+      headers: {
+        "x-test-user-id": userId,
+      },
+      payload,
+    });
+
+  const forbiddenCreateResponse = await createCategory({ slug: `nope-${suffix}`, name: "Nope" }, memberId);
+  assert.equal(forbiddenCreateResponse.statusCode, 403);
+
+  const parentResponse = await createCategory({ slug: `Smart Contracts ${suffix}`, name: "Smart contracts", sortOrder: 1 });
+  assert.equal(parentResponse.statusCode, 200);
+  const parent = parentResponse.json().category as { id: string; slug: string };
+  assert.equal(parent.slug, `smart-contracts-${suffix}`);
+  categoryIds.push(parent.id);
+
+  const childResponse = await createCategory({ slug: `audits-${suffix}`, name: "Audits", parentId: parent.id, postPolicy: "verified_ens" });
+  assert.equal(childResponse.statusCode, 200);
+  const child = childResponse.json().category as { id: string };
+  categoryIds.push(child.id);
+
+  const announcementsResponse = await createCategory({ slug: `announcements-${suffix}`, name: "Announcements", postPolicy: "admins" });
+  assert.equal(announcementsResponse.statusCode, 200);
+  const announcements = announcementsResponse.json().category as { id: string };
+  categoryIds.push(announcements.id);
+
+  const cycleResponse = await app.inject({
+    method: "PATCH",
+    url: `/api/forum/mod/categories/${parent.id}`,
+    headers: {
+      "x-test-user-id": adminId,
+    },
+    payload: {
+      parentId: child.id,
+    },
+  });
+  assert.equal(cycleResponse.statusCode, 400);
+  assert.equal(cycleResponse.json().code, "INVALID_CATEGORY_PARENT");
+
+  const createPost = async (userId: string, categoryId: string, title: string) =>
+    app.inject({
+      method: "POST",
+      url: "/api/forum/posts",
+      headers: {
+        "x-test-user-id": userId,
+      },
+      payload: {
+        title,
+        markdown: `${title} body`,
+        categoryId,
+      },
+    });
+
+  const memberAnnouncementResponse = await createPost(memberId, announcements.id, "Member announcement");
+  assert.equal(memberAnnouncementResponse.statusCode, 403);
+  assert.equal(memberAnnouncementResponse.json().code, "CATEGORY_POST_FORBIDDEN");
+
+  const memberAuditResponse = await createPost(memberId, child.id, "Member audit");
+  assert.equal(memberAuditResponse.statusCode, 403);
+  assert.equal(memberAuditResponse.json().code, "ENS_VERIFICATION_REQUIRED");
+
+  const { authDb } = await import("@evergreen-devparty/auth");
+  const { schema } = await import("@evergreen-devparty/db");
+  await authDb.insert(schema.ensIdentities).values({
+    id: randomUUID(),
+    userId: memberId,
+    chainId: 131,
+    name: `member-${suffix}.dev`,
+    label: `member-${suffix}`,
+    status: "active",
+  });
+
+  const verifiedAuditResponse = await createPost(memberId, child.id, "Verified audit");
+  assert.equal(verifiedAuditResponse.statusCode, 200);
+  const auditPostId = verifiedAuditResponse.json().post.id as string;
+  assert.equal(verifiedAuditResponse.json().post.categoryId, child.id);
+  postIds.push(auditPostId);
+
+  const adminAnnouncementResponse = await createPost(adminId, announcements.id, "Admin announcement");
+  assert.equal(adminAnnouncementResponse.statusCode, 200);
+  postIds.push(adminAnnouncementResponse.json().post.id);
+
+  const parentFeedResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/categories/${parent.slug}/feed`,
+  });
+  assert.equal(parentFeedResponse.statusCode, 200);
+  assert.deepEqual(
+    parentFeedResponse.json().posts.map((post: { id: string }) => post.id),
+    [auditPostId]
+  );
+
+  const searchResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/categories/${parent.slug}/search?query=announcement`,
+  });
+  assert.equal(searchResponse.statusCode, 200);
+  assert.equal(searchResponse.json().posts.length, 0);
+
+  const treeResponse = await app.inject({
+    method: "GET",
+    url: "/api/forum/categories",
+  });
+  assert.equal(treeResponse.statusCode, 200);
+  const treeParent = treeResponse
+    .json()
+    .categories.find((category: { id: string }) => category.id === parent.id) as { children: Array<{ id: string; postCount: number }> };
+  assert.deepEqual(
+    treeParent.children.map((category) => ({ id: category.id, postCount: category.postCount })),
+    [{ id: child.id, postCount: 1 }]
+  );
+
+  const lockByOutsiderResponse = await app.inject({
+    method: "POST",
+    url: `/api/forum/mod/posts/${auditPostId}/lock`,
+    headers: {
+      "x-test-user-id": categoryModeratorId,
+    },
+    payload: {
+      locked: true,
+    },
+  });
+  assert.equal(lockByOutsiderResponse.statusCode, 403);
+
+  const assignResponse = await app.inject({
+    method: "PUT",
+    url: `/api/forum/mod/categories/${parent.id}/moderators/${categoryModeratorId}`,
+    headers: {
+      "x-test-user-id": adminId,
+    },
+  });
+  assert.equal(assignResponse.statusCode, 200);
+
+  const lockByCategoryModeratorResponse = await app.inject({
+    method: "POST",
+    url: `/api/forum/mod/posts/${auditPostId}/lock`,
+    headers: {
+      "x-test-user-id": categoryModeratorId,
+    },
+    payload: {
+      locked: true,
+    },
+  });
+  assert.equal(lockByCategoryModeratorResponse.statusCode, 200);
+
+  const detailResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/categories/${parent.slug}`,
+  });
+  assert.equal(detailResponse.statusCode, 200);
+  assert.deepEqual(
+    detailResponse.json().moderators.map((moderator: { userId: string }) => moderator.userId),
+    [categoryModeratorId]
+  );
+});
+
+test("forum DB integration allows category chains up to the maximum depth", async (t) => {
+  if (!(await canConnectToDatabase())) {
+    t.skip("integration database is not available");
+    return;
+  }
+
+  const adminId = randomUUID();
+  const suffix = adminId.slice(0, 8);
+  await insertUser({ id: adminId, role: "admin" });
+
+  const app = await buildForumDbTestApp();
+  const categoryIds: string[] = [];
+
+  t.after(async () => {
+    await app.close();
+    const [{ authDb }, { schema }] = await Promise.all([import("@evergreen-devparty/auth"), import("@evergreen-devparty/db")]);
+    for (const categoryId of [...categoryIds].reverse()) {
+      await authDb.delete(schema.forumCategories).where(eq(schema.forumCategories.id, categoryId));
+    }
+    await cleanupUsersAndQueueTargets({
+      userIds: [adminId],
+      targetIds: [],
+    });
+  });
+
+  const createCategory = async (depth: number, parentId?: string) =>
+    app.inject({
+      method: "POST",
+      url: "/api/forum/mod/categories",
+      headers: {
+        "x-test-user-id": adminId,
+      },
+      payload: { slug: `depth-${depth}-${suffix}`, name: `Depth ${depth}`, parentId },
+    });
+
+  // Depths 0 through 4 are allowed; the fifth nested level is one past the limit.
+  let parentId: string | undefined;
+  for (let depth = 0; depth <= 4; depth += 1) {
+    const response = await createCategory(depth, parentId);
+    assert.equal(response.statusCode, 200);
+    parentId = (response.json().category as { id: string }).id;
+    categoryIds.push(parentId);
+  }
+
+  const overflowResponse = await createCategory(5, parentId);
+  assert.equal(overflowResponse.statusCode, 400);
+  assert.equal(overflowResponse.json().code, "MAX_CATEGORY_DEPTH_EXCEEDED");
+
+  const [rootId, depthOneId] = categoryIds;
+  const moveResponse = await app.inject({
+    method: "PATCH",
+    url: `/api/forum/mod/categories/${depthOneId}`,
+    headers: {
+      "x-test-user-id": adminId,
+    },
+    payload: {
+      parentId: rootId,
+    },
+  });
+  assert.equal(moveResponse.statusCode, 200);
+});
+
+test("forum DB integration returns comment tree with per-parent pagination stubs", async (t) => {
+  if (!(await canConnectToDatabase())) {
+    t.skip("integration database is not available");
+    return;
+  }
+
+  const authorId = randomUUID();
+  const postId = randomUUID();
+
+  await insertUser({ id: authorId });
+  await insertForumPostRow({
+    id: postId,
+    authorId,
+    title: "Threaded post",
+    slug: `threaded-post-${postId.slice(0, 8)}`,
+  });
+
+  const app = await buildForumDbTestApp();
+
+  t.after(async () => {
+    await app.close();
+    await cleanupUsersAndQueueTargets({
+      userIds: [authorId],
+      targetIds: [postId],
+    });
+  });
+
+  const [{ authDb }, { schema }] = await Promise.all([import("@evergreen-devparty/auth"), import("@evergreen-devparty/db")]);
+  const baseTime = Date.now() - 60_000;
+  let sequence = 0;
+  const insertComment = async (input: {
+    parentId?: string;
+    depth?: number;
+    reactionCount?: number;
+    status?: "published" | "soft_deleted";
+  }) => {
+    const id = randomUUID();
+    sequence += 1;
+    await authDb.insert(schema.forumComments).values({
+      id,
+      postId,
+      authorId,
+      parentId: input.parentId ?? null,
+      depth: input.depth ?? 0,
+      contentMarkdown: `comment ${sequence}`,
+      contentPlaintext: `comment ${sequence}`,
+      status: input.status ?? "published",
+      reactionCount: input.reactionCount ?? 0,
+      createdAt: new Date(baseTime + sequence * 1000),
+    });
+    return id;
+  };
+
+  const rootA = await insertComment({ reactionCount: 1 });
+  const rootB = await insertComment({ reactionCount: 5 });
+  const deletedRoot = await insertComment({ status: "soft_deleted" });
+  await insertComment({ status: "soft_deleted" });
+  const replyA1 = await insertComment({ parentId: rootA, depth: 1 });
+  const replyA2 = await insertComment({ parentId: rootA, depth: 1 });
+  const replyA3 = await insertComment({ parentId: rootA, depth: 1 });
+  const nestedA1 = await insertComment({ parentId: replyA1, depth: 2 });
+  const deepA1 = await insertComment({ parentId: nestedA1, depth: 3 });
+  const orphanReply = await insertComment({ parentId: deletedRoot, depth: 1 });
+
+  const treeResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${postId}/comments?replyLimit=2&depth=2`,
+  });
+
+  assert.equal(treeResponse.statusCode, 200);
+  const tree = treeResponse.json();
+  assert.deepEqual(
+    tree.comments.map((comment: { id: string }) => comment.id),
+    [rootA, rootB, deletedRoot]
+  );
+  assert.equal(tree.nextCursor, null);
+
+  const [nodeA, nodeB, tombstone] = tree.comments;
+  assert.deepEqual(
+    nodeA.replies.map((reply: { id: string }) => reply.id),
+    [replyA1, replyA2]
+  );
+  assert.deepEqual(nodeA.moreReplies, { parentId: rootA, remaining: 1, cursor: replyA2 });
+  assert.equal(nodeA.replies[0].replies[0].id, nestedA1);
+  assert.deepEqual(nodeA.replies[0].replies[0].moreReplies, { parentId: nestedA1, remaining: 1, cursor: null });
+  assert.deepEqual(nodeB.replies, []);
+  assert.equal(nodeB.moreReplies, null);
+  assert.equal(tombstone.deleted, true);
+  assert.equal(tombstone.contentMarkdown, null);
+  assert.equal(tombstone.replies[0].id, orphanReply);
+
+  const loadMoreResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${postId}/comments?parentId=${rootA}&cursor=${replyA2}&replyLimit=2`,
+  });
+
+  assert.equal(loadMoreResponse.statusCode, 200);
+  assert.deepEqual(
+    loadMoreResponse.json().comments.map((comment: { id: string }) => comment.id),
+    [replyA3]
+  );
+
+  const deepResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${postId}/comments?parentId=${nestedA1}`,
+  });
+
+  assert.equal(deepResponse.statusCode, 200);
+  assert.equal(deepResponse.json().comments[0].id, deepA1);
+
+  const topResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${postId}/comments?sort=top&limit=1`,
+  });
+
+  assert.equal(topResponse.statusCode, 200);
+  const topPage = topResponse.json();
+  assert.equal(topPage.comments[0].id, rootB);
+  assert.equal(topPage.nextCursor, rootB);
+
+  const topNextResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${postId}/comments?sort=top&limit=1&cursor=${topPage.nextCursor}`,
+  });
+
+  assert.equal(topNextResponse.statusCode, 200);
+  assert.equal(topNextResponse.json().comments[0].id, rootA);
+
+  const newestResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${postId}/comments?sort=newest&depth=0`,
+  });
+
+  assert.equal(newestResponse.statusCode, 200);
+  const newest = newestResponse.json();
+  assert.deepEqual(
+    newest.comments.map((comment: { id: string }) => comment.id),
+    [deletedRoot, rootB, rootA]
+  );
+  assert.deepEqual(newest.comments[2].moreReplies, { parentId: rootA, remaining: 3, cursor: null });
+});
+
+test("forum DB integration keeps deleted and hidden ancestors of published replies in the comment tree", async (t) => {
+  if (!(await canConnectToDatabase())) {
+    t.skip("integration database is not available");
+    return;
+  }
+
+  const authorId = randomUUID();
+  const postId = randomUUID();
+
+  await insertUser({ id: authorId });
+  await insertForumPostRow({
+    id: postId,
+    authorId,
+    title: "Retracted thread",
+    slug: `retracted-thread-${postId.slice(0, 8)}`,
+  });
+
+  const app = await buildForumDbTestApp();
+
+  t.after(async () => {
+    await app.close();
+    await cleanupUsersAndQueueTargets({
+      userIds: [authorId],
+      targetIds: [postId],
+    });
+  });
+
+  const [{ authDb }, { schema }] = await Promise.all([import("@evergreen-devparty/auth"), import("@evergreen-devparty/db")]);
+  const baseTime = Date.now() - 60_000;
+  let sequence = 0;
+  const insertComment = async (input: { parentId?: string; depth?: number; status?: "published" | "soft_deleted" | "hidden" }) => {
+    const id = randomUUID();
+    sequence += 1;
+    await authDb.insert(schema.forumComments).values({
+      id,
+      postId,
+      authorId,
+      parentId: input.parentId ?? null,
+      depth: input.depth ?? 0,
+      contentMarkdown: `comment ${sequence}`,
+      contentPlaintext: `comment ${sequence}`,
+      status: input.status ?? "published",
+      createdAt: new Date(baseTime + sequence * 1000),
+    });
+    return id;
+  };
+
+  const root = await insertComment({});
+  const deletedReply = await insertComment({ parentId: root, depth: 1, status: "soft_deleted" });
+  const deletedNested = await insertComment({ parentId: deletedReply, depth: 2, status: "soft_deleted" });
+  const survivingReply = await insertComment({ parentId: deletedNested, depth: 3 });
+  const hiddenRoot = await insertComment({ status: "hidden" });
+  const hiddenRootReply = await insertComment({ parentId: hiddenRoot, depth: 1 });
+  const emptyHiddenRoot = await insertComment({ status: "hidden" });
+  await insertComment({ parentId: emptyHiddenRoot, depth: 1, status: "soft_deleted" });
+
+  const treeResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${postId}/comments`,
+  });
+
+  assert.equal(treeResponse.statusCode, 200);
+  const [rootNode, hiddenNode, ...rest] = treeResponse.json().comments;
+  assert.deepEqual(rest, []);
+
+  assert.equal(rootNode.id, root);
+  assert.equal(rootNode.moreReplies, null);
+  const [deletedNode] = rootNode.replies;
+  assert.equal(deletedNode.id, deletedReply);
+  assert.equal(deletedNode.deleted, true);
+  const [deletedNestedNode] = deletedNode.replies;
+  assert.equal(deletedNestedNode.id, deletedNested);
+  assert.equal(deletedNestedNode.deleted, true);
+  assert.equal(deletedNestedNode.replies[0].id, survivingReply);
+  assert.equal(deletedNestedNode.replies[0].deleted, false);
+
+  assert.equal(hiddenNode.id, hiddenRoot);
+  assert.equal(hiddenNode.deleted, true);
+  assert.equal(hiddenNode.contentMarkdown, null);
+  assert.equal(hiddenNode.authorId, null);
+  assert.equal(hiddenNode.replies[0].id, hiddenRootReply);
+
+  const shallowResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${postId}/comments?depth=1`,
+  });
+
+  assert.equal(shallowResponse.statusCode, 200);
+  const [shallowRoot] = shallowResponse.json().comments;
+  assert.equal(shallowRoot.replies[0].id, deletedReply);
+  assert.deepEqual(shallowRoot.replies[0].moreReplies, { parentId: deletedReply, remaining: 1, cursor: null });
+});
+
+test("forum DB integration accepts answers on questions with reputation and filters", async (t) => {
+  if (!(await canConnectToDatabase())) {
+    t.skip("integration database is not available");
+    return;
+  }
+
+  const askerId = randomUUID();
+  const firstAnswererId = randomUUID();
+  const secondAnswererId = randomUUID();
+  const outsiderId = randomUUID();
+  const moderatorId = randomUUID();
+
+  await Promise.all([
+    insertUser({ id: askerId }),
+    insertUser({ id: firstAnswererId }),
+    insertUser({ id: secondAnswererId }),
+    insertUser({ id: outsiderId }),
+    insertUser({ id: moderatorId, role: "moderator" }),
+  ]);
+
+  const app = await buildForumDbTestApp();
+  const targetIds: string[] = [];
+
+  t.after(async () => {
+    await app.close();
+    await cleanupUsersAndQueueTargets({
+      userIds: [askerId, firstAnswererId, secondAnswererId, outsiderId, moderatorId],
+      targetIds,
+    });
+  });
+
+  const [{ authDb }, { schema }] = await Promise.all([import("@evergreen-devparty/auth"), import("@evergreen-devparty/db")]);
+  const readEngagementScore = async (userId: string) => {
+    const [metrics] = await authDb
+      .select({ engagementScore: schema.profileMetrics.engagementScore })
+      .from(schema.profileMetrics)
+      .where(eq(schema.profileMetrics.userId, userId))
+      .limit(1);
+    return metrics?.engagementScore ?? 0;
+  };
+  const feedPostIds = async (questionStatus: string) => {
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/forum/feed?limit=100&questionStatus=${questionStatus}`,
+    });
+    assert.equal(response.statusCode, 200);
+    return response.json().posts.map((post: { id: string }) => post.id);
+  };
+
+  const createPostResponse = await app.inject({
+    method: "POST",
+    url: "/api/forum/posts",
+    headers: {
+      "x-test-user-id": askerId,
+    },
+    payload: {
+      title: "How do I verify ENS ownership?",
+      markdown: "Looking for the right resolver call.",
+      postType: "question",
+    },
+  });
+
+  assert.equal(createPostResponse.statusCode, 200);
+  const post = createPostResponse.json().post;
+  targetIds.push(post.id);
+  assert.equal(post.postType, "question");
+  assert.equal(post.acceptedCommentId, null);
+
+  const answer = async (userId: string, markdown: string) => {
+    const response = await app.inject({
+      method: "POST",
+      url: `/api/forum/posts/${post.id}/comments`,
+      headers: {
+        "x-test-user-id": userId,
+      },
+      payload: {
+        markdown,
+      },
+    });
+    assert.equal(response.statusCode, 200);
+    const commentId: string = response.json().comment.id;
+    targetIds.push(commentId);
+    return commentId;
+  };
+
+  const firstAnswerId = await answer(firstAnswererId, "Call `resolver.addr(node)`.");
+  const secondAnswerId = await answer(secondAnswererId, "Use the universal resolver.");
+
+  const askerNotifications = await authDb
+    .select()
+    .from(schema.forumNotifications)
+    .where(eq(schema.forumNotifications.recipientUserId, askerId));
+  assert.equal(askerNotifications.length, 2);
+  assert.ok(askerNotifications.every((notification) => (notification.payload as { context?: string }).context === "answer"));
+
+  assert.ok((await feedPostIds("unanswered")).includes(post.id));
+  assert.ok(!(await feedPostIds("solved")).includes(post.id));
+
+  const forbiddenResponse = await app.inject({
+    method: "POST",
+    url: `/api/forum/posts/${post.id}/accepted-answer`,
+    headers: {
+      "x-test-user-id": outsiderId,
+    },
+    payload: {
+      commentId: secondAnswerId,
+    },
+  });
+
+  assert.equal(forbiddenResponse.statusCode, 403);
+
+  const acceptResponse = await app.inject({
+    method: "POST",
+    url: `/api/forum/posts/${post.id}/accepted-answer`,
+    headers: {
+      "x-test-user-id": askerId,
+    },
+    payload: {
+      commentId: secondAnswerId,
+    },
+  });
+
+  assert.equal(acceptResponse.statusCode, 200);
+  assert.equal(acceptResponse.json().post.acceptedCommentId, secondAnswerId);
+  assert.equal(await readEngagementScore(secondAnswererId), 17);
+
+  const [acceptedNotification] = await authDb
+    .select()
+    .from(schema.forumNotifications)
+    .where(
+      and(eq(schema.forumNotifications.recipientUserId, secondAnswererId), eq(schema.forumNotifications.type, "answer_accepted"))
+    );
+  assert.equal(acceptedNotification?.commentId, secondAnswerId);
+
+  const treeResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${post.id}/comments`,
+  });
+
+  assert.equal(treeResponse.statusCode, 200);
+  const tree = treeResponse.json();
+  assert.deepEqual(
+    tree.comments.map((comment: { id: string; isAcceptedAnswer: boolean }) => [comment.id, comment.isAcceptedAnswer]),
+    [
+      [secondAnswerId, true],
+      [firstAnswerId, false],
+    ]
+  );
+
+  const detailResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${post.id}`,
+  });
+
+  assert.equal(detailResponse.statusCode, 200);
+  assert.equal(detailResponse.json().acceptedAnswer.id, secondAnswerId);
+  assert.ok((await feedPostIds("solved")).includes(post.id));
+  assert.ok(!(await feedPostIds("unanswered")).includes(post.id));
+
+  const switchResponse = await app.inject({
+    method: "POST",
+    url: `/api/forum/posts/${post.id}/accepted-answer`,
+    headers: {
+      "x-test-user-id": askerId,
+    },
+    payload: {
+      commentId: firstAnswerId,
+    },
+  });
+
+  assert.equal(switchResponse.statusCode, 200);
+  assert.equal(await readEngagementScore(secondAnswererId), 2);
+  assert.equal(await readEngagementScore(firstAnswererId), 17);
+
+  const deleteResponse = await app.inject({
+    method: "DELETE",
+    url: `/api/forum/comments/${firstAnswerId}`,
+    headers: {
+      "x-test-user-id": firstAnswererId,
+    },
+  });
+
+  assert.equal(deleteResponse.statusCode, 200);
+  assert.equal(await readEngagementScore(firstAnswererId), 2);
+
+  const [releasedPost] = await authDb
+    .select({ acceptedCommentId: schema.forumPosts.acceptedCommentId, acceptedAt: schema.forumPosts.acceptedAt })
+    .from(schema.forumPosts)
+    .where(eq(schema.forumPosts.id, post.id));
+  assert.deepEqual(releasedPost, { acceptedCommentId: null, acceptedAt: null });
+
+  const reacceptResponse = await app.inject({
+    method: "POST",
+    url: `/api/forum/posts/${post.id}/accepted-answer`,
+    headers: {
+      "x-test-user-id": askerId,
+    },
+    payload: {
+      commentId: secondAnswerId,
+    },
+  });
+
+  assert.equal(reacceptResponse.statusCode, 200);
+  assert.equal(await readEngagementScore(secondAnswererId), 17);
+
+  const forbiddenHideResponse = await app.inject({
+    method: "POST",
+    url: `/api/forum/mod/comments/${secondAnswerId}/hide`,
+    headers: {
+      "x-test-user-id": outsiderId,
+    },
+  });
+
+  assert.equal(forbiddenHideResponse.statusCode, 403);
+
+  const readCommentCounts = async () => {
+    const [[postCounts], [profileCounts]] = await Promise.all([
+      authDb
+        .select({ commentCount: schema.forumPosts.commentCount })
+        .from(schema.forumPosts)
+        .where(eq(schema.forumPosts.id, post.id)),
+      authDb
+        .select({ commentCount: schema.profileMetrics.commentCount })
+        .from(schema.profileMetrics)
+        .where(eq(schema.profileMetrics.userId, secondAnswererId)),
+    ]);
+    return { post: postCounts?.commentCount, profile: profileCounts?.commentCount };
+  };
+  const countsBeforeHide = await readCommentCounts();
+
+  const hideResponse = await app.inject({
+    method: "POST",
+    url: `/api/forum/mod/comments/${secondAnswerId}/hide`,
+    headers: {
+      "x-test-user-id": moderatorId,
+    },
+  });
+
+  assert.equal(hideResponse.statusCode, 200);
+  assert.deepEqual(hideResponse.json(), { commentId: secondAnswerId, status: "hidden" });
+  assert.equal(await readEngagementScore(secondAnswererId), 2);
+
+  const [unsolvedPost] = await authDb
+    .select({ acceptedCommentId: schema.forumPosts.acceptedCommentId, acceptedAt: schema.forumPosts.acceptedAt })
+    .from(schema.forumPosts)
+    .where(eq(schema.forumPosts.id, post.id));
+  assert.deepEqual(unsolvedPost, { acceptedCommentId: null, acceptedAt: null });
+  assert.ok((await feedPostIds("unanswered")).includes(post.id));
+
+  const editHiddenResponse = await app.inject({
+    method: "PATCH",
+    url: `/api/forum/comments/${secondAnswerId}`,
+    headers: {
+      "x-test-user-id": secondAnswererId,
+    },
+    payload: {
+      markdown: "Putting the hidden answer back.",
+    },
+  });
+
+  assert.equal(editHiddenResponse.statusCode, 404);
+  assert.equal(editHiddenResponse.json().code, "COMMENT_NOT_FOUND");
+
+  const deleteHiddenResponse = await app.inject({
+    method: "DELETE",
+    url: `/api/forum/comments/${secondAnswerId}`,
+    headers: {
+      "x-test-user-id": secondAnswererId,
+    },
+  });
+
+  assert.equal(deleteHiddenResponse.statusCode, 404);
+
+  const [hiddenComment] = await authDb
+    .select({ status: schema.forumComments.status, contentMarkdown: schema.forumComments.contentMarkdown })
+    .from(schema.forumComments)
+    .where(eq(schema.forumComments.id, secondAnswerId));
+  assert.deepEqual(hiddenComment, { status: "hidden", contentMarkdown: "Use the universal resolver." });
+
+  const countsAfterHide = await readCommentCounts();
+  assert.ok(countsBeforeHide.post !== undefined && countsBeforeHide.profile !== undefined);
+  assert.deepEqual(countsAfterHide, { post: countsBeforeHide.post - 1, profile: countsBeforeHide.profile - 1 });
+});
+
+test("forum DB integration runs ENS-gated polls with hidden results and close notifications", async (t) => {
+  if (!(await canConnectToDatabase())) {
+    t.skip("integration database is not available");
+    return;
+  }
+
+  const authorId = randomUUID();
+  const verifiedVoterId = randomUUID();
+  const unverifiedVoterId = randomUUID();
+
+  await Promise.all([insertUser({ id: authorId }), insertUser({ id: verifiedVoterId }), insertUser({ id: unverifiedVoterId })]);
+
+  const app = await buildForumDbTestApp();
+  let postId: string | null = null;
+
+  t.after(async () => {
+    await app.close();
+    await cleanupUsersAndQueueTargets({
+      userIds: [authorId, verifiedVoterId, unverifiedVoterId],
+      targetIds: postId ? [postId] : [],
+    });
+  });
+
+  const [{ authDb }, { schema }, { closeDueForumPolls }] = await Promise.all([
+    import("@evergreen-devparty/auth"),
+    import("@evergreen-devparty/db"),
+    import("../../../src/services/forum-core.polls"),
+  ]);
+
+  const suffix = verifiedVoterId.slice(0, 8);
+  await authDb.insert(schema.ensIdentities).values({
+    id: randomUUID(),
+    userId: verifiedVoterId,
+    chainId: 131,
+    name: `voter-${suffix}.dev`,
+    label: `voter-${suffix}`,
+    status: "active",
+  });
+
+  const invalidPollResponse = await app.inject({
+    method: "POST",
+    url: "/api/forum/posts",
+    headers: {
+      "x-test-user-id": authorId,
+    },
+    payload: {
+      title: "Duplicate options",
+      markdown: "Which client?",
+      poll: {
+        options: ["Geth", "geth "],
+      },
+    },
+  });
+
+  assert.equal(invalidPollResponse.statusCode, 400);
+  assert.equal(invalidPollResponse.json().code, "INVALID_POLL_OPTIONS");
+
+  const createResponse = await app.inject({
+    method: "POST",
+    url: "/api/forum/posts",
+    headers: {
+      "x-test-user-id": authorId,
+    },
+    payload: {
+      title: "Which execution clients do you run?",
+      markdown: "Pick all that apply.",
+      poll: {
+        question: "Execution clients",
+        options: ["Geth", "Nethermind", "Reth"],
+        allowMultiple: true,
+        ensGated: true,
+        closesAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      },
+    },
+  });
+
+  assert.equal(createResponse.statusCode, 200);
+  const created = createResponse.json();
+  postId = created.post.id as string;
+  const poll = created.poll;
+  assert.equal(poll.ensGated, true);
+  assert.deepEqual(
+    poll.options.map((option: { label: string }) => option.label),
+    ["Geth", "Nethermind", "Reth"]
+  );
+  const [gethId, nethermindId, rethId] = poll.options.map((option: { id: string }) => option.id);
+
+  const vote = (userId: string, optionIds: string[]) =>
+    app.inject({
+      method: "POST",
+      url: `/api/forum/posts/${postId}/poll/votes`,
+      headers: {
+        "x-test-user-id": userId,
+      },
+      payload: {
+        optionIds,
+      },
+    });
+
+  const gatedResponse = await vote(unverifiedVoterId, [gethId]);
+  assert.equal(gatedResponse.statusCode, 403);
+  assert.equal(gatedResponse.json().code, "ENS_VERIFICATION_REQUIRED");
+
+  const voteResponse = await vote(verifiedVoterId, [gethId, rethId]);
+  assert.equal(voteResponse.statusCode, 200);
+  const votedPoll = voteResponse.json().poll;
+  assert.equal(votedPoll.voterCount, 1);
+  assert.deepEqual(votedPoll.viewerOptionIds.sort(), [gethId, rethId].sort());
+  assert.deepEqual(
+    votedPoll.options.map((option: { voteCount: number }) => option.voteCount),
+    [1, 0, 1]
+  );
+
+  const repeatResponse = await vote(verifiedVoterId, [nethermindId]);
+  assert.equal(repeatResponse.statusCode, 409);
+  assert.equal(repeatResponse.json().code, "POLL_ALREADY_VOTED");
+
+  const hiddenResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${postId}`,
+    headers: {
+      "x-test-user-id": unverifiedVoterId,
+    },
+  });
+
+  assert.equal(hiddenResponse.statusCode, 200);
+  const hiddenPoll = hiddenResponse.json().poll;
+  assert.equal(hiddenPoll.resultsVisible, false);
+  assert.equal(hiddenPoll.voterCount, 1);
+  assert.deepEqual(
+    hiddenPoll.options.map((option: { voteCount: number | null }) => option.voteCount),
+    [null, null, null]
+  );
+
+  await authDb
+    .update(schema.forumPolls)
+    .set({ closesAt: new Date(Date.now() - 1000) })
+    .where(eq(schema.forumPolls.id, poll.id));
+
+  const closedVoteResponse = await vote(unverifiedVoterId, [gethId]);
+  assert.equal(closedVoteResponse.statusCode, 409);
+  assert.equal(closedVoteResponse.json().code, "POLL_CLOSED");
+
+  const closedResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${postId}`,
+  });
+
+  assert.equal(closedResponse.statusCode, 200);
+  assert.equal(closedResponse.json().poll.closed, true);
+  assert.equal(closedResponse.json().poll.options[0].voteCount, 1);
+
+  const closeResult = await closeDueForumPolls({ limit: 100 });
+  assert.ok(closeResult.closed >= 1);
+  await closeDueForumPolls({ limit: 100 });
+
+  const notifications = await authDb
+    .select()
+    .from(schema.forumNotifications)
+    .where(and(eq(schema.forumNotifications.recipientUserId, authorId), eq(schema.forumNotifications.type, "poll_closed")));
+  assert.equal(notifications.length, 1);
+  assert.deepEqual(notifications[0]?.payload, { pollId: poll.id, voterCount: 1 });
+});
+
+test("forum DB integration recomputes decayed trend scores and serves the hot feed", async (t) => {
+  if (!(await canConnectToDatabase())) {
+    t.skip("integration database is not available");
+    return;
+  }
+
+  const authorId = randomUUID();
+  const hotPostId = randomUUID();
+  const stalePostId = randomUUID();
+  const expiredPostId = randomUUID();
+  const tagId = randomUUID();
+  const hourMs = 60 * 60 * 1000;
+  const now = Date.now();
+
+  await insertUser({ id: authorId });
+  for (const [id, title] of [
+    [hotPostId, "Hot post"],
+    [stalePostId, "Stale post"],
+    [expiredPostId, "Expired post"],
+  ] as const) {
+    await insertForumPostRow({ id, authorId, title, slug: `${title.toLowerCase().replace(" ", "-")}-${id.slice(0, 8)}` });
+  }
+
+  const app = await buildForumDbTestApp();
+  const [{ authDb }, { schema }, { recomputeForumTrendScores }] = await Promise.all([
+    import("@evergreen-devparty/auth"),
+    import("@evergreen-devparty/db"),
+    import("../../../src/services/forum-trend-score"),
+  ]);
+
+  t.after(async () => {
+    await app.close();
+    await authDb.delete(schema.forumTags).where(eq(schema.forumTags.id, tagId));
+    await cleanupUsersAndQueueTargets({
+      userIds: [authorId],
+      targetIds: [hotPostId, stalePostId, expiredPostId],
+    });
+  });
+
+  await authDb.update(schema.forumPosts).set({ createdAt: new Date(now - 2 * hourMs) }).where(eq(schema.forumPosts.id, hotPostId));
+  await authDb.update(schema.forumPosts).set({ createdAt: new Date(now - 100 * hourMs) }).where(eq(schema.forumPosts.id, stalePostId));
+  await authDb
+    .update(schema.forumPosts)
+    .set({ createdAt: new Date(now - 400 * hourMs), hotScore: 50 })
+    .where(eq(schema.forumPosts.id, expiredPostId));
+
+  await authDb.insert(schema.forumReactions).values(
+    ["like", "fire", "rocket"].map((reactionType, index) => ({
+      id: randomUUID(),
+      targetType: "post" as const,
+      postId: index === 0 ? stalePostId : hotPostId,
+      userId: authorId,
+      reactionType,
+      createdAt: new Date(now - (index === 0 ? 90 : 1) * hourMs),
+    }))
+  );
+
+  await authDb.insert(schema.forumTags).values({
+    id: tagId,
+    slug: `hot-tag-${tagId.slice(0, 8)}`,
+    displayName: "hot tag",
+    postCount: 1,
+    trendScore: 999,
+  });
+  await authDb.insert(schema.forumPostTags).values({ postId: hotPostId, tagId });
+
+  const result = await recomputeForumTrendScores({ windowHours: 168, halfLifeHours: 24 });
+  assert.ok(result.updatedPosts >= 3);
+
+  const scoredPosts = await authDb
+    .select({ id: schema.forumPosts.id, hotScore: schema.forumPosts.hotScore })
+    .from(schema.forumPosts)
+    .where(inArray(schema.forumPosts.id, [hotPostId, stalePostId, expiredPostId]));
+  const scoreById = new Map(scoredPosts.map((post) => [post.id, post.hotScore]));
+
+  const hotScore = scoreById.get(hotPostId) ?? 0;
+  assert.ok(Math.abs(hotScore - (4 * 2 ** (-2 / 24) + 2 * 2 ** (-1 / 24))) < 0.01);
+  assert.ok(Math.abs((scoreById.get(stalePostId) ?? 0) - (4 * 2 ** (-100 / 24) + 2 ** (-90 / 24))) < 0.01);
+  assert.equal(scoreById.get(expiredPostId), 0);
+
+  const [tag] = await authDb.select().from(schema.forumTags).where(eq(schema.forumTags.id, tagId));
+  assert.ok(Math.abs((tag?.trendScore ?? 0) - hotScore) < 0.0001);
+
+  const feedResponse = await app.inject({
+    method: "GET",
+    url: "/api/forum/feed?sort=hot&limit=100",
+  });
+
+  assert.equal(feedResponse.statusCode, 200);
+  const feedIds = feedResponse.json().posts.map((post: { id: string }) => post.id);
+  assert.ok(feedIds.indexOf(hotPostId) < feedIds.indexOf(stalePostId));
+  assert.ok(feedIds.indexOf(stalePostId) < feedIds.indexOf(expiredPostId));
+
+  const firstPageResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/feed?sort=hot&authorId=${authorId}&limit=1`,
+  });
+
+  assert.equal(firstPageResponse.statusCode, 200);
+  const firstPage = firstPageResponse.json() as { posts: Array<{ id: string }>; nextCursor: string };
+  assert.deepEqual(
+    firstPage.posts.map((post) => post.id),
+    [hotPostId]
+  );
+
+  const nextPageResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/feed?sort=hot&authorId=${authorId}&limit=1&cursor=${firstPage.nextCursor}`,
+  });
+
+  assert.equal(nextPageResponse.statusCode, 200);
+  assert.deepEqual(
+    nextPageResponse.json().posts.map((post: { id: string }) => post.id),
+    [stalePostId]
+  );
+});
+
+test("forum DB integration sorts and filters the feed with stable cursors", async (t) => {
+  if (!(await canConnectToDatabase())) {
+    t.skip("integration database is not available");
+    return;
+  }
+
+  const authorId = randomUUID();
+  const codePostId = randomUUID();
+  const olderPostId = randomUUID();
+  const archivedPostId = randomUUID();
+  const freshPostId = randomUUID();
+  const tagId = randomUUID();
+  const tagSlug = `feed-tag-${tagId.slice(0, 8)}`;
+  const dayMs = 24 * 60 * 60 * 1000;
+  const now = Date.now();
+
+  await insertUser({ id: authorId });
+  for (const [id, title, reactionCount, commentCount, ageMs] of [
+    [codePostId, "Code post", 10, 2, 2 * 60 * 60 * 1000],
+    [olderPostId, "Older post", 3, 0, 3 * dayMs],
+    [archivedPostId, "Archived post", 20, 0, 40 * dayMs],
+    [freshPostId, "Fresh post", 3, 0, 60 * 60 * 1000],
+  ] as const) {
+    await insertForumPostRow({
+      id,
+      authorId,
+      title,
+      slug: `${title.toLowerCase().replace(" ", "-")}-${id.slice(0, 8)}`,
+      reactionCount,
+      commentCount,
+      lastActivityAt: new Date(now - ageMs),
+    });
+  }
+
+  const app = await buildForumDbTestApp();
+  const [{ authDb }, { schema }] = await Promise.all([import("@evergreen-devparty/auth"), import("@evergreen-devparty/db")]);
+
+  t.after(async () => {
+    await app.close();
+    await authDb.delete(schema.forumTags).where(eq(schema.forumTags.id, tagId));
+    await cleanupUsersAndQueueTargets({
+      userIds: [authorId],
+      targetIds: [codePostId, olderPostId, archivedPostId, freshPostId],
+    });
+  });
+
+  for (const [id, ageMs] of [
+    [codePostId, 2 * 60 * 60 * 1000],
+    [olderPostId, 3 * dayMs],
+    [archivedPostId, 40 * dayMs],
+    [freshPostId, 60 * 60 * 1000],
+  ] as const) {
+    await authDb.update(schema.forumPosts).set({ createdAt: new Date(now - ageMs) }).where(eq(schema.forumPosts.id, id));
+  }
+
+  await authDb
+    .update(schema.forumPosts)
+    .set({ contentMeta: { codeBlockCount: 1, codeLanguages: { solidity: 1 } } })
+    .where(eq(schema.forumPosts.id, codePostId));
+  await authDb.insert(schema.forumTags).values({ id: tagId, slug: tagSlug, displayName: "feed tag", postCount: 1 });
+  await authDb.insert(schema.forumPostTags).values({ postId: codePostId, tagId });
+
+  const listFeed = async (query: string) => {
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/forum/feed?authorId=${authorId}&${query}`,
+    });
+
+    assert.equal(response.statusCode, 200);
+    const body = response.json() as { posts: Array<{ id: string }>; nextCursor: string | null };
+    return {
+      ids: body.posts.map((post) => post.id),
+      nextCursor: body.nextCursor,
+    };
+  };
+
+  const pagedIds: string[] = [];
+  let cursor: string | null = null;
+  for (let page = 0; page < 4; page += 1) {
+    const result = await listFeed(`sort=top&window=week&limit=1${cursor ? `&cursor=${cursor}` : ""}`);
+    pagedIds.push(...result.ids);
+    cursor = result.nextCursor;
+    if (result.ids.length === 0) {
+      break;
+    }
+  }
+
+  assert.deepEqual(pagedIds, [codePostId, freshPostId, olderPostId]);
+  assert.deepEqual((await listFeed("sort=top&window=all")).ids, [archivedPostId, codePostId, freshPostId, olderPostId]);
+  assert.deepEqual((await listFeed("sort=top&window=day")).ids, [codePostId, freshPostId]);
+  assert.deepEqual((await listFeed("sort=new")).ids, [freshPostId, codePostId, olderPostId, archivedPostId]);
+  assert.deepEqual((await listFeed("sort=new&noComments=true")).ids, [freshPostId, olderPostId, archivedPostId]);
+  assert.deepEqual((await listFeed("hasCode=true")).ids, [codePostId]);
+  assert.deepEqual((await listFeed(`tag=${tagSlug}`)).ids, [codePostId]);
+
+  const topPage = await listFeed("sort=top&window=all&limit=1");
+  const mismatchedCursorResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/feed?authorId=${authorId}&sort=new&cursor=${topPage.nextCursor}`,
+  });
+
+  assert.equal(mismatchedCursorResponse.statusCode, 400);
+  assert.equal(mismatchedCursorResponse.json().code, "INVALID_CURSOR");
+
+  const encodeCursor = (cursorValue: unknown) => Buffer.from(JSON.stringify(cursorValue)).toString("base64url");
+  for (const [sort, tampered] of [
+    ["top", { sort: "top", keys: ["lots", "2026-01-01 00:00:00+00"], id: codePostId }],
+    ["new", { sort: "new", keys: ["2026-13-45 99:00:00+00"], id: codePostId }],
+    ["hot", { sort: "hot", keys: [1.5, "2026-01-01 00:00:00+00"], id: codePostId }],
+    ["active", { sort: "active", keys: ["2026-01-01 00:00:00+00"], id: codePostId }],
+  ] as const) {
+    const tamperedResponse = await app.inject({
+      method: "GET",
+      url: `/api/forum/feed?authorId=${authorId}&sort=${sort}&cursor=${encodeCursor(tampered)}`,
+    });
+
+    assert.equal(tamperedResponse.statusCode, 400, sort);
+    assert.equal(tamperedResponse.json().code, "INVALID_CURSOR");
+  }
+});
+
+test("forum DB integration hides blocked and muted users and muted tags", async (t) => {
+  if (!(await canConnectToDatabase())) {
+    t.skip("integration database is not available");
+    return;
+  }
+
+  const viewerId = randomUUID();
+  const blockedId = randomUUID();
+  const mutedId = randomUUID();
+  const otherId = randomUUID();
+  const viewerWalletAddress = `0x${viewerId.replace(/-/g, "").slice(0, 32)}abcdef01`;
+  const token = `filtertoken${viewerId.slice(0, 8)}`;
+  const mutedTag = `muted-${viewerId.slice(0, 8)}`;
+
+  for (const id of [viewerId, blockedId, mutedId, otherId]) {
+    await insertUser({ id });
+  }
+  await insertWallet({ id: randomUUID(), userId: viewerId, chainId: 131, address: viewerWalletAddress });
+
+  const app = await buildForumDbTestApp();
+  const [{ authDb }, { schema }] = await Promise.all([import("@evergreen-devparty/auth"), import("@evergreen-devparty/db")]);
+  const postIds: string[] = [];
+
+  t.after(async () => {
+    await app.close();
+    await authDb.delete(schema.forumTags).where(eq(schema.forumTags.slug, mutedTag));
+    await cleanupUsersAndQueueTargets({
+      userIds: [viewerId, blockedId, mutedId, otherId],
+      targetIds: postIds,
+    });
+  });
+
+  const request = async (userId: string, method: "GET" | "POST", url: string, payload?: Record<string, unknown>) =>
+    app.inject({
+      method,
+      url,
+      headers: { "x-test-user-id": userId },
+      payload,
+    });
+
+  const createPost = async (userId: string, title: string, extra: Record<string, unknown> = {}) => {
+    const response = await request(userId, "POST", "/api/forum/posts", {
+      title: `${title} ${token}`,
+      markdown: `${title} body ${token}`,
+      ...extra,
+    });
+    assert.equal(response.statusCode, 200);
+    const postId = response.json().post.id as string;
+    postIds.push(postId);
+    return postId;
+  };
+
+  const viewerPostId = await createPost(viewerId, "Viewer post");
+  const mutedUserPostId = await createPost(mutedId, "Muted user post");
+  const taggedPostId = await createPost(otherId, "Tagged post", { tags: [mutedTag] });
+
+  assert.equal((await request(blockedId, "POST", "/api/forum/follows/toggle", { followeeUserId: viewerId })).statusCode, 200);
+  assert.equal((await request(mutedId, "POST", "/api/forum/shares", { postId: viewerPostId })).statusCode, 200);
+
+  const blockResponse = await request(viewerId, "POST", "/api/forum/blocks/toggle", { userId: blockedId });
+  assert.equal(blockResponse.statusCode, 200);
+  assert.equal(blockResponse.json().blocked, true);
+  assert.equal((await request(viewerId, "POST", "/api/forum/mutes/toggle", { userId: mutedId })).json().muted, true);
+  assert.equal((await request(viewerId, "POST", "/api/forum/tag-mutes/toggle", { tag: mutedTag })).json().muted, true);
+
+  const follows = await authDb
+    .select()
+    .from(schema.forumFollows)
+    .where(and(eq(schema.forumFollows.followerId, blockedId), eq(schema.forumFollows.followeeId, viewerId)));
+  assert.equal(follows.length, 0);
+
+  for (const [url, payload] of [
+    ["/api/forum/follows/toggle", { followeeUserId: viewerId }],
+    ["/api/forum/shares", { postId: viewerPostId }],
+    [`/api/forum/posts/${viewerPostId}/comments`, { markdown: "reply from a blocked user" }],
+  ] as const) {
+    const response = await request(blockedId, "POST", url, payload);
+    assert.equal(response.statusCode, 403);
+    assert.equal(response.json().code, "USER_BLOCKED");
+  }
+
+  const blockedUserPostId = await createPost(blockedId, "Blocked user post", { markdown: `hi @${viewerWalletAddress}` });
+  const mentionRows = await authDb
+    .select({ mentionedUserId: schema.forumMentions.mentionedUserId })
+    .from(schema.forumMentions)
+    .where(eq(schema.forumMentions.postId, blockedUserPostId));
+  assert.ok(mentionRows.length > 0);
+  assert.ok(mentionRows.every((row) => row.mentionedUserId === null));
+
+  assert.equal((await request(mutedId, "POST", "/api/forum/follows/toggle", { followeeUserId: viewerId })).statusCode, 200);
+
+  const notificationsResponse = await request(viewerId, "GET", "/api/notifications?limit=50");
+  assert.equal(notificationsResponse.statusCode, 200);
+  assert.deepEqual(notificationsResponse.json().notifications, []);
+
+  const feedIds = (await request(viewerId, "GET", "/api/forum/feed?limit=100")).json().posts.map((post: { id: string }) => post.id);
+  assert.ok(feedIds.includes(viewerPostId));
+  for (const hiddenId of [blockedUserPostId, mutedUserPostId, taggedPostId]) {
+    assert.ok(!feedIds.includes(hiddenId));
+  }
+
+  const blockedFeedIds = (await request(blockedId, "GET", "/api/forum/feed?limit=100"))
+    .json()
+    .posts.map((post: { id: string }) => post.id);
+  assert.ok(!blockedFeedIds.includes(viewerPostId));
+  assert.ok(blockedFeedIds.includes(mutedUserPostId));
+
+  const searchResponse = await request(viewerId, "GET", `/api/forum/search?query=${token}&limit=50`);
+  assert.deepEqual(
+    searchResponse.json().posts.map((post: { id: string }) => post.id),
+    [viewerPostId]
+  );
+
+  const listResponse = await request(viewerId, "GET", "/api/forum/blocks-and-mutes");
+  assert.deepEqual(
+    listResponse.json().blockedUsers.map((entry: { userId: string }) => entry.userId),
+    [blockedId]
+  );
+  assert.deepEqual(
+    listResponse.json().mutedTags.map((entry: { tag: string }) => entry.tag),
+    [mutedTag]
+  );
+});
+
+test("forum DB integration resolves ENS subname mentions and display names", async (t) => {
+  if (!(await canConnectToDatabase())) {
+    t.skip("integration database is not available");
+    return;
+  }
+
+  const ownerId = randomUUID();
+  const memberId = randomUUID();
+  const identityId = randomUUID();
+  const teamLabel = `team-${identityId.slice(0, 8)}`;
+  const parentName = `${teamLabel}.dev`;
+  const subname = `alice.${parentName}`;
+
+  await insertUser({ id: ownerId });
+  await insertUser({ id: memberId });
+
+  const [{ authDb }, { schema }] = await Promise.all([import("@evergreen-devparty/auth"), import("@evergreen-devparty/db")]);
+  await authDb.insert(schema.ensIdentities).values({
+    id: identityId,
+    userId: ownerId,
+    chainId: 131,
+    tld: "dev",
+    name: parentName,
+    label: teamLabel,
+    status: "active",
+  });
+  await authDb.insert(schema.ensSubnames).values({
+    id: randomUUID(),
+    parentIdentityId: identityId,
+    issuerUserId: ownerId,
+    recipientUserId: memberId,
+    label: "alice",
+    name: subname,
+    node: `0x${"1".repeat(64)}`,
+    ownerAddress: "0x1234567890abcdef1234567890abcdef12345678",
+    resolverAddress: "0x0000000000000000000000000000000000000001",
+    contractAddress: "0x0000000000000000000000000000000000000002",
+    status: "active",
+    issuedAt: new Date(),
+  });
+
+  const app = await buildForumDbTestApp();
+
+  let postId: string | null = null;
+
+  t.after(async () => {
+    await app.close();
+    await cleanupUsersAndQueueTargets({
+      userIds: [ownerId, memberId],
+      targetIds: [postId].filter((value): value is string => Boolean(value)),
+    });
+  });
+
+  const createPostResponse = await app.inject({
+    method: "POST",
+    url: "/api/forum/posts",
+    headers: {
+      "x-test-user-id": ownerId,
+    },
+    payload: {
+      title: `Subname mention ${ownerId.slice(0, 8)}`,
+      markdown: `welcome @${subname}`,
+    },
+  });
+  assert.equal(createPostResponse.statusCode, 200);
+  postId = createPostResponse.json().post.id;
+
+  const notificationsResponse = await app.inject({
+    method: "GET",
+    url: "/api/notifications?limit=20&unreadOnly=true",
+    headers: {
+      "x-test-user-id": memberId,
+    },
+  });
+  assert.equal(notificationsResponse.statusCode, 200);
+  assert.ok(
+    notificationsResponse
+      .json()
+      .notifications.some((item: { type: string; postId: string | null }) => item.type === "mention" && item.postId === postId)
+  );
+
+  const heldNameResponse = await app.inject({
+    method: "PATCH",
+    url: "/api/profile/me",
+    headers: {
+      "x-test-user-id": memberId,
+    },
+    payload: {
+      displayEnsName: subname,
+    },
+  });
+  assert.equal(heldNameResponse.statusCode, 200);
+  assert.equal(heldNameResponse.json().profile.displayEnsName, subname);
+
+  const foreignNameResponse = await app.inject({
+    method: "PATCH",
+    url: "/api/profile/me",
+    headers: {
+      "x-test-user-id": memberId,
+    },
+    payload: {
+      displayEnsName: parentName,
+    },
+  });
+  assert.equal(foreignNameResponse.statusCode, 400);
+  assert.equal(foreignNameResponse.json().code, "INVALID_DISPLAY_ENS_NAME");
+});
@@ -32,6 +32,7 @@ const TEST_AUTH_SESSION: Awaited<ReturnType<ForumRouteDependencies["requireAuthS
 
 const buildDeps = (overrides: Partial<ForumRouteDependencies> = {}): Partial<ForumRouteDependencies> => ({
   requireAuthSession: async () => TEST_AUTH_SESSION,
+  getAuthSession: async () => null,
   requireAuthSessionMiddleware: async () => {},
   ...overrides,
 });
@@ -253,6 +254,106 @@ test("forum route forwards search query params", async (t) => {
   assert.deepEqual(receivedInput, {
     query: "ens",
     limit: 12,
+    questionStatus: undefined,
+    viewerUserId: undefined,
+  });
+});
+
+test("forum route forwards block, mute and tag mute toggles for the session user", async (t) => {
+  const received: Record<string, unknown> = {};
+
+  const app = await buildForumTestApp({
+    toggleForumBlock: async (input) => {
+      received.block = input;
+      return { blocked: true, userId: input.targetUserId };
+    },
+    toggleForumMute: async (input) => {
+      received.mute = input;
+      return { muted: true, userId: input.targetUserId };
+    },
+    toggleForumTagMute: async (input) => {
+      received.tagMute = input;
+      return { muted: true, tag: input.tag };
+    },
+  });
+
+  t.after(async () => {
+    await app.close();
+  });
+
+  for (const [url, payload] of [
+    ["/api/forum/blocks/toggle", { userId: TEST_TARGET_USER_ID }],
+    ["/api/forum/mutes/toggle", { userId: TEST_TARGET_USER_ID }],
+    ["/api/forum/tag-mutes/toggle", { tag: "solidity" }],
+  ] as const) {
+    const response = await app.inject({ method: "POST", url, payload });
+    assert.equal(response.statusCode, 200);
+  }
+
+  assert.deepEqual(received, {
+    block: { userId: TEST_USER_ID, targetUserId: TEST_TARGET_USER_ID },
+    mute: { userId: TEST_USER_ID, targetUserId: TEST_TARGET_USER_ID },
+    tagMute: { userId: TEST_USER_ID, tag: "solidity" },
+  });
+});
+
+test("forum category routes forward slug scope to feed and search", async (t) => {
+  let feedInput: unknown = null;
+  let searchInput: unknown = null;
+
+  const app = await buildForumTestApp({
+    getForumFeed: async (input) => {
+      feedInput = input;
+      return {
+        posts: [],
+        nextCursor: null,
+      };
+    },
+    searchForumContent: async (input) => {
+      searchInput = input;
+      return {
+        posts: [],
+        comments: [],
+      };
+    },
+  });
+
+  t.after(async () => {
+    await app.close();
+  });
+
+  const feedResponse = await app.inject({
+    method: "GET",
+    url: `/api/forum/categories/solidity/feed?limit=5&cursor=${TEST_POST_ID}`,
+  });
+
+  assert.equal(feedResponse.statusCode, 200);
+  assert.deepEqual(feedInput, {
+    limit: 5,
+    cursor: TEST_POST_ID,
+    userId: undefined,
+    categorySlug: "solidity",
+    questionStatus: undefined,
+    sort: undefined,
+    window: undefined,
+    tag: undefined,
+    authorId: undefined,
+    hasCode: undefined,
+    noComments: undefined,
+  });
+
+  const searchResponse = await app.inject({
+    method: "GET",
+    url: "/api/forum/categories/solidity/search?query=reentrancy",
+  });
+
+  assert.equal(searchResponse.statusCode, 200);
+  assert.deepEqual(searchInput, {
+    query: "reentrancy",
+    limit: undefined,
+    categorySlug: "solidity",
+    questionStatus: undefined,
+    viewerUserId: undefined,
   });
 });
 
@@ -283,6 +384,38 @@ test("forum posts list route forwards author filter query", async (t) => {
     limit: 11,
     cursor: TEST_POST_ID,
     authorId: TEST_USER_ID,
+    language: undefined,
+  });
+});
+
+test("forum posts list route forwards code language filter query", async (t) => {
+  let receivedInput: unknown = null;
+
+  const app = await buildForumTestApp({
+    listForumPosts: async (input) => {
+      receivedInput = input;
+      return {
+        posts: [],
+        nextCursor: null,
+      };
+    },
+  });
+
+  t.after(async () => {
+    await app.close();
+  });
+
+  const response = await app.inject({
+    method: "GET",
+    url: "/api/forum/posts?limit=11&language=ts",
+  });
+
+  assert.equal(response.statusCode, 200);
+  assert.deepEqual(receivedInput, {
+    limit: 11,
+    cursor: undefined,
+    authorId: undefined,
+    language: "ts",
   });
 });
 
@@ -320,7 +453,99 @@ test("forum route forwards feed params without auth for public feed", async (t)
     cursor: undefined,
     followingOnly: undefined,
     userId: undefined,
+    categorySlug: undefined,
+    questionStatus: undefined,
+    sort: undefined,
+    window: undefined,
+    tag: undefined,
+    authorId: undefined,
+    hasCode: undefined,
+    noComments: undefined,
+  });
+});
+
+const injectPublicFeed = async (t: { after: (fn: () => Promise<void>) => void }, query: string) => {
+  let feedInput: unknown = null;
+
+  const app = await buildForumTestApp({
+    getForumFeed: async (input) => {
+      feedInput = input;
+      return {
+        posts: [],
+        nextCursor: null,
+      };
+    },
+  });
+
+  t.after(async () => {
+    await app.close();
+  });
+
+  const response = await app.inject({
+    method: "GET",
+    url: `/api/forum/feed?${query}`,
   });
+
+  return { response, feedInput };
+};
+
+const DEFAULT_FEED_INPUT = {
+  limit: undefined,
+  cursor: undefined,
+  followingOnly: undefined,
+  userId: undefined,
+  categorySlug: undefined,
+  questionStatus: undefined,
+  sort: undefined,
+  window: undefined,
+  tag: undefined,
+  authorId: undefined,
+  hasCode: undefined,
+  noComments: undefined,
+};
+
+test("forum route forwards feed sort and window", async (t) => {
+  const { response, feedInput } = await injectPublicFeed(t, "sort=top&window=month");
+
+  assert.equal(response.statusCode, 200);
+  assert.deepEqual(feedInput, { ...DEFAULT_FEED_INPUT, sort: "top", window: "month" });
+});
+
+test("forum route forwards hot and active feed sorts", async (t) => {
+  for (const sort of ["hot", "active"] as const) {
+    const { response, feedInput } = await injectPublicFeed(t, `sort=${sort}`);
+
+    assert.equal(response.statusCode, 200);
+    assert.deepEqual(feedInput, { ...DEFAULT_FEED_INPUT, sort });
+  }
+});
+
+test("forum route forwards feed tag filter", async (t) => {
+  const { response, feedInput } = await injectPublicFeed(t, "tag=solidity");
+
+  assert.equal(response.statusCode, 200);
+  assert.deepEqual(feedInput, { ...DEFAULT_FEED_INPUT, tag: "solidity" });
+});
+
+test("forum route forwards feed author filter", async (t) => {
+  const { response, feedInput } = await injectPublicFeed(t, `authorId=${TEST_USER_ID}`);
+
+  assert.equal(response.statusCode, 200);
+  assert.deepEqual(feedInput, { ...DEFAULT_FEED_INPUT, authorId: TEST_USER_ID });
+});
+
+test("forum route forwards feed has-code filter", async (t) => {
+  const { response, feedInput } = await injectPublicFeed(t, "hasCode=true");
+
+  assert.equal(response.statusCode, 200);
+  assert.deepEqual(feedInput, { ...DEFAULT_FEED_INPUT, hasCode: true });
+});
+
+test("forum route forwards feed no-comments filter", async (t) => {
+  const { response, feedInput } = await injectPublicFeed(t, "noComments=false");
+
+  assert.equal(response.statusCode, 200);
+  assert.deepEqual(feedInput, { ...DEFAULT_FEED_INPUT, noComments: false });
 });
 
 test("forum route resolves auth user for following-only feed", async (t) => {
@@ -357,6 +582,51 @@ test("forum route resolves auth user for following-only feed", async (t) => {
     cursor: undefined,
     followingOnly: true,
     userId: TEST_USER_ID,
+    categorySlug: undefined,
+    questionStatus: undefined,
+    sort: undefined,
+    window: undefined,
+    tag: undefined,
+    authorId: undefined,
+    hasCode: undefined,
+    noComments: undefined,
+  });
+});
+
+test("forum comment tree route forwards sort and pagination query", async (t) => {
+  let receivedInput: unknown = null;
+
+  const app = await buildForumTestApp({
+    getForumCommentTree: async (input) => {
+      receivedInput = input;
+      return {
+        postId: input.postId,
+        parentId: input.parentId ?? null,
+        sort: input.sort ?? "oldest",
+        comments: [],
+        nextCursor: null,
+      };
+    },
+  });
+
+  t.after(async () => {
+    await app.close();
+  });
+
+  const response = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${TEST_POST_ID}/comments?sort=top&parentId=${TEST_COMMENT_ID}&limit=10&replyLimit=3&depth=1`,
+  });
+
+  assert.equal(response.statusCode, 200);
+  assert.deepEqual(receivedInput, {
+    postId: TEST_POST_ID,
+    sort: "top",
+    parentId: TEST_COMMENT_ID,
+    limit: 10,
+    cursor: undefined,
+    replyLimit: 3,
+    depth: 1,
   });
 });
 
@@ -379,15 +649,23 @@ test("forum post detail route forwards comments pagination query", async (t) =>
           reactionCount: 0,
           shareCount: 0,
           bookmarkCount: 0,
+          hotScore: 0,
           createdAt: now,
           updatedAt: now,
           lastActivityAt: now,
           deletedAt: null,
           authorId: TEST_USER_ID,
+          categoryId: null,
+          postType: "discussion",
+          acceptedCommentId: null,
+          acceptedAt: null,
           contentMarkdown: "sample",
           contentPlaintext: "sample",
+          contentHtml: "<p>sample</p>",
           contentMeta: {},
         },
+        poll: null,
+        acceptedAnswer: null,
         comments: [],
         commentsNextCursor: null,
       };
@@ -408,6 +686,7 @@ test("forum post detail route forwards comments pagination query", async (t) =>
     postId: TEST_POST_ID,
     commentsLimit: 12,
     commentsCursor: TEST_COMMENT_ID,
+    viewerUserId: undefined,
   });
 });
 
@@ -615,3 +894,131 @@ test("forum pin endpoint returns forbidden when permission denied", async (t) =>
   assert.equal(response.statusCode, 403);
   assert.equal(response.json().code, "FORBIDDEN");
 });
+
+test("forum poll vote route forwards selected options", async (t) => {
+  let receivedInput: unknown = null;
+
+  const app = await buildForumTestApp({
+    voteForumPoll: async (input) => {
+      receivedInput = input;
+      throw new HttpError(409, "POLL_ALREADY_VOTED", "You have already voted in this poll");
+    },
+  });
+
+  t.after(async () => {
+    await app.close();
+  });
+
+  const response = await app.inject({
+    method: "POST",
+    url: `/api/forum/posts/${TEST_POST_ID}/poll/votes`,
+    payload: {
+      optionIds: [TEST_COMMENT_ID],
+    },
+  });
+
+  assert.equal(response.statusCode, 409);
+  assert.equal(response.json().code, "POLL_ALREADY_VOTED");
+  assert.deepEqual(receivedInput, {
+    userId: TEST_USER_ID,
+    postId: TEST_POST_ID,
+    optionIds: [TEST_COMMENT_ID],
+  });
+});
+
+test("forum accepted answer route forwards comment selection", async (t) => {
+  let receivedInput: unknown = null;
+
+  const app = await buildForumTestApp({
+    setForumAcceptedAnswer: async (input) => {
+      receivedInput = input;
+      throw new HttpError(409, "POST_NOT_QUESTION", "Only question posts can have an accepted answer");
+    },
+  });
+
+  t.after(async () => {
+    await app.close();
+  });
+
+  const response = await app.inject({
+    method: "POST",
+    url: `/api/forum/posts/${TEST_POST_ID}/accepted-answer`,
+    payload: {
+      commentId: TEST_COMMENT_ID,
+    },
+  });
+
+  assert.equal(response.statusCode, 409);
+  assert.equal(response.json().code, "POST_NOT_QUESTION");
+  assert.deepEqual(receivedInput, {
+    userId: TEST_USER_ID,
+    postId: TEST_POST_ID,
+    commentId: TEST_COMMENT_ID,
+  });
+});
+
+test("forum revisions route forwards revision range query", async (t) => {
+  let receivedInput: unknown = null;
+
+  const app = await buildForumTestApp({
+    listForumPostRevisions: async (input) => {
+      receivedInput = input;
+      return {
+        postId: input.postId,
+        status: "published",
+        revisions: [],
+        diff: null,
+      };
+    },
+  });
+
+  t.after(async () => {
+    await app.close();
+  });
+
+  const response = await app.inject({
+    method: "GET",
+    url: `/api/forum/posts/${TEST_POST_ID}/revisions?from=1&to=3`,
+  });
+
+  assert.equal(response.statusCode, 200);
+  assert.deepEqual(receivedInput, {
+    postId: TEST_POST_ID,
+    fromRevision: 1,
+    toRevision: 3,
+  });
+});
+
+test("forum moderation revisions route forwards moderator identity", async (t) => {
+  let receivedInput: unknown = null;
+
+  const app = await buildForumTestApp({
+    listForumCommentRevisions: async (input) => {
+      receivedInput = input;
+      return {
+        commentId: input.commentId,
+        postId: TEST_POST_ID,
+        status: "soft_deleted",
+        revisions: [],
+        diff: null,
+      };
+    },
+  });
+
+  t.after(async () => {
+    await app.close();
+  });
+
+  const response = await app.inject({
+    method: "GET",
+    url: `/api/forum/mod/comments/${TEST_COMMENT_ID}/revisions?to=2`,
+  });
+
+  assert.equal(response.statusCode, 200);
+  assert.deepEqual(receivedInput, {
+    commentId: TEST_COMMENT_ID,
+    moderatorUserId: TEST_USER_ID,
+    fromRevision: undefined,
+    toRevision: 2,
+  });
+});
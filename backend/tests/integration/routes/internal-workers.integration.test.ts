@@ -168,6 +168,12 @@ const createOpsMetricsSnapshot = (): OpsMetricsSnapshot => ({
     "identity-sync": { completed: 0, skipped: 0, failed: 0 },
     "forum-search-sync": { completed: 0, skipped: 0, failed: 0 },
     "forum-search-backfill": { completed: 0, skipped: 0, failed: 0 },
+    "forum-poll-close": { completed: 0, skipped: 0, failed: 0 },
+    "forum-trend-score": { completed: 0, skipped: 0, failed: 0 },
+    "ens-records-sync": { completed: 0, skipped: 0, failed: 0 },
+    "ens-expiry-reminders": { completed: 0, skipped: 0, failed: 0 },
+    "ens-log-indexer": { completed: 0, skipped: 0, failed: 0 },
+    "outbound-webhooks": { completed: 0, skipped: 0, failed: 0 },
   },
   workerSkipStreak: {
     reconciliation: 0,
@@ -177,6 +183,12 @@ const createOpsMetricsSnapshot = (): OpsMetricsSnapshot => ({
     "identity-sync": 0,
     "forum-search-sync": 0,
     "forum-search-backfill": 0,
+    "forum-poll-close": 0,
+    "forum-trend-score": 0,
+    "ens-records-sync": 0,
+    "ens-expiry-reminders": 0,
+    "ens-log-indexer": 0,
+    "outbound-webhooks": 0,
   },
 });
 
@@ -154,6 +154,8 @@ export const authEnv = {
     rpcUrl: process.env.OORTHNEXUS_RPC_URL ?? "https://rpc-api.oorthnexus.xyz",
     chainId: parsePositiveInt(process.env.OORTHNEXUS_CHAIN_ID, 131),
     explorerUrl: process.env.OORTHNEXUS_EXPLORER_URL ?? "https://analytics.oorthnexus.xyz",
+    registryPath: process.env.NETWORK_REGISTRY_PATH?.trim() || null,
+    defaultChainId: process.env.DEFAULT_CHAIN_ID ? parsePositiveInt(process.env.DEFAULT_CHAIN_ID, 131) : null,
   },
   ens: {
     registryAddress:
@@ -162,5 +164,7 @@ export const authEnv = {
       process.env.ENS_PUBLIC_RESOLVER_ADDRESS ?? "0x47e9cbbd0ee572d996ffd0d7aa17796c5a247590",
     reverseRegistrarAddress:
       process.env.ENS_REVERSE_REGISTRAR_ADDRESS ?? "0x98fc575ec10729a3350ca7b74cfd2f1bf81e8f12",
+    multicall3Address:
+      process.env.ENS_MULTICALL3_ADDRESS ?? "0xca11bde05977b3631167028862be2a173976ca11",
   },
 } as const;
@@ -168,3 +168,26 @@ export const sendResetPasswordEmail = async (input: AuthEmailInput): Promise<voi
     text: `${intro}\n\n${input.url}`,
   });
 };
+
+export type EnsExpiryReminderEmailInput = AuthEmailInput & {
+  domainName: string;
+  expiresAt: Date;
+  inGracePeriod: boolean;
+};
+
+export const sendEnsExpiryReminderEmail = async (input: EnsExpiryReminderEmailInput): Promise<void> => {
+  const subject = input.inGracePeriod
+    ? `Domain ${input.domainName} sudah kedaluwarsa`
+    : `Domain ${input.domainName} akan segera kedaluwarsa`;
+  const expiresLabel = input.expiresAt.toISOString().slice(0, 10);
+  const intro = input.inGracePeriod
+    ? `${greet(input.name)}, domain ${input.domainName} kedaluwarsa pada ${expiresLabel} dan sedang dalam masa tenggang. Perpanjang sekarang agar tidak bisa didaftarkan orang lain.`
+    : `${greet(input.name)}, domain ${input.domainName} akan kedaluwarsa pada ${expiresLabel}. Perpanjang sekarang agar tetap menjadi milik kamu.`;
+
+  await sendAuthMail({
+    to: input.email,
+    subject,
+    html: buildEmailHtml(subject, intro, input.url, "Perpanjang Domain"),
+    text: `${intro}\n\n${input.url}`,
+  });
+};
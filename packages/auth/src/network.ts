@@ -1,5 +1,35 @@
+import { readFileSync } from "node:fs";
+
 import { authEnv } from "./env";
 
+export type EnsTldDeployment = {
+  controller: string;
+  baseRegistrar: string;
+  nameWrapper: string;
+};
+
+export type EnsCoreContractAddresses = {
+  ensRegistry: string;
+  publicResolver: string;
+  reverseRegistrar: string;
+  multicall3: string;
+  priceOracle: string;
+};
+
+export type NetworkConfig = {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  explorerUrl: string;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  contracts: EnsCoreContractAddresses;
+  tlds: Record<string, EnsTldDeployment>;
+};
+
 export const oorthNexusNetwork = {
   rpcUrl: authEnv.network.rpcUrl,
   chainId: authEnv.network.chainId,
@@ -10,6 +40,7 @@ export const ensCoreContracts = {
   ensRegistry: authEnv.ens.registryAddress,
   publicResolver: authEnv.ens.publicResolverAddress,
   reverseRegistrar: authEnv.ens.reverseRegistrarAddress,
+  multicall3: authEnv.ens.multicall3Address,
   priceOracle: "0x2fe5a484ad1479b3f771d6cca9c5edcb42e1ed2d",
 } as const;
 
@@ -17,21 +48,158 @@ export const ensTldControllers = {
   dev: {
     controller: "0x00a4c7ff46ab778d8333421d42715db2aa6b1b4d",
     baseRegistrar: "0xe077dc5c0a336f76662f024d98c0f20be0ad9d1c",
+    nameWrapper: "0x64606c86d56145bec8a000c63b9c7bdfc57c4430",
   },
   vibecoders: {
     controller: "0x48d7c909f01b6bb49461e24335734e13f5c900c2",
     baseRegistrar: "0x5b34fecea2324ad60bb29970ba343eda2cc39890",
+    nameWrapper: "0x33762503316f63aa85a7da59b0eb19d90aac30b7",
   },
   fullstack: {
     controller: "0x0f3e10eef6327cc54a940565bab22cb68e1744cc",
     baseRegistrar: "0x9794c5fe486ca9f6e60d85af502e8b8760531cec",
+    nameWrapper: "0xd5ca06c6f0b34ae71b3a8c9b01a0c870d0cffe67",
   },
   backend: {
     controller: "0x078e29ad8ee892501864cd5a08b1e02e38063857",
     baseRegistrar: "0xc5ef6cf706800c7af9bef7c586db998a283e74f0",
+    nameWrapper: "0xe76d59b4bd6de79f1865ee9522c3e52f5c99eea5",
   },
   frontend: {
     controller: "0x3ec2521319ceb4d66bd877f432ea405f2806e623",
     baseRegistrar: "0x203c38e52b324221d12fb6407d8603fdcb2ba655",
+    nameWrapper: "0x8faa06bfc9b523a3ad8e92c138b1246bcc9de440",
   },
 } as const;
+
+const oorthNexusNetworkConfig: NetworkConfig = {
+  chainId: oorthNexusNetwork.chainId,
+  name: "OorthNexus",
+  rpcUrl: oorthNexusNetwork.rpcUrl,
+  explorerUrl: oorthNexusNetwork.explorerUrl,
+  nativeCurrency: {
+    name: "ONXS",
+    symbol: "ONXS",
+    decimals: 18,
+  },
+  contracts: { ...ensCoreContracts },
+  tlds: { ...ensTldControllers },
+};
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+const readAddress = (value: unknown, path: string): string => {
+  if (typeof value !== "string" || !ADDRESS_PATTERN.test(value)) {
+    throw new Error(`Network registry: ${path} must be a 0x-prefixed 20-byte address`);
+  }
+
+  return value.toLowerCase();
+};
+
+const readString = (value: unknown, path: string): string => {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw new Error(`Network registry: ${path} is required`);
+  }
+
+  return value.trim();
+};
+
+const parseNetworkEntry = (raw: unknown, index: number): NetworkConfig => {
+  if (!raw || typeof raw !== "object") {
+    throw new Error(`Network registry: entry ${index} must be an object`);
+  }
+
+  const entry = raw as Record<string, unknown>;
+  const chainId = Number(entry.chainId);
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw new Error(`Network registry: entry ${index} chainId must be a positive integer`);
+  }
+
+  const path = `chain ${chainId}`;
+  const contracts = (entry.contracts ?? {}) as Record<string, unknown>;
+  const nativeCurrency = (entry.nativeCurrency ?? {}) as Record<string, unknown>;
+  const rawTlds = (entry.tlds ?? {}) as Record<string, unknown>;
+
+  const tlds: Record<string, EnsTldDeployment> = {};
+  for (const [tld, rawDeployment] of Object.entries(rawTlds)) {
+    const deployment = (rawDeployment ?? {}) as Record<string, unknown>;
+    tlds[tld.trim().toLowerCase().replace(/^\./, "")] = {
+      controller: readAddress(deployment.controller, `${path} tlds.${tld}.controller`),
+      baseRegistrar: readAddress(deployment.baseRegistrar, `${path} tlds.${tld}.baseRegistrar`),
+      nameWrapper: readAddress(deployment.nameWrapper, `${path} tlds.${tld}.nameWrapper`),
+    };
+  }
+
+  return {
+    chainId,
+    name: readString(entry.name, `${path} name`),
+    rpcUrl: readString(entry.rpcUrl, `${path} rpcUrl`),
+    explorerUrl: typeof entry.explorerUrl === "string" ? entry.explorerUrl.trim() : "",
+    nativeCurrency: {
+      name: typeof nativeCurrency.name === "string" ? nativeCurrency.name : "Ether",
+      symbol: typeof nativeCurrency.symbol === "string" ? nativeCurrency.symbol : "ETH",
+      decimals: Number.isInteger(nativeCurrency.decimals) ? Number(nativeCurrency.decimals) : 18,
+    },
+    contracts: {
+      ensRegistry: readAddress(contracts.ensRegistry, `${path} contracts.ensRegistry`),
+      publicResolver: readAddress(contracts.publicResolver, `${path} contracts.publicResolver`),
+      reverseRegistrar: readAddress(contracts.reverseRegistrar, `${path} contracts.reverseRegistrar`),
+      multicall3: readAddress(contracts.multicall3 ?? ensCoreContracts.multicall3, `${path} contracts.multicall3`),
+      priceOracle: readAddress(contracts.priceOracle, `${path} contracts.priceOracle`),
+    },
+    tlds,
+  };
+};
+
+const loadNetworkRegistry = (): NetworkConfig[] => {
+  const networks = [oorthNexusNetworkConfig];
+  const registryPath = authEnv.network.registryPath;
+  if (!registryPath) {
+    return networks;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(registryPath, "utf8"));
+  } catch (error) {
+    throw new Error(`Network registry: failed to read ${registryPath}: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error("Network registry: file must contain a JSON array of networks");
+  }
+
+  for (const [index, raw] of parsed.entries()) {
+    const network = parseNetworkEntry(raw, index);
+    if (networks.some((existing) => existing.chainId === network.chainId)) {
+      throw new Error(`Network registry: chain ${network.chainId} is defined more than once`);
+    }
+
+    networks.push(network);
+  }
+
+  return networks;
+};
+
+const networkRegistry = loadNetworkRegistry();
+
+const defaultNetwork = (() => {
+  const configured = authEnv.network.defaultChainId;
+  if (configured === null) {
+    return oorthNexusNetworkConfig;
+  }
+
+  const network = networkRegistry.find((entry) => entry.chainId === configured);
+  if (!network) {
+    throw new Error(`DEFAULT_CHAIN_ID ${configured} is not in the network registry`);
+  }
+
+  return network;
+})();
+
+export const listNetworks = (): readonly NetworkConfig[] => networkRegistry;
+
+export const getDefaultNetwork = (): NetworkConfig => defaultNetwork;
+
+export const findNetwork = (chainId: number): NetworkConfig | null =>
+  networkRegistry.find((entry) => entry.chainId === chainId) ?? null;
@@ -3,12 +3,23 @@ import { randomBytes, randomUUID } from "node:crypto";
 import { createDb, schema } from "@evergreen-devparty/db";
 import { and, eq, gt, isNull } from "drizzle-orm";
 import { getAddress } from "ethers";
-import { SiweMessage } from "siwe";
+import { SiweErrorType, SiweMessage } from "siwe";
+import { createPublicClient, http, type Address, type Hex, type PublicClient } from "viem";
 
 import { authEnv } from "./env";
+import { findNetwork } from "./network";
 
 type Db = ReturnType<typeof createDb>;
 
+export type SiweWalletType = "eoa" | "contract";
+
+export type VerifyContractWalletSignature = (input: {
+  address: string;
+  chainId: number;
+  message: string;
+  signature: string;
+}) => Promise<boolean>;
+
 export type CreateSiweChallengeInput = {
   db: Db;
   walletAddress: string;
@@ -32,6 +43,7 @@ export type VerifySiweChallengeInput = {
   expectedDomain?: string;
   expectedUri?: string;
   allowedChainIds?: number[];
+  verifyContractSignature?: VerifyContractWalletSignature;
 };
 
 export type VerifySiweChallengeResult = {
@@ -39,6 +51,7 @@ export type VerifySiweChallengeResult = {
   nonce: string;
   address: string;
   chainId: number;
+  walletType: SiweWalletType;
 };
 
 export type LinkSiweIdentityInput = {
@@ -46,6 +59,7 @@ export type LinkSiweIdentityInput = {
   userId: string;
   address: string;
   chainId: number;
+  walletType?: SiweWalletType;
   setAsPrimary?: boolean;
 };
 
@@ -69,6 +83,42 @@ const isPlaceholderSignature = (signature: string): boolean =>
 
 const createNonceValue = (): string => randomBytes(16).toString("hex");
 
+const contractWalletClients = new Map<number, PublicClient>();
+
+const getContractWalletClient = (chainId: number): PublicClient | null => {
+  const network = findNetwork(chainId);
+  if (!network) {
+    return null;
+  }
+
+  let client = contractWalletClients.get(chainId);
+  if (!client) {
+    client = createPublicClient({ transport: http(network.rpcUrl) });
+    contractWalletClients.set(chainId, client);
+  }
+
+  return client;
+};
+
+// viem's verifyMessage checks EIP-1271 on deployed wallets and unwraps ERC-6492
+// signatures for counterfactual ones through its deployless validator.
+const verifyContractWalletSignatureOnChain: VerifyContractWalletSignature = async (input) => {
+  const client = getContractWalletClient(input.chainId);
+  if (!client) {
+    return false;
+  }
+
+  try {
+    return await client.verifyMessage({
+      address: input.address as Address,
+      message: input.message,
+      signature: input.signature as Hex,
+    });
+  } catch {
+    return false;
+  }
+};
+
 export const createSiweChallenge = async (
   input: CreateSiweChallengeInput
 ): Promise<CreateSiweChallengeResult> => {
@@ -155,22 +205,42 @@ export const verifySiweChallenge = async (
     throw new Error("SIWE chain is not in allowlist");
   }
 
+  let walletType: SiweWalletType = "eoa";
   const skipSignatureVerification = shouldAllowPlaceholderSignature() && isPlaceholderSignature(input.signature);
   if (!skipSignatureVerification) {
     let verification: Awaited<ReturnType<SiweMessage["verify"]>>;
     try {
-      verification = await parsed.verify({
-        signature: input.signature,
-        domain: expectedDomain,
-        nonce: nonceRecord.nonce,
-        time: now.toISOString(),
-      });
+      verification = await parsed.verify(
+        {
+          signature: input.signature,
+          domain: expectedDomain,
+          nonce: nonceRecord.nonce,
+          time: now.toISOString(),
+        },
+        { suppressExceptions: true }
+      );
     } catch {
       throw new Error("SIWE signature verification failed");
     }
 
     if (!verification.success) {
-      throw new Error("SIWE signature verification failed");
+      if (verification.error?.type !== SiweErrorType.INVALID_SIGNATURE) {
+        throw new Error("SIWE signature verification failed");
+      }
+
+      const verifyContractSignature = input.verifyContractSignature ?? verifyContractWalletSignatureOnChain;
+      const contractVerified = await verifyContractSignature({
+        address: parsed.address,
+        chainId: nonceRecord.chainId,
+        message: parsed.prepareMessage(),
+        signature: input.signature,
+      });
+
+      if (!contractVerified) {
+        throw new Error("SIWE signature verification failed");
+      }
+
+      walletType = "contract";
     }
   }
 
@@ -189,6 +259,7 @@ export const verifySiweChallenge = async (
     nonce: nonceRecord.nonce,
     address: verifiedAddress,
     chainId: nonceRecord.chainId,
+    walletType,
   };
 };
 
@@ -218,7 +289,7 @@ export const linkSiweIdentity = async (input: LinkSiweIdentityInput): Promise<vo
       userId: input.userId,
       chainId: input.chainId,
       address: normalizedAddress,
-      walletType: "evm",
+      walletType: input.walletType ?? "eoa",
       isPrimary: shouldBePrimary,
       verifiedAt: now,
       createdAt: now,
@@ -228,6 +299,7 @@ export const linkSiweIdentity = async (input: LinkSiweIdentityInput): Promise<vo
       target: [schema.wallets.chainId, schema.wallets.address],
       set: {
         userId: input.userId,
+        ...(input.walletType ? { walletType: input.walletType } : {}),
         isPrimary: shouldBePrimary,
         verifiedAt: now,
         updatedAt: now,
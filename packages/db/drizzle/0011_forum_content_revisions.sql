@@ -0,0 +1,30 @@
+CREATE TABLE "forum_comment_revisions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"comment_id" text NOT NULL,
+	"post_id" text NOT NULL,
+	"revision" integer NOT NULL,
+	"editor_user_id" text,
+	"content_markdown" text NOT NULL,
+	"content_plaintext" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "forum_post_revisions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"post_id" text NOT NULL,
+	"revision" integer NOT NULL,
+	"editor_user_id" text,
+	"title" varchar(280) NOT NULL,
+	"content_markdown" text NOT NULL,
+	"content_plaintext" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "forum_comment_revisions" ADD CONSTRAINT "forum_comment_revisions_comment_id_forum_comments_id_fk" FOREIGN KEY ("comment_id") REFERENCES "public"."forum_comments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "forum_comment_revisions" ADD CONSTRAINT "forum_comment_revisions_post_id_forum_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."forum_posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "forum_comment_revisions" ADD CONSTRAINT "forum_comment_revisions_editor_user_id_users_id_fk" FOREIGN KEY ("editor_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "forum_post_revisions" ADD CONSTRAINT "forum_post_revisions_post_id_forum_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."forum_posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "forum_post_revisions" ADD CONSTRAINT "forum_post_revisions_editor_user_id_users_id_fk" FOREIGN KEY ("editor_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "forum_comment_revisions_comment_revision_unique" ON "forum_comment_revisions" USING btree ("comment_id","revision");--> statement-breakpoint
+CREATE INDEX "forum_comment_revisions_post_id_idx" ON "forum_comment_revisions" USING btree ("post_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "forum_post_revisions_post_revision_unique" ON "forum_post_revisions" USING btree ("post_id","revision");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "forum_comments" ADD COLUMN "content_html" text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE "forum_posts" ADD COLUMN "content_html" text DEFAULT '' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TYPE "public"."forum_category_post_policy" AS ENUM('everyone', 'verified_ens', 'moderators', 'admins');--> statement-breakpoint
+CREATE TABLE "forum_categories" (
+	"id" text PRIMARY KEY NOT NULL,
+	"parent_id" text,
+	"slug" varchar(120) NOT NULL,
+	"name" varchar(120) NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"post_policy" "forum_category_post_policy" DEFAULT 'everyone' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "forum_category_moderators" (
+	"category_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "forum_category_moderators_pk" PRIMARY KEY("category_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "forum_posts" ADD COLUMN "category_id" text;--> statement-breakpoint
+ALTER TABLE "forum_category_moderators" ADD CONSTRAINT "forum_category_moderators_category_id_forum_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."forum_categories"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "forum_category_moderators" ADD CONSTRAINT "forum_category_moderators_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "forum_categories_slug_unique" ON "forum_categories" USING btree ("slug");--> statement-breakpoint
+CREATE INDEX "forum_categories_parent_sort_idx" ON "forum_categories" USING btree ("parent_id","sort_order");--> statement-breakpoint
+CREATE INDEX "forum_category_moderators_user_id_idx" ON "forum_category_moderators" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "forum_posts" ADD CONSTRAINT "forum_posts_category_id_forum_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."forum_categories"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "forum_posts_category_activity_idx" ON "forum_posts" USING btree ("category_id","last_activity_at");
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TYPE "public"."forum_post_type" AS ENUM('discussion', 'question');--> statement-breakpoint
+ALTER TYPE "public"."forum_notification_type" ADD VALUE 'answer_accepted';--> statement-breakpoint
+ALTER TABLE "forum_posts" ADD COLUMN "post_type" "forum_post_type" DEFAULT 'discussion' NOT NULL;--> statement-breakpoint
+ALTER TABLE "forum_posts" ADD COLUMN "accepted_comment_id" text;--> statement-breakpoint
+ALTER TABLE "forum_posts" ADD COLUMN "accepted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "forum_posts" ADD CONSTRAINT "forum_posts_accepted_comment_id_forum_comments_id_fk" FOREIGN KEY ("accepted_comment_id") REFERENCES "public"."forum_comments"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "forum_posts_question_idx" ON "forum_posts" USING btree ("post_type","accepted_comment_id");
\ No newline at end of file
@@ -0,0 +1,38 @@
+ALTER TYPE "public"."forum_notification_type" ADD VALUE 'poll_closed';--> statement-breakpoint
+CREATE TABLE "forum_poll_options" (
+	"id" text PRIMARY KEY NOT NULL,
+	"poll_id" text NOT NULL,
+	"position" integer NOT NULL,
+	"label" varchar(120) NOT NULL,
+	"vote_count" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "forum_poll_votes" (
+	"poll_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"option_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "forum_poll_votes_pk" PRIMARY KEY("poll_id","user_id","option_id")
+);
+--> statement-breakpoint
+CREATE TABLE "forum_polls" (
+	"id" text PRIMARY KEY NOT NULL,
+	"post_id" text NOT NULL,
+	"question" text,
+	"allow_multiple" boolean DEFAULT false NOT NULL,
+	"ens_gated" boolean DEFAULT false NOT NULL,
+	"voter_count" integer DEFAULT 0 NOT NULL,
+	"closes_at" timestamp with time zone,
+	"closed_notified_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "forum_poll_options" ADD CONSTRAINT "forum_poll_options_poll_id_forum_polls_id_fk" FOREIGN KEY ("poll_id") REFERENCES "public"."forum_polls"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "forum_poll_votes" ADD CONSTRAINT "forum_poll_votes_poll_id_forum_polls_id_fk" FOREIGN KEY ("poll_id") REFERENCES "public"."forum_polls"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "forum_poll_votes" ADD CONSTRAINT "forum_poll_votes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "forum_poll_votes" ADD CONSTRAINT "forum_poll_votes_option_id_forum_poll_options_id_fk" FOREIGN KEY ("option_id") REFERENCES "public"."forum_poll_options"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "forum_polls" ADD CONSTRAINT "forum_polls_post_id_forum_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."forum_posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "forum_poll_options_position_unique" ON "forum_poll_options" USING btree ("poll_id","position");--> statement-breakpoint
+CREATE UNIQUE INDEX "forum_polls_post_unique" ON "forum_polls" USING btree ("post_id");--> statement-breakpoint
+CREATE INDEX "forum_polls_close_idx" ON "forum_polls" USING btree ("closed_notified_at","closes_at");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "forum_tags" ALTER COLUMN "trend_score" SET DATA TYPE double precision;--> statement-breakpoint
+ALTER TABLE "forum_posts" ADD COLUMN "hot_score" double precision DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX "forum_posts_hot_idx" ON "forum_posts" USING btree ("hot_score","last_activity_at");
\ No newline at end of file
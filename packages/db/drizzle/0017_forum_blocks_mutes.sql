@@ -0,0 +1,28 @@
+CREATE TABLE "forum_tag_mutes" (
+	"user_id" text NOT NULL,
+	"tag_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "forum_tag_mutes_pk" PRIMARY KEY("user_id","tag_id")
+);
+--> statement-breakpoint
+CREATE TABLE "forum_user_blocks" (
+	"blocker_id" text NOT NULL,
+	"blocked_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "forum_user_blocks_pk" PRIMARY KEY("blocker_id","blocked_id")
+);
+--> statement-breakpoint
+CREATE TABLE "forum_user_mutes" (
+	"muter_id" text NOT NULL,
+	"muted_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "forum_user_mutes_pk" PRIMARY KEY("muter_id","muted_id")
+);
+--> statement-breakpoint
+ALTER TABLE "forum_tag_mutes" ADD CONSTRAINT "forum_tag_mutes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "forum_tag_mutes" ADD CONSTRAINT "forum_tag_mutes_tag_id_forum_tags_id_fk" FOREIGN KEY ("tag_id") REFERENCES "public"."forum_tags"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "forum_user_blocks" ADD CONSTRAINT "forum_user_blocks_blocker_id_users_id_fk" FOREIGN KEY ("blocker_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "forum_user_blocks" ADD CONSTRAINT "forum_user_blocks_blocked_id_users_id_fk" FOREIGN KEY ("blocked_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "forum_user_mutes" ADD CONSTRAINT "forum_user_mutes_muter_id_users_id_fk" FOREIGN KEY ("muter_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "forum_user_mutes" ADD CONSTRAINT "forum_user_mutes_muted_id_users_id_fk" FOREIGN KEY ("muted_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "forum_user_blocks_blocked_id_idx" ON "forum_user_blocks" USING btree ("blocked_id");
\ No newline at end of file
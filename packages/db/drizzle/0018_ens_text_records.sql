@@ -0,0 +1,11 @@
+CREATE TABLE "ens_text_records" (
+	"identity_id" text NOT NULL,
+	"key" varchar(64) NOT NULL,
+	"value" text NOT NULL,
+	"synced_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "ens_text_records_pk" PRIMARY KEY("identity_id","key")
+);
+--> statement-breakpoint
+ALTER TABLE "ens_identities" ADD COLUMN "address_record" varchar(42);--> statement-breakpoint
+ALTER TABLE "ens_identities" ADD COLUMN "records_synced_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "ens_text_records" ADD CONSTRAINT "ens_text_records_identity_id_ens_identities_id_fk" FOREIGN KEY ("identity_id") REFERENCES "public"."ens_identities"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "ens_identities" ADD COLUMN "reverse_record_verified_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE "ens_subnames" (
+	"id" text PRIMARY KEY NOT NULL,
+	"parent_identity_id" text NOT NULL,
+	"issuer_user_id" text NOT NULL,
+	"recipient_user_id" text,
+	"label" varchar(63) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"node" varchar(66) NOT NULL,
+	"owner_address" varchar(42) NOT NULL,
+	"resolver_address" varchar(42) NOT NULL,
+	"contract_address" varchar(42) NOT NULL,
+	"wrapped" boolean DEFAULT false NOT NULL,
+	"status" "ens_status" DEFAULT 'pending' NOT NULL,
+	"issue_tx_hash" varchar(66),
+	"revoke_tx_hash" varchar(66),
+	"issued_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ens_subnames" ADD CONSTRAINT "ens_subnames_parent_identity_id_ens_identities_id_fk" FOREIGN KEY ("parent_identity_id") REFERENCES "public"."ens_identities"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ens_subnames" ADD CONSTRAINT "ens_subnames_issuer_user_id_users_id_fk" FOREIGN KEY ("issuer_user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ens_subnames" ADD CONSTRAINT "ens_subnames_recipient_user_id_users_id_fk" FOREIGN KEY ("recipient_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ens_subnames_parent_identity_id_idx" ON "ens_subnames" USING btree ("parent_identity_id");--> statement-breakpoint
+CREATE INDEX "ens_subnames_recipient_user_id_idx" ON "ens_subnames" USING btree ("recipient_user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "ens_subnames_name_unique" ON "ens_subnames" USING btree ("name");--> statement-breakpoint
+CREATE INDEX "ens_subnames_status_idx" ON "ens_subnames" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TYPE "public"."ens_transfer_status" AS ENUM('prepared', 'submitted', 'completed', 'failed', 'cancelled');--> statement-breakpoint
+ALTER TYPE "public"."forum_notification_type" ADD VALUE 'ens_transfer';--> statement-breakpoint
+CREATE TABLE "ens_transfers" (
+	"id" text PRIMARY KEY NOT NULL,
+	"identity_id" text NOT NULL,
+	"sender_user_id" text NOT NULL,
+	"recipient_user_id" text,
+	"chain_id" integer NOT NULL,
+	"registrar_address" varchar(42) NOT NULL,
+	"token_id" text NOT NULL,
+	"from_address" varchar(42) NOT NULL,
+	"to_address" varchar(42) NOT NULL,
+	"tx_hash" varchar(66),
+	"status" "ens_transfer_status" DEFAULT 'prepared' NOT NULL,
+	"failure_reason" text,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ens_transfers" ADD CONSTRAINT "ens_transfers_identity_id_ens_identities_id_fk" FOREIGN KEY ("identity_id") REFERENCES "public"."ens_identities"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ens_transfers" ADD CONSTRAINT "ens_transfers_sender_user_id_users_id_fk" FOREIGN KEY ("sender_user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ens_transfers" ADD CONSTRAINT "ens_transfers_recipient_user_id_users_id_fk" FOREIGN KEY ("recipient_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ens_transfers_identity_id_idx" ON "ens_transfers" USING btree ("identity_id");--> statement-breakpoint
+CREATE INDEX "ens_transfers_sender_user_id_idx" ON "ens_transfers" USING btree ("sender_user_id");--> statement-breakpoint
+CREATE INDEX "ens_transfers_status_idx" ON "ens_transfers" USING btree ("status","updated_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "ens_transfers_tx_hash_unique" ON "ens_transfers" USING btree ("tx_hash");
\ No newline at end of file
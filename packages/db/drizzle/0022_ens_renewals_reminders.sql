@@ -0,0 +1,42 @@
+CREATE TYPE "public"."ens_expiry_reminder_window" AS ENUM('30d', '7d', '1d', 'grace');--> statement-breakpoint
+CREATE TYPE "public"."ens_renewal_intent_status" AS ENUM('prepared', 'submitted', 'renewed', 'failed', 'cancelled');--> statement-breakpoint
+ALTER TYPE "public"."forum_notification_type" ADD VALUE 'ens_expiry';--> statement-breakpoint
+CREATE TABLE "ens_expiry_reminders" (
+	"identity_id" text NOT NULL,
+	"window" "ens_expiry_reminder_window" NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"user_id" text NOT NULL,
+	"email_sent_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "ens_expiry_reminders_pk" PRIMARY KEY("identity_id","window","expires_at")
+);
+--> statement-breakpoint
+CREATE TABLE "ens_renewal_intents" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"identity_id" text NOT NULL,
+	"chain_id" integer NOT NULL,
+	"domain_name" varchar(255) NOT NULL,
+	"label" varchar(255) NOT NULL,
+	"controller_address" varchar(42) NOT NULL,
+	"base_registrar_address" varchar(42) NOT NULL,
+	"duration_seconds" integer NOT NULL,
+	"value_wei" text NOT NULL,
+	"referrer" varchar(66) NOT NULL,
+	"tx_hash" varchar(66),
+	"previous_expires_at" timestamp with time zone,
+	"renewed_expires_at" timestamp with time zone,
+	"status" "ens_renewal_intent_status" DEFAULT 'prepared' NOT NULL,
+	"failure_reason" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ens_expiry_reminders" ADD CONSTRAINT "ens_expiry_reminders_identity_id_ens_identities_id_fk" FOREIGN KEY ("identity_id") REFERENCES "public"."ens_identities"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ens_expiry_reminders" ADD CONSTRAINT "ens_expiry_reminders_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ens_renewal_intents" ADD CONSTRAINT "ens_renewal_intents_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ens_renewal_intents" ADD CONSTRAINT "ens_renewal_intents_identity_id_ens_identities_id_fk" FOREIGN KEY ("identity_id") REFERENCES "public"."ens_identities"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ens_renewal_intents_user_id_idx" ON "ens_renewal_intents" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "ens_renewal_intents_identity_id_idx" ON "ens_renewal_intents" USING btree ("identity_id");--> statement-breakpoint
+CREATE INDEX "ens_renewal_intents_status_idx" ON "ens_renewal_intents" USING btree ("status","updated_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "ens_renewal_intents_tx_hash_unique" ON "ens_renewal_intents" USING btree ("tx_hash");
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE "ens_chain_events" (
+	"id" text PRIMARY KEY NOT NULL,
+	"chain_id" integer NOT NULL,
+	"block_number" bigint NOT NULL,
+	"block_hash" varchar(66) NOT NULL,
+	"tx_hash" varchar(66) NOT NULL,
+	"log_index" integer NOT NULL,
+	"contract_address" varchar(42) NOT NULL,
+	"event_name" varchar(64) NOT NULL,
+	"tld" varchar(64),
+	"node" varchar(66),
+	"args" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "ens_indexer_checkpoints" (
+	"chain_id" integer PRIMARY KEY NOT NULL,
+	"block_number" bigint NOT NULL,
+	"block_hash" varchar(66) NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "ens_chain_events_log_unique" ON "ens_chain_events" USING btree ("chain_id","tx_hash","log_index");--> statement-breakpoint
+CREATE INDEX "ens_chain_events_block_idx" ON "ens_chain_events" USING btree ("chain_id","block_number");--> statement-breakpoint
+CREATE INDEX "ens_chain_events_node_idx" ON "ens_chain_events" USING btree ("node");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TYPE "public"."wallet_audit_action" AS ENUM('linked', 'unlinked', 'primary_changed');--> statement-breakpoint
+CREATE TYPE "public"."wallet_audit_outcome" AS ENUM('success', 'denied');--> statement-breakpoint
+CREATE TABLE "wallet_audit_events" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"wallet_id" text,
+	"chain_id" integer,
+	"address" varchar(42),
+	"action" "wallet_audit_action" NOT NULL,
+	"outcome" "wallet_audit_outcome" NOT NULL,
+	"step_up_method" varchar(24),
+	"reason_code" varchar(64),
+	"ip_address" varchar(64),
+	"user_agent" text,
+	"metadata" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "wallet_audit_events" ADD CONSTRAINT "wallet_audit_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "wallet_audit_events_user_created_idx" ON "wallet_audit_events" USING btree ("user_id","created_at");
\ No newline at end of file
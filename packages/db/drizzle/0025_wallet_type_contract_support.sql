@@ -0,0 +1,2 @@
+ALTER TABLE "wallets" ALTER COLUMN "wallet_type" SET DEFAULT 'eoa';--> statement-breakpoint
+UPDATE "wallets" SET "wallet_type" = 'eoa' WHERE "wallet_type" = 'evm';
\ No newline at end of file
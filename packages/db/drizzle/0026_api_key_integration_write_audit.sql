@@ -0,0 +1 @@
+ALTER TYPE "public"."api_key_audit_event_type" ADD VALUE 'integration_write';
\ No newline at end of file
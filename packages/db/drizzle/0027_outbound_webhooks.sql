@@ -0,0 +1,45 @@
+CREATE TYPE "public"."outbound_webhook_delivery_status" AS ENUM('pending', 'processing', 'delivered', 'failed', 'dead_letter');--> statement-breakpoint
+CREATE TYPE "public"."outbound_webhook_subscription_status" AS ENUM('active', 'paused');--> statement-breakpoint
+CREATE TABLE "outbound_webhook_deliveries" (
+	"id" text PRIMARY KEY NOT NULL,
+	"subscription_id" text NOT NULL,
+	"event_type" varchar(64) NOT NULL,
+	"dedupe_key" varchar(255) NOT NULL,
+	"payload" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"status" "outbound_webhook_delivery_status" DEFAULT 'pending' NOT NULL,
+	"attempt_count" integer DEFAULT 0 NOT NULL,
+	"response_status" integer,
+	"response_body" text,
+	"duration_ms" integer,
+	"last_error_code" varchar(64),
+	"last_error_message" text,
+	"next_retry_at" timestamp with time zone,
+	"delivered_at" timestamp with time zone,
+	"dead_lettered_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "outbound_webhook_subscriptions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"api_key_id" text,
+	"url" text NOT NULL,
+	"description" varchar(255),
+	"event_types" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"signing_secret" text NOT NULL,
+	"status" "outbound_webhook_subscription_status" DEFAULT 'active' NOT NULL,
+	"last_delivery_at" timestamp with time zone,
+	"last_failure_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "outbound_webhook_deliveries" ADD CONSTRAINT "outbound_webhook_deliveries_subscription_id_outbound_webhook_subscriptions_id_fk" FOREIGN KEY ("subscription_id") REFERENCES "public"."outbound_webhook_subscriptions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "outbound_webhook_subscriptions" ADD CONSTRAINT "outbound_webhook_subscriptions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "outbound_webhook_subscriptions" ADD CONSTRAINT "outbound_webhook_subscriptions_api_key_id_api_keys_id_fk" FOREIGN KEY ("api_key_id") REFERENCES "public"."api_keys"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "outbound_webhook_deliveries_subscription_created_idx" ON "outbound_webhook_deliveries" USING btree ("subscription_id","created_at");--> statement-breakpoint
+CREATE INDEX "outbound_webhook_deliveries_retry_idx" ON "outbound_webhook_deliveries" USING btree ("status","next_retry_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "outbound_webhook_deliveries_subscription_dedupe_unique" ON "outbound_webhook_deliveries" USING btree ("subscription_id","dedupe_key");--> statement-breakpoint
+CREATE INDEX "outbound_webhook_subscriptions_user_id_idx" ON "outbound_webhook_subscriptions" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "outbound_webhook_subscriptions_status_idx" ON "outbound_webhook_subscriptions" USING btree ("status");
\ No newline at end of file
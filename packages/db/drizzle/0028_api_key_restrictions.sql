@@ -0,0 +1,2 @@
+ALTER TYPE "public"."api_key_audit_event_type" ADD VALUE 'restrictions_updated';--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "restrictions" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+UPDATE "forum_categories" SET "parent_id" = NULL WHERE "parent_id" IS NOT NULL AND "parent_id" NOT IN (SELECT "id" FROM "forum_categories");--> statement-breakpoint
+ALTER TABLE "forum_categories" ADD CONSTRAINT "forum_categories_parent_id_forum_categories_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."forum_categories"("id") ON DELETE restrict ON UPDATE no action;
\ No newline at end of file
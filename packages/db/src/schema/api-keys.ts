@@ -12,6 +12,7 @@ import {
   varchar,
 } from "drizzle-orm/pg-core";
 
+import { organizations } from "./organizations";
 import { users } from "./user-core";
 
 export const apiKeyEnvironmentEnum = pgEnum("api_key_environment", ["live", "test"]);
@@ -26,6 +27,8 @@ export const apiKeyAuditEventTypeEnum = pgEnum("api_key_audit_event_type", [
   "signature_failed",
   "throttled",
   "blocked",
+  "integration_write",
+  "restrictions_updated",
 ]);
 export const apiKeyAuditOutcomeEnum = pgEnum("api_key_audit_outcome", ["success", "failure"]);
 export const apiKeyPolicyActionEnum = pgEnum("api_key_policy_action", ["allow", "throttle", "block"]);
@@ -37,12 +40,14 @@ export const apiKeys = pgTable(
     userId: text("user_id")
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
+    organizationId: text("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
     environment: apiKeyEnvironmentEnum("environment").notNull().default("live"),
     name: varchar("name", { length: 120 }).notNull(),
     prefix: varchar("prefix", { length: 32 }).notNull(),
     secretHash: text("secret_hash").notNull(),
     secretHint: varchar("secret_hint", { length: 16 }).notNull(),
     scopes: jsonb("scopes").notNull().default(sql`'[]'::jsonb`),
+    restrictions: jsonb("restrictions").notNull().default(sql`'{}'::jsonb`),
     status: apiKeyStatusEnum("status").notNull().default("active"),
     riskLevel: apiKeyRiskLevelEnum("risk_level").notNull().default("low"),
     riskScore: integer("risk_score").notNull().default(0),
@@ -78,6 +83,7 @@ export const apiKeys = pgTable(
     userUsedIdx: index("api_keys_user_last_used_idx").on(table.userId, table.lastUsedAt),
     rotatedFromIdx: index("api_keys_rotated_from_idx").on(table.rotatedFromKeyId),
     createdByIdx: index("api_keys_created_by_idx").on(table.createdByUserId),
+    organizationCreatedIdx: index("api_keys_organization_created_idx").on(table.organizationId, table.createdAt),
   })
 );
 
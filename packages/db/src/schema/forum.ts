@@ -1,6 +1,8 @@
 import { sql } from "drizzle-orm";
 import {
+  type AnyPgColumn,
   boolean,
+  doublePrecision,
   index,
   integer,
   jsonb,
@@ -16,6 +18,7 @@ import {
 import { ensIdentities, users } from "./user-core";
 
 export const forumPostStatusEnum = pgEnum("forum_post_status", ["published", "soft_deleted", "hidden"]);
+export const forumPostTypeEnum = pgEnum("forum_post_type", ["discussion", "question"]);
 export const forumCommentStatusEnum = pgEnum("forum_comment_status", ["published", "soft_deleted", "hidden"]);
 export const forumReactionTargetTypeEnum = pgEnum("forum_reaction_target_type", ["post", "comment"]);
 export const forumReferenceTargetTypeEnum = pgEnum("forum_reference_target_type", ["post", "comment"]);
@@ -29,6 +32,16 @@ export const forumNotificationTypeEnum = pgEnum("forum_notification_type", [
   "follow",
   "share",
   "report_update",
+  "answer_accepted",
+  "poll_closed",
+  "ens_transfer",
+  "ens_expiry",
+]);
+export const forumCategoryPostPolicyEnum = pgEnum("forum_category_post_policy", [
+  "everyone",
+  "verified_ens",
+  "moderators",
+  "admins",
 ]);
 export const forumSearchSyncTargetTypeEnum = pgEnum("forum_search_sync_target_type", ["post", "comment"]);
 export const forumSearchSyncOperationEnum = pgEnum("forum_search_sync_operation", ["upsert", "delete"]);
@@ -39,6 +52,45 @@ export const forumSearchSyncStatusEnum = pgEnum("forum_search_sync_status", [
   "dead_letter",
 ]);
 
+export const forumCategories = pgTable(
+  "forum_categories",
+  {
+    id: text("id").primaryKey(),
+    parentId: text("parent_id").references((): AnyPgColumn => forumCategories.id, { onDelete: "restrict" }),
+    slug: varchar("slug", { length: 120 }).notNull(),
+    name: varchar("name", { length: 120 }).notNull(),
+    description: text("description").notNull().default(""),
+    sortOrder: integer("sort_order").notNull().default(0),
+    postPolicy: forumCategoryPostPolicyEnum("post_policy").notNull().default("everyone"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    slugUnique: uniqueIndex("forum_categories_slug_unique").on(table.slug),
+    parentSortIdx: index("forum_categories_parent_sort_idx").on(table.parentId, table.sortOrder),
+  })
+);
+
+export const forumCategoryModerators = pgTable(
+  "forum_category_moderators",
+  {
+    categoryId: text("category_id")
+      .notNull()
+      .references(() => forumCategories.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({
+      name: "forum_category_moderators_pk",
+      columns: [table.categoryId, table.userId],
+    }),
+    userIdx: index("forum_category_moderators_user_id_idx").on(table.userId),
+  })
+);
+
 export const forumPosts = pgTable(
   "forum_posts",
   {
@@ -46,18 +98,24 @@ export const forumPosts = pgTable(
     authorId: text("author_id")
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
+    categoryId: text("category_id").references(() => forumCategories.id, { onDelete: "set null" }),
     title: varchar("title", { length: 280 }).notNull(),
     slug: varchar("slug", { length: 320 }).notNull(),
     contentMarkdown: text("content_markdown").notNull(),
     contentPlaintext: text("content_plaintext").notNull(),
+    contentHtml: text("content_html").notNull().default(""),
     contentMeta: jsonb("content_meta").notNull().default(sql`'{}'::jsonb`),
     status: forumPostStatusEnum("status").notNull().default("published"),
+    postType: forumPostTypeEnum("post_type").notNull().default("discussion"),
+    acceptedCommentId: text("accepted_comment_id").references((): AnyPgColumn => forumComments.id, { onDelete: "set null" }),
+    acceptedAt: timestamp("accepted_at", { withTimezone: true }),
     isPinned: boolean("is_pinned").notNull().default(false),
     isLocked: boolean("is_locked").notNull().default(false),
     commentCount: integer("comment_count").notNull().default(0),
     reactionCount: integer("reaction_count").notNull().default(0),
     shareCount: integer("share_count").notNull().default(0),
     bookmarkCount: integer("bookmark_count").notNull().default(0),
+    hotScore: doublePrecision("hot_score").notNull().default(0),
     lastActivityAt: timestamp("last_activity_at", { withTimezone: true }).notNull().defaultNow(),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
@@ -68,6 +126,9 @@ export const forumPosts = pgTable(
     statusIdx: index("forum_posts_status_idx").on(table.status),
     pinnedIdx: index("forum_posts_pinned_idx").on(table.isPinned, table.lastActivityAt),
     activityIdx: index("forum_posts_activity_idx").on(table.lastActivityAt),
+    categoryActivityIdx: index("forum_posts_category_activity_idx").on(table.categoryId, table.lastActivityAt),
+    hotIdx: index("forum_posts_hot_idx").on(table.hotScore, table.lastActivityAt),
+    questionIdx: index("forum_posts_question_idx").on(table.postType, table.acceptedCommentId),
     slugUnique: uniqueIndex("forum_posts_slug_unique").on(table.slug),
   })
 );
@@ -86,6 +147,7 @@ export const forumComments = pgTable(
     depth: integer("depth").notNull().default(0),
     contentMarkdown: text("content_markdown").notNull(),
     contentPlaintext: text("content_plaintext").notNull(),
+    contentHtml: text("content_html").notNull().default(""),
     contentMeta: jsonb("content_meta").notNull().default(sql`'{}'::jsonb`),
     status: forumCommentStatusEnum("status").notNull().default("published"),
     reactionCount: integer("reaction_count").notNull().default(0),
@@ -102,6 +164,107 @@ export const forumComments = pgTable(
   })
 );
 
+export const forumPolls = pgTable(
+  "forum_polls",
+  {
+    id: text("id").primaryKey(),
+    postId: text("post_id")
+      .notNull()
+      .references(() => forumPosts.id, { onDelete: "cascade" }),
+    question: text("question"),
+    allowMultiple: boolean("allow_multiple").notNull().default(false),
+    ensGated: boolean("ens_gated").notNull().default(false),
+    voterCount: integer("voter_count").notNull().default(0),
+    closesAt: timestamp("closes_at", { withTimezone: true }),
+    closedNotifiedAt: timestamp("closed_notified_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    postUnique: uniqueIndex("forum_polls_post_unique").on(table.postId),
+    closeIdx: index("forum_polls_close_idx").on(table.closedNotifiedAt, table.closesAt),
+  })
+);
+
+export const forumPollOptions = pgTable(
+  "forum_poll_options",
+  {
+    id: text("id").primaryKey(),
+    pollId: text("poll_id")
+      .notNull()
+      .references(() => forumPolls.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    label: varchar("label", { length: 120 }).notNull(),
+    voteCount: integer("vote_count").notNull().default(0),
+  },
+  (table) => ({
+    positionUnique: uniqueIndex("forum_poll_options_position_unique").on(table.pollId, table.position),
+  })
+);
+
+export const forumPollVotes = pgTable(
+  "forum_poll_votes",
+  {
+    pollId: text("poll_id")
+      .notNull()
+      .references(() => forumPolls.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    optionId: text("option_id")
+      .notNull()
+      .references(() => forumPollOptions.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({
+      name: "forum_poll_votes_pk",
+      columns: [table.pollId, table.userId, table.optionId],
+    }),
+  })
+);
+
+export const forumPostRevisions = pgTable(
+  "forum_post_revisions",
+  {
+    id: text("id").primaryKey(),
+    postId: text("post_id")
+      .notNull()
+      .references(() => forumPosts.id, { onDelete: "cascade" }),
+    revision: integer("revision").notNull(),
+    editorUserId: text("editor_user_id").references(() => users.id, { onDelete: "set null" }),
+    title: varchar("title", { length: 280 }).notNull(),
+    contentMarkdown: text("content_markdown").notNull(),
+    contentPlaintext: text("content_plaintext").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    postRevisionUnique: uniqueIndex("forum_post_revisions_post_revision_unique").on(table.postId, table.revision),
+  })
+);
+
+export const forumCommentRevisions = pgTable(
+  "forum_comment_revisions",
+  {
+    id: text("id").primaryKey(),
+    commentId: text("comment_id")
+      .notNull()
+      .references(() => forumComments.id, { onDelete: "cascade" }),
+    postId: text("post_id")
+      .notNull()
+      .references(() => forumPosts.id, { onDelete: "cascade" }),
+    revision: integer("revision").notNull(),
+    editorUserId: text("editor_user_id").references(() => users.id, { onDelete: "set null" }),
+    contentMarkdown: text("content_markdown").notNull(),
+    contentPlaintext: text("content_plaintext").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    commentRevisionUnique: uniqueIndex("forum_comment_revisions_comment_revision_unique").on(table.commentId, table.revision),
+    postIdx: index("forum_comment_revisions_post_id_idx").on(table.postId),
+  })
+);
+
 export const forumReactions = pgTable(
   "forum_reactions",
   {
@@ -190,6 +353,45 @@ export const forumFollows = pgTable(
   })
 );
 
+export const forumUserBlocks = pgTable(
+  "forum_user_blocks",
+  {
+    blockerId: text("blocker_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    blockedId: text("blocked_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({
+      name: "forum_user_blocks_pk",
+      columns: [table.blockerId, table.blockedId],
+    }),
+    blockedIdx: index("forum_user_blocks_blocked_id_idx").on(table.blockedId),
+  })
+);
+
+export const forumUserMutes = pgTable(
+  "forum_user_mutes",
+  {
+    muterId: text("muter_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    mutedId: text("muted_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({
+      name: "forum_user_mutes_pk",
+      columns: [table.muterId, table.mutedId],
+    }),
+  })
+);
+
 export const forumTags = pgTable(
   "forum_tags",
   {
@@ -197,7 +399,7 @@ export const forumTags = pgTable(
     slug: varchar("slug", { length: 120 }).notNull(),
     displayName: varchar("display_name", { length: 120 }).notNull(),
     postCount: integer("post_count").notNull().default(0),
-    trendScore: integer("trend_score").notNull().default(0),
+    trendScore: doublePrecision("trend_score").notNull().default(0),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   },
@@ -227,6 +429,25 @@ export const forumPostTags = pgTable(
   })
 );
 
+export const forumTagMutes = pgTable(
+  "forum_tag_mutes",
+  {
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    tagId: text("tag_id")
+      .notNull()
+      .references(() => forumTags.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({
+      name: "forum_tag_mutes_pk",
+      columns: [table.userId, table.tagId],
+    }),
+  })
+);
+
 export const forumMentions = pgTable(
   "forum_mentions",
   {
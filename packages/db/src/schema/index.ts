@@ -1,5 +1,7 @@
 export * from "./api-keys";
 export * from "./auth";
 export * from "./forum";
+export * from "./organizations";
+export * from "./outbound-webhooks";
 export * from "./relations";
 export * from "./user-core";
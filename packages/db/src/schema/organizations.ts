@@ -0,0 +1,47 @@
+import { index, pgEnum, pgTable, primaryKey, text, timestamp, uniqueIndex, varchar } from "drizzle-orm/pg-core";
+
+import { users } from "./user-core";
+
+export const organizationMemberRoleEnum = pgEnum("organization_member_role", ["owner", "admin", "member"]);
+
+export const organizations = pgTable(
+  "organizations",
+  {
+    id: text("id").primaryKey(),
+    name: varchar("name", { length: 120 }).notNull(),
+    slug: varchar("slug", { length: 64 }).notNull(),
+    serviceAccountUserId: text("service_account_user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "restrict" }),
+    createdByUserId: text("created_by_user_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    slugUnique: uniqueIndex("organizations_slug_unique").on(table.slug),
+    serviceAccountUnique: uniqueIndex("organizations_service_account_unique").on(table.serviceAccountUserId),
+  })
+);
+
+export const organizationMembers = pgTable(
+  "organization_members",
+  {
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: organizationMemberRoleEnum("role").notNull().default("member"),
+    addedByUserId: text("added_by_user_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({
+      name: "organization_members_pk",
+      columns: [table.organizationId, table.userId],
+    }),
+    userIdx: index("organization_members_user_idx").on(table.userId),
+  })
+);
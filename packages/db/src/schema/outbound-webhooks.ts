@@ -0,0 +1,76 @@
+import { sql } from "drizzle-orm";
+import { index, integer, jsonb, pgEnum, pgTable, text, timestamp, uniqueIndex, varchar } from "drizzle-orm/pg-core";
+
+import { apiKeys } from "./api-keys";
+import { users } from "./user-core";
+
+export const outboundWebhookSubscriptionStatusEnum = pgEnum("outbound_webhook_subscription_status", [
+  "active",
+  "paused",
+]);
+export const outboundWebhookDeliveryStatusEnum = pgEnum("outbound_webhook_delivery_status", [
+  "pending",
+  "processing",
+  "delivered",
+  "failed",
+  "dead_letter",
+]);
+
+export const outboundWebhookSubscriptions = pgTable(
+  "outbound_webhook_subscriptions",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    apiKeyId: text("api_key_id").references(() => apiKeys.id, { onDelete: "set null" }),
+    url: text("url").notNull(),
+    description: varchar("description", { length: 255 }),
+    eventTypes: jsonb("event_types").notNull().default(sql`'[]'::jsonb`),
+    signingSecret: text("signing_secret").notNull(),
+    status: outboundWebhookSubscriptionStatusEnum("status").notNull().default("active"),
+    lastDeliveryAt: timestamp("last_delivery_at", { withTimezone: true }),
+    lastFailureAt: timestamp("last_failure_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    userIdx: index("outbound_webhook_subscriptions_user_id_idx").on(table.userId),
+    statusIdx: index("outbound_webhook_subscriptions_status_idx").on(table.status),
+  })
+);
+
+export const outboundWebhookDeliveries = pgTable(
+  "outbound_webhook_deliveries",
+  {
+    id: text("id").primaryKey(),
+    subscriptionId: text("subscription_id")
+      .notNull()
+      .references(() => outboundWebhookSubscriptions.id, { onDelete: "cascade" }),
+    eventType: varchar("event_type", { length: 64 }).notNull(),
+    dedupeKey: varchar("dedupe_key", { length: 255 }).notNull(),
+    payload: jsonb("payload").notNull().default(sql`'{}'::jsonb`),
+    status: outboundWebhookDeliveryStatusEnum("status").notNull().default("pending"),
+    attemptCount: integer("attempt_count").notNull().default(0),
+    responseStatus: integer("response_status"),
+    durationMs: integer("duration_ms"),
+    lastErrorCode: varchar("last_error_code", { length: 64 }),
+    lastErrorMessage: text("last_error_message"),
+    nextRetryAt: timestamp("next_retry_at", { withTimezone: true }),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+    deadLetteredAt: timestamp("dead_lettered_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    subscriptionCreatedIdx: index("outbound_webhook_deliveries_subscription_created_idx").on(
+      table.subscriptionId,
+      table.createdAt
+    ),
+    retryIdx: index("outbound_webhook_deliveries_retry_idx").on(table.status, table.nextRetryAt),
+    dedupeUnique: uniqueIndex("outbound_webhook_deliveries_subscription_dedupe_unique").on(
+      table.subscriptionId,
+      table.dedupeKey
+    ),
+  })
+);
@@ -2,12 +2,21 @@ import { relations } from "drizzle-orm";
 
 import { apiKeyAuditEvents, apiKeyRequestNonces, apiKeys } from "./api-keys";
 import { authAccounts, authSessions } from "./auth";
+import { organizationMembers, organizations } from "./organizations";
+import { outboundWebhookDeliveries, outboundWebhookSubscriptions } from "./outbound-webhooks";
 import {
   forumBookmarks,
+  forumCategories,
+  forumCategoryModerators,
+  forumCommentRevisions,
   forumComments,
   forumFollows,
   forumMentions,
   forumNotifications,
+  forumPollOptions,
+  forumPollVotes,
+  forumPolls,
+  forumPostRevisions,
   forumPostTags,
   forumPosts,
   forumReactions,
@@ -15,11 +24,27 @@ import {
   forumReplyDrafts,
   forumReports,
   forumShares,
+  forumTagMutes,
   forumTags,
+  forumUserBlocks,
+  forumUserMutes,
   profileExtended,
   profileMetrics,
 } from "./forum";
-import { ensIdentities, ensPurchaseIntents, ensWebhookEvents, profiles, users, wallets } from "./user-core";
+import {
+  ensExpiryReminders,
+  ensIdentities,
+  ensPurchaseIntents,
+  ensRenewalIntents,
+  ensSubnames,
+  ensTextRecords,
+  ensTransfers,
+  ensWebhookEvents,
+  profiles,
+  users,
+  walletAuditEvents,
+  wallets,
+} from "./user-core";
 
 export const usersRelations = relations(users, ({ one, many }) => ({
   profile: one(profiles, {
@@ -27,13 +52,23 @@ export const usersRelations = relations(users, ({ one, many }) => ({
     references: [profiles.userId],
   }),
   wallets: many(wallets),
+  walletAuditEvents: many(walletAuditEvents),
   ensIdentities: many(ensIdentities),
   ensPurchaseIntents: many(ensPurchaseIntents),
+  ensRenewalIntents: many(ensRenewalIntents),
+  issuedEnsSubnames: many(ensSubnames, { relationName: "ens_subname_issuer" }),
+  receivedEnsSubnames: many(ensSubnames, { relationName: "ens_subname_recipient" }),
+  sentEnsTransfers: many(ensTransfers, { relationName: "ens_transfer_sender" }),
+  receivedEnsTransfers: many(ensTransfers, { relationName: "ens_transfer_recipient" }),
   authAccounts: many(authAccounts),
   authSessions: many(authSessions),
   ownedApiKeys: many(apiKeys, { relationName: "api_key_owner" }),
   createdApiKeys: many(apiKeys, { relationName: "api_key_creator" }),
   apiKeyAuditEvents: many(apiKeyAuditEvents),
+  outboundWebhookSubscriptions: many(outboundWebhookSubscriptions),
+  serviceAccountOrganizations: many(organizations, { relationName: "organization_service_account" }),
+  createdOrganizations: many(organizations, { relationName: "organization_creator" }),
+  organizationMemberships: many(organizationMembers, { relationName: "organization_member_user" }),
   forumPosts: many(forumPosts),
   forumComments: many(forumComments),
   forumReactions: many(forumReactions),
@@ -44,6 +79,7 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   mentions: many(forumMentions),
   notifications: many(forumNotifications),
   reports: many(forumReports, { relationName: "reporter" }),
+  moderatedCategories: many(forumCategoryModerators),
   profileExtended: one(profileExtended, {
     fields: [users.id],
     references: [profileExtended.userId],
@@ -68,11 +104,86 @@ export const walletsRelations = relations(wallets, ({ one }) => ({
   }),
 }));
 
-export const ensIdentitiesRelations = relations(ensIdentities, ({ one }) => ({
+export const walletAuditEventsRelations = relations(walletAuditEvents, ({ one }) => ({
+  user: one(users, {
+    fields: [walletAuditEvents.userId],
+    references: [users.id],
+  }),
+}));
+
+export const ensIdentitiesRelations = relations(ensIdentities, ({ one, many }) => ({
   user: one(users, {
     fields: [ensIdentities.userId],
     references: [users.id],
   }),
+  textRecords: many(ensTextRecords),
+  subnames: many(ensSubnames),
+  transfers: many(ensTransfers),
+  renewalIntents: many(ensRenewalIntents),
+  expiryReminders: many(ensExpiryReminders),
+}));
+
+export const ensTextRecordsRelations = relations(ensTextRecords, ({ one }) => ({
+  identity: one(ensIdentities, {
+    fields: [ensTextRecords.identityId],
+    references: [ensIdentities.id],
+  }),
+}));
+
+export const ensSubnamesRelations = relations(ensSubnames, ({ one }) => ({
+  parentIdentity: one(ensIdentities, {
+    fields: [ensSubnames.parentIdentityId],
+    references: [ensIdentities.id],
+  }),
+  issuer: one(users, {
+    fields: [ensSubnames.issuerUserId],
+    references: [users.id],
+    relationName: "ens_subname_issuer",
+  }),
+  recipient: one(users, {
+    fields: [ensSubnames.recipientUserId],
+    references: [users.id],
+    relationName: "ens_subname_recipient",
+  }),
+}));
+
+export const ensTransfersRelations = relations(ensTransfers, ({ one }) => ({
+  identity: one(ensIdentities, {
+    fields: [ensTransfers.identityId],
+    references: [ensIdentities.id],
+  }),
+  sender: one(users, {
+    fields: [ensTransfers.senderUserId],
+    references: [users.id],
+    relationName: "ens_transfer_sender",
+  }),
+  recipient: one(users, {
+    fields: [ensTransfers.recipientUserId],
+    references: [users.id],
+    relationName: "ens_transfer_recipient",
+  }),
+}));
+
+export const ensRenewalIntentsRelations = relations(ensRenewalIntents, ({ one }) => ({
+  user: one(users, {
+    fields: [ensRenewalIntents.userId],
+    references: [users.id],
+  }),
+  identity: one(ensIdentities, {
+    fields: [ensRenewalIntents.identityId],
+    references: [ensIdentities.id],
+  }),
+}));
+
+export const ensExpiryRemindersRelations = relations(ensExpiryReminders, ({ one }) => ({
+  identity: one(ensIdentities, {
+    fields: [ensExpiryReminders.identityId],
+    references: [ensIdentities.id],
+  }),
+  user: one(users, {
+    fields: [ensExpiryReminders.userId],
+    references: [users.id],
+  }),
 }));
 
 export const ensPurchaseIntentsRelations = relations(ensPurchaseIntents, ({ one, many }) => ({
@@ -90,11 +201,42 @@ export const ensWebhookEventsRelations = relations(ensWebhookEvents, ({ one }) =
   }),
 }));
 
+export const forumCategoriesRelations = relations(forumCategories, ({ one, many }) => ({
+  parent: one(forumCategories, {
+    fields: [forumCategories.parentId],
+    references: [forumCategories.id],
+    relationName: "category_parent",
+  }),
+  children: many(forumCategories, { relationName: "category_parent" }),
+  moderators: many(forumCategoryModerators),
+  posts: many(forumPosts),
+}));
+
+export const forumCategoryModeratorsRelations = relations(forumCategoryModerators, ({ one }) => ({
+  category: one(forumCategories, {
+    fields: [forumCategoryModerators.categoryId],
+    references: [forumCategories.id],
+  }),
+  user: one(users, {
+    fields: [forumCategoryModerators.userId],
+    references: [users.id],
+  }),
+}));
+
 export const forumPostsRelations = relations(forumPosts, ({ one, many }) => ({
   author: one(users, {
     fields: [forumPosts.authorId],
     references: [users.id],
   }),
+  category: one(forumCategories, {
+    fields: [forumPosts.categoryId],
+    references: [forumCategories.id],
+  }),
+  acceptedComment: one(forumComments, {
+    fields: [forumPosts.acceptedCommentId],
+    references: [forumComments.id],
+    relationName: "acceptedComment",
+  }),
   comments: many(forumComments),
   reactions: many(forumReactions),
   shares: many(forumShares),
@@ -105,6 +247,8 @@ export const forumPostsRelations = relations(forumPosts, ({ one, many }) => ({
   replyDrafts: many(forumReplyDrafts),
   reports: many(forumReports),
   notifications: many(forumNotifications),
+  revisions: many(forumPostRevisions),
+  poll: one(forumPolls),
 }));
 
 export const forumCommentsRelations = relations(forumComments, ({ one, many }) => ({
@@ -130,6 +274,65 @@ export const forumCommentsRelations = relations(forumComments, ({ one, many }) =
   replyDrafts: many(forumReplyDrafts),
   reports: many(forumReports),
   notifications: many(forumNotifications),
+  revisions: many(forumCommentRevisions),
+}));
+
+export const forumPollsRelations = relations(forumPolls, ({ one, many }) => ({
+  post: one(forumPosts, {
+    fields: [forumPolls.postId],
+    references: [forumPosts.id],
+  }),
+  options: many(forumPollOptions),
+  votes: many(forumPollVotes),
+}));
+
+export const forumPollOptionsRelations = relations(forumPollOptions, ({ one, many }) => ({
+  poll: one(forumPolls, {
+    fields: [forumPollOptions.pollId],
+    references: [forumPolls.id],
+  }),
+  votes: many(forumPollVotes),
+}));
+
+export const forumPollVotesRelations = relations(forumPollVotes, ({ one }) => ({
+  poll: one(forumPolls, {
+    fields: [forumPollVotes.pollId],
+    references: [forumPolls.id],
+  }),
+  option: one(forumPollOptions, {
+    fields: [forumPollVotes.optionId],
+    references: [forumPollOptions.id],
+  }),
+  user: one(users, {
+    fields: [forumPollVotes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const forumPostRevisionsRelations = relations(forumPostRevisions, ({ one }) => ({
+  post: one(forumPosts, {
+    fields: [forumPostRevisions.postId],
+    references: [forumPosts.id],
+  }),
+  editor: one(users, {
+    fields: [forumPostRevisions.editorUserId],
+    references: [users.id],
+  }),
+}));
+
+export const forumCommentRevisionsRelations = relations(forumCommentRevisions, ({ one }) => ({
+  comment: one(forumComments, {
+    fields: [forumCommentRevisions.commentId],
+    references: [forumComments.id],
+  }),
+  post: one(forumPosts, {
+    fields: [forumCommentRevisions.postId],
+    references: [forumPosts.id],
+  }),
+  editor: one(users, {
+    fields: [forumCommentRevisions.editorUserId],
+    references: [users.id],
+  }),
 }));
 
 export const forumReactionsRelations = relations(forumReactions, ({ one }) => ({
@@ -182,6 +385,39 @@ export const forumFollowsRelations = relations(forumFollows, ({ one }) => ({
   }),
 }));
 
+export const forumUserBlocksRelations = relations(forumUserBlocks, ({ one }) => ({
+  blocker: one(users, {
+    fields: [forumUserBlocks.blockerId],
+    references: [users.id],
+  }),
+  blocked: one(users, {
+    fields: [forumUserBlocks.blockedId],
+    references: [users.id],
+  }),
+}));
+
+export const forumUserMutesRelations = relations(forumUserMutes, ({ one }) => ({
+  muter: one(users, {
+    fields: [forumUserMutes.muterId],
+    references: [users.id],
+  }),
+  muted: one(users, {
+    fields: [forumUserMutes.mutedId],
+    references: [users.id],
+  }),
+}));
+
+export const forumTagMutesRelations = relations(forumTagMutes, ({ one }) => ({
+  user: one(users, {
+    fields: [forumTagMutes.userId],
+    references: [users.id],
+  }),
+  tag: one(forumTags, {
+    fields: [forumTagMutes.tagId],
+    references: [forumTags.id],
+  }),
+}));
+
 export const forumTagsRelations = relations(forumTags, ({ many }) => ({
   postTags: many(forumPostTags),
 }));
@@ -332,8 +568,13 @@ export const apiKeysRelations = relations(apiKeys, ({ one, many }) => ({
   rotatedTo: many(apiKeys, {
     relationName: "api_key_rotation",
   }),
+  organization: one(organizations, {
+    fields: [apiKeys.organizationId],
+    references: [organizations.id],
+  }),
   auditEvents: many(apiKeyAuditEvents),
   requestNonces: many(apiKeyRequestNonces),
+  outboundWebhookSubscriptions: many(outboundWebhookSubscriptions),
 }));
 
 export const apiKeyAuditEventsRelations = relations(apiKeyAuditEvents, ({ one }) => ({
@@ -353,3 +594,49 @@ export const apiKeyRequestNoncesRelations = relations(apiKeyRequestNonces, ({ on
     references: [apiKeys.id],
   }),
 }));
+
+export const outboundWebhookSubscriptionsRelations = relations(outboundWebhookSubscriptions, ({ one, many }) => ({
+  user: one(users, {
+    fields: [outboundWebhookSubscriptions.userId],
+    references: [users.id],
+  }),
+  apiKey: one(apiKeys, {
+    fields: [outboundWebhookSubscriptions.apiKeyId],
+    references: [apiKeys.id],
+  }),
+  deliveries: many(outboundWebhookDeliveries),
+}));
+
+export const outboundWebhookDeliveriesRelations = relations(outboundWebhookDeliveries, ({ one }) => ({
+  subscription: one(outboundWebhookSubscriptions, {
+    fields: [outboundWebhookDeliveries.subscriptionId],
+    references: [outboundWebhookSubscriptions.id],
+  }),
+}));
+
+export const organizationsRelations = relations(organizations, ({ one, many }) => ({
+  serviceAccount: one(users, {
+    fields: [organizations.serviceAccountUserId],
+    references: [users.id],
+    relationName: "organization_service_account",
+  }),
+  createdBy: one(users, {
+    fields: [organizations.createdByUserId],
+    references: [users.id],
+    relationName: "organization_creator",
+  }),
+  members: many(organizationMembers),
+  apiKeys: many(apiKeys),
+}));
+
+export const organizationMembersRelations = relations(organizationMembers, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationMembers.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [organizationMembers.userId],
+    references: [users.id],
+    relationName: "organization_member_user",
+  }),
+}));
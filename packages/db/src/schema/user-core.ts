@@ -1,11 +1,13 @@
 import { sql } from "drizzle-orm";
 import {
+  bigint,
   boolean,
   index,
   integer,
   jsonb,
   pgEnum,
   pgTable,
+  primaryKey,
   text,
   timestamp,
   uniqueIndex,
@@ -24,6 +26,23 @@ export const ensPurchaseIntentStatusEnum = pgEnum("ens_purchase_intent_status",
   "failed",
   "cancelled",
 ]);
+export const ensTransferStatusEnum = pgEnum("ens_transfer_status", [
+  "prepared",
+  "submitted",
+  "completed",
+  "failed",
+  "cancelled",
+]);
+export const ensRenewalIntentStatusEnum = pgEnum("ens_renewal_intent_status", [
+  "prepared",
+  "submitted",
+  "renewed",
+  "failed",
+  "cancelled",
+]);
+export const ensExpiryReminderWindowEnum = pgEnum("ens_expiry_reminder_window", ["30d", "7d", "1d", "grace"]);
+export const walletAuditActionEnum = pgEnum("wallet_audit_action", ["linked", "unlinked", "primary_changed"]);
+export const walletAuditOutcomeEnum = pgEnum("wallet_audit_outcome", ["success", "denied"]);
 export const ensWebhookEventStatusEnum = pgEnum("ens_webhook_event_status", [
   "processing",
   "processed",
@@ -77,7 +96,7 @@ export const wallets = pgTable(
       .references(() => users.id, { onDelete: "cascade" }),
     chainId: integer("chain_id").notNull(),
     address: varchar("address", { length: 42 }).notNull(),
-    walletType: varchar("wallet_type", { length: 24 }).notNull().default("evm"),
+    walletType: varchar("wallet_type", { length: 24 }).notNull().default("eoa"),
     isPrimary: boolean("is_primary").notNull().default(false),
     verifiedAt: timestamp("verified_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
@@ -90,6 +109,30 @@ export const wallets = pgTable(
   })
 );
 
+export const walletAuditEvents = pgTable(
+  "wallet_audit_events",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    walletId: text("wallet_id"),
+    chainId: integer("chain_id"),
+    address: varchar("address", { length: 42 }),
+    action: walletAuditActionEnum("action").notNull(),
+    outcome: walletAuditOutcomeEnum("outcome").notNull(),
+    stepUpMethod: varchar("step_up_method", { length: 24 }),
+    reasonCode: varchar("reason_code", { length: 64 }),
+    ipAddress: varchar("ip_address", { length: 64 }),
+    userAgent: text("user_agent"),
+    metadata: jsonb("metadata").notNull().default(sql`'{}'::jsonb`),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    userCreatedIdx: index("wallet_audit_events_user_created_idx").on(table.userId, table.createdAt),
+  })
+);
+
 export const ensIdentities = pgTable(
   "ens_identities",
   {
@@ -113,6 +156,9 @@ export const ensIdentities = pgTable(
     expiresAt: timestamp("expires_at", { withTimezone: true }),
     registeredAt: timestamp("registered_at", { withTimezone: true }),
     claimedAt: timestamp("claimed_at", { withTimezone: true }),
+    addressRecord: varchar("address_record", { length: 42 }),
+    recordsSyncedAt: timestamp("records_synced_at", { withTimezone: true }),
+    reverseRecordVerifiedAt: timestamp("reverse_record_verified_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   },
@@ -126,6 +172,175 @@ export const ensIdentities = pgTable(
   })
 );
 
+export const ensTextRecords = pgTable(
+  "ens_text_records",
+  {
+    identityId: text("identity_id")
+      .notNull()
+      .references(() => ensIdentities.id, { onDelete: "cascade" }),
+    key: varchar("key", { length: 64 }).notNull(),
+    value: text("value").notNull(),
+    syncedAt: timestamp("synced_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({
+      name: "ens_text_records_pk",
+      columns: [table.identityId, table.key],
+    }),
+  })
+);
+
+export const ensSubnames = pgTable(
+  "ens_subnames",
+  {
+    id: text("id").primaryKey(),
+    parentIdentityId: text("parent_identity_id")
+      .notNull()
+      .references(() => ensIdentities.id, { onDelete: "cascade" }),
+    issuerUserId: text("issuer_user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    recipientUserId: text("recipient_user_id").references(() => users.id, { onDelete: "set null" }),
+    label: varchar("label", { length: 63 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    node: varchar("node", { length: 66 }).notNull(),
+    ownerAddress: varchar("owner_address", { length: 42 }).notNull(),
+    resolverAddress: varchar("resolver_address", { length: 42 }).notNull(),
+    contractAddress: varchar("contract_address", { length: 42 }).notNull(),
+    wrapped: boolean("wrapped").notNull().default(false),
+    status: ensStatusEnum("status").notNull().default("pending"),
+    issueTxHash: varchar("issue_tx_hash", { length: 66 }),
+    revokeTxHash: varchar("revoke_tx_hash", { length: 66 }),
+    issuedAt: timestamp("issued_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    parentIdx: index("ens_subnames_parent_identity_id_idx").on(table.parentIdentityId),
+    recipientIdx: index("ens_subnames_recipient_user_id_idx").on(table.recipientUserId),
+    nameUnique: uniqueIndex("ens_subnames_name_unique").on(table.name),
+    statusIdx: index("ens_subnames_status_idx").on(table.status),
+  })
+);
+
+export const ensTransfers = pgTable(
+  "ens_transfers",
+  {
+    id: text("id").primaryKey(),
+    identityId: text("identity_id")
+      .notNull()
+      .references(() => ensIdentities.id, { onDelete: "cascade" }),
+    senderUserId: text("sender_user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    recipientUserId: text("recipient_user_id").references(() => users.id, { onDelete: "set null" }),
+    chainId: integer("chain_id").notNull(),
+    registrarAddress: varchar("registrar_address", { length: 42 }).notNull(),
+    tokenId: text("token_id").notNull(),
+    fromAddress: varchar("from_address", { length: 42 }).notNull(),
+    toAddress: varchar("to_address", { length: 42 }).notNull(),
+    txHash: varchar("tx_hash", { length: 66 }),
+    status: ensTransferStatusEnum("status").notNull().default("prepared"),
+    failureReason: text("failure_reason"),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    identityIdx: index("ens_transfers_identity_id_idx").on(table.identityId),
+    senderIdx: index("ens_transfers_sender_user_id_idx").on(table.senderUserId),
+    statusIdx: index("ens_transfers_status_idx").on(table.status, table.updatedAt),
+    txHashUnique: uniqueIndex("ens_transfers_tx_hash_unique").on(table.txHash),
+  })
+);
+
+export const ensRenewalIntents = pgTable(
+  "ens_renewal_intents",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    identityId: text("identity_id")
+      .notNull()
+      .references(() => ensIdentities.id, { onDelete: "cascade" }),
+    chainId: integer("chain_id").notNull(),
+    domainName: varchar("domain_name", { length: 255 }).notNull(),
+    label: varchar("label", { length: 255 }).notNull(),
+    controllerAddress: varchar("controller_address", { length: 42 }).notNull(),
+    baseRegistrarAddress: varchar("base_registrar_address", { length: 42 }).notNull(),
+    durationSeconds: integer("duration_seconds").notNull(),
+    valueWei: text("value_wei").notNull(),
+    referrer: varchar("referrer", { length: 66 }).notNull(),
+    txHash: varchar("tx_hash", { length: 66 }),
+    previousExpiresAt: timestamp("previous_expires_at", { withTimezone: true }),
+    renewedExpiresAt: timestamp("renewed_expires_at", { withTimezone: true }),
+    status: ensRenewalIntentStatusEnum("status").notNull().default("prepared"),
+    failureReason: text("failure_reason"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    userIdx: index("ens_renewal_intents_user_id_idx").on(table.userId),
+    identityIdx: index("ens_renewal_intents_identity_id_idx").on(table.identityId),
+    statusIdx: index("ens_renewal_intents_status_idx").on(table.status, table.updatedAt),
+    txHashUnique: uniqueIndex("ens_renewal_intents_tx_hash_unique").on(table.txHash),
+  })
+);
+
+export const ensExpiryReminders = pgTable(
+  "ens_expiry_reminders",
+  {
+    identityId: text("identity_id")
+      .notNull()
+      .references(() => ensIdentities.id, { onDelete: "cascade" }),
+    window: ensExpiryReminderWindowEnum("window").notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    emailSentAt: timestamp("email_sent_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({
+      name: "ens_expiry_reminders_pk",
+      columns: [table.identityId, table.window, table.expiresAt],
+    }),
+  })
+);
+
+export const ensIndexerCheckpoints = pgTable("ens_indexer_checkpoints", {
+  chainId: integer("chain_id").primaryKey(),
+  blockNumber: bigint("block_number", { mode: "number" }).notNull(),
+  blockHash: varchar("block_hash", { length: 66 }).notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export const ensChainEvents = pgTable(
+  "ens_chain_events",
+  {
+    id: text("id").primaryKey(),
+    chainId: integer("chain_id").notNull(),
+    blockNumber: bigint("block_number", { mode: "number" }).notNull(),
+    blockHash: varchar("block_hash", { length: 66 }).notNull(),
+    txHash: varchar("tx_hash", { length: 66 }).notNull(),
+    logIndex: integer("log_index").notNull(),
+    contractAddress: varchar("contract_address", { length: 42 }).notNull(),
+    eventName: varchar("event_name", { length: 64 }).notNull(),
+    tld: varchar("tld", { length: 64 }),
+    node: varchar("node", { length: 66 }),
+    args: jsonb("args").notNull().default(sql`'{}'::jsonb`),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    logUnique: uniqueIndex("ens_chain_events_log_unique").on(table.chainId, table.txHash, table.logIndex),
+    blockIdx: index("ens_chain_events_block_idx").on(table.chainId, table.blockNumber),
+    nodeIdx: index("ens_chain_events_node_idx").on(table.node),
+  })
+);
+
 export const ensPurchaseIntents = pgTable(
   "ens_purchase_intents",
   {